@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "scheduled_jobs" ADD COLUMN     "dispatchedAt" TIMESTAMP(3),
+ADD COLUMN     "payload" JSONB;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "PublishAttemptState" AS ENUM ('PENDING', 'IN_FLIGHT', 'SUCCEEDED', 'UNCERTAIN', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "post_platforms" ADD COLUMN     "idempotencyKey" TEXT;
+
+-- Backfill keys for existing targets
+UPDATE "post_platforms" SET "idempotencyKey" = gen_random_uuid()::text WHERE "idempotencyKey" IS NULL;
+
+ALTER TABLE "post_platforms" ALTER COLUMN "idempotencyKey" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "publish_attempts" (
+    "id" TEXT NOT NULL,
+    "postPlatformId" TEXT NOT NULL,
+    "idempotencyKey" TEXT NOT NULL,
+    "attemptNumber" INTEGER NOT NULL,
+    "state" "PublishAttemptState" NOT NULL DEFAULT 'PENDING',
+    "platformPostId" TEXT,
+    "platformPostUrl" TEXT,
+    "providerResponse" JSONB,
+    "errorMessage" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "publish_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_platforms_idempotencyKey_key" ON "post_platforms"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "publish_attempts_postPlatformId_idx" ON "publish_attempts"("postPlatformId");
+
+-- CreateIndex
+CREATE INDEX "publish_attempts_state_idx" ON "publish_attempts"("state");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "publish_attempts_postPlatformId_attemptNumber_key" ON "publish_attempts"("postPlatformId", "attemptNumber");
+
+-- AddForeignKey
+ALTER TABLE "publish_attempts" ADD CONSTRAINT "publish_attempts_postPlatformId_fkey" FOREIGN KEY ("postPlatformId") REFERENCES "post_platforms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "post_platforms" ADD COLUMN     "lastErrorCode" TEXT,
+ADD COLUMN     "nextRetryAt" TIMESTAMP(3),
+ADD COLUMN     "retryDecision" TEXT;
+
+-- AlterTable
+ALTER TABLE "publish_attempts" ADD COLUMN     "errorCode" TEXT,
+ADD COLUMN     "retryDecision" TEXT;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'POST_RECOVERED';
+
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "claimedAt" TIMESTAMP(3);
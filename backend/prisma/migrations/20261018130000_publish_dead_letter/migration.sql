@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "scheduled_jobs" ADD COLUMN     "deadLetteredAt" TIMESTAMP(3),
+ADD COLUMN     "errorHistory" JSONB;
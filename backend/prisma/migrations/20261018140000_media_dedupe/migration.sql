@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "media_files" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "missingSince" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "media_files_userId_contentHash_key" ON "media_files"("userId", "contentHash");
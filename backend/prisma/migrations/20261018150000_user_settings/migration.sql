@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "user_settings" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "defaultPlatformIds" TEXT[],
+    "defaultPostTime" TEXT NOT NULL DEFAULT '09:00',
+    "quietHoursStart" TEXT,
+    "quietHoursEnd" TEXT,
+    "aiDefaultModel" TEXT,
+    "notifyOnPublishFailure" BOOLEAN NOT NULL DEFAULT true,
+    "notifyOnPublishSuccess" BOOLEAN NOT NULL DEFAULT false,
+    "notifyOnTokenExpiry" BOOLEAN NOT NULL DEFAULT true,
+    "shortenLinks" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_settings_userId_key" ON "user_settings"("userId");
+
+-- AddForeignKey
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "recurringScheduleId" TEXT,
+ADD COLUMN "occurrenceAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "recurring_schedules" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "templatePostId" TEXT NOT NULL,
+    "rrule" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "materializedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recurring_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "posts_recurringScheduleId_occurrenceAt_key" ON "posts"("recurringScheduleId", "occurrenceAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recurring_schedules_templatePostId_key" ON "recurring_schedules"("templatePostId");
+
+-- CreateIndex
+CREATE INDEX "recurring_schedules_userId_idx" ON "recurring_schedules"("userId");
+
+-- CreateIndex
+CREATE INDEX "recurring_schedules_isActive_materializedUntil_idx" ON "recurring_schedules"("isActive", "materializedUntil");
+
+-- AddForeignKey
+ALTER TABLE "posts" ADD CONSTRAINT "posts_recurringScheduleId_fkey" FOREIGN KEY ("recurringScheduleId") REFERENCES "recurring_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_schedules" ADD CONSTRAINT "recurring_schedules_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_schedules" ADD CONSTRAINT "recurring_schedules_templatePostId_fkey" FOREIGN KEY ("templatePostId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN "queued" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "posting_slots" (
+    "id" TEXT NOT NULL,
+    "platformId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "time" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "posting_slots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "posting_slots_platformId_weekday_time_key" ON "posting_slots"("platformId", "weekday", "time");
+
+-- AddForeignKey
+ALTER TABLE "posting_slots" ADD CONSTRAINT "posting_slots_platformId_fkey" FOREIGN KEY ("platformId") REFERENCES "platforms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "user_settings" ADD COLUMN "conflictGapMinutes" INTEGER NOT NULL DEFAULT 30;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "post_platforms" ADD COLUMN "retryBudgetFrom" INTEGER NOT NULL DEFAULT 0;
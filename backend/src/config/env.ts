@@ -3,11 +3,15 @@ import { z } from 'zod';
 // Helper for optional URL that treats empty string as undefined
 const optionalUrl = z.string().optional().transform(val => val === '' || val === undefined ? undefined : val).pipe(z.string().url().optional());
 const optionalString = z.string().optional().transform(val => val === '' || val === undefined ? undefined : val).pipe(z.string().optional());
+// Helper for API base URLs: empty string falls back to the default, trailing slashes are dropped
+const baseUrl = (defaultUrl: string) => z.string().optional().transform(val => (val || defaultUrl).replace(/\/+$/, '')).pipe(z.string().url());
 
 const envSchema = z.object({
   // Server
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().default('3001').transform(Number),
+  WORKER_HEALTH_PORT: z.string().default('3002').transform(Number), // Worker's /health, /ready and /metrics
+  METRICS_TOKEN: optionalString, // Bearer token for /metrics; loopback only when unset
   
   // Database
   DATABASE_URL: z.string().url(),
@@ -34,6 +38,9 @@ const envSchema = z.object({
   // Twitter media upload (requires X API Pro tier - $5000/month)
   // Set to 'true' only if you have a paid X API subscription
   TWITTER_MEDIA_UPLOAD_ENABLED: z.string().transform(val => val === 'true').default('false'),
+  // API hosts, overridable to point at the mock provider server
+  TWITTER_API_BASE_URL: baseUrl('https://api.twitter.com'),
+  TWITTER_UPLOAD_BASE_URL: baseUrl('https://api.x.com'),
   
   // OAuth - LinkedIn
   LINKEDIN_CLIENT_ID: optionalString,
@@ -44,6 +51,7 @@ const envSchema = z.object({
   FACEBOOK_APP_ID: optionalString,
   FACEBOOK_APP_SECRET: optionalString,
   FACEBOOK_CALLBACK_URL: optionalUrl,
+  FACEBOOK_GRAPH_BASE_URL: baseUrl('https://graph.facebook.com'),
   
   // OAuth - Instagram (uses Facebook)
   INSTAGRAM_CALLBACK_URL: optionalUrl,
@@ -65,8 +73,34 @@ const envSchema = z.object({
   MEDIA_MAX_VIDEO_SIZE: z.string().default('524288000').transform(Number), // 500 MB
   MEDIA_MAX_USER_STORAGE: z.string().default('10737418240').transform(Number), // 10 GB per user
   MEDIA_BASE_URL: optionalString, // Optional CDN URL
+  MEDIA_CACHE_PATH: optionalString, // Thumbnails and provider renditions; defaults to <uploads>/.cache
+  // Signed links that let providers fetch a single media file without a session
+  MEDIA_PUBLIC_BASE_URL: optionalUrl, // Where providers can reach /public; defaults to CORS_ORIGIN
+  MEDIA_URL_SECRET: optionalString, // Derived from SESSION_SECRET when unset
+  MEDIA_URL_TTL_SECONDS: z.string().default('900').transform(Number), // 15 minutes
+  MEDIA_GC_GRACE_HOURS: z.string().default('24').transform(Number), // Before orphaned files and rows are deleted
   
-  // OpenAI
+  // Publishing
+  PROVIDER_HTTP_TIMEOUT_MS: z.string().default('30000').transform(Number),
+  PUBLISH_MAX_ATTEMPTS: z.string().default('5').transform(Number),
+  PUBLISH_RETRY_BASE_DELAY_MS: z.string().default('30000').transform(Number), // 30 seconds
+  PUBLISH_RETRY_MAX_DELAY_MS: z.string().default('1800000').transform(Number), // 30 minutes
+  PUBLISH_CLAIM_LEASE_MS: z.string().default('900000').transform(Number), // 15 minutes
+  RECURRING_HORIZON_DAYS: z.string().default('14').transform(Number), // How far ahead series become posts
+  PROVIDER_STATE_OVERRIDES: optionalString, // e.g. "LINKEDIN=enabled,YOUTUBE=disabled"
+  
+  // Link previews
+  LINK_PREVIEW_TIMEOUT_MS: z.string().default('5000').transform(Number),
+  LINK_PREVIEW_MAX_BYTES: z.string().default('524288').transform(Number), // 512 KB; the <head> is what matters
+  LINK_PREVIEW_CACHE_SECONDS: z.string().default('21600').transform(Number), // 6 hours
+  
+  // AI assistant
+  LLM_PROVIDER: z.enum(['openai', 'openai-compatible', 'fake']).default('openai'),
+  LLM_BASE_URL: optionalUrl, // Required for openai-compatible, e.g. http://localhost:11434/v1
+  LLM_API_KEY: optionalString, // Falls back to OPENAI_API_KEY for openai only
+  LLM_AUTH_HEADER: z.string().default('Authorization'), // Other headers get the raw key, e.g. api-key
+  LLM_DEFAULT_MODEL: optionalString, // Falls back to OPENAI_DEFAULT_MODEL
+  LLM_AVAILABLE_MODELS: optionalString, // Falls back to OPENAI_AVAILABLE_MODELS
   OPENAI_API_KEY: optionalString,
   OPENAI_DEFAULT_MODEL: z.string().default('gpt-4o-mini'),
   OPENAI_AVAILABLE_MODELS: z.string().default('gpt-4o,gpt-4o-mini,gpt-3.5-turbo'),
@@ -15,6 +15,7 @@ import { requestLogger } from './middleware/requestLogger.js';
 
 // Route imports
 import { healthRouter } from './routes/health.js';
+import { metricsHandler } from './lib/metrics.js';
 import { authRouter } from './routes/auth.js';
 import { publicRouter } from './routes/public.js';
 import { apiRouter } from './routes/api/index.js';
@@ -56,6 +57,8 @@ const generalLimiter = rateLimit({
   message: { error: 'Too many requests, please try again later' },
   standardHeaders: true,
   legacyHeaders: false,
+  // Signed media links have their own, much higher limit
+  skip: (req) => req.path.startsWith('/public/media/'),
 });
 app.use(generalLimiter);
 
@@ -118,6 +121,9 @@ app.use(requestLogger);
 // Health check (no auth required)
 app.use('/health', healthRouter);
 
+// Prometheus metrics (bearer token, or loopback only)
+app.get('/metrics', metricsHandler);
+
 // Public routes (OAuth callbacks, etc.)
 app.use('/public', publicRouter);
 
@@ -0,0 +1,199 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { env } from '../config/env.js';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { mediaService } from '../services/media.service.js';
+import { resolveMediaPath } from '../services/providers/shared.js';
+
+const UPLOADS_PREFIX = 'uploads:';
+const BATCH_SIZE = 200;
+
+export interface MediaGcResult {
+  filesDeleted: number;
+  rowsMarked: number;
+  rowsDeleted: number;
+  hashesBackfilled: number;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Every file under the uploads folder, as paths relative to it. Hidden
+ * directories (the image cache) are skipped.
+ */
+async function listUploadedFiles(root: string, relativeDir = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(root, relativeDir), { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listUploadedFiles(root, relativePath)));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Delete uploaded files no MediaFile row points at, once they are older than
+ * the grace period. Covers abandoned temp files and files whose rows were deleted.
+ */
+async function deleteOrphanedFiles(cutoff: Date): Promise<number> {
+  const root = mediaService.getUploadsRoot();
+  const files = await listUploadedFiles(root);
+  let deleted = 0;
+
+  for (let i = 0; i < files.length; i += BATCH_SIZE) {
+    const batch = files.slice(i, i + BATCH_SIZE);
+    const referenced = await prisma.mediaFile.findMany({
+      where: { storagePath: { in: batch.map(file => `${UPLOADS_PREFIX}${file}`) } },
+      select: { storagePath: true },
+    });
+    const referencedPaths = new Set(referenced.map(row => row.storagePath.slice(UPLOADS_PREFIX.length)));
+
+    for (const file of batch) {
+      if (referencedPaths.has(file)) continue;
+
+      const absolutePath = path.join(root, file);
+      try {
+        // Uploads are moved into place before their row is created
+        const stats = await fs.stat(absolutePath);
+        if (stats.mtime > cutoff) continue;
+
+        await fs.unlink(absolutePath);
+        deleted++;
+        logger.info({ path: file, size: stats.size }, 'Deleted orphaned upload');
+      } catch (error) {
+        logger.warn({ error, path: file }, 'Failed to delete orphaned upload');
+      }
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Mark upload rows whose file is gone, and delete them once they have been
+ * missing for the grace period. Rows that posts still reference are kept so
+ * the posts can report the missing media.
+ */
+async function collectOrphanedRows(cutoff: Date): Promise<{ marked: number; deleted: number }> {
+  let marked = 0;
+  let deleted = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const rows = await prisma.mediaFile.findMany({
+      where: { storagePath: { startsWith: UPLOADS_PREFIX } },
+      select: { id: true, storagePath: true, missingSince: true, _count: { select: { posts: true } } },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (rows.length === 0) break;
+    cursor = rows[rows.length - 1]?.id;
+
+    for (const row of rows) {
+      const relativePath = row.storagePath.slice(UPLOADS_PREFIX.length);
+      const present = await exists(path.join(mediaService.getUploadsRoot(), relativePath));
+
+      if (present) {
+        if (row.missingSince) {
+          await prisma.mediaFile.update({ where: { id: row.id }, data: { missingSince: null } });
+        }
+        continue;
+      }
+
+      if (!row.missingSince) {
+        await prisma.mediaFile.update({ where: { id: row.id }, data: { missingSince: new Date() } });
+        marked++;
+        continue;
+      }
+
+      if (row.missingSince > cutoff) continue;
+
+      if (row._count.posts > 0) {
+        logger.warn({ mediaFileId: row.id, posts: row._count.posts }, 'Media file is missing but still used by posts');
+        continue;
+      }
+
+      await prisma.mediaFile.delete({ where: { id: row.id } });
+      deleted++;
+      logger.info({ mediaFileId: row.id, storagePath: row.storagePath }, 'Deleted media row with missing file');
+    }
+  }
+
+  return { marked, deleted };
+}
+
+/**
+ * Record the content hash of rows created before uploads were deduplicated,
+ * so new uploads of the same content find them. A row whose content another
+ * row of the same user already has keeps a null hash; both stay usable. Each
+ * row is marked as checked, so duplicates aren't hashed again on every run.
+ */
+async function backfillContentHashes(): Promise<number> {
+  let backfilled = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const rows = await prisma.mediaFile.findMany({
+      where: { contentHash: null, hashCheckedAt: null, missingSince: null },
+      select: { id: true, storagePath: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (rows.length === 0) break;
+    cursor = rows[rows.length - 1]?.id;
+
+    for (const row of rows) {
+      const absolutePath = resolveMediaPath(row.storagePath);
+      if (!(await exists(absolutePath))) continue;
+
+      try {
+        const contentHash = await mediaService.hashFile(absolutePath);
+        await prisma.mediaFile.update({ where: { id: row.id }, data: { contentHash, hashCheckedAt: new Date() } });
+        backfilled++;
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          await prisma.mediaFile.update({ where: { id: row.id }, data: { hashCheckedAt: new Date() } });
+          logger.info({ mediaFileId: row.id }, 'Media row duplicates another row of the same user; hash left empty');
+          continue;
+        }
+        logger.warn({ error, mediaFileId: row.id }, 'Failed to backfill media content hash');
+      }
+    }
+  }
+
+  return backfilled;
+}
+
+/**
+ * Clean up uploads that no row references and rows whose file is gone, and
+ * hash rows that predate deduplication. Only the uploads folder is cleaned;
+ * the media folder belongs to the user.
+ */
+export async function collectOrphanedMedia(): Promise<MediaGcResult> {
+  const cutoff = new Date(Date.now() - env.MEDIA_GC_GRACE_HOURS * 60 * 60 * 1000);
+
+  const filesDeleted = await deleteOrphanedFiles(cutoff);
+  const { marked, deleted } = await collectOrphanedRows(cutoff);
+  const hashesBackfilled = await backfillContentHashes();
+
+  return { filesDeleted, rowsMarked: marked, rowsDeleted: deleted, hashesBackfilled };
+}
@@ -0,0 +1,266 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Job } from 'bullmq';
+import type { PrismaClient } from '@prisma/client';
+import { MockProviderServer } from '../mocks/providerServer.js';
+import type { MemoryPrisma } from '../test/memoryPrisma.js';
+import type { MemoryQueue } from '../test/memoryQueue.js';
+
+vi.mock('../lib/prisma.js', async () => {
+  const { MemoryPrisma } = await import('../test/memoryPrisma.js');
+  return { prisma: new MemoryPrisma() };
+});
+
+vi.mock('../config/queue.js', async () => {
+  const { MemoryQueue } = await import('../test/memoryQueue.js');
+  return { publishQueue: new MemoryQueue() };
+});
+
+vi.mock('../lib/redis.js', () => ({ redis: {} }));
+
+const USER_ID = 'user-1';
+const CONTENT = 'New on the blog: https://example.com/launch';
+
+const providers = new MockProviderServer();
+
+let db: PrismaClient;
+let queue: MemoryQueue;
+let scanAndEnqueueDuePosts: typeof import('./publish.job.js').scanAndEnqueueDuePosts;
+let processJob: typeof import('../worker.js').processJob;
+let publishService: typeof import('../services/publish.service.js').publishService;
+let encrypt: typeof import('../lib/encryption.js').encrypt;
+
+beforeAll(async () => {
+  const baseUrl = await providers.start();
+
+  // env.ts reads these when it's first imported
+  process.env.TWITTER_API_BASE_URL = `${baseUrl}/twitter`;
+  process.env.TWITTER_UPLOAD_BASE_URL = `${baseUrl}/twitter`;
+  process.env.FACEBOOK_GRAPH_BASE_URL = `${baseUrl}/facebook`;
+  process.env.PROVIDER_HTTP_TIMEOUT_MS = '2000';
+  process.env.PUBLISH_RETRY_BASE_DELAY_MS = '1';
+  process.env.PUBLISH_RETRY_MAX_DELAY_MS = '1';
+
+  ({ prisma: db } = await import('../lib/prisma.js'));
+  queue = (await import('../config/queue.js')).publishQueue as unknown as MemoryQueue;
+  ({ scanAndEnqueueDuePosts } = await import('./publish.job.js'));
+  ({ processJob } = await import('../worker.js'));
+  ({ publishService } = await import('../services/publish.service.js'));
+  ({ encrypt } = await import('../lib/encryption.js'));
+});
+
+afterAll(async () => {
+  await providers.stop();
+});
+
+beforeEach(() => {
+  providers.reset();
+  (db as unknown as MemoryPrisma).reset();
+  queue.drain();
+});
+
+async function seedPost(status: 'SCHEDULED' | 'DRAFT' = 'SCHEDULED') {
+  const twitter = await db.platform.create({
+    data: {
+      userId: USER_ID,
+      type: 'TWITTER',
+      name: '@mockuser',
+      platformUserId: '1000000001',
+      platformUsername: 'mockuser',
+      accessToken: encrypt('twitter-token'),
+    },
+  });
+  const facebook = await db.platform.create({
+    data: {
+      userId: USER_ID,
+      type: 'FACEBOOK',
+      name: 'Mock Page',
+      platformUserId: '3000000001',
+      accessToken: encrypt('page-token'),
+    },
+  });
+
+  const post = await db.post.create({
+    data: {
+      userId: USER_ID,
+      content: CONTENT,
+      status,
+      scheduledAt: new Date(Date.now() - 60_000),
+      platforms: {
+        create: [
+          { platformId: twitter.id, status },
+          { platformId: facebook.id, status, contentOverride: 'Facebook version https://example.com/launch' },
+        ],
+      },
+    },
+  });
+
+  return { post, twitter, facebook };
+}
+
+async function loadPost(postId: string) {
+  return db.post.findUnique({
+    where: { id: postId },
+    include: {
+      platforms: {
+        include: { platform: true, attempts: { orderBy: { attemptNumber: 'asc' } } },
+      },
+    },
+  });
+}
+
+async function runQueuedJobs(): Promise<Job[]> {
+  const jobs = queue.drain();
+  for (const job of jobs) {
+    await processJob(job);
+  }
+  return jobs;
+}
+
+function target<T extends { platform: { type: string } }>(targets: T[], type: string): T {
+  const found = targets.find(t => t.platform.type === type);
+  if (!found) throw new Error(`No ${type} target`);
+  return found;
+}
+
+describe('publish pipeline', () => {
+  it('claims a due post, queues it and publishes every target once', async () => {
+    const { post } = await seedPost();
+
+    expect(await scanAndEnqueueDuePosts()).toBe(1);
+    expect((await db.post.findUnique({ where: { id: post.id } }))?.status).toBe('PUBLISHING');
+
+    const outbox = await db.scheduledJob.findMany({ where: { entityId: post.id } });
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0]?.status).toBe('enqueued');
+    expect(queue.size).toBe(1);
+
+    const [job] = await runQueuedJobs();
+    expect(job?.name).toBe('publish');
+
+    const published = await loadPost(post.id);
+    expect(published?.status).toBe('PUBLISHED');
+    expect(published?.platforms.map(t => t.status)).toEqual(['PUBLISHED', 'PUBLISHED']);
+
+    for (const t of published?.platforms ?? []) {
+      expect(t.attempts).toHaveLength(1);
+      expect(t.attempts[0]).toMatchObject({ attemptNumber: 1, state: 'SUCCEEDED', idempotencyKey: t.idempotencyKey });
+    }
+
+    const twitterTarget = target(published?.platforms ?? [], 'TWITTER');
+    expect(twitterTarget.platformPostUrl).toMatch(/^https:\/\/twitter\.com\/mockuser\/status\//);
+
+    expect(providers.requests.map(r => r.endpoint)).toEqual(['twitter.tweets', 'facebook.feed']);
+    expect(providers.requests[0]?.body).toEqual({ text: CONTENT });
+    expect(providers.requests[1]?.body).toMatchObject({ message: 'Facebook version https://example.com/launch' });
+
+    expect((await db.scheduledJob.findFirst({ where: { jobId: job?.id ?? '' } }))?.status).toBe('completed');
+
+    // A second scan finds nothing left to claim
+    expect(await scanAndEnqueueDuePosts()).toBe(0);
+    expect(queue.size).toBe(0);
+  });
+
+  it('skips a job that runs again after its outbox row was completed', async () => {
+    await seedPost();
+    await scanAndEnqueueDuePosts();
+    const [job] = await runQueuedJobs();
+
+    // What a relay re-adding the jobId after BullMQ evicted the finished job leads to
+    expect(await processJob(job!)).toEqual({ superseded: true });
+
+    expect((await db.scheduledJob.findFirst({ where: { jobId: job?.id ?? '' } }))?.status).toBe('completed');
+    expect(providers.requests).toHaveLength(2);
+  });
+
+  it('retries a rate-limited target without posting the others again', async () => {
+    const { post } = await seedPost();
+    providers.script('twitter.tweets', [{ scenario: 'rate_limit', retryAfterSeconds: 0 }]);
+
+    await scanAndEnqueueDuePosts();
+    await runQueuedJobs();
+
+    const waiting = await loadPost(post.id);
+    expect(waiting?.status).toBe('PUBLISHING');
+    const rateLimited = target(waiting?.platforms ?? [], 'TWITTER');
+    expect(rateLimited).toMatchObject({
+      status: 'SCHEDULED',
+      lastErrorCode: 'PROVIDER_RATE_LIMITED',
+      retryDecision: 'retryable',
+    });
+    expect(rateLimited.attempts[0]).toMatchObject({ state: 'FAILED', errorCode: 'PROVIDER_RATE_LIMITED' });
+    expect(target(waiting?.platforms ?? [], 'FACEBOOK').status).toBe('PUBLISHED');
+
+    // The retry policy wrote an outbox row; the next scan relays it to the queue
+    expect(queue.size).toBe(0);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(await scanAndEnqueueDuePosts()).toBe(0);
+    expect(queue.size).toBe(1);
+    await runQueuedJobs();
+
+    const published = await loadPost(post.id);
+    expect(published?.status).toBe('PUBLISHED');
+    expect(target(published?.platforms ?? [], 'TWITTER').attempts.map(a => a.state)).toEqual(['FAILED', 'SUCCEEDED']);
+    expect(target(published?.platforms ?? [], 'FACEBOOK').attempts).toHaveLength(1);
+    expect(providers.requests.map(r => r.endpoint)).toEqual(['twitter.tweets', 'facebook.feed', 'twitter.tweets']);
+  });
+
+  it('dead-letters the job when a provider rejects a target for good', async () => {
+    const { post } = await seedPost();
+    providers.script('facebook.feed', [{ scenario: 'expired_token' }]);
+
+    await scanAndEnqueueDuePosts();
+    const [job] = await runQueuedJobs();
+
+    const settled = await loadPost(post.id);
+    expect(settled?.status).toBe('PARTIALLY_PUBLISHED');
+    expect(target(settled?.platforms ?? [], 'FACEBOOK')).toMatchObject({
+      status: 'FAILED',
+      lastErrorCode: 'PROVIDER_AUTH_EXPIRED',
+      retryDecision: 'terminal',
+    });
+
+    const entry = await db.scheduledJob.findFirst({ where: { jobId: job?.id ?? '' } });
+    expect(entry?.status).toBe('dead_letter');
+    expect(entry?.lastError).toContain('Publishing failed on 1 of 2 targets');
+    expect(queue.size).toBe(0);
+  });
+
+  it('publishes a draft right away and refuses a second run while it is in flight', async () => {
+    const { post } = await seedPost('DRAFT');
+
+    const results = await publishService.publishNow(USER_ID, post.id);
+    expect(results.every(r => r.success)).toBe(true);
+    expect((await loadPost(post.id))?.status).toBe('PUBLISHED');
+    expect(providers.requests).toHaveLength(2);
+
+    // Published posts can't be published again
+    await expect(publishService.publishNow(USER_ID, post.id)).rejects.toThrow();
+
+    await db.post.update({ where: { id: post.id }, data: { status: 'PUBLISHING' } });
+    await expect(publishService.publishNow(USER_ID, post.id)).rejects.toMatchObject({ statusCode: 409 });
+    expect(providers.requests).toHaveLength(2);
+  });
+
+  it('leaves a target alone while another run has an attempt in flight', async () => {
+    const { post } = await seedPost();
+    await db.post.update({ where: { id: post.id }, data: { status: 'PUBLISHING', claimedAt: new Date() } });
+
+    const twitterTarget = target((await loadPost(post.id))?.platforms ?? [], 'TWITTER');
+    await db.publishAttempt.create({
+      data: {
+        postPlatformId: twitterTarget.id,
+        idempotencyKey: twitterTarget.idempotencyKey,
+        attemptNumber: 1,
+        state: 'IN_FLIGHT',
+        startedAt: new Date(),
+      },
+    });
+
+    const results = await publishService.publishNow(USER_ID, post.id, { claimed: true });
+
+    expect(results.find(r => r.platformId === twitterTarget.platformId)).toMatchObject({ inProgress: true });
+    expect(providers.requests.map(r => r.endpoint)).toEqual(['facebook.feed']);
+    // The run holding the tweet settles the post
+    expect((await loadPost(post.id))?.status).toBe('PUBLISHING');
+  });
+});
@@ -1,16 +1,48 @@
+import { Prisma } from '@prisma/client';
 import { publishQueue } from '../config/queue.js';
 import { prisma } from '../lib/prisma.js';
 import { logger } from '../lib/logger.js';
+import { validateTargetContracts } from '../schemas/contentContract.schema.js';
 
 export interface PublishJobData {
   postId: string;
   userId: string;
 }
 
+export const PUBLISH_JOB_TYPE = 'publish_post';
+
+// Outbox rows whose post was taken over by recovery; their jobs must not run
+export const SUPERSEDED_JOB_STATUS = 'superseded';
+
+// Outbox rows whose job may still run; BullMQ retries a job after 'failed'
+const RUNNABLE_JOB_STATUSES = ['pending', 'enqueued', 'processing', 'failed'];
+
+/**
+ * Write a publish outbox row. Must be called inside the same transaction
+ * that moves the post to PUBLISHING so a claim is never left without a job.
+ */
+export async function createPublishOutboxEntry(
+  tx: Prisma.TransactionClient,
+  data: PublishJobData,
+  runAt: Date = new Date()
+) {
+  return tx.scheduledJob.create({
+    data: {
+      jobId: `publish-post-${data.postId}-${Date.now()}`, // Include timestamp to allow retries
+      jobType: PUBLISH_JOB_TYPE,
+      entityType: 'Post',
+      entityId: data.postId,
+      scheduledAt: runAt,
+      payload: { ...data },
+      status: 'pending',
+    },
+  });
+}
+
 /**
- * Find scheduled posts due for publishing and enqueue publish jobs.
- * This function uses an atomic update to mark a post as PUBLISHING
- * to avoid double-enqueue from concurrent runs.
+ * Find scheduled posts due for publishing and claim them.
+ * The status change and the outbox row are written in one transaction;
+ * the relay then pushes the outbox rows into BullMQ.
  */
 export async function scanAndEnqueueDuePosts(limit = 50): Promise<number> {
   const now = new Date();
@@ -20,53 +52,227 @@ export async function scanAndEnqueueDuePosts(limit = 50): Promise<number> {
       status: 'SCHEDULED',
       scheduledAt: { lte: now },
     },
+    include: {
+      platforms: { select: { contentOverride: true } },
+      mediaFiles: { include: { mediaFile: { select: { mimeType: true } } } },
+    },
     take: limit,
   });
 
-  let enqueued = 0;
+  let claimed = 0;
 
   for (const post of duePosts) {
     try {
-      // Attempt to atomically set the status to PUBLISHING only when it's still SCHEDULED
-      const updated = await prisma.post.updateMany({
-        where: { id: post.id, status: 'SCHEDULED' },
-        data: { status: 'PUBLISHING' },
-      });
+      // Posts that break the content contract never reach a provider
+      const violations = validateTargetContracts(
+        post.content,
+        post.platforms.map(p => p.contentOverride),
+        post.mediaFiles.map(m => m.mediaFile)
+      );
+
+      if (violations.length > 0) {
+        const errorMessage = `Content contract: ${violations.map(v => v.message).join('; ')}`;
+
+        await prisma.$transaction(async (tx) => {
+          const updated = await tx.post.updateMany({
+            where: { id: post.id, status: 'SCHEDULED' },
+            data: { status: 'FAILED' },
+          });
+
+          if (updated.count === 0) {
+            return;
+          }
 
-      if (updated.count === 0) {
-        // Another worker/process already handled this post
+          await tx.postPlatform.updateMany({
+            where: { postId: post.id, status: { not: 'PUBLISHED' } },
+            data: {
+              status: 'FAILED',
+              errorMessage,
+              lastErrorCode: 'CONTENT_CONTRACT_VIOLATION',
+              retryDecision: 'terminal',
+              nextRetryAt: null,
+            },
+          });
+        });
+
+        logger.warn({ postId: post.id, violations }, 'Refused to dispatch post that breaks the content contract');
         continue;
       }
 
-      // Enqueue publish job (jobId prevents duplicates)
-      await publishQueue.add(
-        'publish',
-        { postId: post.id, userId: post.userId } as PublishJobData,
-        {
-          jobId: `publish-post-${post.id}-${Date.now()}`, // Include timestamp to allow retries
-          removeOnComplete: 100,
-          removeOnFail: 100,
+      const wasClaimed = await prisma.$transaction(async (tx) => {
+        // Only claim the post when it's still SCHEDULED
+        const updated = await tx.post.updateMany({
+          where: { id: post.id, status: 'SCHEDULED' },
+          data: { status: 'PUBLISHING', claimedAt: now },
+        });
+
+        if (updated.count === 0) {
+          // Another worker/process already handled this post
+          return false;
         }
-      );
 
-      enqueued++;
-      logger.info({ postId: post.id }, 'Enqueued publish job');
+        await createPublishOutboxEntry(tx, { postId: post.id, userId: post.userId });
+        return true;
+      });
+
+      if (!wasClaimed) {
+        continue;
+      }
+
+      claimed++;
+      logger.info({ postId: post.id }, 'Claimed post for publishing');
     } catch (error) {
-      logger.error({ error, postId: post.id }, 'Failed to enqueue publish job');
+      logger.error({ error, postId: post.id }, 'Failed to claim post for publishing');
     }
   }
 
-  return enqueued;
+  await relayPublishOutbox();
+
+  return claimed;
 }
 
-export async function enqueuePublishJob(postId: string, userId: string) {
-  await publishQueue.add(
-    'publish',
-    { postId, userId } as PublishJobData,
-    {
-      jobId: `publish-post-${postId}`,
-      removeOnComplete: 100,
-      removeOnFail: 100,
+/**
+ * Push pending outbox rows into BullMQ.
+ * Delivery is at-least-once: a crash after `add` but before the row update
+ * re-adds the same jobId on the next run. BullMQ ignores that only while it
+ * still holds the job; once removeOnComplete/removeOnFail evicted it, the job
+ * runs again. markPublishJobStarted refuses to run a job whose row is settled,
+ * and the per-target attempt claims keep a target from being posted twice.
+ */
+export async function relayPublishOutbox(limit = 100): Promise<number> {
+  const pending = await prisma.scheduledJob.findMany({
+    where: { jobType: PUBLISH_JOB_TYPE, status: 'pending' },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+  });
+
+  let relayed = 0;
+
+  for (const entry of pending) {
+    try {
+      const data = entry.payload as unknown as PublishJobData;
+
+      await publishQueue.add('publish', data, {
+        jobId: entry.jobId,
+        // Retries scheduled by the retry policy run later
+        delay: Math.max(0, entry.scheduledAt.getTime() - Date.now()),
+        // Provider failures are retried per target by publishNow; these
+        // attempts only cover infrastructure errors (database, Redis)
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 10_000 },
+        removeOnComplete: 100,
+        removeOnFail: 100,
+      });
+
+      await prisma.scheduledJob.update({
+        where: { id: entry.id },
+        data: { status: 'enqueued', dispatchedAt: new Date() },
+      });
+
+      relayed++;
+      logger.info({ postId: entry.entityId, jobId: entry.jobId }, 'Enqueued publish job');
+    } catch (error) {
+      logger.error({ error, jobId: entry.jobId }, 'Failed to relay publish job');
     }
-  );
+  }
+
+  return relayed;
+}
+
+/**
+ * Record the outcome of a publish job on its outbox row.
+ * Returns false when the job must not run: recovery superseded it, or its
+ * row is already settled (completed, dead-lettered, requeued or discarded).
+ */
+export async function markPublishJobStarted(jobId: string): Promise<boolean> {
+  const started = await prisma.scheduledJob.updateMany({
+    where: { jobId, status: { in: RUNNABLE_JOB_STATUSES } },
+    data: { status: 'processing', attempts: { increment: 1 } },
+  });
+
+  if (started.count > 0) {
+    return true;
+  }
+
+  // Jobs enqueued before the outbox existed have no row
+  return (await prisma.scheduledJob.count({ where: { jobId } })) === 0;
+}
+
+export async function markPublishJobCompleted(jobId: string) {
+  await prisma.scheduledJob.updateMany({
+    where: { jobId },
+    data: { status: 'completed', completedAt: new Date(), lastError: null },
+  });
+}
+
+export interface JobErrorEntry {
+  attempt: number;
+  message: string;
+  code?: string | undefined;
+  failedAt: string;
+}
+
+/**
+ * Record a failed attempt and append it to the job's error history
+ */
+export async function markPublishJobFailed(jobId: string, error: unknown) {
+  const entry = await prisma.scheduledJob.findUnique({ where: { jobId } });
+  if (!entry) {
+    return;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const history = (entry.errorHistory as unknown as JobErrorEntry[] | null) ?? [];
+
+  await prisma.scheduledJob.update({
+    where: { id: entry.id },
+    data: {
+      status: 'failed',
+      lastError: message,
+      errorHistory: [
+        ...history,
+        {
+          attempt: entry.attempts,
+          message,
+          code: (error as { code?: string } | null)?.code,
+          failedAt: new Date().toISOString(),
+        },
+      ] as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Move a publish job that exhausted its attempts into the dead-letter state.
+ * The post is marked FAILED so it stops looking like it's still publishing.
+ */
+export async function deadLetterPublishJob(jobId: string, error: unknown) {
+  const entry = await prisma.scheduledJob.findUnique({ where: { jobId } });
+  if (!entry || entry.status === 'dead_letter') {
+    return;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  await prisma.$transaction([
+    prisma.scheduledJob.update({
+      where: { id: entry.id },
+      data: {
+        status: 'dead_letter',
+        lastError: entry.lastError ?? message,
+        deadLetteredAt: new Date(),
+      },
+    }),
+    prisma.post.updateMany({
+      where: { id: entry.entityId, status: 'PUBLISHING' },
+      data: { status: 'FAILED', claimedAt: null },
+    }),
+  ]);
+
+  logger.warn({ jobId, postId: entry.entityId }, 'Publish job moved to dead-letter state');
+}
+
+export async function enqueuePublishJob(postId: string, userId: string) {
+  await prisma.$transaction((tx) => createPublishOutboxEntry(tx, { postId, userId }));
+  await relayPublishOutbox();
 }
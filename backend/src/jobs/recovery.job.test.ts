@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PostStatus, PrismaClient, PublishAttemptState } from '@prisma/client';
+import type { MemoryPrisma } from '../test/memoryPrisma.js';
+import type { MemoryQueue } from '../test/memoryQueue.js';
+
+vi.mock('../lib/prisma.js', async () => {
+  const { MemoryPrisma } = await import('../test/memoryPrisma.js');
+  return { prisma: new MemoryPrisma() };
+});
+
+vi.mock('../config/queue.js', async () => {
+  const { MemoryQueue } = await import('../test/memoryQueue.js');
+  return { publishQueue: new MemoryQueue() };
+});
+
+vi.mock('../lib/redis.js', () => ({ redis: {} }));
+
+const USER_ID = 'user-1';
+const NOW = new Date('2026-03-01T12:00:00Z');
+const CLAIMED_AT = new Date('2026-03-01T10:00:00Z'); // Well past the 15 minute lease
+const FINISHED_AT = new Date('2026-03-01T10:00:05Z');
+
+let db: PrismaClient;
+let queue: MemoryQueue;
+let recoverStalePublishing: typeof import('./recovery.job.js').recoverStalePublishing;
+
+beforeAll(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  ({ prisma: db } = await import('../lib/prisma.js'));
+  queue = (await import('../config/queue.js')).publishQueue as unknown as MemoryQueue;
+  ({ recoverStalePublishing } = await import('./recovery.job.js'));
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+beforeEach(() => {
+  vi.setSystemTime(NOW);
+  (db as unknown as MemoryPrisma).reset();
+  queue.drain();
+});
+
+/**
+ * A post stuck in PUBLISHING whose targets had the given status and last attempt
+ */
+async function seedStalePost(targets: Array<{ status: PostStatus; attempt: PublishAttemptState }>) {
+  const post = await db.post.create({
+    data: { userId: USER_ID, content: 'Launch day https://example.com/launch', status: 'PUBLISHING', claimedAt: CLAIMED_AT },
+  });
+
+  for (const [index, { status, attempt }] of targets.entries()) {
+    const platform = await db.platform.create({
+      data: { userId: USER_ID, type: 'TWITTER', name: `@account${index}`, platformUserId: `${index}`, accessToken: 'token' },
+    });
+    const target = await db.postPlatform.create({ data: { postId: post.id, platformId: platform.id, status } });
+    await db.publishAttempt.create({
+      data: {
+        postPlatformId: target.id,
+        idempotencyKey: target.idempotencyKey,
+        attemptNumber: 1,
+        state: attempt,
+        ...(attempt === 'SUCCEEDED' && {
+          platformPostId: `tweet-${index}`,
+          platformPostUrl: `https://x.com/i/status/tweet-${index}`,
+          finishedAt: FINISHED_AT,
+        }),
+      },
+    });
+  }
+
+  return post;
+}
+
+async function targetsOf(postId: string) {
+  return db.postPlatform.findMany({ where: { postId }, orderBy: { platformId: 'asc' } });
+}
+
+describe('recoverStalePublishing', () => {
+  it('copies a succeeded attempt onto a target the run never updated', async () => {
+    const post = await seedStalePost([{ status: 'PUBLISHING', attempt: 'SUCCEEDED' }]);
+
+    expect(await recoverStalePublishing()).toBe(1);
+
+    expect((await db.post.findUnique({ where: { id: post.id } }))?.status).toBe('PUBLISHED');
+    const targets = await targetsOf(post.id);
+    expect(targets).toHaveLength(1);
+    expect(targets[0]).toMatchObject({
+      status: 'PUBLISHED',
+      platformPostId: 'tweet-0',
+      platformPostUrl: 'https://x.com/i/status/tweet-0',
+      publishedAt: FINISHED_AT,
+    });
+    expect(queue.size).toBe(0);
+  });
+
+  it('settles a partly published post with both targets recorded', async () => {
+    const post = await seedStalePost([
+      { status: 'PUBLISHING', attempt: 'SUCCEEDED' },
+      { status: 'FAILED', attempt: 'FAILED' },
+    ]);
+
+    await recoverStalePublishing();
+
+    expect((await db.post.findUnique({ where: { id: post.id } }))?.status).toBe('PARTIALLY_PUBLISHED');
+    const statuses = (await targetsOf(post.id)).map(t => [t.status, t.platformPostId]);
+    expect(statuses).toContainEqual(['PUBLISHED', 'tweet-0']);
+    expect(statuses).toContainEqual(['FAILED', null]);
+  });
+
+  it('leaves a target that was already recorded as published alone', async () => {
+    const post = await seedStalePost([{ status: 'PUBLISHED', attempt: 'SUCCEEDED' }]);
+    const [before] = await targetsOf(post.id);
+
+    await recoverStalePublishing();
+
+    expect((await db.post.findUnique({ where: { id: post.id } }))?.status).toBe('PUBLISHED');
+    expect((await targetsOf(post.id))[0]).toEqual(before);
+  });
+});
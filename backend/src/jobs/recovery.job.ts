@@ -0,0 +1,243 @@
+import { PostStatus, Prisma } from '@prisma/client';
+import { env } from '../config/env.js';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { auditService } from '../services/audit.service.js';
+import { publishQueue } from '../config/queue.js';
+import {
+  createPublishOutboxEntry,
+  relayPublishOutbox,
+  PUBLISH_JOB_TYPE,
+  SUPERSEDED_JOB_STATUS,
+} from './publish.job.js';
+
+type RecoveryAction = 'none' | 'reconcile' | 'retry' | 'mark_failed';
+
+const staleInclude = {
+  platforms: {
+    include: {
+      attempts: {
+        orderBy: { attemptNumber: 'desc' as const },
+        take: 1,
+      },
+    },
+  },
+} satisfies Prisma.PostInclude;
+
+type StalePost = Prisma.PostGetPayload<{ include: typeof staleInclude }>;
+type StaleTarget = StalePost['platforms'][number];
+
+function findStalePosts(leaseExpiredBefore: Date, limit: number): Promise<StalePost[]> {
+  return prisma.post.findMany({
+    where: {
+      status: 'PUBLISHING',
+      OR: [
+        { claimedAt: { lt: leaseExpiredBefore } },
+        // Posts claimed before claim timestamps were recorded
+        { claimedAt: null, updatedAt: { lt: leaseExpiredBefore } },
+      ],
+    },
+    include: staleInclude,
+    take: limit,
+  });
+}
+
+/**
+ * Decide what to do with one target of a stale post
+ */
+function decideTarget(target: StaleTarget): RecoveryAction {
+  if (target.status === 'PUBLISHED') {
+    return 'none';
+  }
+
+  const lastAttempt = target.attempts[0];
+
+  if (!lastAttempt || lastAttempt.state === 'PENDING') {
+    return 'retry';
+  }
+
+  if (lastAttempt.state === 'SUCCEEDED') {
+    return 'none';
+  }
+
+  // The worker may have died mid-request: publishNow reconciles these before retrying
+  if (lastAttempt.state === 'IN_FLIGHT' || lastAttempt.state === 'UNCERTAIN') {
+    return 'reconcile';
+  }
+
+  const retryable = target.retryDecision === 'retryable' || target.retryDecision === 'auth_refreshable';
+  if (retryable && lastAttempt.attemptNumber - target.retryBudgetFrom < env.PUBLISH_MAX_ATTEMPTS) {
+    return 'retry';
+  }
+
+  return 'mark_failed';
+}
+
+/**
+ * Take superseded jobs out of BullMQ so they can't run next to the recovery job.
+ * A job that is running can't be removed; the worker skips it when it sees its
+ * outbox row superseded, and per-target claims cover one already past that check.
+ */
+async function removeSupersededJobs(jobIds: string[]) {
+  for (const jobId of jobIds) {
+    try {
+      await publishQueue.remove(jobId);
+    } catch (error) {
+      logger.warn({ error, jobId }, 'Could not remove superseded publish job from the queue');
+    }
+  }
+}
+
+/**
+ * Returns false when another process took over the claim first
+ */
+async function recoverPost(post: StalePost): Promise<boolean> {
+  const now = new Date();
+  const decisions = post.platforms.map((target) => ({ target, action: decideTarget(target) }));
+  const requeue = decisions.some(d => d.action === 'reconcile' || d.action === 'retry');
+
+  const outcome = await prisma.$transaction(async (tx) => {
+    // Take over the claim only if nobody else did in the meantime
+    const reclaimed = await tx.post.updateMany({
+      where: { id: post.id, status: 'PUBLISHING', claimedAt: post.claimedAt },
+      data: { claimedAt: now },
+    });
+
+    if (reclaimed.count === 0) {
+      return null;
+    }
+
+    // Jobs still attached to the expired claim are superseded
+    const live = {
+      jobType: PUBLISH_JOB_TYPE,
+      entityId: post.id,
+      status: { in: ['pending', 'enqueued', 'processing'] },
+    };
+    const superseded = await tx.scheduledJob.findMany({ where: live, select: { jobId: true } });
+    await tx.scheduledJob.updateMany({
+      where: live,
+      data: { status: SUPERSEDED_JOB_STATUS, lastError: 'Claim lease expired; superseded by recovery' },
+    });
+
+    for (const { target, action } of decisions) {
+      const lastAttempt = target.attempts[0];
+
+      if (lastAttempt?.state === 'IN_FLIGHT') {
+        await tx.publishAttempt.update({
+          where: { id: lastAttempt.id },
+          data: {
+            state: 'UNCERTAIN',
+            errorMessage: 'Worker lease expired before the outcome was recorded',
+          },
+        });
+      }
+
+      // The run died between recording the attempt and the target: carry the result over
+      if (action === 'none' && target.status !== 'PUBLISHED' && lastAttempt?.state === 'SUCCEEDED') {
+        await tx.postPlatform.update({
+          where: { id: target.id },
+          data: {
+            status: 'PUBLISHED',
+            platformPostId: lastAttempt.platformPostId,
+            platformPostUrl: lastAttempt.platformPostUrl,
+            publishedAt: lastAttempt.finishedAt ?? now,
+            errorMessage: null,
+            lastErrorCode: null,
+            retryDecision: null,
+            nextRetryAt: null,
+          },
+        });
+      }
+
+      if (action === 'retry') {
+        await tx.postPlatform.update({
+          where: { id: target.id },
+          data: { nextRetryAt: null },
+        });
+      }
+
+      if (action === 'mark_failed') {
+        await tx.postPlatform.update({
+          where: { id: target.id },
+          data: {
+            status: 'FAILED',
+            retryDecision: 'terminal',
+            nextRetryAt: null,
+            errorMessage: target.errorMessage ?? 'Publishing did not complete',
+          },
+        });
+      }
+    }
+
+    if (requeue) {
+      await createPublishOutboxEntry(tx, { postId: post.id, userId: post.userId });
+      return { status: 'requeued', superseded };
+    }
+
+    const published = decisions.filter(d => d.action === 'none').length;
+    const finalStatus: PostStatus =
+      published === 0 ? 'FAILED' : published === decisions.length ? 'PUBLISHED' : 'PARTIALLY_PUBLISHED';
+
+    await tx.post.update({
+      where: { id: post.id },
+      data: {
+        status: finalStatus,
+        publishedAt: published > 0 ? now : null,
+      },
+    });
+
+    return { status: finalStatus, superseded };
+  });
+
+  if (!outcome) {
+    return false;
+  }
+
+  await removeSupersededJobs(outcome.superseded.map(j => j.jobId));
+
+  await auditService.log({
+    userId: post.userId,
+    action: 'POST_RECOVERED',
+    entityType: 'Post',
+    entityId: post.id,
+    metadata: {
+      outcome: outcome.status,
+      claimedAt: post.claimedAt?.toISOString() ?? null,
+      targets: decisions.map(({ target, action }) => ({
+        postPlatformId: target.id,
+        platformId: target.platformId,
+        action,
+      })),
+    },
+  });
+
+  logger.warn({ postId: post.id, outcome: outcome.status }, 'Recovered stale publishing post');
+  return true;
+}
+
+/**
+ * Find posts stuck in PUBLISHING past the claim lease (e.g. the worker died
+ * mid-publish) and either requeue them or settle their final status.
+ */
+export async function recoverStalePublishing(limit = 50): Promise<number> {
+  const leaseExpiredBefore = new Date(Date.now() - env.PUBLISH_CLAIM_LEASE_MS);
+  const stalePosts = await findStalePosts(leaseExpiredBefore, limit);
+
+  let recovered = 0;
+
+  for (const post of stalePosts) {
+    try {
+      if (await recoverPost(post)) {
+        recovered++;
+      }
+    } catch (error) {
+      logger.error({ error, postId: post.id }, 'Failed to recover stale publishing post');
+    }
+  }
+
+  if (recovered > 0) {
+    await relayPublishOutbox();
+  }
+
+  return recovered;
+}
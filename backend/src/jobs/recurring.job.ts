@@ -0,0 +1,35 @@
+import { env } from '../config/env.js';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { recurringService } from '../services/recurring.service.js';
+
+const BATCH_SIZE = 100;
+const REFILL_SLACK_MS = 60 * 60 * 1000; // Top a series up at most hourly
+
+/**
+ * Turn recurring series into scheduled posts up to RECURRING_HORIZON_DAYS
+ * ahead. Runs as part of the scan job; one broken series doesn't stop the rest.
+ */
+export async function materializeRecurringPosts(): Promise<number> {
+  const refillBefore = new Date(Date.now() + env.RECURRING_HORIZON_DAYS * 24 * 60 * 60 * 1000 - REFILL_SLACK_MS);
+
+  const schedules = await prisma.recurringSchedule.findMany({
+    where: {
+      isActive: true,
+      OR: [{ materializedUntil: null }, { materializedUntil: { lt: refillBefore } }],
+    },
+    orderBy: { materializedUntil: { sort: 'asc', nulls: 'first' } },
+    take: BATCH_SIZE,
+  });
+
+  let created = 0;
+  for (const schedule of schedules) {
+    try {
+      created += await recurringService.materialize(schedule);
+    } catch (error) {
+      logger.error({ error, scheduleId: schedule.id }, 'Failed to materialize recurring series');
+    }
+  }
+
+  return created;
+}
@@ -2,7 +2,7 @@ import pino from 'pino';
 import { env } from '../config/env.js';
 
 const pinoOptions: pino.LoggerOptions = {
-  level: env.NODE_ENV === 'production' ? 'info' : 'debug',
+  level: env.NODE_ENV === 'production' ? 'info' : env.NODE_ENV === 'test' ? 'silent' : 'debug',
   base: {
     env: env.NODE_ENV,
   },
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { Registry, Counter, Histogram, Gauge, collectDefaultMetrics } from 'prom-client';
+import { env } from '../config/env.js';
+import { publishQueue } from '../config/queue.js';
+import { logger } from './logger.js';
+
+/**
+ * Prometheus metrics shared by the API and the worker. Each process has its
+ * own registry; label values are kept to small, fixed sets.
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'autopostit_' });
+
+export const publishAttempts = new Counter({
+  name: 'autopostit_publish_attempts_total',
+  help: 'Publish attempts by provider and outcome',
+  labelNames: ['provider', 'outcome'] as const,
+  registers: [metricsRegistry],
+});
+
+export const publishAttemptDuration = new Histogram({
+  name: 'autopostit_publish_attempt_duration_seconds',
+  help: 'Time spent on one publish attempt, media upload included',
+  labelNames: ['provider', 'outcome'] as const,
+  buckets: [0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [metricsRegistry],
+});
+
+export const providerRequestDuration = new Histogram({
+  name: 'autopostit_provider_request_duration_seconds',
+  help: 'Provider API request latency by action and HTTP status (timeout and network_error when there is none)',
+  labelNames: ['provider', 'action', 'status'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export const tokenRefreshes = new Counter({
+  name: 'autopostit_token_refreshes_total',
+  help: 'Access token refreshes after an auth failure, by provider and outcome',
+  labelNames: ['provider', 'outcome'] as const,
+  registers: [metricsRegistry],
+});
+
+export const workerJobDuration = new Histogram({
+  name: 'autopostit_worker_job_duration_seconds',
+  help: 'Duration of periodic worker jobs (scan, recover, media-gc)',
+  labelNames: ['job'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'autopostit_http_request_duration_seconds',
+  help: 'API request latency by route pattern and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [metricsRegistry],
+});
+
+new Gauge({
+  name: 'autopostit_queue_jobs',
+  help: 'Jobs in the publish queue by state',
+  labelNames: ['state'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    try {
+      const counts = await publishQueue.getJobCounts('waiting', 'active', 'delayed', 'failed');
+      for (const [state, count] of Object.entries(counts)) {
+        this.set({ state }, count);
+      }
+    } catch (error) {
+      // A scrape shouldn't fail because Redis is briefly unreachable
+      logger.warn({ error }, 'Could not read queue counts for metrics');
+    }
+  },
+});
+
+/**
+ * Route pattern for a finished request, e.g. /api/posts/:id. Unmatched paths
+ * are grouped so scanners can't create a series per URL.
+ */
+export function routeLabel(req: Request): string {
+  const route = req.route as { path?: unknown } | undefined;
+  if (typeof route?.path !== 'string') {
+    return 'unmatched';
+  }
+  return `${req.baseUrl}${route.path}`;
+}
+
+/**
+ * Only the configured bearer token, or loopback when none is set
+ */
+function isAuthorized(req: Request): boolean {
+  if (!env.METRICS_TOKEN) {
+    const address = req.socket.remoteAddress ?? '';
+    return address === '127.0.0.1' || address === '::1' || address === '::ffff:127.0.0.1';
+  }
+
+  const expected = Buffer.from(`Bearer ${env.METRICS_TOKEN}`);
+  const actual = Buffer.from(req.headers.authorization ?? '');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * GET /metrics in Prometheus text format
+ */
+export async function metricsHandler(req: Request, res: Response): Promise<void> {
+  if (!isAuthorized(req)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  res.setHeader('Content-Type', metricsRegistry.contentType);
+  res.send(await metricsRegistry.metrics());
+}
@@ -0,0 +1,167 @@
+import { env } from '../config/env.js';
+import { ProviderError, ProviderErrorCode } from '../middleware/errorHandler.js';
+import { providerRequestDuration } from './metrics.js';
+
+// Graph API error codes (https://developers.facebook.com/docs/graph-api/guides/error-handling)
+const GRAPH_RATE_LIMIT_CODES = new Set([4, 17, 32, 613]);
+const GRAPH_EXPIRED_TOKEN_CODE = 190;
+const GRAPH_DUPLICATE_POST_CODE = 506;
+const GRAPH_TRANSIENT_CODES = new Set([1, 2]);
+
+interface ProviderErrorBody {
+  // X API v2
+  title?: string;
+  detail?: string;
+  // Graph API
+  error?: {
+    message?: string;
+    code?: number;
+    is_transient?: boolean;
+  } | string;
+  message?: string;
+}
+
+function parseBody(body: string): ProviderErrorBody {
+  try {
+    const parsed = JSON.parse(body) as unknown;
+    return parsed && typeof parsed === 'object' ? parsed as ProviderErrorBody : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Work out how long the provider asked us to wait, from standard
+ * Retry-After or X's x-rate-limit-reset (epoch seconds) headers
+ */
+function getRetryAfterMs(headers: Headers): number | undefined {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const reset = headers.get('x-rate-limit-reset');
+  if (reset && !Number.isNaN(Number(reset))) {
+    return Math.max(0, Number(reset) * 1000 - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Map an error response from a provider to a structured ProviderError
+ */
+export function providerErrorFromResponse(
+  provider: string,
+  action: string,
+  status: number,
+  headers: Headers,
+  body: string
+): ProviderError {
+  const parsed = parseBody(body);
+  const graphError = typeof parsed.error === 'object' ? parsed.error : undefined;
+  const providerMessage =
+    parsed.detail ||
+    graphError?.message ||
+    (typeof parsed.error === 'string' ? parsed.error : undefined) ||
+    parsed.message ||
+    parsed.title ||
+    body.slice(0, 200);
+
+  let code: ProviderErrorCode;
+
+  if (status === 429 || (graphError?.code !== undefined && GRAPH_RATE_LIMIT_CODES.has(graphError.code))) {
+    code = 'PROVIDER_RATE_LIMITED';
+  } else if (status === 401 || graphError?.code === GRAPH_EXPIRED_TOKEN_CODE) {
+    code = 'PROVIDER_AUTH_EXPIRED';
+  } else if (graphError?.code === GRAPH_DUPLICATE_POST_CODE || /duplicate content/i.test(providerMessage)) {
+    code = 'PROVIDER_DUPLICATE_CONTENT';
+  } else if (
+    status >= 500 ||
+    graphError?.is_transient ||
+    (graphError?.code !== undefined && GRAPH_TRANSIENT_CODES.has(graphError.code))
+  ) {
+    code = 'PROVIDER_UNAVAILABLE';
+  } else if (status === 408) {
+    code = 'PROVIDER_TIMEOUT';
+  } else if (status === 403) {
+    code = 'PROVIDER_FORBIDDEN';
+  } else if (status >= 400) {
+    code = 'PROVIDER_INVALID_REQUEST';
+  } else {
+    code = 'PROVIDER_ERROR';
+  }
+
+  return new ProviderError(provider, `${action} failed (${status}): ${providerMessage}`, code, {
+    providerStatus: status,
+    retryAfterMs: code === 'PROVIDER_RATE_LIMITED' ? getRetryAfterMs(headers) : undefined,
+  });
+}
+
+function isTimeout(error: unknown): boolean {
+  const name = error instanceof Error ? error.name : '';
+  return name === 'TimeoutError' || name === 'AbortError';
+}
+
+/**
+ * fetch() with the provider timeout, recording latency and status in metrics.
+ * Responses and errors are returned as-is.
+ */
+export async function timedProviderFetch(
+  provider: string,
+  action: string,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const endTimer = providerRequestDuration.startTimer({ provider, action });
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(env.PROVIDER_HTTP_TIMEOUT_MS),
+    });
+    endTimer({ status: String(response.status) });
+    return response;
+  } catch (error) {
+    endTimer({ status: isTimeout(error) ? 'timeout' : 'network_error' });
+    throw error;
+  }
+}
+
+/**
+ * fetch() wrapper for provider APIs: applies a timeout and converts
+ * network failures and non-2xx responses into ProviderErrors
+ */
+export async function providerFetch(
+  provider: string,
+  action: string,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  let response: Response;
+
+  try {
+    response = await timedProviderFetch(provider, action, url, init);
+  } catch (error) {
+    const timedOut = isTimeout(error);
+    throw new ProviderError(
+      provider,
+      `${action} failed: ${timedOut ? 'request timed out' : 'network error'}`,
+      timedOut ? 'PROVIDER_TIMEOUT' : 'PROVIDER_NETWORK_ERROR'
+    );
+  }
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw providerErrorFromResponse(provider, action, response.status, response.headers, body);
+  }
+
+  return response;
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { expandRRule, hasOccurrencesAfter, parseRRule, RRuleError } from './rrule.js';
+
+const FROM = new Date('2026-01-01T00:00:00Z');
+const TO = new Date('2027-01-01T00:00:00Z');
+
+function expand(rrule: string, dtstart: string, timeZone = 'UTC', from = FROM, to = TO): string[] {
+  return expandRRule(parseRRule(rrule, timeZone), new Date(dtstart), timeZone, from, to).map(o => o.at.toISOString());
+}
+
+describe('parseRRule', () => {
+  it('reads every supported part, with or without the RRULE: prefix', () => {
+    expect(parseRRule('RRULE:freq=monthly;interval=2;byday=1MO,-1FR;bymonth=1,7;count=6;wkst=MO', 'UTC')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [
+        { weekday: 1, ordinal: 1 },
+        { weekday: 5, ordinal: -1 },
+      ],
+      byMonthDay: [],
+      byMonth: [1, 7],
+      count: 6,
+    });
+  });
+
+  it.each([
+    ['', 'empty'],
+    ['FREQ=HOURLY', 'FREQ must be one of'],
+    ['INTERVAL=2', 'FREQ must be one of'],
+    ['FREQ=DAILY;BYHOUR=9', 'BYHOUR is not supported'],
+    ['FREQ=MONTHLY;BYSETPOS=-1', 'BYSETPOS is not supported'],
+    ['FREQ=WEEKLY;WKST=SU', 'Only WKST=MO'],
+    ['FREQ=DAILY;COUNT=3;UNTIL=20260110', 'COUNT and UNTIL'],
+    ['FREQ=WEEKLY;BYDAY=1MO', 'need FREQ=MONTHLY or YEARLY'],
+    ['FREQ=YEARLY;BYDAY=MO', 'needs BYMONTH'],
+    ['FREQ=MONTHLY;BYDAY=6MO', 'Invalid BYDAY'],
+    ['FREQ=MONTHLY;BYDAY=XX', 'Invalid BYDAY'],
+    ['FREQ=MONTHLY;BYMONTHDAY=32', 'Invalid BYMONTHDAY'],
+    ['FREQ=MONTHLY;BYMONTHDAY=0', 'Invalid BYMONTHDAY'],
+    ['FREQ=YEARLY;BYMONTH=13', 'Invalid BYMONTH'],
+    ['FREQ=DAILY;INTERVAL=0', 'Invalid INTERVAL'],
+    ['FREQ=DAILY;COUNT=-1', 'Invalid COUNT'],
+    ['FREQ=DAILY;UNTIL=2026-01-10', 'Invalid UNTIL'],
+    ['FREQ=DAILY;FREQ=WEEKLY', 'more than once'],
+    ['FREQ=DAILY;COUNT', 'Malformed rule part'],
+  ])('rejects %j', (rrule, message) => {
+    expect(() => parseRRule(rrule, 'UTC')).toThrow(RRuleError);
+    expect(() => parseRRule(rrule, 'UTC')).toThrow(message);
+  });
+
+  it('reads a date-only UNTIL as the end of that day in the zone', () => {
+    expect(parseRRule('FREQ=DAILY;UNTIL=20260105', 'America/New_York').until?.toISOString()).toBe(
+      '2026-01-06T04:59:59.999Z'
+    );
+    expect(parseRRule('FREQ=DAILY;UNTIL=20260105T120000', 'America/New_York').until?.toISOString()).toBe(
+      '2026-01-05T17:00:00.000Z'
+    );
+    expect(parseRRule('FREQ=DAILY;UNTIL=20260105T120000Z', 'America/New_York').until?.toISOString()).toBe(
+      '2026-01-05T12:00:00.000Z'
+    );
+  });
+});
+
+describe('expandRRule', () => {
+  it('expands WEEKLY BYDAY with COUNT across weeks', () => {
+    expect(expand('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5', '2026-01-05T09:00:00Z')).toEqual([
+      '2026-01-05T09:00:00.000Z',
+      '2026-01-07T09:00:00.000Z',
+      '2026-01-12T09:00:00.000Z',
+      '2026-01-14T09:00:00.000Z',
+      '2026-01-19T09:00:00.000Z',
+    ]);
+  });
+
+  it('only counts DTSTART when the rule matches it', () => {
+    // Tuesday DTSTART; the first Monday is before it and the series starts on Wednesday
+    expect(expand('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3', '2026-01-06T09:00:00Z')).toEqual([
+      '2026-01-07T09:00:00.000Z',
+      '2026-01-12T09:00:00.000Z',
+      '2026-01-14T09:00:00.000Z',
+    ]);
+  });
+
+  it('expands MONTHLY BYDAY=-1FR to the last Friday of each month', () => {
+    expect(expand('FREQ=MONTHLY;BYDAY=-1FR;COUNT=4', '2026-01-01T10:00:00Z')).toEqual([
+      '2026-01-30T10:00:00.000Z',
+      '2026-02-27T10:00:00.000Z',
+      '2026-03-27T10:00:00.000Z',
+      '2026-04-24T10:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the 31st', () => {
+    const expected = [
+      '2026-01-31T10:00:00.000Z',
+      '2026-03-31T10:00:00.000Z',
+      '2026-05-31T10:00:00.000Z',
+      '2026-07-31T10:00:00.000Z',
+    ];
+    expect(expand('FREQ=MONTHLY;BYMONTHDAY=31;COUNT=4', '2026-01-31T10:00:00Z')).toEqual(expected);
+    expect(expand('FREQ=MONTHLY;COUNT=4', '2026-01-31T10:00:00Z')).toEqual(expected);
+  });
+
+  it('counts BYMONTHDAY from the end of the month when negative', () => {
+    expect(expand('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3', '2026-01-01T10:00:00Z')).toEqual([
+      '2026-01-31T10:00:00.000Z',
+      '2026-02-28T10:00:00.000Z',
+      '2026-03-31T10:00:00.000Z',
+    ]);
+  });
+
+  it.each([
+    ['FREQ=DAILY;INTERVAL=3;COUNT=3', '2026-01-01T08:00:00Z', ['2026-01-01', '2026-01-04', '2026-01-07']],
+    ['FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=4', '2026-01-06T08:00:00Z', ['2026-01-06', '2026-01-08', '2026-01-20', '2026-01-22']],
+    ['FREQ=MONTHLY;INTERVAL=5;COUNT=3', '2026-01-15T08:00:00Z', ['2026-01-15', '2026-06-15', '2026-11-15']],
+    ['FREQ=YEARLY;INTERVAL=2;COUNT=2', '2026-02-01T08:00:00Z', ['2026-02-01', '2028-02-01']],
+  ])('steps by INTERVAL for %s', (rrule, dtstart, days) => {
+    const to = new Date('2030-01-01T00:00:00Z');
+    expect(expand(rrule, dtstart, 'UTC', FROM, to)).toEqual(days.map(day => `${day}T08:00:00.000Z`));
+  });
+
+  it('includes the whole day of a date-only UNTIL', () => {
+    // 23:00 in New York is 04:00Z the next day, which is still on the 5th locally
+    expect(expand('FREQ=DAILY;UNTIL=20260105', '2026-01-01T23:00:00-05:00', 'America/New_York')).toEqual([
+      '2026-01-02T04:00:00.000Z',
+      '2026-01-03T04:00:00.000Z',
+      '2026-01-04T04:00:00.000Z',
+      '2026-01-05T04:00:00.000Z',
+      '2026-01-06T04:00:00.000Z',
+    ]);
+    // A UTC UNTIL cuts the series at that instant instead: the 5th's post is at 04:00Z on the 6th
+    expect(expand('FREQ=DAILY;UNTIL=20260105T120000Z', '2026-01-01T23:00:00-05:00', 'America/New_York')).toHaveLength(4);
+  });
+
+  it('keeps the wall-clock time across DST changes', () => {
+    expect(expand('FREQ=DAILY;COUNT=3', '2026-03-07T09:00:00-05:00', 'America/New_York')).toEqual([
+      '2026-03-07T14:00:00.000Z',
+      '2026-03-08T13:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+    ]);
+  });
+
+  it('moves an occurrence that falls in a DST gap past it', () => {
+    // 02:30 doesn't exist on 2026-03-08 in New York; that day's post goes at 03:30 EDT
+    expect(expand('FREQ=DAILY;COUNT=3', '2026-03-07T02:30:00-05:00', 'America/New_York')).toEqual([
+      '2026-03-07T07:30:00.000Z',
+      '2026-03-08T07:30:00.000Z',
+      '2026-03-09T06:30:00.000Z',
+    ]);
+  });
+
+  it('only returns occurrences in the window but keeps their index in the series', () => {
+    const rule = parseRRule('FREQ=DAILY;COUNT=10', 'UTC');
+    const occurrences = expandRRule(
+      rule,
+      new Date('2026-01-01T09:00:00Z'),
+      'UTC',
+      new Date('2026-01-04T00:00:00Z'),
+      new Date('2026-01-06T00:00:00Z')
+    );
+    expect(occurrences.map(o => o.index)).toEqual([3, 4]);
+  });
+});
+
+describe('hasOccurrencesAfter', () => {
+  it('is false once COUNT or UNTIL is used up', () => {
+    const dtstart = new Date('2026-01-01T09:00:00Z');
+    expect(hasOccurrencesAfter(parseRRule('FREQ=DAILY;COUNT=3', 'UTC'), dtstart, 'UTC', new Date('2026-01-02T12:00:00Z'))).toBe(true);
+    expect(hasOccurrencesAfter(parseRRule('FREQ=DAILY;COUNT=3', 'UTC'), dtstart, 'UTC', new Date('2026-01-03T12:00:00Z'))).toBe(false);
+    expect(hasOccurrencesAfter(parseRRule('FREQ=DAILY;UNTIL=20260103', 'UTC'), dtstart, 'UTC', new Date('2026-01-04T00:00:00Z'))).toBe(false);
+  });
+
+  it('is false for a rule that can never match', () => {
+    const rule = parseRRule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30', 'UTC');
+    expect(hasOccurrencesAfter(rule, new Date('2026-01-01T09:00:00Z'), 'UTC', new Date('2026-01-01T00:00:00Z'))).toBe(false);
+  });
+});
@@ -0,0 +1,341 @@
+import { getZonedParts, zonedTimeToUtc } from './timezone.js';
+
+/**
+ * The subset of RFC 5545 recurrence rules we schedule posts with. Rules are
+ * expanded on the wall clock of the schedule's timezone, so a 09:00 post
+ * stays at 09:00 across DST changes. Every occurrence takes its time of day
+ * from DTSTART.
+ */
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RRuleWeekday {
+  weekday: number; // 0 = Sunday
+  ordinal?: number | undefined; // 1MO = first Monday, -1FR = last Friday (MONTHLY and YEARLY)
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay: RRuleWeekday[];
+  byMonthDay: number[];
+  byMonth: number[];
+  count?: number | undefined;
+  until?: Date | undefined;
+}
+
+export interface Occurrence {
+  at: Date;
+  index: number; // 0-based position in the series, for COUNT
+}
+
+const FREQUENCIES: readonly RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAY_CODES = new Map([['SU', 0], ['MO', 1], ['TU', 2], ['WE', 3], ['TH', 4], ['FR', 5], ['SA', 6]]);
+const BY_DAY_PATTERN = /^([+-]?\d{0,2})(SU|MO|TU|WE|TH|FR|SA)$/;
+const UNTIL_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+const UNTIL_DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+const MAX_PERIODS = 100_000; // Bounds expansion of rules that never match
+
+export class RRuleError extends Error {}
+
+function parseIntegerList(name: string, value: string, min: number, max: number): number[] {
+  return value.split(',').map(part => {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n === 0 || n < min || n > max) {
+      throw new RRuleError(`Invalid ${name} value: ${part}`);
+    }
+    return n;
+  });
+}
+
+function parseUntil(value: string, timeZone: string): Date {
+  const dateOnly = UNTIL_DATE_PATTERN.exec(value);
+  if (dateOnly) {
+    // Inclusive: the whole day counts
+    return new Date(
+      zonedTimeToUtc({ year: Number(dateOnly[1]), month: Number(dateOnly[2]), day: Number(dateOnly[3]) + 1 }, timeZone)
+        .getTime() - 1
+    );
+  }
+
+  const dateTime = UNTIL_DATE_TIME_PATTERN.exec(value);
+  if (!dateTime) {
+    throw new RRuleError(`Invalid UNTIL value: ${value}`);
+  }
+
+  const local = {
+    year: Number(dateTime[1]),
+    month: Number(dateTime[2]),
+    day: Number(dateTime[3]),
+    hour: Number(dateTime[4]),
+    minute: Number(dateTime[5]),
+    second: Number(dateTime[6]),
+  };
+  return dateTime[7]
+    ? new Date(Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second))
+    : zonedTimeToUtc(local, timeZone);
+}
+
+/**
+ * Parse an RRULE value ("FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10"), with or without
+ * the "RRULE:" prefix. A floating UNTIL is read in timeZone.
+ */
+export function parseRRule(value: string, timeZone: string): RRule {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  if (!body) {
+    throw new RRuleError('Recurrence rule is empty');
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';')) {
+    const [name, partValue, ...rest] = part.split('=');
+    if (!name || partValue === undefined || rest.length > 0 || partValue === '') {
+      throw new RRuleError(`Malformed rule part: ${part}`);
+    }
+    const key = name.toUpperCase();
+    if (parts.has(key)) {
+      throw new RRuleError(`${key} is given more than once`);
+    }
+    parts.set(key, partValue.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RRuleFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new RRuleError(`FREQ must be one of ${FREQUENCIES.join(', ')}`);
+  }
+
+  const rule: RRule = { freq, interval: 1, byDay: [], byMonthDay: [], byMonth: [] };
+
+  for (const [key, partValue] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = Number(partValue);
+        if (!Number.isInteger(interval) || interval < 1 || interval > 1000) {
+          throw new RRuleError(`Invalid INTERVAL: ${partValue}`);
+        }
+        rule.interval = interval;
+        break;
+      }
+      case 'COUNT': {
+        const count = Number(partValue);
+        if (!Number.isInteger(count) || count < 1 || count > 10_000) {
+          throw new RRuleError(`Invalid COUNT: ${partValue}`);
+        }
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL':
+        rule.until = parseUntil(partValue, timeZone);
+        break;
+      case 'BYDAY':
+        rule.byDay = partValue.split(',').map(day => {
+          const match = BY_DAY_PATTERN.exec(day);
+          const weekday = match?.[2] ? WEEKDAY_CODES.get(match[2]) : undefined;
+          if (!match || weekday === undefined) {
+            throw new RRuleError(`Invalid BYDAY value: ${day}`);
+          }
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined && (!Number.isInteger(ordinal) || ordinal === 0 || Math.abs(ordinal) > 5)) {
+            throw new RRuleError(`Invalid BYDAY value: ${day}`);
+          }
+          return { weekday, ordinal };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList('BYMONTHDAY', partValue, -31, 31);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntegerList('BYMONTH', partValue, 1, 12);
+        break;
+      case 'WKST':
+        if (partValue !== 'MO') {
+          throw new RRuleError('Only WKST=MO is supported');
+        }
+        break;
+      default:
+        throw new RRuleError(`${key} is not supported`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    throw new RRuleError('COUNT and UNTIL cannot both be set');
+  }
+  if (rule.byDay.some(day => day.ordinal !== undefined) && rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+    throw new RRuleError('Numbered BYDAY values (1MO, -1FR) need FREQ=MONTHLY or YEARLY');
+  }
+  if (rule.freq === 'YEARLY' && rule.byDay.length > 0 && rule.byMonth.length === 0) {
+    throw new RRuleError('FREQ=YEARLY with BYDAY needs BYMONTH');
+  }
+
+  return rule;
+}
+
+interface CivilDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+function addDays(date: CivilDate, days: number): CivilDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function weekdayOf(date: CivilDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Candidate days of one month for MONTHLY and YEARLY rules
+ */
+function daysInMonthMatching(rule: RRule, year: number, month: number, startDay: number): CivilDate[] {
+  const length = daysInMonth(year, month);
+  let days: number[];
+
+  if (rule.byMonthDay.length === 0 && rule.byDay.length === 0) {
+    // Months without DTSTART's day (the 31st) are skipped, as RFC 5545 says
+    days = startDay <= length ? [startDay] : [];
+  } else {
+    days = Array.from({ length }, (_, i) => i + 1);
+
+    if (rule.byMonthDay.length > 0) {
+      const wanted = new Set(rule.byMonthDay.map(n => (n > 0 ? n : length + n + 1)));
+      days = days.filter(day => wanted.has(day));
+    }
+
+    if (rule.byDay.length > 0) {
+      days = days.filter(day => {
+        const weekday = weekdayOf({ year, month, day });
+        const nth = Math.floor((day - 1) / 7) + 1;
+        const nthFromEnd = -(Math.floor((length - day) / 7) + 1);
+        return rule.byDay.some(by =>
+          by.weekday === weekday && (by.ordinal === undefined || by.ordinal === nth || by.ordinal === nthFromEnd)
+        );
+      });
+    }
+  }
+
+  return days.map(day => ({ year, month, day }));
+}
+
+/**
+ * First day of the period'th period after DTSTART's
+ */
+function periodStart(rule: RRule, start: CivilDate, period: number): CivilDate {
+  const step = period * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY':
+      return addDays(start, step);
+    case 'WEEKLY':
+      return addDays(start, -((weekdayOf(start) + 6) % 7) + step * 7);
+    case 'MONTHLY': {
+      const monthIndex = start.year * 12 + (start.month - 1) + step;
+      return { year: Math.floor(monthIndex / 12), month: (monthIndex % 12) + 1, day: 1 };
+    }
+    case 'YEARLY':
+      return { year: start.year + step, month: 1, day: 1 };
+  }
+}
+
+/**
+ * Candidate days of the period'th period after DTSTART's
+ */
+function candidateDays(rule: RRule, start: CivilDate, period: number): CivilDate[] {
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return [addDays(start, step)];
+
+    case 'WEEKLY': {
+      // Weeks start on Monday
+      const monday = periodStart(rule, start, period);
+      if (rule.byDay.length === 0) {
+        return [addDays(monday, (weekdayOf(start) + 6) % 7)];
+      }
+      return Array.from({ length: 7 }, (_, i) => addDays(monday, i))
+        .filter(day => rule.byDay.some(by => by.weekday === weekdayOf(day)));
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = start.year * 12 + (start.month - 1) + step;
+      return daysInMonthMatching(rule, Math.floor(monthIndex / 12), (monthIndex % 12) + 1, start.day);
+    }
+
+    case 'YEARLY': {
+      const year = start.year + step;
+      const months = rule.byMonth.length > 0 ? [...rule.byMonth].sort((a, b) => a - b) : [start.month];
+      return months.flatMap(month => daysInMonthMatching(rule, year, month, start.day));
+    }
+  }
+}
+
+function matchesFilters(rule: RRule, day: CivilDate): boolean {
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(day.month)) {
+    return false;
+  }
+  if (rule.freq === 'DAILY') {
+    if (rule.byDay.length > 0 && !rule.byDay.some(by => by.weekday === weekdayOf(day))) {
+      return false;
+    }
+    if (rule.byMonthDay.length > 0) {
+      const length = daysInMonth(day.year, day.month);
+      if (!rule.byMonthDay.some(n => (n > 0 ? n : length + n + 1) === day.day)) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Occurrences of a rule in [from, to). The series starts at dtstart, whose
+ * wall-clock time in timeZone every occurrence shares; dtstart itself only
+ * counts when the rule matches it.
+ */
+export function expandRRule(rule: RRule, dtstart: Date, timeZone: string, from: Date, to: Date): Occurrence[] {
+  const start = getZonedParts(dtstart, timeZone);
+  const startDay: CivilDate = { year: start.year, month: start.month, day: start.day };
+  const occurrences: Occurrence[] = [];
+  let index = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    // Wall-clock dates are within a day of UTC, so this only stops past the window
+    const anchor = periodStart(rule, startDay, period);
+    if (Date.UTC(anchor.year, anchor.month - 1, anchor.day) > to.getTime() + 2 * 24 * 60 * 60 * 1000) {
+      break;
+    }
+
+    const days = candidateDays(rule, startDay, period).filter(day => matchesFilters(rule, day));
+
+    for (const day of days) {
+      const at = zonedTimeToUtc({ ...day, hour: start.hour, minute: start.minute, second: start.second }, timeZone);
+      if (at < dtstart) continue;
+
+      if ((rule.until && at > rule.until) || (rule.count !== undefined && index >= rule.count) || at >= to) {
+        return occurrences;
+      }
+      if (at >= from) {
+        occurrences.push({ at, index });
+      }
+      index++;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Whether a rule can produce occurrences after a date
+ */
+export function hasOccurrencesAfter(rule: RRule, dtstart: Date, timeZone: string, after: Date): boolean {
+  if (rule.until && rule.until <= after) return false;
+  const horizon = new Date(after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000);
+  return expandRRule(rule, dtstart, timeZone, new Date(after.getTime() + 1), horizon).length > 0;
+}
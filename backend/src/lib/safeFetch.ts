@@ -0,0 +1,203 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import type { LookupFunction } from 'net';
+import { AppError } from '../middleware/errorHandler.js';
+
+/**
+ * GET requests to URLs supplied by users, without letting them reach the
+ * server's own network (SSRF). Every hostname is resolved once and the
+ * connection goes to exactly the address that was checked, so a DNS answer
+ * can't change between the check and the connect. Redirects are followed
+ * by hand and checked the same way.
+ */
+
+export interface SafeFetchOptions {
+  timeoutMs: number; // For the whole exchange, redirects included
+  maxBytes: number; // The body is cut off here
+  maxRedirects?: number | undefined;
+  accept?: string | undefined;
+}
+
+export interface SafeFetchResponse {
+  url: string; // After redirects
+  status: number;
+  contentType: string;
+  body: Buffer;
+  truncated: boolean;
+}
+
+const DEFAULT_MAX_REDIRECTS = 3;
+const ALLOWED_PORTS = new Set(['', '80', '443']);
+const USER_AGENT = 'Mozilla/5.0 (compatible; AutoPostItBot/1.0; link preview)';
+
+// Loopback, private, link-local, CGNAT, multicast, documentation and reserved ranges
+const blockList = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  blockList.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  // ::/96 covers ::, ::1 and the deprecated IPv4-compatible form ([::127.0.0.1] is ::7f00:1)
+  ['::', 96], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const) {
+  blockList.addSubnet(address, prefix, 'ipv6');
+}
+
+const IPV4_MAPPED_PREFIX = '::ffff:';
+
+export function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host
+  const lower = address.toLowerCase();
+  if (lower.startsWith(IPV4_MAPPED_PREFIX) && net.isIPv4(lower.slice(IPV4_MAPPED_PREFIX.length))) {
+    return isBlockedAddress(lower.slice(IPV4_MAPPED_PREFIX.length));
+  }
+
+  const family = net.isIP(address);
+  if (family === 4) return blockList.check(address, 'ipv4');
+  if (family === 6) return blockList.check(address, 'ipv6');
+  return true;
+}
+
+const blocked = (message: string) => new AppError(message, 400, true, 'LINK_BLOCKED');
+
+/**
+ * dns.lookup that refuses hostnames with any blocked address
+ */
+const safeLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const first = addresses[0];
+    if (!first || addresses.some(a => isBlockedAddress(a.address))) {
+      callback(blocked(`${hostname} resolves to a private or reserved address`), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+/**
+ * Refuse URLs that can't be fetched safely before any connection is made
+ */
+export function assertFetchableUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw blocked('Only http and https links can be fetched');
+  }
+  if (url.username || url.password) {
+    throw blocked('Links with credentials are not fetched');
+  }
+  if (!ALLOWED_PORTS.has(url.port)) {
+    throw blocked('Only links on the standard ports are fetched');
+  }
+
+  // Literal addresses never go through the lookup
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw blocked(`${host} is a private or reserved address`);
+  }
+}
+
+function requestOnce(
+  url: URL,
+  options: SafeFetchOptions,
+  deadline: number
+): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: Buffer; truncated: boolean }> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, {
+      lookup: safeLookup,
+      headers: {
+        'user-agent': USER_AGENT,
+        accept: options.accept ?? '*/*',
+        'accept-encoding': 'identity',
+      },
+    });
+
+    const timer = setTimeout(() => {
+      request.destroy(new AppError('The link took too long to respond', 504, true, 'LINK_TIMEOUT'));
+    }, Math.max(0, deadline - Date.now()));
+
+    request.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error instanceof AppError
+        ? error
+        : new AppError(`Could not fetch the link: ${error.message}`, 502, true, 'LINK_UNREACHABLE'));
+    });
+
+    request.on('response', (response) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let truncated = false;
+
+      const finish = () => {
+        clearTimeout(timer);
+        resolve({ status: response.statusCode ?? 0, headers: response.headers, body: Buffer.concat(chunks), truncated });
+      };
+
+      response.on('data', (chunk: Buffer) => {
+        const room = options.maxBytes - size;
+        if (chunk.length >= room) {
+          chunks.push(chunk.subarray(0, room));
+          size = options.maxBytes;
+          truncated = true;
+          response.destroy();
+          finish();
+          return;
+        }
+        chunks.push(chunk);
+        size += chunk.length;
+      });
+      response.on('end', finish);
+      response.on('error', (error) => {
+        if (!truncated) request.destroy(error);
+      });
+    });
+  });
+}
+
+export async function safeFetch(input: string, options: SafeFetchOptions): Promise<SafeFetchResponse> {
+  const deadline = Date.now() + options.timeoutMs;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new AppError('Invalid link', 400, true, 'LINK_INVALID');
+  }
+
+  for (let redirects = 0; ; redirects++) {
+    assertFetchableUrl(url);
+    const response = await requestOnce(url, options, deadline);
+    const location = response.headers.location;
+
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= maxRedirects) {
+        throw new AppError('The link redirects too many times', 502, true, 'LINK_UNREACHABLE');
+      }
+      url = new URL(location, url);
+      continue;
+    }
+
+    return {
+      url: url.toString(),
+      status: response.status,
+      contentType: response.headers['content-type'] ?? '',
+      body: response.body,
+      truncated: response.truncated,
+    };
+  }
+}
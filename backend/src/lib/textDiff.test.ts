@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords, DiffSegment } from './textDiff.js';
+
+const side = (segments: DiffSegment[], skip: DiffSegment['type']) =>
+  segments.filter(segment => segment.type !== skip).map(segment => segment.text).join('');
+
+describe('diffWords', () => {
+  it.each<[string, string, string, DiffSegment[]]>([
+    ['identical texts', 'Launch day', 'Launch day', [{ type: 'equal', text: 'Launch day' }]],
+    ['two empty texts', '', '', []],
+    ['text added to an empty post', '', 'New post', [{ type: 'insert', text: 'New post' }]],
+    ['all text removed', 'Old post', '', [{ type: 'delete', text: 'Old post' }]],
+    [
+      'a replaced word',
+      'the quick fox',
+      'the slow fox',
+      [
+        { type: 'equal', text: 'the ' },
+        { type: 'delete', text: 'quick' },
+        { type: 'insert', text: 'slow' },
+        { type: 'equal', text: ' fox' },
+      ],
+    ],
+    [
+      'an added word',
+      'Launch day',
+      'Launch day today',
+      [
+        { type: 'equal', text: 'Launch day' },
+        { type: 'insert', text: ' today' },
+      ],
+    ],
+    [
+      'a removed word',
+      'Our big launch',
+      'Our launch',
+      [
+        { type: 'equal', text: 'Our ' },
+        { type: 'delete', text: 'big ' },
+        { type: 'equal', text: 'launch' },
+      ],
+    ],
+    [
+      'changed whitespace',
+      'a b',
+      'a\nb',
+      [
+        { type: 'equal', text: 'a' },
+        { type: 'delete', text: ' ' },
+        { type: 'insert', text: '\n' },
+        { type: 'equal', text: 'b' },
+      ],
+    ],
+    [
+      'punctuation stuck to a word',
+      'Out now.',
+      'Out now!',
+      [
+        { type: 'equal', text: 'Out ' },
+        { type: 'delete', text: 'now.' },
+        { type: 'insert', text: 'now!' },
+      ],
+    ],
+  ])('diffs %s', (_, before, after, expected) => {
+    expect(diffWords(before, after)).toEqual(expected);
+  });
+
+  it.each([
+    ['We shipped it https://example.com/launch', 'Big news 🎉 we shipped it!\nhttps://example.com/launch'],
+    ['  leading and trailing  ', 'leading, then trailing'],
+    ['one two three four five', 'five four three two one'],
+  ])('gives back both sides of %j', (before, after) => {
+    const segments = diffWords(before, after);
+    expect(side(segments, 'insert')).toBe(before);
+    expect(side(segments, 'delete')).toBe(after);
+  });
+
+  it('shows very long texts as replaced instead of diffing them', () => {
+    const before = 'word '.repeat(2500);
+    const after = 'term '.repeat(2500);
+    expect(diffWords(before, after)).toEqual([
+      { type: 'delete', text: before },
+      { type: 'insert', text: after },
+    ]);
+  });
+});
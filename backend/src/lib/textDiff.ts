@@ -0,0 +1,73 @@
+/**
+ * Word-level diff between two versions of a post, for showing what an
+ * edit changed. Whitespace is kept, so joining the segments of one side
+ * gives that side back.
+ */
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Beyond this many token pairs the table gets too big; the texts are shown as replaced
+const MAX_CELLS = 4_000_000;
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_CELLS) {
+    return mergeSegments([
+      { type: 'delete', text: before },
+      { type: 'insert', text: after },
+    ]);
+  }
+
+  // lcs[i * width + j]: longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1]! + 1
+        : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      segments.push({ type: 'equal', text: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!) {
+      segments.push({ type: 'delete', text: a[i]! });
+      i++;
+    } else {
+      segments.push({ type: 'insert', text: b[j]! });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) segments.push({ type: 'delete', text: a[i]! });
+  for (; j < b.length; j++) segments.push({ type: 'insert', text: b[j]! });
+
+  return mergeSegments(segments);
+}
+
+function mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    if (!segment.text) continue;
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import * as server from './textMetrics.js';
+import * as editor from '../../../frontend/src/lib/textMetrics.js';
+
+const { X_TRANSFORMED_URL_LENGTH } = server;
+
+// The post editor counts with its own copy of this module; both must give the same answers
+describe.each([
+  ['server', server],
+  ['editor', editor],
+])('%s text metrics', (_, { countCharacters, findUrls, xWeightedLength }) => {
+  describe('xWeightedLength', () => {
+    it.each([
+      ['empty text', '', 0],
+      ['plain Latin text', 'hello world', 11],
+      ['accented Latin', 'café crème', 10],
+      ['a decomposed accent, counted after NFC', 'cafe\u0301', 4],
+      ['curly quotes and dashes', '“hi” — ok', 9],
+      ['CJK', '日本語', 6],
+      ['Hangul', '안녕', 4],
+      ['an emoji', 'Hi 👋', 5],
+      ['an emoji with a skin tone', '👍🏽', 2],
+      ['an emoji with a variation selector', '❤️', 2],
+      ['a ZWJ family', '👨‍👩‍👧‍👦', 2],
+      ['a flag', '🇯🇵', 2],
+      ['two flags', '🇯🇵🇫🇷', 4],
+      ['a keycap', '1️⃣', 2],
+      ['a subdivision flag', '🏴󠁧󠁢󠁳󠁣󠁴󠁿', 2],
+      ['digits that are not keycaps', '2026', 4],
+    ])('weighs %s', (_, text, expected) => {
+      expect(xWeightedLength(text)).toBe(expected);
+    });
+
+    it.each([
+      ['a short link', 'https://a.co', X_TRANSFORMED_URL_LENGTH],
+      ['a long link', `https://example.com/${'a'.repeat(200)}?utm_source=newsletter`, X_TRANSFORMED_URL_LENGTH],
+      ['text around a link', 'See https://example.com/launch now', 4 + X_TRANSFORMED_URL_LENGTH + 4],
+      ['a link ending a sentence', 'Go: https://example.com/launch.', 4 + X_TRANSFORMED_URL_LENGTH + 1],
+      ['a link in brackets', '(https://example.com/launch)', 1 + X_TRANSFORMED_URL_LENGTH + 1],
+      ['two links', 'a https://x.com b http://y.com/path', 2 + X_TRANSFORMED_URL_LENGTH + 3 + X_TRANSFORMED_URL_LENGTH],
+      ['a link next to CJK', '新着 https://example.com/ja', 5 + X_TRANSFORMED_URL_LENGTH],
+    ])('counts %s as a t.co link', (_, text, expected) => {
+      expect(xWeightedLength(text)).toBe(expected);
+    });
+
+    it('puts a full post of emoji at the limit at half the characters', () => {
+      expect(xWeightedLength('🎉'.repeat(140))).toBe(280);
+      expect(xWeightedLength('a'.repeat(280))).toBe(280);
+    });
+  });
+
+  describe('countCharacters', () => {
+    it.each([
+      ['TWITTER', 'Hi 👋 https://example.com/launch', 3 + 2 + 1 + X_TRANSFORMED_URL_LENGTH],
+      ['FACEBOOK', 'Hi 👋 https://example.com/launch', 31],
+      ['FACEBOOK', '👍🏽', 2],
+      ['FACEBOOK', 'café', 4],
+      ['LINKEDIN', '日本語', 3],
+    ])('counts for %s', (platform, text, expected) => {
+      expect(countCharacters(text, platform)).toBe(expected);
+    });
+  });
+
+  describe('findUrls', () => {
+    it('finds links with their position, leaving sentence punctuation off', () => {
+      expect(findUrls('Read https://example.com/post). Or http://b.example/x?y=1, thanks!')).toEqual([
+        { url: 'https://example.com/post', index: 5 },
+        { url: 'http://b.example/x?y=1', index: 35 },
+      ]);
+    });
+
+    it('finds nothing in text without links', () => {
+      expect(findUrls('example.com and www.example.com are not links here')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Character counting the way providers count. X weighs characters: most
+ * Latin text counts 1, CJK and emoji count 2, and every link counts as a
+ * t.co URL of fixed length no matter how long it is. Facebook and the
+ * others count Unicode characters, so an emoji is one character, not the
+ * two UTF-16 units String.length sees.
+ *
+ * Self-contained, and copied to frontend/src/lib/textMetrics.ts so the
+ * editor counts the same way. textMetrics.test.ts runs against both copies.
+ */
+
+export const X_MAX_WEIGHTED_LENGTH = 280;
+export const X_TRANSFORMED_URL_LENGTH = 23;
+
+export const FACEBOOK_MAX_LENGTH = 63206;
+// Facebook folds longer posts behind "See more" in the feed
+export const FACEBOOK_SEE_MORE_LENGTH = 477;
+
+// Code point ranges X counts as 1; everything else counts as 2
+const X_LIGHT_RANGES: Array<[number, number]> = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037],
+];
+
+const URL_PATTERN = /https?:\/\/[^\s<>"]+/gi;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]]+$/;
+const PICTOGRAPHIC = /\p{Extended_Pictographic}/u;
+const KEYCAP_BASE = /[0-9#*]/;
+
+const VARIATION_SELECTOR = 0xfe0f;
+const ZERO_WIDTH_JOINER = 0x200d;
+const COMBINING_KEYCAP = 0x20e3;
+
+const isRegionalIndicator = (cp: number) => cp >= 0x1f1e6 && cp <= 0x1f1ff;
+const isSkinToneModifier = (cp: number) => cp >= 0x1f3fb && cp <= 0x1f3ff;
+const isTag = (cp: number) => cp >= 0xe0020 && cp <= 0xe007f;
+
+const codePointWeight = (cp: number): number =>
+  X_LIGHT_RANGES.some(([start, end]) => cp >= start && cp <= end) ? 1 : 2;
+
+/**
+ * Weighted length of text without links. Every emoji sequence - flags,
+ * skin tones, ZWJ families, keycaps - counts 2 as a whole.
+ */
+function weighText(text: string): number {
+  const chars = [...text];
+  const cp = (index: number) => chars[index]?.codePointAt(0) ?? -1;
+  let weight = 0;
+  let i = 0;
+
+  while (i < chars.length) {
+    const char = chars[i]!;
+    const current = cp(i);
+
+    if (isRegionalIndicator(current) && isRegionalIndicator(cp(i + 1))) {
+      weight += 2;
+      i += 2;
+      continue;
+    }
+
+    if (KEYCAP_BASE.test(char) && (cp(i + 1) === COMBINING_KEYCAP ||
+        (cp(i + 1) === VARIATION_SELECTOR && cp(i + 2) === COMBINING_KEYCAP))) {
+      weight += 2;
+      i += cp(i + 1) === COMBINING_KEYCAP ? 2 : 3;
+      continue;
+    }
+
+    if (PICTOGRAPHIC.test(char)) {
+      i++;
+      while (i < chars.length) {
+        const next = cp(i);
+        if (next === VARIATION_SELECTOR || isSkinToneModifier(next) || isTag(next)) {
+          i++;
+        } else if (next === ZERO_WIDTH_JOINER && PICTOGRAPHIC.test(chars[i + 1] ?? '')) {
+          i += 2;
+        } else {
+          break;
+        }
+      }
+      weight += 2;
+      continue;
+    }
+
+    weight += codePointWeight(current);
+    i++;
+  }
+
+  return weight;
+}
+
+/**
+ * The links in a text as X finds them, with sentence punctuation left off
+ */
+export function findUrls(text: string): Array<{ url: string; index: number }> {
+  const urls: Array<{ url: string; index: number }> = [];
+  for (const match of text.matchAll(URL_PATTERN)) {
+    urls.push({ url: match[0].replace(TRAILING_PUNCTUATION, ''), index: match.index ?? 0 });
+  }
+  return urls;
+}
+
+/**
+ * Length of a post as X counts it against its 280 limit
+ */
+export function xWeightedLength(text: string): number {
+  const normalized = text.normalize('NFC');
+  let length = 0;
+  let cursor = 0;
+
+  for (const { url, index } of findUrls(normalized)) {
+    length += weighText(normalized.slice(cursor, index)) + X_TRANSFORMED_URL_LENGTH;
+    cursor = index + url.length;
+  }
+
+  return length + weighText(normalized.slice(cursor));
+}
+
+/**
+ * Length of a post as the given platform (a PlatformType) counts it
+ */
+export function countCharacters(text: string, platform: string): number {
+  if (platform === 'TWITTER') {
+    return xWeightedLength(text);
+  }
+  return [...text.normalize('NFC')].length;
+}
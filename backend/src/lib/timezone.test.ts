@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { getTimeZoneOffsetMs, isValidTimeZone, parseDateTimeInZone, zonedTimeToUtc } from './timezone.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('zonedTimeToUtc', () => {
+  it('resolves ordinary wall-clock times with the offset in force', () => {
+    expect(zonedTimeToUtc({ year: 2026, month: 1, day: 15, hour: 9 }, 'America/New_York').toISOString()).toBe(
+      '2026-01-15T14:00:00.000Z'
+    );
+    expect(zonedTimeToUtc({ year: 2026, month: 7, day: 15, hour: 9 }, 'America/New_York').toISOString()).toBe(
+      '2026-07-15T13:00:00.000Z'
+    );
+  });
+
+  it('moves a time skipped by spring-forward past the gap', () => {
+    // 2026-03-08 02:00 EST jumps to 03:00 EDT, so 02:30 reads as 03:30 EDT
+    const date = zonedTimeToUtc({ year: 2026, month: 3, day: 8, hour: 2, minute: 30 }, 'America/New_York');
+    expect(date.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(getTimeZoneOffsetMs(date, 'America/New_York')).toBe(-4 * HOUR);
+  });
+
+  it('resolves a time repeated by fall-back to its first occurrence', () => {
+    // 01:30 happens at EDT (05:30Z) and again at EST (06:30Z) on 2026-11-01
+    const date = zonedTimeToUtc({ year: 2026, month: 11, day: 1, hour: 1, minute: 30 }, 'America/New_York');
+    expect(date.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+    expect(getTimeZoneOffsetMs(date, 'America/New_York')).toBe(-4 * HOUR);
+  });
+
+  it('handles the same transitions in a southern-hemisphere zone', () => {
+    // Sydney springs forward at 02:00 on 2026-10-04 and falls back at 03:00 on 2026-04-05
+    const gap = zonedTimeToUtc({ year: 2026, month: 10, day: 4, hour: 2, minute: 30 }, 'Australia/Sydney');
+    expect(gap.toISOString()).toBe('2026-10-03T16:30:00.000Z');
+
+    const overlap = zonedTimeToUtc({ year: 2026, month: 4, day: 5, hour: 2, minute: 30 }, 'Australia/Sydney');
+    expect(overlap.toISOString()).toBe('2026-04-04T15:30:00.000Z');
+  });
+
+  it.each([
+    ['Asia/Kolkata', { year: 2026, month: 3, day: 8, hour: 2, minute: 30 }, '2026-03-07T21:00:00.000Z'],
+    ['Asia/Kolkata', { year: 2026, month: 11, day: 1, hour: 1, minute: 30 }, '2026-10-31T20:00:00.000Z'],
+    ['UTC', { year: 2026, month: 3, day: 8, hour: 2, minute: 30 }, '2026-03-08T02:30:00.000Z'],
+    ['UTC', { year: 2026, month: 11, day: 1, hour: 1, minute: 30 }, '2026-11-01T01:30:00.000Z'],
+  ])('applies the fixed offset of %s on DST dates elsewhere', (timeZone, local, expected) => {
+    expect(zonedTimeToUtc(local, timeZone).toISOString()).toBe(expected);
+  });
+
+  it('throws on an unknown zone', () => {
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(() => zonedTimeToUtc({ year: 2026, month: 1, day: 1 }, 'Mars/Olympus_Mons')).toThrow(RangeError);
+  });
+});
+
+describe('parseDateTimeInZone', () => {
+  it.each([
+    ['2026-03-08 02:30', '2026-03-08T07:30:00.000Z'],
+    ['2026-03-08T02:30', '2026-03-08T07:30:00.000Z'],
+    ['2026-11-01 01:30', '2026-11-01T05:30:00.000Z'],
+    ['2026-11-01', '2026-11-01T04:00:00.000Z'],
+    ['2026-11-01T01:30:00-05:00', '2026-11-01T06:30:00.000Z'],
+    ['2026-11-01T06:30:00Z', '2026-11-01T06:30:00.000Z'],
+  ])('reads %s in America/New_York as %s', (value, expected) => {
+    expect(parseDateTimeInZone(value, 'America/New_York')?.toISOString()).toBe(expected);
+  });
+
+  it.each(['2026-02-30', '2026-02-30 10:00', '2026-03-08 24:00', 'next tuesday', ''])('rejects %j', value => {
+    expect(parseDateTimeInZone(value, 'America/New_York')).toBeNull();
+  });
+
+  it('ignores the zone for values with an explicit offset', () => {
+    expect(parseDateTimeInZone('2026-03-08T02:30:00+05:30', 'Mars/Olympus_Mons')?.toISOString()).toBe(
+      '2026-03-07T21:00:00.000Z'
+    );
+  });
+
+  it('throws on an unknown zone for naive values', () => {
+    expect(() => parseDateTimeInZone('2026-03-08 02:30', 'Mars/Olympus_Mons')).toThrow(RangeError);
+  });
+});
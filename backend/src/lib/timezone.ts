@@ -0,0 +1,183 @@
+/**
+ * IANA timezone helpers built on Intl, so no timezone database has to ship
+ * with the backend.
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const EXPLICIT_OFFSET_PATTERN = /^\d{4}-\d{2}-\d{2}[T ].*(Z|[+-]\d{2}:?\d{2})$/i;
+const NAIVE_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const NAIVE_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::([0-5][0-9]))?$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday ?? ''),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time in a timezone refers to. Times skipped by a
+ * DST change move forward by the size of the gap (02:30 becomes 03:30);
+ * repeated times resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(
+  local: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number },
+  timeZone: string
+): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour ?? 0, local.minute ?? 0, local.second ?? 0);
+
+  // Offsets either side of the wall time; they differ only around a DST change
+  const offsetBefore = getTimeZoneOffsetMs(new Date(asUtc - 24 * 60 * 60 * 1000), timeZone);
+  const offsetAfter = getTimeZoneOffsetMs(new Date(asUtc + 24 * 60 * 60 * 1000), timeZone);
+
+  const beforeChange = asUtc - offsetBefore;
+  if (getTimeZoneOffsetMs(new Date(beforeChange), timeZone) === offsetBefore) {
+    return new Date(beforeChange);
+  }
+
+  const afterChange = asUtc - offsetAfter;
+  if (getTimeZoneOffsetMs(new Date(afterChange), timeZone) === offsetAfter) {
+    return new Date(afterChange);
+  }
+
+  // Skipped by the change: read the clock with the old offset, which lands past it
+  return new Date(beforeChange);
+}
+
+/**
+ * Parse an ISO 8601 date or date-time. Values with Z or an offset are
+ * absolute; naive values ("2025-01-15 10:00", "2025-01-15") are wall-clock
+ * time in timeZone. Anything else is null.
+ */
+export function parseDateTimeInZone(value: string, timeZone: string): Date | null {
+  const trimmed = value.trim();
+
+  if (EXPLICIT_OFFSET_PATTERN.test(trimmed)) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const match = NAIVE_DATE_TIME_PATTERN.exec(trimmed) ?? NAIVE_DATE_PATTERN.exec(trimmed);
+  if (!match) return null;
+
+  const local = {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] ?? 0),
+    minute: Number(match[5] ?? 0),
+    second: Number(match[6] ?? 0),
+  };
+
+  // Reject dates that don't exist (2025-02-30) rather than rolling them over
+  const check = new Date(Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second));
+  if (
+    check.getUTCMonth() !== local.month - 1 ||
+    check.getUTCDate() !== local.day ||
+    check.getUTCHours() !== local.hour ||
+    check.getUTCMinutes() !== local.minute
+  ) {
+    return null;
+  }
+
+  return zonedTimeToUtc(local, timeZone);
+}
+
+/**
+ * Whether a date string carries no time (and no offset)
+ */
+export function isDateOnly(value: string): boolean {
+  return NAIVE_DATE_PATTERN.test(value.trim());
+}
+
+/**
+ * Midnight at the start of the day containing date, in timeZone
+ */
+export function startOfZonedDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ year, month, day }, timeZone);
+}
+
+/**
+ * Midnight on the first of the month containing date, in timeZone
+ */
+export function startOfZonedMonth(date: Date, timeZone: string): Date {
+  const { year, month } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ year, month, day: 1 }, timeZone);
+}
+
+/**
+ * Parse "HH:mm" into minutes after midnight, or null when malformed
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = TIME_OF_DAY_PATTERN.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+export function isTimeOfDay(value: string): boolean {
+  return TIME_OF_DAY_PATTERN.test(value);
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { enforceUrls, hasUrlChanges, UrlCheck } from './urlGuard.js';
+
+const LAUNCH = 'https://example.com/launch';
+const DOCS = 'https://docs.example.com';
+const ORIGINAL = `Launch day: ${LAUNCH} and the docs at ${DOCS}`;
+
+const check = (partial: Partial<UrlCheck>): UrlCheck => ({ preserved: [], repaired: [], restored: [], removed: [], ...partial });
+
+describe('enforceUrls', () => {
+  it.each([
+    {
+      name: 'leaves a rewrite with the same links alone',
+      original: ORIGINAL,
+      rewritten: `We launched! ${LAUNCH} Docs: ${DOCS}`,
+      text: `We launched! ${LAUNCH} Docs: ${DOCS}`,
+      check: check({ preserved: [LAUNCH, DOCS] }),
+    },
+    {
+      name: 'swaps an altered link back in place',
+      original: ORIGINAL,
+      rewritten: `We launched! https://example.com/launch-2026 Docs: ${DOCS}`,
+      text: `We launched! ${LAUNCH} Docs: ${DOCS}`,
+      check: check({ preserved: [DOCS], repaired: [{ from: 'https://example.com/launch-2026', to: LAUNCH }] }),
+    },
+    {
+      name: 'swaps several altered links back in order',
+      original: ORIGINAL,
+      rewritten: 'See https://example.com/Launch and https://docs.example.com/en',
+      text: `See ${LAUNCH} and ${DOCS}`,
+      check: check({
+        repaired: [
+          { from: 'https://example.com/Launch', to: LAUNCH },
+          { from: 'https://docs.example.com/en', to: DOCS },
+        ],
+      }),
+    },
+    {
+      name: 'repairs a link the rewrite broke',
+      original: `New post ${LAUNCH}`,
+      rewritten: 'New post https://example/launch',
+      text: `New post ${LAUNCH}`,
+      check: check({ repaired: [{ from: 'https://example/launch', to: LAUNCH }] }),
+    },
+    {
+      name: 'appends a dropped link',
+      original: ORIGINAL,
+      rewritten: `We launched! ${LAUNCH}  `,
+      text: `We launched! ${LAUNCH}\n${DOCS}`,
+      check: check({ preserved: [LAUNCH], restored: [DOCS] }),
+    },
+    {
+      name: 'appends every dropped link',
+      original: ORIGINAL,
+      rewritten: 'We launched!',
+      text: `We launched!\n${LAUNCH}\n${DOCS}`,
+      check: check({ restored: [LAUNCH, DOCS] }),
+    },
+    {
+      name: 'keeps a link used twice twice',
+      original: `${LAUNCH} - yes, ${LAUNCH}`,
+      rewritten: `Go to ${LAUNCH}`,
+      text: `Go to ${LAUNCH}\n${LAUNCH}`,
+      check: check({ preserved: [LAUNCH], restored: [LAUNCH] }),
+    },
+    {
+      name: 'removes a made-up link and the gap it leaves',
+      original: `New post ${LAUNCH}`,
+      rewritten: `New post ${LAUNCH} and also https://spam.example/offer today`,
+      text: `New post ${LAUNCH} and also today`,
+      check: check({ preserved: [LAUNCH], removed: ['https://spam.example/offer'] }),
+    },
+    {
+      name: 'repairs first and removes what is left over',
+      original: `New post ${LAUNCH}`,
+      rewritten: 'New post https://example.com/new https://spam.example',
+      text: `New post ${LAUNCH}`,
+      check: check({
+        repaired: [{ from: 'https://example.com/new', to: LAUNCH }],
+        removed: ['https://spam.example'],
+      }),
+    },
+    {
+      name: 'removes links from a rewrite of a post that had none',
+      original: 'Happy Friday everyone',
+      rewritten: 'Happy Friday https://example.com everyone',
+      text: 'Happy Friday everyone',
+      check: check({ removed: ['https://example.com'] }),
+    },
+  ])('$name', ({ original, rewritten, text, check: expected }) => {
+    const result = enforceUrls(original, rewritten);
+    expect(result.text).toBe(text);
+    expect(result.check).toEqual(expected);
+  });
+});
+
+describe('hasUrlChanges', () => {
+  it.each([
+    [check({ preserved: [LAUNCH] }), false],
+    [check({}), false],
+    [check({ repaired: [{ from: 'https://a.example', to: LAUNCH }] }), true],
+    [check({ restored: [LAUNCH] }), true],
+    [check({ removed: [LAUNCH] }), true],
+  ])('reports %j as %s', (urlCheck, expected) => {
+    expect(hasUrlChanges(urlCheck)).toBe(expected);
+  });
+});
@@ -0,0 +1,66 @@
+import { extractUrls } from '../schemas/contentContract.schema.js';
+
+/**
+ * What happened to the original post's links in a rewrite
+ */
+export interface UrlCheck {
+  preserved: string[];
+  repaired: Array<{ from: string; to: string }>; // Altered by the rewrite, put back
+  restored: string[]; // Dropped by the rewrite, appended
+  removed: string[]; // Made up by the rewrite, taken out
+}
+
+const replaceFirst = (text: string, search: string, replacement: string) => {
+  const index = text.indexOf(search);
+  return index === -1 ? text : text.slice(0, index) + replacement + text.slice(index + search.length);
+};
+
+/**
+ * Make a rewrite carry exactly the links of the original. Links the
+ * rewrite changed are swapped back in place, in order; links it dropped
+ * are appended and links it invented are removed.
+ */
+export function enforceUrls(original: string, rewritten: string): { text: string; check: UrlCheck } {
+  const expected = extractUrls(original).valid;
+  const { valid, invalid } = extractUrls(rewritten);
+  const check: UrlCheck = { preserved: [], repaired: [], restored: [], removed: [] };
+
+  // Match links one to one, so a link used twice has to appear twice
+  const missing = [...expected];
+  const extra: string[] = [];
+  for (const url of [...valid, ...invalid]) {
+    const index = missing.indexOf(url);
+    if (index === -1) {
+      extra.push(url);
+    } else {
+      missing.splice(index, 1);
+      check.preserved.push(url);
+    }
+  }
+
+  let text = rewritten;
+  for (const url of extra) {
+    const replacement = missing.shift();
+    if (replacement) {
+      text = replaceFirst(text, url, replacement);
+      check.repaired.push({ from: url, to: replacement });
+    } else {
+      text = replaceFirst(text, url, '');
+      check.removed.push(url);
+    }
+  }
+  if (check.removed.length > 0) {
+    text = text.replace(/[ \t]{2,}/g, ' ').trim();
+  }
+
+  if (missing.length > 0) {
+    text = `${text.trimEnd()}\n${missing.join('\n')}`;
+    check.restored.push(...missing);
+  }
+
+  return { text, check };
+}
+
+export function hasUrlChanges(check: UrlCheck): boolean {
+  return check.repaired.length + check.restored.length + check.removed.length > 0;
+}
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../lib/logger.js';
+import type { ContractViolation } from '../schemas/contentContract.schema.js';
 
 export class AppError extends Error {
   public readonly statusCode: number;
@@ -63,6 +64,65 @@ export class QuotaExceededError extends AppError {
   }
 }
 
+export class ContractViolationError extends AppError {
+  public readonly violations: ContractViolation[];
+
+  constructor(violations: ContractViolation[]) {
+    super('Post does not meet the content contract', 422, true, 'CONTENT_CONTRACT_VIOLATION');
+    this.violations = violations;
+  }
+}
+
+/**
+ * Media that posts still reference can't be deleted
+ */
+export class MediaInUseError extends AppError {
+  public readonly posts: Array<{ id: string; content: string; status: string }>;
+
+  constructor(posts: Array<{ id: string; content: string; status: string }>) {
+    super(`Media is used by ${posts.length} post${posts.length === 1 ? '' : 's'}`, 409, true, 'MEDIA_IN_USE');
+    this.posts = posts;
+  }
+}
+
+export class ProviderUnavailableError extends AppError {
+  constructor(message: string, code: 'PROVIDER_GATED' | 'PROVIDER_DISABLED') {
+    super(message, 403, true, code);
+  }
+}
+
+export type ProviderErrorCode =
+  | 'PROVIDER_RATE_LIMITED'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'PROVIDER_TIMEOUT'
+  | 'PROVIDER_NETWORK_ERROR'
+  | 'PROVIDER_AUTH_EXPIRED'
+  | 'PROVIDER_FORBIDDEN'
+  | 'PROVIDER_DUPLICATE_CONTENT'
+  | 'PROVIDER_INVALID_REQUEST'
+  | 'PROVIDER_ERROR';
+
+/**
+ * Failure reported by (or while talking to) a social platform API
+ */
+export class ProviderError extends AppError {
+  public readonly provider: string;
+  public readonly providerStatus: number | undefined;
+  public readonly retryAfterMs: number | undefined;
+
+  constructor(
+    provider: string,
+    message: string,
+    code: ProviderErrorCode,
+    options: { providerStatus?: number | undefined; retryAfterMs?: number | undefined } = {}
+  ) {
+    super(message, 502, true, code);
+    this.provider = provider;
+    this.providerStatus = options.providerStatus;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
 export function errorHandler(
   err: Error,
   req: Request,
@@ -108,6 +168,8 @@ export function errorHandler(
       error: {
         message: err.message,
         code: err.code,
+        ...(err instanceof ContractViolationError && { violations: err.violations }),
+        ...(err instanceof MediaInUseError && { posts: err.posts }),
       },
     });
     return;
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { randomUUID } from 'crypto';
 import { logger } from '../lib/logger.js';
+import { httpRequestDuration, routeLabel } from '../lib/metrics.js';
 
 declare global {
   namespace Express {
@@ -40,6 +41,11 @@ export function requestLogger(
       statusCode: res.statusCode,
       duration: `${duration}ms`,
     }, 'Request completed');
+
+    httpRequestDuration.observe(
+      { method: req.method, route: routeLabel(req), status: String(res.statusCode) },
+      duration / 1000
+    );
   });
   
   next();
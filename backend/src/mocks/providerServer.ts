@@ -0,0 +1,351 @@
+import crypto from 'crypto';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express, { Request, Response, NextFunction } from 'express';
+import pino from 'pino';
+
+/**
+ * Local stand-in for the X v2 and Graph APIs, so publishing, token refresh
+ * and reconciliation can be exercised without network access.
+ *
+ * Point the backend at it with:
+ *   TWITTER_API_BASE_URL=http://localhost:4010/twitter
+ *   TWITTER_UPLOAD_BASE_URL=http://localhost:4010/twitter
+ *   FACEBOOK_GRAPH_BASE_URL=http://localhost:4010/facebook
+ *
+ * Every endpoint succeeds by default. Failures are scripted per endpoint
+ * through the control API:
+ *   POST /__mock/script   { endpoint, responses: [{ scenario, retryAfterSeconds?, delayMs? }] }
+ *   GET  /__mock/requests recorded provider calls
+ *   POST /__mock/reset    clear scripts, requests and stored posts
+ */
+
+// Standalone logger: the mock server runs without the backend's env
+const logger = pino({ name: 'mock-providers', level: process.env.LOG_LEVEL || 'info' });
+
+export type MockEndpoint =
+  | 'twitter.token'
+  | 'twitter.me'
+  | 'twitter.tweets'
+  | 'twitter.timeline'
+  | 'twitter.deleteTweet'
+  | 'twitter.media'
+  | 'facebook.token'
+  | 'facebook.me'
+  | 'facebook.accounts'
+  | 'facebook.feed'
+  | 'facebook.photos'
+  | 'facebook.posts'
+  | 'facebook.deletePost';
+
+export type MockScenario = 'success' | 'rate_limit' | 'server_error' | 'timeout' | 'expired_token';
+
+export interface MockResponse {
+  scenario: MockScenario;
+  retryAfterSeconds?: number | undefined; // rate_limit only
+  delayMs?: number | undefined; // timeout only; should exceed PROVIDER_HTTP_TIMEOUT_MS
+}
+
+export interface MockRequest {
+  endpoint: MockEndpoint;
+  method: string;
+  path: string;
+  body: unknown;
+  receivedAt: string;
+}
+
+interface StoredPost {
+  id: string;
+  text: string;
+  createdAt: Date;
+}
+
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+const DEFAULT_TIMEOUT_DELAY_MS = 35_000;
+
+const TWITTER_USER = { id: '1000000001', name: 'Mock User', username: 'mockuser' };
+const FACEBOOK_USER = { id: '2000000001', name: 'Mock User' };
+const FACEBOOK_PAGE = { id: '3000000001', name: 'Mock Page', category: 'Website', access_token: 'mock-page-token' };
+
+export class MockProviderServer {
+  private readonly app = express();
+  private server: Server | undefined;
+  private scripts = new Map<MockEndpoint, MockResponse[]>();
+  private pendingTimers = new Set<NodeJS.Timeout>();
+  private tweets: StoredPost[] = [];
+  private pagePosts: StoredPost[] = [];
+  private sequence = 0;
+
+  readonly requests: MockRequest[] = [];
+
+  constructor() {
+    this.app.use(express.json({ limit: '20mb' }));
+    this.app.use(express.urlencoded({ extended: false }));
+    this.registerControlRoutes();
+    this.registerTwitterRoutes();
+    this.registerFacebookRoutes();
+  }
+
+  /**
+   * Start listening. Port 0 picks a free port. Resolves to the server's base URL.
+   */
+  start(port = 0): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(port, '127.0.0.1', () => {
+        const { port: boundPort } = server.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${boundPort}`);
+      });
+      server.once('error', reject);
+      this.server = server;
+    });
+  }
+
+  stop(): Promise<void> {
+    this.clearTimers();
+    const server = this.server;
+    this.server = undefined;
+    if (!server) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Queue responses for an endpoint; they are used in order, then the endpoint succeeds again
+   */
+  script(endpoint: MockEndpoint, responses: MockResponse[]): void {
+    this.scripts.set(endpoint, [...(this.scripts.get(endpoint) ?? []), ...responses]);
+  }
+
+  reset(): void {
+    this.clearTimers();
+    this.scripts.clear();
+    this.requests.length = 0;
+    this.tweets = [];
+    this.pagePosts = [];
+  }
+
+  private clearTimers(): void {
+    for (const timer of this.pendingTimers) clearTimeout(timer);
+    this.pendingTimers.clear();
+  }
+
+  private nextId(): string {
+    this.sequence += 1;
+    return `${Date.now()}${this.sequence.toString().padStart(4, '0')}`;
+  }
+
+  /**
+   * Record the call, then either serve the next scripted failure or hand over to the success handler
+   */
+  private scripted(endpoint: MockEndpoint) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      this.requests.push({
+        endpoint,
+        method: req.method,
+        path: req.path,
+        body: req.body as unknown,
+        receivedAt: new Date().toISOString(),
+      });
+
+      const queue = this.scripts.get(endpoint);
+      const response = queue?.shift() ?? { scenario: 'success' };
+      if (response.scenario === 'success') {
+        next();
+        return;
+      }
+
+      logger.info({ endpoint, scenario: response.scenario }, 'Serving scripted response');
+      this.sendFailure(endpoint, response, res);
+    };
+  }
+
+  private sendFailure(endpoint: MockEndpoint, response: MockResponse, res: Response): void {
+    const isTwitter = endpoint.startsWith('twitter.');
+
+    switch (response.scenario) {
+      case 'rate_limit': {
+        const retryAfter = response.retryAfterSeconds ?? DEFAULT_RETRY_AFTER_SECONDS;
+        res.setHeader('retry-after', retryAfter.toString());
+        if (isTwitter) {
+          res.setHeader('x-rate-limit-remaining', '0');
+          res.setHeader('x-rate-limit-reset', Math.ceil(Date.now() / 1000 + retryAfter).toString());
+          res.status(429).json({ title: 'Too Many Requests', detail: 'Too Many Requests', status: 429 });
+        } else {
+          res.status(400).json({
+            error: { message: 'Application request limit reached', type: 'OAuthException', code: 4 },
+          });
+        }
+        return;
+      }
+
+      case 'server_error':
+        if (isTwitter) {
+          res.status(500).json({ title: 'Internal Server Error', detail: 'Something went wrong', status: 500 });
+        } else {
+          res.status(500).json({
+            error: { message: 'An unexpected error has occurred', type: 'OAuthException', code: 2, is_transient: true },
+          });
+        }
+        return;
+
+      case 'expired_token':
+        if (endpoint === 'twitter.token') {
+          res.status(400).json({ error: 'invalid_request', error_description: 'Value passed for the token was invalid.' });
+        } else if (isTwitter) {
+          res.status(401).json({ title: 'Unauthorized', detail: 'Unauthorized', type: 'about:blank', status: 401 });
+        } else {
+          res.status(400).json({
+            error: {
+              message: 'Error validating access token: Session has expired',
+              type: 'OAuthException',
+              code: 190,
+              error_subcode: 463,
+            },
+          });
+        }
+        return;
+
+      case 'timeout': {
+        // Hold the request open until the client gives up
+        const timer = setTimeout(() => {
+          this.pendingTimers.delete(timer);
+          if (!res.headersSent) res.status(504).end();
+        }, response.delayMs ?? DEFAULT_TIMEOUT_DELAY_MS);
+        this.pendingTimers.add(timer);
+        return;
+      }
+    }
+  }
+
+  private registerControlRoutes(): void {
+    this.app.post('/__mock/script', (req, res) => {
+      const { endpoint, responses } = req.body as { endpoint?: MockEndpoint; responses?: MockResponse[] };
+      if (!endpoint || !Array.isArray(responses)) {
+        res.status(400).json({ error: 'endpoint and responses are required' });
+        return;
+      }
+      this.script(endpoint, responses);
+      res.json({ endpoint, queued: this.scripts.get(endpoint)?.length ?? 0 });
+    });
+
+    this.app.get('/__mock/requests', (_req, res) => {
+      res.json({ requests: this.requests });
+    });
+
+    this.app.post('/__mock/reset', (_req, res) => {
+      this.reset();
+      res.json({ success: true });
+    });
+  }
+
+  private registerTwitterRoutes(): void {
+    const router = express.Router();
+
+    router.post('/2/oauth2/token', this.scripted('twitter.token'), (_req, res) => {
+      res.json({
+        token_type: 'bearer',
+        expires_in: 7200,
+        access_token: `mock-access-${crypto.randomBytes(8).toString('hex')}`,
+        refresh_token: `mock-refresh-${crypto.randomBytes(8).toString('hex')}`,
+        scope: 'tweet.read tweet.write users.read offline.access media.write',
+      });
+    });
+
+    router.get('/2/users/me', this.scripted('twitter.me'), (_req, res) => {
+      res.json({ data: TWITTER_USER });
+    });
+
+    router.post('/2/tweets', this.scripted('twitter.tweets'), (req, res) => {
+      const { text } = req.body as { text?: string };
+      const tweet = { id: this.nextId(), text: text ?? '', createdAt: new Date() };
+      this.tweets.push(tweet);
+      res.status(201).json({ data: { id: tweet.id, text: tweet.text } });
+    });
+
+    router.delete('/2/tweets/:id', this.scripted('twitter.deleteTweet'), (req, res) => {
+      this.tweets = this.tweets.filter(t => t.id !== req.params.id);
+      res.json({ data: { deleted: true } });
+    });
+
+    router.get('/2/users/:id/tweets', this.scripted('twitter.timeline'), (req, res) => {
+      const since = typeof req.query.start_time === 'string' ? new Date(req.query.start_time) : new Date(0);
+      const data = this.tweets
+        .filter(t => t.createdAt >= since)
+        .map(t => ({ id: t.id, text: t.text }));
+      res.json(data.length > 0 ? { data, meta: { result_count: data.length } } : { meta: { result_count: 0 } });
+    });
+
+    router.post('/2/media/upload', this.scripted('twitter.media'), (_req, res) => {
+      const id = this.nextId();
+      res.json({ data: { id, media_key: `3_${id}` } });
+    });
+
+    this.app.use('/twitter', router);
+  }
+
+  private registerFacebookRoutes(): void {
+    const router = express.Router();
+
+    router.get('/v18.0/oauth/access_token', this.scripted('facebook.token'), (_req, res) => {
+      res.json({
+        access_token: `mock-user-token-${crypto.randomBytes(8).toString('hex')}`,
+        token_type: 'bearer',
+        expires_in: 60 * 24 * 60 * 60,
+      });
+    });
+
+    router.get('/v18.0/me', this.scripted('facebook.me'), (_req, res) => {
+      res.json(FACEBOOK_USER);
+    });
+
+    router.get('/v18.0/me/accounts', this.scripted('facebook.accounts'), (_req, res) => {
+      res.json({ data: [FACEBOOK_PAGE] });
+    });
+
+    router.post('/v18.0/:pageId/feed', this.scripted('facebook.feed'), (req, res) => {
+      const { message } = req.body as { message?: string };
+      const post = { id: `${String(req.params.pageId)}_${this.nextId()}`, text: message ?? '', createdAt: new Date() };
+      this.pagePosts.push(post);
+      res.json({ id: post.id });
+    });
+
+    router.post('/v18.0/:pageId/photos', this.scripted('facebook.photos'), (req, res) => {
+      const { caption } = req.body as { caption?: string };
+      const photoId = this.nextId();
+      const post = { id: `${String(req.params.pageId)}_${photoId}`, text: caption ?? '', createdAt: new Date() };
+      this.pagePosts.push(post);
+      res.json({ id: photoId, post_id: post.id });
+    });
+
+    router.get('/v18.0/:pageId/posts', this.scripted('facebook.posts'), (req, res) => {
+      const since = typeof req.query.since === 'string' ? new Date(Number(req.query.since) * 1000) : new Date(0);
+      res.json({
+        data: this.pagePosts
+          .filter(p => p.createdAt >= since)
+          .map(p => ({ id: p.id, message: p.text, permalink_url: `https://www.facebook.com/${p.id}` })),
+      });
+    });
+
+    router.delete('/v18.0/:postId', this.scripted('facebook.deletePost'), (req, res) => {
+      this.pagePosts = this.pagePosts.filter(p => p.id !== req.params.postId);
+      res.json({ success: true });
+    });
+
+    this.app.use('/facebook', router);
+  }
+}
+
+// Run standalone: npm run mock:providers
+if (require.main === module) {
+  const server = new MockProviderServer();
+  server
+    .start(Number(process.env.MOCK_PROVIDERS_PORT) || 4010)
+    .then(url => logger.info({ url }, 'Mock provider server listening'))
+    .catch((error: unknown) => {
+      logger.error({ error }, 'Mock provider server failed to start');
+      process.exit(1);
+    });
+}
@@ -1,6 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { aiService } from '../../services/ai.service.js';
+import { settingsService } from '../../services/settings.service.js';
 
 export const aiRouter = Router();
 
@@ -12,16 +13,32 @@ const refineSchema = z.object({
   model: z.string().optional(),
 });
 
+const variantsSchema = refineSchema.extend({
+  platforms: z.array(z.string()).min(1, 'Select at least one platform'),
+});
+
 /**
  * GET /api/ai/config
- * Get AI configuration (available models, default model, availability)
+ * Get AI configuration (active backend, available models, default model, availability)
  */
-aiRouter.get('/config', async (_req: Request, res: Response, _next: NextFunction): Promise<void> => {
-  res.json({
-    available: aiService.isAvailable(),
-    defaultModel: aiService.getDefaultModel(),
-    availableModels: aiService.getAvailableModels(),
-  });
+aiRouter.get('/config', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json({
+      available: aiService.isAvailable(),
+      backend: aiService.getBackend(),
+      // The user's default model from settings, when it is still offered
+      defaultModel: await settingsService.resolveAiModel(userId),
+      availableModels: aiService.getAvailableModels(),
+    });
+  } catch (error) {
+    next(error);
+  }
 });
 
 /**
@@ -30,6 +47,12 @@ aiRouter.get('/config', async (_req: Request, res: Response, _next: NextFunction
  */
 aiRouter.post('/refine', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
     const parsed = refineSchema.safeParse(req.body);
     
     if (!parsed.success) {
@@ -43,17 +66,54 @@ aiRouter.post('/refine', async (req: Request, res: Response, next: NextFunction)
     const input: Parameters<typeof aiService.refineContent>[0] = {
       content: parsed.data.content,
       platforms: parsed.data.platforms,
+      model: await settingsService.resolveAiModel(userId, parsed.data.model),
     };
     
     if (parsed.data.additionalContext) {
       input.additionalContext = parsed.data.additionalContext;
     }
     
-    if (parsed.data.model) {
-      input.model = parsed.data.model;
+    const result = await aiService.refineContent(input);
+    
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/ai/variants
+ * Write a separate version of the content for each platform
+ */
+aiRouter.post('/variants', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const parsed = variantsSchema.safeParse(req.body);
+    
+    if (!parsed.success) {
+      res.status(400).json({ 
+        error: 'Validation failed', 
+        details: parsed.error.flatten().fieldErrors 
+      });
+      return;
     }
     
-    const result = await aiService.refineContent(input);
+    const input: Parameters<typeof aiService.generateVariants>[0] = {
+      content: parsed.data.content,
+      platforms: parsed.data.platforms,
+      model: await settingsService.resolveAiModel(userId, parsed.data.model),
+    };
+    
+    if (parsed.data.additionalContext) {
+      input.additionalContext = parsed.data.additionalContext;
+    }
+    
+    const result = await aiService.generateVariants(input);
     
     res.json(result);
   } catch (error) {
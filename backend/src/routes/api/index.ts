@@ -10,6 +10,9 @@ import { settingsRouter } from './settings.js';
 import { importRouter } from '../import.js';
 import { aiRouter } from './ai.js';
 import { dashboardRouter } from './dashboard.js';
+import { jobsRouter } from './jobs.js';
+import { recurringRouter } from './recurring.js';
+import { linksRouter } from './links.js';
 
 export const apiRouter = Router();
 
@@ -25,3 +28,6 @@ apiRouter.use('/quota', quotaRouter);
 apiRouter.use('/settings', settingsRouter);
 apiRouter.use('/import', importRouter);
 apiRouter.use('/ai', aiRouter);
+apiRouter.use('/jobs', jobsRouter);
+apiRouter.use('/recurring', recurringRouter);
+apiRouter.use('/links', linksRouter);
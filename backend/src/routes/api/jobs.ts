@@ -0,0 +1,111 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { jobService } from '../../services/job.service.js';
+
+export const jobsRouter = Router();
+
+// Helper to get job ID from params
+function getJobId(req: Request): string | null {
+  const id = req.params.id;
+  if (!id || typeof id !== 'string') {
+    return null;
+  }
+  return id;
+}
+
+/**
+ * GET /api/jobs
+ * List dead-lettered publish jobs
+ */
+jobsRouter.get('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const jobs = await jobService.listDeadLetters(userId);
+    res.json({ jobs });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/jobs/:id
+ * Inspect a job: error history, post and publish attempts
+ */
+jobsRouter.get('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    const jobId = getJobId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!jobId) {
+      res.status(400).json({ error: 'Invalid job ID' });
+      return;
+    }
+
+    const job = await jobService.getById(userId, jobId);
+    res.json(job);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/jobs/:id/requeue
+ * Send the job's post back through the publish pipeline
+ */
+jobsRouter.post('/:id/requeue', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    const jobId = getJobId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!jobId) {
+      res.status(400).json({ error: 'Invalid job ID' });
+      return;
+    }
+
+    await jobService.requeue(userId, jobId);
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/jobs/:id
+ * Discard a dead-lettered job
+ */
+jobsRouter.delete('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    const jobId = getJobId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!jobId) {
+      res.status(400).json({ error: 'Invalid job ID' });
+      return;
+    }
+
+    await jobService.discard(userId, jobId);
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,35 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { linkPreviewService } from '../../services/linkPreview.service.js';
+
+export const linksRouter = Router();
+
+const previewQuerySchema = z.object({
+  url: z.string().url().max(2048),
+});
+
+/**
+ * GET /api/links/preview?url=
+ * Open Graph / Twitter Card metadata of a page, with warnings about anything
+ * that will spoil the provider's link card
+ */
+linksRouter.get('/preview', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const query = previewQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({ error: 'Invalid query parameters', details: query.error.flatten() });
+      return;
+    }
+
+    const preview = await linkPreviewService.getPreview(query.data.url);
+    res.json(preview);
+  } catch (error) {
+    next(error);
+  }
+});
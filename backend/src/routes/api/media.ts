@@ -4,10 +4,12 @@ import path from 'path';
 import { randomUUID } from 'crypto';
 import { createReadStream, promises as fs } from 'fs';
 import { stat } from 'fs/promises';
-import { mediaService, SUPPORTED_EXTENSIONS } from '../../services/media.service.js';
+import { mediaService, SUPPORTED_EXTENSIONS, SUPPORTED_IMAGE_EXTENSIONS } from '../../services/media.service.js';
+import { imageService, ImageInfo } from '../../services/image.service.js';
 import { logger } from '../../lib/logger.js';
 import { prisma } from '../../lib/prisma.js';
 import { env } from '../../config/env.js';
+import { MediaInUseError } from '../../middleware/errorHandler.js';
 
 export const mediaRouter = Router();
 
@@ -38,6 +40,22 @@ const upload = multer({
   },
 });
 
+/**
+ * The user's existing media file with this content, if its file is still on disk
+ */
+async function findUploadByHash(userId: string, contentHash: string) {
+  const existing = await prisma.mediaFile.findUnique({
+    where: { userId_contentHash: { userId, contentHash } },
+  });
+  if (!existing) return null;
+
+  const [source, ...rest] = existing.storagePath.split(':');
+  if (source !== 'media' && source !== 'uploads') return null;
+
+  const fileInfo = await mediaService.getFileInfo(rest.join(':'), source);
+  return fileInfo ? { mediaFileId: existing.id, fileInfo } : null;
+}
+
 /**
  * GET /api/media/browse
  * Browse media directory
@@ -219,6 +237,45 @@ mediaRouter.get('/uploads/*', async (req: Request, res: Response, next: NextFunc
   }
 });
 
+/**
+ * GET /api/media/thumbnail/:source/*
+ * Serve a small preview of an image, generated on first request
+ */
+mediaRouter.get('/thumbnail/:source/*', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const source = req.params.source;
+    const filePath = req.params[0];
+    
+    if (source !== 'media' && source !== 'uploads') {
+      res.status(400).json({ error: 'Invalid source. Must be "media" or "uploads"' });
+      return;
+    }
+    
+    if (!filePath) {
+      res.status(400).json({ error: 'File path is required' });
+      return;
+    }
+    
+    const fileInfo = await mediaService.getFileInfo(filePath, source);
+    
+    if (!fileInfo || fileInfo.type !== 'image') {
+      res.status(404).json({ error: 'File not found' });
+      return;
+    }
+    
+    const thumbnailPath = await imageService.getThumbnail(fileInfo.absolutePath);
+    const stats = await stat(thumbnailPath);
+    
+    res.setHeader('Content-Type', 'image/webp');
+    res.setHeader('Content-Length', stats.size);
+    res.setHeader('Cache-Control', 'public, max-age=86400'); // Path-keyed, so the file may change underneath
+    
+    createReadStream(thumbnailPath).pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * POST /api/media/upload
  * Upload a file
@@ -240,7 +297,31 @@ mediaRouter.post(
       }
 
       const subfolder = req.body.folder as string | undefined;
-      const fileSize = req.file.size;
+
+      // Check that images really are what their extension says, and strip EXIF/GPS metadata
+      let imageInfo: ImageInfo | undefined;
+      const extension = path.extname(req.file.originalname).toLowerCase();
+      if (SUPPORTED_IMAGE_EXTENSIONS.includes(extension)) {
+        try {
+          imageInfo = await imageService.sanitizeUpload(req.file.path, extension);
+        } catch (error) {
+          await fs.unlink(req.file.path).catch(() => undefined);
+          throw error;
+        }
+      }
+
+      // Same content uploaded before: hand back the existing file instead of storing a copy
+      const contentHash = await mediaService.hashFile(req.file.path);
+      const duplicate = await findUploadByHash(userId, contentHash);
+      if (duplicate) {
+        await fs.unlink(req.file.path).catch(() => undefined);
+        logger.info({ mediaFileId: duplicate.mediaFileId, path: duplicate.fileInfo.path }, 'Duplicate upload; reusing existing file');
+        res.status(200).json({ ...duplicate.fileInfo, mediaFileId: duplicate.mediaFileId, deduplicated: true });
+        return;
+      }
+
+      // Sanitizing may have changed the size
+      const fileSize = (await stat(req.file.path)).size;
 
       // Enforce per-user storage quota
       if (env.MEDIA_MAX_USER_STORAGE > 0) {
@@ -259,7 +340,7 @@ mediaRouter.post(
           return;
         }
       }
-      
+
       const fileInfo = await mediaService.uploadFileFromPath(
         {
           path: req.file.path,
@@ -270,18 +351,35 @@ mediaRouter.post(
         subfolder
       );
 
-      const mediaFile = await prisma.mediaFile.create({
-        data: {
+      // A row whose file has gone missing is pointed at the new copy
+      const mediaFile = await prisma.mediaFile.upsert({
+        where: { userId_contentHash: { userId, contentHash } },
+        create: {
           userId,
           filename: fileInfo.name,
           storagePath: `uploads:${fileInfo.path}`,
           mimeType: fileInfo.mimeType,
           size: fileInfo.size,
-          width: null,
-          height: null,
+          contentHash,
+          width: imageInfo?.width ?? null,
+          height: imageInfo?.height ?? null,
           duration: null,
         },
+        update: {
+          filename: fileInfo.name,
+          storagePath: `uploads:${fileInfo.path}`,
+          mimeType: fileInfo.mimeType,
+          size: fileInfo.size,
+          missingSince: null,
+        },
       });
+
+      if (imageInfo) {
+        // Generate the media browser thumbnail now rather than on first view
+        await imageService.getThumbnail(fileInfo.absolutePath).catch((error: unknown) => {
+          logger.warn({ error, path: fileInfo.path }, 'Failed to generate thumbnail');
+        });
+      }
       
       logger.info(
         { filename: fileInfo.name, size: fileInfo.size, type: fileInfo.type, mediaFileId: mediaFile.id },
@@ -334,13 +432,45 @@ mediaRouter.delete('/uploads/*', async (req: Request, res: Response, next: NextF
       return;
     }
 
-    await mediaService.deleteUploadedFile(filePath);
-    await prisma.mediaFile.deleteMany({
-      where: {
-        userId,
-        storagePath: `uploads:${filePath}`,
-      },
+    const storagePath = `uploads:${filePath}`;
+    const postSelect = { post: { select: { id: true, content: true, status: true } } } as const;
+
+    const { rows, ownRows } = await prisma.$transaction(async (tx) => {
+      const rows = await tx.mediaFile.findMany({
+        where: { storagePath },
+        select: { id: true, userId: true, posts: { select: postSelect } },
+      });
+      const ownRows = rows.filter(row => row.userId === userId);
+      const ownIds = ownRows.map(row => row.id);
+
+      const posts = ownRows.flatMap(row => row.posts.map(({ post }) => post));
+      if (posts.length > 0) {
+        throw new MediaInUseError(posts);
+      }
+
+      // Deleting a row cascades to its post links, so only rows that are still
+      // unused go; a post that picked the file up since the check keeps it
+      const { count } = await tx.mediaFile.deleteMany({
+        where: { id: { in: ownIds }, posts: { none: {} } },
+      });
+
+      if (count < ownRows.length) {
+        const links = await tx.postMedia.findMany({
+          where: { mediaFileId: { in: ownIds } },
+          select: postSelect,
+        });
+        throw new MediaInUseError(links.map(({ post }) => post));
+      }
+
+      return { rows, ownRows };
     });
+
+    // Other users may have registered the same upload; the file goes with the last reference
+    if (rows.length === ownRows.length) {
+      await mediaService.deleteUploadedFile(filePath);
+    } else {
+      logger.info({ path: filePath }, 'Upload still registered by other users; keeping file');
+    }
     res.status(204).send();
   } catch (error) {
     next(error);
@@ -435,14 +565,34 @@ mediaRouter.post('/register', async (req: Request, res: Response, next: NextFunc
         continue;
       }
 
-      // Check if already registered
-      const existing = await prisma.mediaFile.findFirst({
+      // Images must really be images; their dimensions are recorded
+      let imageInfo: ImageInfo | undefined;
+      if (fileInfo.type === 'image') {
+        try {
+          imageInfo = await imageService.assertMatchesExtension(fileInfo.absolutePath, fileInfo.extension);
+        } catch (error) {
+          logger.warn({ filePath, source, error }, 'Skipping file that is not a valid image');
+          continue;
+        }
+      }
+
+      // Check if already registered, at this path or with the same content elsewhere
+      const contentHash = await mediaService.hashFile(fileInfo.absolutePath);
+      let existing = await prisma.mediaFile.findFirst({
         where: {
           userId,
-          storagePath: `${source}:${filePath}`,
+          OR: [{ storagePath: `${source}:${filePath}` }, { contentHash }],
         },
       });
 
+      // The earlier copy is gone; this file takes its place
+      if (existing?.missingSince) {
+        existing = await prisma.mediaFile.update({
+          where: { id: existing.id },
+          data: { storagePath: `${source}:${filePath}`, contentHash, missingSince: null },
+        });
+      }
+
       if (existing) {
         registeredFiles.push({
           id: existing.id,
@@ -461,8 +611,9 @@ mediaRouter.post('/register', async (req: Request, res: Response, next: NextFunc
           storagePath: `${source}:${filePath}`,
           mimeType: fileInfo.mimeType,
           size: fileInfo.size,
-          width: null, // Could extract with sharp/ffprobe later
-          height: null,
+          contentHash,
+          width: imageInfo?.width ?? null,
+          height: imageInfo?.height ?? null,
           duration: null,
         },
       });
@@ -7,6 +7,9 @@ import { linkedInService } from '../../services/linkedin.service.js';
 import { facebookService } from '../../services/facebook.service.js';
 import { pinterestService } from '../../services/pinterest.service.js';
 import { youtubeService } from '../../services/youtube.service.js';
+import { providerRegistry } from '../../services/providerRegistry.service.js';
+import { queueService } from '../../services/queue.service.js';
+import { updateSlotsSchema } from '../../schemas/queue.schema.js';
 
 export const platformsRouter = Router();
 
@@ -42,14 +45,18 @@ platformsRouter.get('/', async (req: Request, res: Response, next: NextFunction)
  * Get platform configuration (which platforms are configured)
  */
 platformsRouter.get('/config', async (_req: Request, res: Response, _next: NextFunction): Promise<void> => {
-  res.json({
-    twitter: twitterService.isConfigured(),
-    linkedin: linkedInService.isConfigured(),
-    facebook: facebookService.isConfigured(),
-    instagram: facebookService.isConfigured(), // Uses Facebook API
-    youtube: youtubeService.isConfigured(),
-    pinterest: pinterestService.isConfigured(),
-  });
+  // Providers that are gated or disabled count as not configured
+  res.json(Object.fromEntries(
+    providerRegistry.list().map(p => [p.slug, p.isConfigured() && providerRegistry.isUsable(p.type)])
+  ));
+});
+
+/**
+ * GET /api/platforms/providers
+ * Provider registry: state and capabilities of every provider that isn't disabled
+ */
+platformsRouter.get('/providers', (_req: Request, res: Response): void => {
+  res.json({ providers: providerRegistry.toPublic() });
 });
 
 /**
@@ -65,12 +72,14 @@ platformsRouter.get('/twitter/auth-url', async (req: Request, res: Response, nex
       return;
     }
 
+    providerRegistry.assertUsable('TWITTER');
+
     if (!twitterService.isConfigured()) {
       res.status(503).json({ error: 'Twitter is not configured' });
       return;
     }
 
-    const authUrl = twitterService.generateAuthUrl(userId);
+    const authUrl = await twitterService.generateAuthUrl(userId, req.sessionID);
     res.json({ authUrl });
   } catch (error) {
     next(error);
@@ -90,6 +99,8 @@ platformsRouter.get('/linkedin/auth-url', async (req: Request, res: Response, ne
       return;
     }
 
+    providerRegistry.assertUsable('LINKEDIN');
+
     if (!linkedInService.isConfigured()) {
       res.status(503).json({ error: 'LinkedIn is not configured' });
       return;
@@ -97,7 +108,7 @@ platformsRouter.get('/linkedin/auth-url', async (req: Request, res: Response, ne
 
     const mode = typeof req.query.mode === 'string' ? req.query.mode : undefined;
     const includeOrganizations = mode === 'page' ? true : mode === 'profile' ? false : true;
-    const authUrl = linkedInService.getAuthorizationUrl(userId, { includeOrganizations });
+    const authUrl = await linkedInService.getAuthorizationUrl(userId, req.sessionID, { includeOrganizations });
     res.json({ authUrl });
   } catch (error) {
     next(error);
@@ -117,12 +128,14 @@ platformsRouter.get('/facebook/auth-url', async (req: Request, res: Response, ne
       return;
     }
 
+    providerRegistry.assertUsable('FACEBOOK');
+
     if (!facebookService.isConfigured()) {
       res.status(503).json({ error: 'Facebook is not configured' });
       return;
     }
 
-    const authUrl = facebookService.getAuthorizationUrl(userId, 'FACEBOOK');
+    const authUrl = await facebookService.getAuthorizationUrl(userId, req.sessionID, 'FACEBOOK');
     res.json({ authUrl });
   } catch (error) {
     next(error);
@@ -142,12 +155,14 @@ platformsRouter.get('/instagram/auth-url', async (req: Request, res: Response, n
       return;
     }
 
+    providerRegistry.assertUsable('INSTAGRAM');
+
     if (!facebookService.isConfigured()) {
       res.status(503).json({ error: 'Instagram (via Facebook) is not configured' });
       return;
     }
 
-    const authUrl = facebookService.getAuthorizationUrl(userId, 'INSTAGRAM');
+    const authUrl = await facebookService.getAuthorizationUrl(userId, req.sessionID, 'INSTAGRAM');
     res.json({ authUrl });
   } catch (error) {
     next(error);
@@ -167,12 +182,14 @@ platformsRouter.get('/youtube/auth-url', async (req: Request, res: Response, nex
       return;
     }
 
+    providerRegistry.assertUsable('YOUTUBE');
+
     if (!youtubeService.isConfigured()) {
       res.status(503).json({ error: 'YouTube is not configured' });
       return;
     }
 
-    const authUrl = youtubeService.getAuthorizationUrl(userId);
+    const authUrl = await youtubeService.getAuthorizationUrl(userId, req.sessionID);
     res.json({ authUrl });
   } catch (error) {
     next(error);
@@ -192,12 +209,14 @@ platformsRouter.get('/pinterest/auth-url', async (req: Request, res: Response, n
       return;
     }
 
+    providerRegistry.assertUsable('PINTEREST');
+
     if (!pinterestService.isConfigured()) {
       res.status(503).json({ error: 'Pinterest is not configured' });
       return;
     }
 
-    const authUrl = pinterestService.getAuthorizationUrl(userId);
+    const authUrl = await pinterestService.getAuthorizationUrl(userId, req.sessionID);
     res.json({ authUrl });
   } catch (error) {
     next(error);
@@ -236,6 +255,76 @@ platformsRouter.get('/:id', async (req: Request, res: Response, next: NextFuncti
   }
 });
 
+/**
+ * GET /api/platforms/:id/slots
+ * Weekly posting slots the queue fills
+ */
+platformsRouter.get('/:id/slots', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    const platformId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!platformId || typeof platformId !== 'string') {
+      res.status(400).json({ error: 'Invalid platform ID' });
+      return;
+    }
+
+    const slots = await queueService.getSlots(userId, platformId);
+
+    if (!slots) {
+      res.status(404).json({ error: 'Platform not found' });
+      return;
+    }
+
+    res.json({ slots });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/platforms/:id/slots
+ * Replace the posting slots; queued posts move onto the new ones
+ */
+platformsRouter.put('/:id/slots', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    const platformId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!platformId || typeof platformId !== 'string') {
+      res.status(400).json({ error: 'Invalid platform ID' });
+      return;
+    }
+
+    const body = updateSlotsSchema.safeParse(req.body);
+    if (!body.success) {
+      res.status(400).json({ error: 'Invalid request body', details: body.error.flatten() });
+      return;
+    }
+
+    const slots = await queueService.setSlots(userId, platformId, body.data.slots);
+
+    if (!slots) {
+      res.status(404).json({ error: 'Platform not found' });
+      return;
+    }
+
+    res.json({ slots });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * POST /api/platforms/demo
  * Create a demo platform for testing (temporary until OAuth is implemented)
@@ -255,6 +344,8 @@ platformsRouter.post('/demo', async (req: Request, res: Response, next: NextFunc
       return;
     }
 
+    providerRegistry.assertUsable(body.data.type);
+
     const platform = await platformService.createDemoPlatform(
       userId,
       body.data.type as PlatformType,
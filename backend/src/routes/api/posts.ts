@@ -3,34 +3,52 @@ import { z } from 'zod';
 import { PostStatus, PlatformType } from '@prisma/client';
 import { postService } from '../../services/post.service.js';
 import { publishService } from '../../services/publish.service.js';
+import { parseDateTimeInZone } from '../../lib/timezone.js';
+import { timeZoneSchema } from '../../schemas/settings.schema.js';
 
 export const postsRouter = Router();
 
 // Validation schemas
+
+// Absolute (2025-01-15T10:00:00Z) or wall-clock time in the post's timezone (2025-01-15T10:00)
+const scheduledAtSchema = z.string().refine(val => parseDateTimeInZone(val, 'UTC') !== null, {
+  message: 'Invalid date. Use ISO 8601, e.g. 2025-01-15T10:00 or 2025-01-15T10:00:00Z',
+});
+
+// Per-target text by platform ID; null or blank falls back to the post's content
+const contentOverridesSchema = z.record(
+  z.string().uuid(),
+  z.string().max(5000, 'Content too long').nullable().transform(val => (val?.trim() ? val : null))
+);
+
 const createPostSchema = z.object({
   content: z.string().min(1, 'Content is required').max(5000, 'Content too long'),
-  scheduledAt: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
-  platformIds: z.array(z.string().uuid()).optional().default([]),
+  scheduledAt: scheduledAtSchema.optional(),
+  timezone: timeZoneSchema.optional(), // Omitted: the user's timezone
+  platformIds: z.array(z.string().uuid()).optional(), // Omitted: the user's default platforms
+  contentOverrides: contentOverridesSchema.optional(),
   mediaFileIds: z.array(z.string().uuid()).optional().default([]),
 });
 
 const updatePostSchema = z.object({
   content: z.string().min(1).max(5000).optional(),
-  scheduledAt: z.string().datetime().nullable().optional().transform(val => 
-    val === null ? null : val ? new Date(val) : undefined
-  ),
+  scheduledAt: scheduledAtSchema.nullable().optional(),
+  timezone: timeZoneSchema.nullable().optional(),
   platformIds: z.array(z.string().uuid()).optional(),
+  contentOverrides: contentOverridesSchema.optional(),
   mediaFileIds: z.array(z.string().uuid()).optional(),
   status: z.enum(['DRAFT', 'SCHEDULED']).optional(),
 });
 
 const schedulePostSchema = z.object({
-  scheduledAt: z.string().datetime().transform(val => new Date(val)),
+  scheduledAt: scheduledAtSchema,
+  timezone: timeZoneSchema.nullable().optional(),
 });
 
 const listPostsSchema = z.object({
   status: z.enum(['DRAFT', 'SCHEDULED', 'PUBLISHING', 'PUBLISHED', 'PARTIALLY_PUBLISHED', 'FAILED']).optional(),
   platformType: z.enum(['TWITTER', 'LINKEDIN', 'FACEBOOK', 'INSTAGRAM', 'YOUTUBE', 'PINTEREST']).optional(),
+  seriesId: z.string().uuid().optional(), // Occurrences of one recurring series
   fromDate: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
   toDate: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
   page: z.coerce.number().int().positive().optional().default(1),
@@ -59,7 +77,7 @@ postsRouter.get('/', async (req: Request, res: Response, next: NextFunction): Pr
     const { page, limit, ...filters } = query.data;
     const result = await postService.list(
       userId, 
-      filters as { status?: PostStatus; platformType?: PlatformType; fromDate?: Date; toDate?: Date }, 
+      filters as { status?: PostStatus; platformType?: PlatformType; seriesId?: string; fromDate?: Date; toDate?: Date }, 
       page, 
       limit
     );
@@ -260,7 +278,7 @@ postsRouter.post('/:id/schedule', async (req: Request, res: Response, next: Next
       return;
     }
 
-    const post = await postService.schedule(userId, postId, body.data.scheduledAt);
+    const post = await postService.schedule(userId, postId, body.data.scheduledAt, body.data.timezone);
 
     if (!post) {
       res.status(404).json({ error: 'Post not found' });
@@ -315,6 +333,44 @@ postsRouter.post('/:id/unschedule', async (req: Request, res: Response, next: Ne
   }
 });
 
+/**
+ * POST /api/posts/:id/queue
+ * Put a post in the next free posting slot of each target
+ */
+postsRouter.post('/:id/queue', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    const postId = getPostId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!postId) {
+      res.status(400).json({ error: 'Invalid post ID' });
+      return;
+    }
+
+    const posts = await postService.addToQueue(userId, postId);
+
+    if (!posts) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+
+    res.json({ posts });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('platform') || error.message.includes('queue')) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+    }
+    next(error);
+  }
+});
+
 /**
  * POST /api/posts/:id/publish
  * Publish a post immediately to all selected platforms
@@ -1,21 +1,35 @@
 import { Router } from 'express';
 import { prisma } from '../../lib/prisma.js';
 import { requireAuth } from '../../middleware/auth.js';
+import { providerRegistry } from '../../services/providerRegistry.service.js';
+import { settingsService } from '../../services/settings.service.js';
+import { startOfZonedDay, startOfZonedMonth } from '../../lib/timezone.js';
 
 export const quotaRouter = Router();
 
 // Apply auth middleware to all quota routes
 quotaRouter.use(requireAuth);
 
-// Platform quota limits (free tier defaults)
-const PLATFORM_LIMITS: Record<string, { daily: number; monthly: number; name: string }> = {
-  TWITTER: { daily: 50, monthly: 1500, name: 'Twitter/X' },
-  LINKEDIN: { daily: 100, monthly: 3000, name: 'LinkedIn' },
-  FACEBOOK: { daily: 50, monthly: 1500, name: 'Facebook' },
-  INSTAGRAM: { daily: 25, monthly: 750, name: 'Instagram' },
-  YOUTUBE: { daily: 10, monthly: 300, name: 'YouTube' },
-  PINTEREST: { daily: 50, monthly: 1500, name: 'Pinterest' },
-};
+/**
+ * Quota limits of a provider (free tier defaults), keyed by platform type
+ */
+function getLimits(type: string): { daily: number; monthly: number; name: string } {
+  const provider = providerRegistry.list().find(p => p.type === type);
+  return provider ? { ...provider.quota, name: provider.name } : { daily: 50, monthly: 1500, name: type };
+}
+
+/**
+ * Start of the current day and month in the user's timezone
+ */
+async function getPeriodStarts(userId: string): Promise<{ todayStart: Date; monthStart: Date; timezone: string }> {
+  const { timezone } = await settingsService.get(userId);
+  const now = new Date();
+  return {
+    todayStart: startOfZonedDay(now, timezone),
+    monthStart: startOfZonedMonth(now, timezone),
+    timezone,
+  };
+}
 
 /**
  * GET /api/quota
@@ -32,14 +46,12 @@ quotaRouter.get('/', async (req, res, next) => {
     });
 
     // Get current period dates
-    const now = new Date();
-    const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const { todayStart, monthStart, timezone } = await getPeriodStarts(userId);
 
     // Get usage for each platform type
     const quotaData = await Promise.all(
       platforms.map(async (platform) => {
-        const limits = PLATFORM_LIMITS[platform.type] || { daily: 50, monthly: 1500, name: platform.type };
+        const limits = getLimits(platform.type);
 
         // Get daily usage (count posts published today)
         const dailyPosts = await prisma.post.count({
@@ -103,7 +115,8 @@ quotaRouter.get('/', async (req, res, next) => {
         platformsNearLimit,
         platformsAtLimit,
       },
-      limits: PLATFORM_LIMITS,
+      limits: Object.fromEntries(providerRegistry.list().map(p => [p.type, getLimits(p.type)])),
+      timezone,
     });
   } catch (error) {
     next(error);
@@ -128,10 +141,8 @@ quotaRouter.get('/:platformType', async (req, res, next) => {
       return;
     }
 
-    const limits = PLATFORM_LIMITS[platformType] || { daily: 50, monthly: 1500, name: platformType };
-    const now = new Date();
-    const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const limits = getLimits(platformType);
+    const { todayStart, monthStart } = await getPeriodStarts(userId);
 
     const dailyPosts = await prisma.post.count({
       where: {
@@ -190,10 +201,8 @@ quotaRouter.get('/check/:platformType', async (req, res, next) => {
       return;
     }
 
-    const limits = PLATFORM_LIMITS[platformType] || { daily: 50, monthly: 1500 };
-    const now = new Date();
-    const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const limits = getLimits(platformType);
+    const { todayStart, monthStart } = await getPeriodStarts(userId);
 
     const dailyPosts = await prisma.post.count({
       where: {
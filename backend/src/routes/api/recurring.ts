@@ -0,0 +1,202 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { recurringService } from '../../services/recurring.service.js';
+import {
+  createRecurringSchema,
+  updateRecurringSchema,
+  updateFutureSchema,
+} from '../../schemas/recurring.schema.js';
+
+export const recurringRouter = Router();
+
+function getScheduleId(req: Request): string | null {
+  const id = req.params.id;
+  if (!id || typeof id !== 'string') {
+    return null;
+  }
+  return id;
+}
+
+/**
+ * GET /api/recurring
+ * List the user's recurring series
+ */
+recurringRouter.get('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const schedules = await recurringService.list(userId);
+    res.json({ schedules });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/recurring/:id
+ * Get a single series
+ */
+recurringRouter.get('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    const scheduleId = getScheduleId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!scheduleId) {
+      res.status(400).json({ error: 'Invalid series ID' });
+      return;
+    }
+
+    const schedule = await recurringService.get(userId, scheduleId);
+    if (!schedule) {
+      res.status(404).json({ error: 'Series not found' });
+      return;
+    }
+
+    res.json(schedule);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/recurring
+ * Make a post repeat; it becomes the template of the new series
+ */
+recurringRouter.post('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const body = createRecurringSchema.safeParse(req.body);
+    if (!body.success) {
+      res.status(400).json({ error: 'Invalid request body', details: body.error.flatten() });
+      return;
+    }
+
+    const schedule = await recurringService.create(userId, body.data);
+    if (!schedule) {
+      res.status(404).json({ error: 'Post not found' });
+      return;
+    }
+
+    res.status(201).json(schedule);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/recurring/:id
+ * Change the rule, start or timezone of a series, or pause it
+ */
+recurringRouter.put('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    const scheduleId = getScheduleId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!scheduleId) {
+      res.status(400).json({ error: 'Invalid series ID' });
+      return;
+    }
+
+    const body = updateRecurringSchema.safeParse(req.body);
+    if (!body.success) {
+      res.status(400).json({ error: 'Invalid request body', details: body.error.flatten() });
+      return;
+    }
+
+    const schedule = await recurringService.update(userId, scheduleId, body.data);
+    if (!schedule) {
+      res.status(404).json({ error: 'Series not found' });
+      return;
+    }
+
+    res.json(schedule);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/recurring/:id/future
+ * Edit an occurrence and every later one that hasn't been published
+ */
+recurringRouter.put('/:id/future', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    const scheduleId = getScheduleId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!scheduleId) {
+      res.status(400).json({ error: 'Invalid series ID' });
+      return;
+    }
+
+    const body = updateFutureSchema.safeParse(req.body);
+    if (!body.success) {
+      res.status(400).json({ error: 'Invalid request body', details: body.error.flatten() });
+      return;
+    }
+
+    const updated = await recurringService.updateFuture(userId, scheduleId, body.data);
+    if (updated === null) {
+      res.status(404).json({ error: 'Series not found' });
+      return;
+    }
+
+    res.json({ updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/recurring/:id
+ * End a series; unpublished future occurrences are removed
+ */
+recurringRouter.delete('/:id', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.userId;
+    const scheduleId = getScheduleId(req);
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!scheduleId) {
+      res.status(400).json({ error: 'Invalid series ID' });
+      return;
+    }
+
+    const deleted = await recurringService.delete(userId, scheduleId);
+    if (!deleted) {
+      res.status(404).json({ error: 'Series not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
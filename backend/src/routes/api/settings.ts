@@ -1,4 +1,6 @@
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import { settingsService } from '../../services/settings.service.js';
+import { updateSettingsSchema } from '../../schemas/settings.schema.js';
 
 export const settingsRouter = Router();
 
@@ -6,10 +8,16 @@ export const settingsRouter = Router();
  * GET /api/settings
  * Get user settings
  */
-settingsRouter.get('/', async (_req, res, next) => {
+settingsRouter.get('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    // TODO: Implement get settings
-    res.status(501).json({ error: 'Not implemented' });
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const settings = await settingsService.get(userId);
+    res.json(settings);
   } catch (error) {
     next(error);
   }
@@ -19,10 +27,22 @@ settingsRouter.get('/', async (_req, res, next) => {
  * PUT /api/settings
  * Update user settings
  */
-settingsRouter.put('/', async (_req, res, next) => {
+settingsRouter.put('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    // TODO: Implement update settings
-    res.status(501).json({ error: 'Not implemented' });
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const body = updateSettingsSchema.safeParse(req.body);
+    if (!body.success) {
+      res.status(400).json({ error: 'Invalid request body', details: body.error.flatten() });
+      return;
+    }
+
+    const settings = await settingsService.update(userId, body.data);
+    res.json(settings);
   } catch (error) {
     next(error);
   }
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { healthService } from '../services/health.service.js';
 
 export const healthRouter = Router();
 
@@ -10,10 +11,11 @@ healthRouter.get('/', (_req, res) => {
   });
 });
 
-healthRouter.get('/ready', async (_req, res) => {
-  // TODO: Check database and Redis connectivity
-  res.json({
-    status: 'ready',
-    timestamp: new Date().toISOString(),
-  });
+healthRouter.get('/ready', async (_req, res, next) => {
+  try {
+    const report = await healthService.getReadiness();
+    res.status(report.status === 'not_ready' ? 503 : 200).json(report);
+  } catch (error) {
+    next(error);
+  }
 });
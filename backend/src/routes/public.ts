@@ -1,16 +1,25 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { rateLimit } from 'express-rate-limit';
+import path from 'path';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
 import { twitterService } from '../services/twitter.service.js';
 import { linkedInService } from '../services/linkedin.service.js';
 import { facebookService } from '../services/facebook.service.js';
 import { pinterestService } from '../services/pinterest.service.js';
 import { youtubeService } from '../services/youtube.service.js';
+import { providerRegistry } from '../services/providerRegistry.service.js';
+import { mediaUrlService } from '../services/mediaUrl.service.js';
+import { imageService } from '../services/image.service.js';
+import { MIME_TYPES, SUPPORTED_IMAGE_EXTENSIONS } from '../services/media.service.js';
+import { resolveMediaPath } from '../services/providers/shared.js';
 import { env } from '../config/env.js';
 import { logger } from '../lib/logger.js';
+import { prisma } from '../lib/prisma.js';
 
 export const publicRouter = Router();
 
-// Rate limiting for public routes (OAuth callbacks)
+// Rate limiting for OAuth callbacks
 const publicLimiter = rateLimit({
   windowMs: 60 * 1000, // 1 minute
   max: 20,
@@ -19,7 +28,18 @@ const publicLimiter = rateLimit({
   legacyHeaders: false,
 });
 
-publicRouter.use(publicLimiter);
+// Provider crawlers fetch every user's media from a handful of IPs; the
+// signed token already controls access, this only caps runaway clients
+const mediaLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 1000,
+  message: { error: 'Too many requests' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+publicRouter.use('/oauth', publicLimiter);
+publicRouter.use('/media', mediaLimiter);
 
 // =============================================================================
 // OAuth Callback Routes
@@ -44,10 +64,13 @@ publicRouter.get('/oauth/twitter/callback', async (req: Request, res: Response)
       return res.redirect(`${env.CORS_ORIGIN}/platforms?error=${encodeURIComponent('Missing authorization code or state')}`);
     }
 
+    providerRegistry.assertUsable('TWITTER');
+
     // Exchange code for tokens
     const { userId, tokens } = await twitterService.exchangeCodeForTokens(
       String(code),
-      String(state)
+      String(state),
+      req.sessionID
     );
 
     // Get Twitter user info
@@ -82,7 +105,9 @@ publicRouter.get('/oauth/linkedin/callback', async (req: Request, res: Response)
       return res.redirect(`${env.CORS_ORIGIN}/platforms?error=${encodeURIComponent('Missing authorization code or state')}`);
     }
 
-    await linkedInService.handleCallback(String(code), String(state));
+    providerRegistry.assertUsable('LINKEDIN');
+
+    await linkedInService.handleCallback(String(code), String(state), req.sessionID);
     res.redirect(`${env.CORS_ORIGIN}/platforms?success=linkedin`);
   } catch (err) {
     logger.error({ err }, 'LinkedIn OAuth callback error');
@@ -108,7 +133,8 @@ publicRouter.get('/oauth/facebook/callback', async (req: Request, res: Response)
       return res.redirect(`${env.CORS_ORIGIN}/platforms?error=${encodeURIComponent('Missing authorization code or state')}`);
     }
 
-    await facebookService.handleCallback(String(code), String(state));
+    // Instagram connections also come back on the Facebook redirect URI
+    await facebookService.handleCallback(String(code), String(state), req.sessionID, ['FACEBOOK', 'INSTAGRAM']);
     res.redirect(`${env.CORS_ORIGIN}/platforms?success=facebook`);
   } catch (err) {
     logger.error({ err }, 'Facebook OAuth callback error');
@@ -136,7 +162,7 @@ publicRouter.get('/oauth/instagram/callback', async (req: Request, res: Response
   }
 
   try {
-    await facebookService.handleCallback(String(code), String(state));
+    await facebookService.handleCallback(String(code), String(state), req.sessionID, ['INSTAGRAM']);
     res.redirect(`${env.CORS_ORIGIN}/platforms?success=instagram`);
   } catch (err) {
     logger.error({ err }, 'Instagram OAuth callback error');
@@ -162,7 +188,9 @@ publicRouter.get('/oauth/youtube/callback', async (req: Request, res: Response)
       return res.redirect(`${env.CORS_ORIGIN}/platforms?error=${encodeURIComponent('Missing authorization code or state')}`);
     }
 
-    await youtubeService.handleCallback(String(code), String(state));
+    providerRegistry.assertUsable('YOUTUBE');
+
+    await youtubeService.handleCallback(String(code), String(state), req.sessionID);
     res.redirect(`${env.CORS_ORIGIN}/platforms?success=youtube`);
   } catch (err) {
     logger.error({ err }, 'YouTube OAuth callback error');
@@ -188,7 +216,9 @@ publicRouter.get('/oauth/pinterest/callback', async (req: Request, res: Response
       return res.redirect(`${env.CORS_ORIGIN}/platforms?error=${encodeURIComponent('Missing authorization code or state')}`);
     }
 
-    await pinterestService.handleCallback(String(code), String(state));
+    providerRegistry.assertUsable('PINTEREST');
+
+    await pinterestService.handleCallback(String(code), String(state), req.sessionID);
     res.redirect(`${env.CORS_ORIGIN}/platforms?success=pinterest`);
   } catch (err) {
     logger.error({ err }, 'Pinterest OAuth callback error');
@@ -196,3 +226,69 @@ publicRouter.get('/oauth/pinterest/callback', async (req: Request, res: Response
     res.redirect(`${env.CORS_ORIGIN}/platforms?error=${encodeURIComponent(message)}`);
   }
 });
+
+// =============================================================================
+// Signed Media Route
+// Lets providers fetch a single image through a signed, expiring link
+// =============================================================================
+
+const SERVABLE_MIME_TYPES = new Set(SUPPORTED_IMAGE_EXTENSIONS.map(ext => MIME_TYPES[ext]));
+
+/**
+ * GET /public/media/:token
+ * Stream one media file to a provider, as that provider's rendition
+ */
+publicRouter.get('/media/:token', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const claims = mediaUrlService.verify(String(req.params.token));
+    if (!claims) {
+      res.status(403).json({ error: 'Invalid or expired link' });
+      return;
+    }
+
+    const mediaFile = await prisma.mediaFile.findUnique({ where: { id: claims.mediaFileId } });
+
+    // The link was signed for this owner; a reassigned or deleted file is not served
+    if (!mediaFile || mediaFile.userId !== claims.userId) {
+      res.status(404).json({ error: 'File not found' });
+      return;
+    }
+
+    // Only images are ever sent to providers, and the extension must agree with the recorded type
+    const extension = path.extname(mediaFile.storagePath).toLowerCase();
+    if (!SERVABLE_MIME_TYPES.has(mediaFile.mimeType) || MIME_TYPES[extension] !== mediaFile.mimeType) {
+      logger.warn({ mediaFileId: mediaFile.id, mimeType: mediaFile.mimeType }, 'Refused to serve media of unexpected type');
+      res.status(415).json({ error: 'Unsupported media type' });
+      return;
+    }
+
+    const absolutePath = resolveMediaPath(mediaFile.storagePath);
+    let size: number;
+    try {
+      const stats = await stat(absolutePath);
+      if (!stats.isFile()) throw new Error('Not a file');
+      size = stats.size;
+    } catch {
+      res.status(404).json({ error: 'File not found' });
+      return;
+    }
+
+    // A size mismatch means the file on disk is no longer the one that was registered
+    if (size !== mediaFile.size || size > env.MEDIA_MAX_IMAGE_SIZE) {
+      logger.warn({ mediaFileId: mediaFile.id, size, expected: mediaFile.size }, 'Refused to serve media with unexpected size');
+      res.status(409).json({ error: 'File has changed' });
+      return;
+    }
+
+    const { imageProfile } = providerRegistry.getAdapter(claims.provider);
+    const rendition = await imageService.getRendition(absolutePath, imageProfile);
+
+    res.setHeader('Content-Type', rendition.mimeType);
+    res.setHeader('Content-Length', rendition.size);
+    res.setHeader('Cache-Control', 'private, no-store');
+
+    createReadStream(rendition.path).pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import * as server from './contentContract.schema.js';
+import * as editor from '../../../frontend/src/lib/contentContract.js';
+
+const LINK = 'Launch day https://example.com/launch';
+const image = { mimeType: 'image/jpeg' };
+
+// The post editor checks with its own copy of the contract; both must give the same answers
+describe.each([
+  ['server', server],
+  ['editor', editor],
+])('%s content contract', (_, { extractUrls, validateContentContract }) => {
+  describe('extractUrls', () => {
+    it.each([
+      ['no links', 'Launch day', [], []],
+      ['a link', LINK, ['https://example.com/launch'], []],
+      ['a link ending a sentence', 'See https://example.com/launch).', ['https://example.com/launch'], []],
+      ['a host without a dot', 'See http://localhost/x', [], ['http://localhost/x']],
+      ['a scheme with nothing after it', 'See https://', [], ['https://']],
+    ])('handles %s', (_, content, valid, invalid) => {
+      expect(extractUrls(content)).toEqual({ valid, invalid });
+    });
+  });
+
+  describe('validateContentContract', () => {
+    it.each([
+      ['a link and one image', LINK, [image], []],
+      ['a link and no media', LINK, [], []],
+      ['no link', 'Launch day', [], ['URL_REQUIRED']],
+      ['only a broken link', 'See http://localhost/x', [], ['URL_INVALID', 'URL_REQUIRED']],
+      ['two images', LINK, [image, { mimeType: 'image/png' }], ['TOO_MANY_IMAGES']],
+      ['a video', LINK, [{ mimeType: 'video/mp4' }], ['VIDEO_NOT_ALLOWED']],
+      ['a document', LINK, [{ mimeType: 'application/pdf' }], ['UNSUPPORTED_MEDIA']],
+    ])('checks %s', (_, content, media, codes) => {
+      expect(validateContentContract({ content, media }).map(v => v.code)).toEqual(codes);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Content contract for publishable posts:
+ * - at least one valid http(s) URL in the text
+ * - at most one image
+ * - no video
+ *
+ * Every boundary that lets a post move towards a provider (API, import,
+ * dispatch, worker) checks this contract. The editor checks it too, with the
+ * copy in frontend/src/lib/contentContract.ts.
+ */
+
+export type ContractViolationCode =
+  | 'URL_REQUIRED'
+  | 'URL_INVALID'
+  | 'TOO_MANY_IMAGES'
+  | 'VIDEO_NOT_ALLOWED'
+  | 'UNSUPPORTED_MEDIA';
+
+export interface ContractViolation {
+  code: ContractViolationCode;
+  field: 'content' | 'media';
+  message: string;
+}
+
+export interface ContractInput {
+  content: string;
+  media: Array<{ mimeType: string }>;
+}
+
+export const MAX_IMAGES_PER_POST = 1;
+
+// Anything that looks like it was meant to be a link
+const URL_CANDIDATE_PATTERN = /https?:\/\/[^\s<>"]*/gi;
+
+/**
+ * Extract the valid http(s) URLs from a piece of text
+ */
+export function extractUrls(content: string): { valid: string[]; invalid: string[] } {
+  const valid: string[] = [];
+  const invalid: string[] = [];
+
+  for (const match of content.match(URL_CANDIDATE_PATTERN) ?? []) {
+    // Trailing punctuation usually belongs to the sentence, not the URL
+    const candidate = match.replace(/[.,;:!?)\]]+$/, '');
+    try {
+      const url = new URL(candidate);
+      if ((url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.')) {
+        valid.push(candidate);
+      } else {
+        invalid.push(candidate);
+      }
+    } catch {
+      invalid.push(candidate);
+    }
+  }
+
+  return { valid, invalid };
+}
+
+/**
+ * Check a post against the content contract. Returns an empty list when it passes.
+ */
+export function validateContentContract(input: ContractInput): ContractViolation[] {
+  const violations: ContractViolation[] = [];
+  const { valid, invalid } = extractUrls(input.content);
+
+  if (invalid.length > 0) {
+    violations.push({
+      code: 'URL_INVALID',
+      field: 'content',
+      message: `Invalid URL: ${invalid[0]}`,
+    });
+  }
+
+  if (valid.length === 0) {
+    violations.push({
+      code: 'URL_REQUIRED',
+      field: 'content',
+      message: 'Posts must include at least one http(s) link',
+    });
+  }
+
+  const images = input.media.filter(m => m.mimeType.startsWith('image/'));
+  const videos = input.media.filter(m => m.mimeType.startsWith('video/'));
+  const other = input.media.length - images.length - videos.length;
+
+  if (videos.length > 0) {
+    violations.push({
+      code: 'VIDEO_NOT_ALLOWED',
+      field: 'media',
+      message: 'Video attachments are not supported',
+    });
+  }
+
+  if (images.length > MAX_IMAGES_PER_POST) {
+    violations.push({
+      code: 'TOO_MANY_IMAGES',
+      field: 'media',
+      message: `Posts can include at most ${MAX_IMAGES_PER_POST} image (got ${images.length})`,
+    });
+  }
+
+  if (other > 0) {
+    violations.push({
+      code: 'UNSUPPORTED_MEDIA',
+      field: 'media',
+      message: 'Only image attachments are supported',
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Check the text each target is actually sent: its override, or the post's
+ * content when it has none. Returns the violations of the first target that fails.
+ */
+export function validateTargetContracts(
+  content: string,
+  overrides: Array<string | null>,
+  media: ContractInput['media']
+): ContractViolation[] {
+  const texts = new Set(overrides.length > 0 ? overrides.map(o => o || content) : [content]);
+
+  for (const text of texts) {
+    const violations = validateContentContract({ content: text, media });
+    if (violations.length > 0) {
+      return violations;
+    }
+  }
+
+  return [];
+}
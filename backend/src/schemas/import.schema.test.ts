@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { buildRowContent, importRowSchema, validateRowForPlatform } from './import.schema.js';
+
+const LINK = 'https://example.com/launch';
+
+const row = (fields: Record<string, string>) =>
+  importRowSchema.parse({ scheduled_date: '2099-01-15 10:00', ...fields });
+
+describe('buildRowContent', () => {
+  it.each([
+    [{ content: 'Hello' }, 'Hello'],
+    [{ content: 'Hello', link: LINK }, `Hello\n\n${LINK}`],
+    [{ content: 'Hello', tags: 'launch, #news' }, 'Hello\n\n#launch #news'],
+    [{ content: 'Hello', link: LINK, tags: 'launch' }, `Hello\n\n${LINK}\n\n#launch`],
+    [{ link: LINK, tags: 'launch' }, `${LINK}\n\n#launch`],
+  ])('composes %j', (fields, expected) => {
+    expect(buildRowContent(row({ platform: 'x', ...fields }))).toBe(expected);
+  });
+});
+
+describe('validateRowForPlatform', () => {
+  it('counts the link and hashtags against the X limit', () => {
+    const content = 'a'.repeat(270);
+
+    expect(validateRowForPlatform(row({ platform: 'x', content }), 2).valid).toBe(true);
+
+    // 270 + 2 + 23 for the link + 2 + 7 for "#launch" is 304
+    const result = validateRowForPlatform(row({ platform: 'x', content, link: LINK, tags: 'launch' }), 2);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ row: 2, column: 'content' });
+    expect(result.errors[0]?.error).toContain('Got 304 characters');
+  });
+
+  it('counts a link as X does however long it is', () => {
+    const content = 'a'.repeat(255);
+    const link = `https://example.com/${'path/'.repeat(30)}`;
+
+    // 255 + 2 + 23 = 280, right at the limit
+    expect(validateRowForPlatform(row({ platform: 'x', content, link }), 2).valid).toBe(true);
+    expect(validateRowForPlatform(row({ platform: 'x', content, link, tags: 'a' }), 2).valid).toBe(false);
+  });
+
+  it('allows long posts for premium X accounts', () => {
+    const result = validateRowForPlatform(row({ platform: 'x', content: 'a'.repeat(300), link: LINK }), 2, true);
+    expect(result.valid).toBe(true);
+  });
+
+  it('warns when the composed Facebook post folds behind "See more"', () => {
+    const content = 'a'.repeat(460);
+
+    expect(validateRowForPlatform(row({ platform: 'facebook', content }), 3).warnings).toEqual([]);
+    const { warnings } = validateRowForPlatform(row({ platform: 'facebook', content, link: LINK }), 3);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('See more');
+  });
+});
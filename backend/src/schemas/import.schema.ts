@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { PlatformType } from '@prisma/client';
+import { parseDateTimeInZone } from '../lib/timezone.js';
+import { countCharacters, FACEBOOK_SEE_MORE_LENGTH } from '../lib/textMetrics.js';
+import { timeZoneSchema } from './settings.schema.js';
 
 /**
  * Supported platforms for import
@@ -14,6 +18,18 @@ export const SUPPORTED_PLATFORMS = [
 
 export type SupportedPlatform = (typeof SUPPORTED_PLATFORMS)[number];
 
+/**
+ * Import platform names mapped to provider types
+ */
+export const IMPORT_PLATFORM_TYPES: Record<SupportedPlatform, PlatformType> = {
+  x: 'TWITTER',
+  linkedin: 'LINKEDIN',
+  facebook: 'FACEBOOK',
+  instagram: 'INSTAGRAM',
+  youtube: 'YOUTUBE',
+  pinterest: 'PINTEREST',
+};
+
 /**
  * Platform content limits
  */
@@ -75,6 +91,16 @@ export const PLATFORM_LIMITS: Record<
  */
 export const YOUTUBE_PRIVACY = ['public', 'unlisted', 'private'] as const;
 
+/**
+ * scheduled_date value that puts a row in the next free posting slot of the
+ * user's account on the row's platform
+ */
+export const QUEUE_DATE = 'queue';
+
+export function isQueueDate(value: string): boolean {
+  return value.trim().toLowerCase() === QUEUE_DATE;
+}
+
 /**
  * Schema for a single imported row
  */
@@ -85,14 +111,17 @@ export const importRowSchema = z.object({
     }),
   }),
 
+  // Without Z or an offset, the date is in the row's timezone (or the user's)
   scheduled_date: z.string().refine(
-    (val) => {
-      const date = new Date(val);
-      return !isNaN(date.getTime());
-    },
-    { message: 'Invalid date format. Use ISO 8601 format (e.g., 2025-01-15T10:00:00Z)' }
+    (val) => isQueueDate(val) || parseDateTimeInZone(val, 'UTC') !== null,
+    { message: 'Invalid date format. Use ISO 8601 format (e.g., 2025-01-15T10:00:00Z or 2025-01-15 10:00) or "queue"' }
   ),
 
+  timezone: z
+    .union([z.literal(''), timeZoneSchema])
+    .optional()
+    .transform((val) => val || undefined),
+
   content: z.string().optional().default(''),
 
   media_urls: z
@@ -168,26 +197,48 @@ export interface ImportResult {
   }>;
 }
 
+/**
+ * The text a row is posted with: the content, then the link, then the tags as hashtags
+ */
+export function buildRowContent(row: ImportRow): string {
+  let fullContent = row.content || '';
+
+  if (row.link) {
+    fullContent = fullContent ? `${fullContent}\n\n${row.link}` : row.link;
+  }
+
+  if (row.tags && row.tags.length > 0) {
+    const hashTags = row.tags.map(t => `#${t}`).join(' ');
+    fullContent = fullContent ? `${fullContent}\n\n${hashTags}` : hashTags;
+  }
+
+  return fullContent;
+}
+
 /**
  * Validate a row against platform-specific limits
  */
 export function validateRowForPlatform(
   row: ImportRow,
   rowNumber: number,
-  isPremium = false
+  isPremium = false,
+  timeZone = 'UTC'
 ): { valid: boolean; errors: ImportError[]; warnings: string[] } {
   const errors: ImportError[] = [];
   const warnings: string[] = [];
   const limits = PLATFORM_LIMITS[row.platform];
 
-  // Check content length
+  // Check the length of the text that gets posted, link and hashtags included, counted the way the platform counts it
   const maxContent = row.platform === 'x' && isPremium ? 4000 : limits.maxContent;
-  if (row.content && row.content.length > maxContent) {
+  const contentLength = countCharacters(buildRowContent(row), IMPORT_PLATFORM_TYPES[row.platform]);
+  if (contentLength > maxContent) {
     errors.push({
       row: rowNumber,
       column: 'content',
-      error: `Content exceeds ${row.platform} character limit (${maxContent}). Got ${row.content.length} characters.`,
+      error: `Content exceeds ${row.platform} character limit (${maxContent}). Got ${contentLength} characters, link and hashtags included.`,
     });
+  } else if (row.platform === 'facebook' && contentLength > FACEBOOK_SEE_MORE_LENGTH) {
+    warnings.push(`Row ${rowNumber}: Facebook shows the first ${FACEBOOK_SEE_MORE_LENGTH} characters before "See more".`);
   }
 
   // Check media requirements
@@ -236,9 +287,9 @@ export function validateRowForPlatform(
   }
 
   // Check scheduled date is in the future
-  const scheduledDate = new Date(row.scheduled_date);
+  const scheduledDate = parseDateTimeInZone(row.scheduled_date, row.timezone ?? timeZone);
   const now = new Date();
-  if (scheduledDate < now) {
+  if (scheduledDate && scheduledDate < now) {
     warnings.push(`Row ${rowNumber}: Scheduled date is in the past. Will be scheduled for immediate posting.`);
   }
 
@@ -263,6 +314,7 @@ export const CSV_HEADERS = [
   'description',
   'board',
   'privacy',
+  'timezone',
 ] as const;
 
 /**
@@ -280,53 +332,45 @@ export const SAMPLE_TEMPLATE_DATA: Array<Record<string, string>> = [
     description: '',
     board: '',
     privacy: '',
+    timezone: '',
   },
   {
-    platform: 'linkedin',
+    platform: 'facebook',
     scheduled_date: '2025-01-15T14:00:00Z',
     content: "We're thrilled to share some exciting news about our company journey...",
     media_urls: '',
     tags: '#announcement, #business',
     link: 'https://example.com/news',
-    title: 'Big Announcement',
-    description: 'Learn more about our latest updates',
+    title: '',
+    description: '',
     board: '',
     privacy: '',
+    timezone: '',
   },
   {
-    platform: 'instagram',
+    platform: 'x',
     scheduled_date: '2025-01-16T09:00:00Z',
     content: 'Behind the scenes of our latest photoshoot 📸',
-    media_urls: 'https://example.com/photo1.jpg, https://example.com/photo2.jpg',
+    media_urls: 'https://example.com/photo1.jpg',
     tags: '#bts, #photography',
-    link: '',
+    link: 'https://example.com/behind-the-scenes',
     title: '',
     description: '',
     board: '',
     privacy: '',
+    timezone: '',
   },
   {
-    platform: 'youtube',
+    platform: 'facebook',
     scheduled_date: '2025-01-17T12:00:00Z',
-    content: '',
-    media_urls: 'https://example.com/video.mp4',
+    content: 'How we build products our customers love',
+    media_urls: '',
     tags: '',
-    link: '',
-    title: 'How to Build Amazing Products',
-    description: 'In this video we walk through the process of building great products...',
+    link: 'https://example.com/blog/how-we-build',
+    title: '',
+    description: '',
     board: '',
-    privacy: 'public',
-  },
-  {
-    platform: 'pinterest',
-    scheduled_date: '2025-01-18T15:00:00Z',
-    content: 'Beautiful home office setup inspiration',
-    media_urls: 'https://example.com/office.jpg',
-    tags: '#homeoffice, #workspace',
-    link: 'https://example.com/article',
-    title: 'Home Office Ideas',
-    description: 'Get inspired by these amazing home office setups',
-    board: 'Home Decor',
     privacy: '',
+    timezone: '',
   },
 ];
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { timeOfDaySchema } from './settings.schema.js';
+
+/**
+ * PUT /api/platforms/:id/slots body: the platform's full set of weekly
+ * posting slots, in the user's timezone
+ */
+export const updateSlotsSchema = z.object({
+  slots: z
+    .array(
+      z.object({
+        weekday: z.number().int().min(0).max(6), // 0 = Sunday
+        time: timeOfDaySchema,
+      })
+    )
+    .max(100),
+});
+
+export type UpdateSlotsInput = z.infer<typeof updateSlotsSchema>;
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { timeZoneSchema } from './settings.schema.js';
+
+const rruleSchema = z.string().min(1).max(500);
+
+// Absolute, or wall-clock time in the series' timezone
+const startsAtSchema = z.string().min(1).max(40);
+
+/**
+ * POST /api/recurring body: turn a post into the template of a new series
+ */
+export const createRecurringSchema = z.object({
+  postId: z.string().uuid(),
+  rrule: rruleSchema,
+  startsAt: startsAtSchema,
+  timezone: timeZoneSchema.optional(), // Omitted: the post's timezone, else the user's
+});
+
+/**
+ * PUT /api/recurring/:id body. A changed rule replaces the future occurrences
+ * that haven't been published.
+ */
+export const updateRecurringSchema = z.object({
+  rrule: rruleSchema.optional(),
+  startsAt: startsAtSchema.optional(),
+  timezone: timeZoneSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * PUT /api/recurring/:id/future body: edit an occurrence and every later one
+ */
+export const updateFutureSchema = z.object({
+  fromPostId: z.string().uuid(),
+  content: z.string().min(1).max(5000).optional(),
+  platformIds: z.array(z.string().uuid()).min(1).optional(),
+  mediaFileIds: z.array(z.string().uuid()).optional(),
+});
+
+export type CreateRecurringInput = z.infer<typeof createRecurringSchema>;
+export type UpdateRecurringInput = z.infer<typeof updateRecurringSchema>;
+export type UpdateFutureInput = z.infer<typeof updateFutureSchema>;
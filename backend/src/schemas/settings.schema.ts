@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { isTimeOfDay, isValidTimeZone } from '../lib/timezone.js';
+
+export const timeZoneSchema = z.string().refine(isValidTimeZone, {
+  message: 'Unknown timezone. Use an IANA name like Europe/Berlin',
+});
+
+export const timeOfDaySchema = z.string().refine(isTimeOfDay, { message: 'Use 24-hour HH:mm, e.g. 09:30' });
+
+/**
+ * PUT /api/settings body. Every field is optional; omitted fields keep their value.
+ */
+export const updateSettingsSchema = z.object({
+  timezone: timeZoneSchema.optional(),
+  defaultPlatformIds: z.array(z.string().uuid()).max(20).optional(),
+  defaultPostTime: timeOfDaySchema.optional(),
+  quietHours: z
+    .object({ start: timeOfDaySchema, end: timeOfDaySchema })
+    .refine(({ start, end }) => start !== end, { message: 'Quiet hours must not start and end at the same time' })
+    .nullable()
+    .optional(),
+  conflictGapMinutes: z.number().int().min(0).max(24 * 60).optional(),
+  aiDefaultModel: z.string().min(1).max(100).nullable().optional(),
+  notifications: z
+    .object({
+      publishFailure: z.boolean(),
+      publishSuccess: z.boolean(),
+      tokenExpiry: z.boolean(),
+    })
+    .partial()
+    .optional(),
+  shortenLinks: z.boolean().optional(),
+});
+
+export type UpdateSettingsInput = z.infer<typeof updateSettingsSchema>;
@@ -0,0 +1,132 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CompletionRequest } from './llm/types.js';
+
+// Tests script the model's answers; without a script the fake echoes the post back
+const llm = vi.hoisted(() => ({
+  answers: [] as string[],
+  requests: [] as CompletionRequest[],
+}));
+
+vi.mock('./llm/fake.provider.js', async (importOriginal) => {
+  const { FakeProvider } = await importOriginal<typeof import('./llm/fake.provider.js')>();
+  return {
+    FakeProvider: class extends FakeProvider {
+      complete(request: CompletionRequest): Promise<string> {
+        llm.requests.push(request);
+        const answer = llm.answers.shift();
+        return answer === undefined ? super.complete(request) : Promise.resolve(answer.trim());
+      }
+    },
+  };
+});
+
+// The provider services behind the registry load these
+vi.mock('../lib/prisma.js', async () => {
+  const { MemoryPrisma } = await import('../test/memoryPrisma.js');
+  return { prisma: new MemoryPrisma() };
+});
+
+vi.mock('../config/queue.js', async () => {
+  const { MemoryQueue } = await import('../test/memoryQueue.js');
+  return { publishQueue: new MemoryQueue() };
+});
+
+vi.mock('../lib/redis.js', () => ({ redis: {} }));
+
+const LAUNCH = 'https://example.com/launch';
+const CONTENT = `We launched the new editor today: ${LAUNCH}`;
+
+let aiService: typeof import('./ai.service.js').aiService;
+
+beforeAll(async () => {
+  // env.ts reads this when it's first imported
+  process.env.LLM_PROVIDER = 'fake';
+  ({ aiService } = await import('./ai.service.js'));
+});
+
+beforeEach(() => {
+  llm.answers = [];
+  llm.requests = [];
+});
+
+describe('aiService.refineContent', () => {
+  it('returns the fake model answer with nothing to repair', async () => {
+    const result = await aiService.refineContent({ content: CONTENT, platforms: ['TWITTER'] });
+
+    expect(result).toMatchObject({
+      refinedContent: CONTENT,
+      backend: 'fake',
+      model: 'gpt-4o-mini',
+      characterLimit: 280,
+      urlCheck: { preserved: [LAUNCH], repaired: [], restored: [], removed: [] },
+      diff: [{ type: 'equal', text: CONTENT }],
+    });
+    expect(llm.requests).toHaveLength(1);
+    expect(llm.requests[0]?.system).toContain('every link counts as 23 characters');
+  });
+
+  it('puts back links the model altered and drops ones it made up', async () => {
+    llm.answers = ['Big news! Our new editor is live: https://example.com/launch-2026 (see https://spam.example/offer)'];
+
+    const result = await aiService.refineContent({ content: CONTENT, platforms: ['TWITTER'] });
+
+    expect(result.refinedContent).toBe(`Big news! Our new editor is live: ${LAUNCH} (see )`);
+    expect(result.urlCheck).toEqual({
+      preserved: [],
+      repaired: [{ from: 'https://example.com/launch-2026', to: LAUNCH }],
+      restored: [],
+      removed: ['https://spam.example/offer'],
+    });
+    expect(result.diff.filter(s => s.type !== 'delete').map(s => s.text).join('')).toBe(result.refinedContent);
+  });
+
+  it('appends a link the model dropped', async () => {
+    llm.answers = ['The new editor is here.'];
+
+    const result = await aiService.refineContent({ content: CONTENT, platforms: ['FACEBOOK'] });
+
+    expect(result.refinedContent).toBe(`The new editor is here.\n${LAUNCH}`);
+    expect(result.urlCheck.restored).toEqual([LAUNCH]);
+  });
+
+  it('asks again once when the answer is over the limit as X counts it', async () => {
+    // 141 CJK characters are 282 on X, though String.length says 141
+    llm.answers = [`${'新'.repeat(141)} ${LAUNCH}`, `新しいエディター ${LAUNCH}`];
+
+    const result = await aiService.refineContent({ content: CONTENT, platforms: ['TWITTER'] });
+
+    expect(result.refinedContent).toBe(`新しいエディター ${LAUNCH}`);
+    expect(llm.requests).toHaveLength(2);
+    expect(llm.requests[1]?.prompt).toContain('Your previous answer was 306 characters as X (Twitter) counts them');
+    expect(llm.requests[1]?.prompt).toContain('over the limit of 280');
+  });
+
+  it('gives up when the retry is still too long', async () => {
+    llm.answers = [`${'a'.repeat(300)} ${LAUNCH}`, `${'b'.repeat(290)} ${LAUNCH}`];
+
+    await expect(aiService.refineContent({ content: CONTENT, platforms: ['TWITTER'] })).rejects.toMatchObject({
+      statusCode: 422,
+      code: 'AI_OUTPUT_TOO_LONG',
+    });
+    expect(llm.requests).toHaveLength(2);
+  });
+
+  it('refuses a model that is not offered', async () => {
+    await expect(
+      aiService.refineContent({ content: CONTENT, platforms: ['TWITTER'], model: 'gpt-5-secret' })
+    ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_MODEL' });
+    expect(llm.requests).toHaveLength(0);
+  });
+});
+
+describe('aiService.generateVariants', () => {
+  it('writes one variant per platform, each within its own limit', async () => {
+    const result = await aiService.generateVariants({ content: CONTENT, platforms: ['TWITTER', 'FACEBOOK'] });
+
+    expect(result.variants.map(v => [v.platform, v.characterLimit, v.content])).toEqual([
+      ['TWITTER', 280, CONTENT],
+      ['FACEBOOK', 63206, CONTENT],
+    ]);
+    expect(llm.requests).toHaveLength(2);
+  });
+});
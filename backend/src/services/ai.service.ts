@@ -1,89 +1,72 @@
-import OpenAI from 'openai';
 import { env } from '../config/env.js';
 import { logger } from '../lib/logger.js';
 import { AppError } from '../middleware/errorHandler.js';
-
-// Platform-specific content guidelines
-const PLATFORM_GUIDELINES: Record<string, string> = {
-  TWITTER: `Twitter/X: 
-    - Maximum 280 characters
-    - Concise and punchy
-    - Use 1-3 relevant hashtags
-    - Engaging and conversational tone
-    - Encourage engagement (questions, calls to action)`,
-  
-  LINKEDIN: `LinkedIn:
-    - Professional and thought-leadership tone
-    - Can be longer (up to 3000 chars) but keep it focused
-    - Share insights and value
-    - Use line breaks for readability
-    - 3-5 relevant hashtags at the end`,
-  
-  FACEBOOK: `Facebook:
-    - Conversational and friendly tone
-    - Can include emojis
-    - Encourage comments and shares
-    - Tell a story or share an experience
-    - Keep it authentic and personal`,
-  
-  INSTAGRAM: `Instagram:
-    - Visual-first mindset (describe how it relates to the image)
-    - Use emojis liberally
-    - Include a call to action
-    - 5-10 relevant hashtags
-    - Engaging caption style`,
-  
-  YOUTUBE: `YouTube (Community Post):
-    - Engaging and direct
-    - Ask questions to drive comments
-    - Can include polls or choices
-    - Build community connection`,
-  
-  PINTEREST: `Pinterest:
-    - Descriptive and keyword-rich
-    - Focus on what the pin offers
-    - Include relevant keywords naturally
-    - Keep it inspiring and actionable
-    - 2-5 hashtags`,
-};
+import { PlatformType } from '@prisma/client';
+import { countCharacters, X_TRANSFORMED_URL_LENGTH } from '../lib/textMetrics.js';
+import { diffWords, DiffSegment } from '../lib/textDiff.js';
+import { enforceUrls, hasUrlChanges, UrlCheck } from '../lib/urlGuard.js';
+import { providerRegistry } from './providerRegistry.service.js';
+import { OpenAIProvider } from './llm/openai.provider.js';
+import { FakeProvider } from './llm/fake.provider.js';
+import type { LLMBackend, LLMProvider } from './llm/types.js';
 
 // Tone based on platform selection
-const getTone = (platforms: string[]): string => {
-  if (platforms.length === 1) {
-    const platform = platforms[0];
-    switch (platform) {
-      case 'TWITTER': return 'concise and engaging';
-      case 'LINKEDIN': return 'professional and insightful';
-      case 'FACEBOOK': return 'friendly and conversational';
-      case 'INSTAGRAM': return 'visual and emoji-rich';
-      case 'YOUTUBE': return 'engaging and community-focused';
-      case 'PINTEREST': return 'descriptive and inspiring';
-      default: return 'engaging';
-    }
+const getTone = (platforms: PlatformType[]): string => {
+  const [platform] = platforms;
+  if (platforms.length === 1 && platform) {
+    return providerRegistry.get(platform).writing.tone;
   }
   return 'engaging';
 };
 
 // Get the most restrictive character limit
-const getCharacterLimit = (platforms: string[]): number => {
-  const limits: Record<string, number> = {
-    TWITTER: 280,
-    LINKEDIN: 3000,
-    FACEBOOK: 63206,
-    INSTAGRAM: 2200,
-    YOUTUBE: 5000,
-    PINTEREST: 500,
-  };
-  
+const getCharacterLimit = (platforms: PlatformType[]): number => {
   let minLimit = Infinity;
   for (const platform of platforms) {
-    const limit = limits[platform] || 5000;
-    minLimit = Math.min(minLimit, limit);
+    minLimit = Math.min(minLimit, providerRegistry.get(platform).capabilities.maxChars);
   }
   
   return minLimit === Infinity ? 280 : minLimit;
 };
 
+// Rewrites over a platform's limit are sent back once with the count before giving up
+const MAX_REFINE_ATTEMPTS = 2;
+
+// Only write for providers we can actually publish to
+const getUsablePlatforms = (platforms: string[]): PlatformType[] => {
+  return providerRegistry
+    .list()
+    .filter(p => platforms.includes(p.type) && providerRegistry.isUsable(p.type))
+    .map(p => p.type);
+};
+
+const createProvider = (): LLMProvider => {
+  switch (env.LLM_PROVIDER) {
+    case 'fake':
+      return new FakeProvider();
+    case 'openai-compatible':
+      // Never falls back to OPENAI_API_KEY, so the OpenAI key isn't sent to another server
+      return new OpenAIProvider({
+        backend: 'openai-compatible',
+        baseUrl: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        authHeader: env.LLM_AUTH_HEADER,
+      });
+    case 'openai':
+      return new OpenAIProvider({
+        backend: 'openai',
+        baseUrl: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY ?? env.OPENAI_API_KEY,
+        authHeader: env.LLM_AUTH_HEADER,
+      });
+  }
+};
+
+// Where the backend runs stays on the server
+export interface AIBackendInfo {
+  name: LLMBackend;
+}
+
 export interface RefineContentInput {
   content: string;
   platforms: string[];
@@ -96,71 +79,95 @@ export interface RefineContentResult {
   model: string;
   platforms: string[];
   characterLimit: number;
+  backend: LLMBackend;
+  urlCheck: UrlCheck;
+  diff: DiffSegment[]; // Original to refined, word by word
 }
 
-class AIService {
-  private client: OpenAI | null = null;
+/**
+ * A rewrite that kept the original's links and fits every platform it was written for
+ */
+interface GuardedRefinement {
+  content: string;
+  characterLimit: number;
+  urlCheck: UrlCheck;
+  diff: DiffSegment[];
+}
 
-  private getClient(): OpenAI {
-    if (!env.OPENAI_API_KEY) {
-      throw new AppError('OpenAI API key not configured', 503, true, 'AI_NOT_CONFIGURED');
-    }
-    
-    if (!this.client) {
-      this.client = new OpenAI({
-        apiKey: env.OPENAI_API_KEY,
-      });
-    }
-    
-    return this.client;
-  }
+export interface PlatformVariant extends GuardedRefinement {
+  platform: PlatformType;
+}
+
+export interface GenerateVariantsResult {
+  variants: PlatformVariant[];
+  model: string;
+  backend: LLMBackend;
+}
+
+class AIService {
+  private readonly provider: LLMProvider = createProvider();
 
   /**
    * Check if AI is available
    */
   isAvailable(): boolean {
-    return !!env.OPENAI_API_KEY;
+    return this.provider.isConfigured();
+  }
+
+  /**
+   * The active LLM backend
+   */
+  getBackend(): AIBackendInfo {
+    return { name: this.provider.backend };
   }
 
   /**
    * Get available models
    */
   getAvailableModels(): string[] {
-    return env.OPENAI_AVAILABLE_MODELS.split(',').map(m => m.trim());
+    return (env.LLM_AVAILABLE_MODELS ?? env.OPENAI_AVAILABLE_MODELS)
+      .split(',')
+      .map(m => m.trim())
+      .filter(Boolean);
   }
 
   /**
    * Get default model
    */
   getDefaultModel(): string {
-    return env.OPENAI_DEFAULT_MODEL;
+    return env.LLM_DEFAULT_MODEL ?? env.OPENAI_DEFAULT_MODEL;
   }
 
   /**
-   * Refine content for social media platforms
+   * The model to use, after checking the assistant can run at all
    */
-  async refineContent(input: RefineContentInput): Promise<RefineContentResult> {
-    const client = this.getClient();
-    
-    const { content, platforms, additionalContext, model } = input;
-    const selectedModel = model || env.OPENAI_DEFAULT_MODEL;
-    const availableModels = this.getAvailableModels();
-    
-    if (!availableModels.includes(selectedModel)) {
-      throw new AppError(`Model ${selectedModel} is not available`, 400, true, 'INVALID_MODEL');
+  private resolveModel(model: string | undefined): string {
+    if (!this.provider.isConfigured()) {
+      throw new AppError('AI assistant not configured', 503, true, 'AI_NOT_CONFIGURED');
     }
-    
-    if (!content.trim()) {
-      throw new AppError('Content is required', 400, true, 'CONTENT_REQUIRED');
+
+    const selectedModel = model || this.getDefaultModel();
+    if (!this.getAvailableModels().includes(selectedModel)) {
+      throw new AppError(`Model ${selectedModel} is not available`, 400, true, 'INVALID_MODEL');
     }
-    
-    // Use default settings if no platforms selected (Twitter's limit as most restrictive)
-    const effectivePlatforms = platforms.length > 0 ? platforms : ['TWITTER'];
-    const tone = getTone(effectivePlatforms);
-    const characterLimit = getCharacterLimit(effectivePlatforms);
-    const platformGuidelines = effectivePlatforms
-      .map(p => PLATFORM_GUIDELINES[p] || '')
-      .filter(Boolean)
+    return selectedModel;
+  }
+
+  /**
+   * One rewrite of the post, written for all the given platforms at once.
+   * The model is only asked to keep links, so they are checked and repaired
+   * here, and the result is counted the way each platform counts.
+   */
+  private async refineFor(
+    content: string,
+    platforms: PlatformType[],
+    additionalContext: string | undefined,
+    model: string
+  ): Promise<GuardedRefinement> {
+    const tone = getTone(platforms);
+    const characterLimit = getCharacterLimit(platforms);
+    const platformGuidelines = platforms
+      .map(p => providerRegistry.get(p).writing.guidelines)
       .join('\n\n');
     
     const systemPrompt = `You are an expert social media content writer. Your task is to refine and improve social media posts while maintaining the original message and intent.
@@ -168,7 +175,8 @@ class AIService {
 Guidelines:
 - Maintain the core message and intent of the original post
 - Make the content more ${tone}
-- The content must be under ${characterLimit} characters
+- The content must be under ${characterLimit} characters${platforms.includes('TWITTER') ? `
+- On X every link counts as ${X_TRANSFORMED_URL_LENGTH} characters however long it is, and emoji and CJK characters count as 2` : ''}
 - IMPORTANT: Preserve ALL URLs exactly as they appear in the original post - do not modify, shorten, or remove any links
 - Do not add placeholder text like [your link] or [product name]
 - Only output the refined post content, nothing else
@@ -190,53 +198,120 @@ ${content}
 
 Respond with only the refined post content.`;
 
-    logger.info({ model: selectedModel, platforms, contentLength: content.length }, 'Refining content with AI');
-
-    try {
-      const completion = await client.chat.completions.create({
-        model: selectedModel,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        max_tokens: 1000,
+    let feedback = '';
+    for (let attempt = 1; ; attempt++) {
+      const refined = await this.provider.complete({
+        model,
+        system: systemPrompt,
+        prompt: userPrompt + feedback,
+        maxTokens: 1000,
         temperature: 0.7,
       });
 
-      const refinedContent = completion.choices[0]?.message?.content?.trim();
-      
-      if (!refinedContent) {
+      if (!refined) {
         throw new AppError('AI returned empty response', 500, true, 'AI_EMPTY_RESPONSE');
       }
 
-      logger.info(
-        { model: selectedModel, originalLength: content.length, refinedLength: refinedContent.length },
-        'Content refined successfully'
-      );
-
-      return {
-        refinedContent,
-        model: selectedModel,
-        platforms,
-        characterLimit,
-      };
-    } catch (error) {
-      if (error instanceof AppError) throw error;
-      
-      logger.error({ error }, 'OpenAI API error');
-      
-      if (error instanceof OpenAI.APIError) {
-        if (error.status === 401) {
-          throw new AppError('Invalid OpenAI API key', 401, true, 'AI_AUTH_ERROR');
-        }
-        if (error.status === 429) {
-          throw new AppError('AI rate limit exceeded. Please try again later.', 429, true, 'AI_RATE_LIMIT');
-        }
-        throw new AppError(`AI service error: ${error.message}`, 500, true, 'AI_ERROR');
+      const { text, check } = enforceUrls(content, refined);
+      if (hasUrlChanges(check)) {
+        logger.warn({ model, urlCheck: check }, 'AI output changed links; repaired');
+      }
+
+      const overLimit = platforms
+        .map(platform => ({
+          name: providerRegistry.get(platform).name,
+          length: countCharacters(text, platform),
+          limit: providerRegistry.get(platform).capabilities.maxChars,
+        }))
+        .find(count => count.length > count.limit);
+
+      if (!overLimit) {
+        return { content: text, characterLimit, urlCheck: check, diff: diffWords(content, text) };
+      }
+
+      const { name, length, limit } = overLimit;
+      logger.warn({ model, attempt, platform: name, length, limit }, 'AI output over the character limit');
+      if (attempt >= MAX_REFINE_ATTEMPTS) {
+        throw new AppError(
+          `AI output is ${length} characters, over the ${name} limit of ${limit}. Try again or shorten the post.`,
+          422,
+          true,
+          'AI_OUTPUT_TOO_LONG'
+        );
       }
-      
-      throw new AppError('Failed to refine content', 500, true, 'AI_ERROR');
+      feedback = `\n\nYour previous answer was ${length} characters as ${name} counts them, over the limit of ${limit}. Write a shorter version.`;
+    }
+  }
+
+  /**
+   * Refine content for social media platforms
+   */
+  async refineContent(input: RefineContentInput): Promise<RefineContentResult> {
+    const { content, platforms, additionalContext } = input;
+    const selectedModel = this.resolveModel(input.model);
+    
+    if (!content.trim()) {
+      throw new AppError('Content is required', 400, true, 'CONTENT_REQUIRED');
+    }
+    
+    // Use default settings if no usable platforms selected (Twitter's limit as most restrictive)
+    const usablePlatforms = getUsablePlatforms(platforms);
+    const effectivePlatforms: PlatformType[] = usablePlatforms.length > 0 ? usablePlatforms : ['TWITTER'];
+
+    const backend = this.provider.backend;
+    logger.info({ backend, model: selectedModel, platforms, contentLength: content.length }, 'Refining content with AI');
+
+    const refined = await this.refineFor(content, effectivePlatforms, additionalContext, selectedModel);
+
+    logger.info(
+      { backend, model: selectedModel, originalLength: content.length, refinedLength: refined.content.length },
+      'Content refined successfully'
+    );
+
+    return {
+      refinedContent: refined.content,
+      model: selectedModel,
+      platforms: usablePlatforms,
+      characterLimit: refined.characterLimit,
+      backend,
+      urlCheck: refined.urlCheck,
+      diff: refined.diff,
+    };
+  }
+
+  /**
+   * Write a separate version of the post for each platform, each within
+   * that platform's own limit and tone
+   */
+  async generateVariants(input: RefineContentInput): Promise<GenerateVariantsResult> {
+    const { content, platforms, additionalContext } = input;
+    const selectedModel = this.resolveModel(input.model);
+
+    if (!content.trim()) {
+      throw new AppError('Content is required', 400, true, 'CONTENT_REQUIRED');
     }
+
+    const usablePlatforms = getUsablePlatforms(platforms);
+    if (usablePlatforms.length === 0) {
+      throw new AppError('Select at least one platform to write variants for', 400, true, 'PLATFORMS_REQUIRED');
+    }
+
+    const backend = this.provider.backend;
+    logger.info(
+      { backend, model: selectedModel, platforms: usablePlatforms, contentLength: content.length },
+      'Generating per-platform variants with AI'
+    );
+
+    const variants = await Promise.all(
+      usablePlatforms.map(async (platform) => {
+        const refined = await this.refineFor(content, [platform], additionalContext, selectedModel);
+        return { platform, ...refined };
+      })
+    );
+
+    logger.info({ backend, model: selectedModel, variants: variants.length }, 'Variants generated successfully');
+
+    return { variants, model: selectedModel, backend };
   }
 }
 
@@ -1,14 +1,16 @@
-import crypto from 'crypto';
 import { env } from '../config/env.js';
 import { prisma } from '../lib/prisma.js';
 import { encrypt, decrypt } from '../lib/encryption.js';
 import { logger } from '../lib/logger.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { providerFetch } from '../lib/providerHttp.js';
+import { providerRegistry } from './providerRegistry.service.js';
+import { oauthStateService } from './oauthState.service.js';
 
 // Facebook (Meta) OAuth 2.0 endpoints
 const FACEBOOK_AUTH_URL = 'https://www.facebook.com/v18.0/dialog/oauth';
-const FACEBOOK_TOKEN_URL = 'https://graph.facebook.com/v18.0/oauth/access_token';
-const FACEBOOK_GRAPH_URL = 'https://graph.facebook.com/v18.0';
+const FACEBOOK_TOKEN_URL = `${env.FACEBOOK_GRAPH_BASE_URL}/v18.0/oauth/access_token`;
+const FACEBOOK_GRAPH_URL = `${env.FACEBOOK_GRAPH_BASE_URL}/v18.0`;
 
 // Facebook permissions/scopes
 const FACEBOOK_SCOPES = [
@@ -52,9 +54,6 @@ interface InstagramAccount {
   profile_picture_url?: string;
 }
 
-// Store state temporarily for OAuth flow
-const stateStore = new Map<string, { userId: string; type: 'FACEBOOK' | 'INSTAGRAM'; expiresAt: number }>();
-
 class FacebookService {
   /**
    * Check if Facebook is configured
@@ -66,20 +65,16 @@ class FacebookService {
   /**
    * Generate OAuth authorization URL for Facebook Pages
    */
-  getAuthorizationUrl(userId: string, type: 'FACEBOOK' | 'INSTAGRAM' = 'FACEBOOK'): string {
+  async getAuthorizationUrl(
+    userId: string,
+    sessionId: string,
+    type: 'FACEBOOK' | 'INSTAGRAM' = 'FACEBOOK'
+  ): Promise<string> {
     if (!this.isConfigured()) {
       throw new AppError('Facebook OAuth is not configured', 503, true, 'FACEBOOK_NOT_CONFIGURED');
     }
 
-    const state = crypto.randomBytes(16).toString('hex');
-    
-    stateStore.set(state, {
-      userId,
-      type,
-      expiresAt: Date.now() + 10 * 60 * 1000,
-    });
-
-    this.cleanupExpiredStates();
+    const state = await oauthStateService.create({ userId, sessionId, provider: type });
 
     const params = new URLSearchParams({
       client_id: env.FACEBOOK_APP_ID!,
@@ -92,27 +87,21 @@ class FacebookService {
     return `${FACEBOOK_AUTH_URL}?${params.toString()}`;
   }
 
-  private cleanupExpiredStates(): void {
-    const now = Date.now();
-    for (const [key, value] of stateStore.entries()) {
-      if (value.expiresAt < now) {
-        stateStore.delete(key);
-      }
-    }
-  }
-
   /**
-   * Exchange authorization code for tokens
+   * Exchange authorization code for tokens.
+   * `providers` are the connection types the callback URL accepts states for.
    */
-  async handleCallback(code: string, state: string): Promise<void> {
-    const stateData = stateStore.get(state);
-    if (!stateData || stateData.expiresAt < Date.now()) {
-      stateStore.delete(state);
-      throw new AppError('Invalid or expired state', 400, true, 'INVALID_STATE');
-    }
+  async handleCallback(
+    code: string,
+    state: string,
+    sessionId: string,
+    providers: Array<'FACEBOOK' | 'INSTAGRAM'>
+  ): Promise<void> {
+    const { userId, provider } = await oauthStateService.consume(state, { sessionId, providers });
+    const type = provider === 'INSTAGRAM' ? 'INSTAGRAM' : 'FACEBOOK';
 
-    const { userId, type } = stateData;
-    stateStore.delete(state);
+    // Covers both Facebook and Instagram connections
+    providerRegistry.assertUsable(type);
 
     // Exchange code for short-lived token
     const tokenUrl = new URL(FACEBOOK_TOKEN_URL);
@@ -309,34 +298,33 @@ class FacebookService {
 
     let response: Response;
     
-    if (mediaUrls && mediaUrls.length > 0 && mediaUrls[0]) {
-      // Post with photo
-      const params = new URLSearchParams();
-      params.set('url', mediaUrls[0]);
-      params.set('caption', content);
-      params.set('access_token', accessToken);
-
-      response = await fetch(`${FACEBOOK_GRAPH_URL}/${pageId}/photos`, {
-        method: 'POST',
-        body: params,
-      });
-    } else {
-      // Text-only post
-      const params = new URLSearchParams({
-        message: content,
-        access_token: accessToken,
-      });
-
-      response = await fetch(`${FACEBOOK_GRAPH_URL}/${pageId}/feed`, {
-        method: 'POST',
-        body: params,
-      });
-    }
+    try {
+      if (mediaUrls && mediaUrls.length > 0 && mediaUrls[0]) {
+        // Post with photo
+        const params = new URLSearchParams();
+        params.set('url', mediaUrls[0]);
+        params.set('caption', content);
+        params.set('access_token', accessToken);
+
+        response = await providerFetch('facebook', 'Create Facebook post', `${FACEBOOK_GRAPH_URL}/${pageId}/photos`, {
+          method: 'POST',
+          body: params,
+        });
+      } else {
+        // Text-only post
+        const params = new URLSearchParams({
+          message: content,
+          access_token: accessToken,
+        });
 
-    if (!response.ok) {
-      const error = await response.text();
-      logger.error({ error, platformId, status: response.status }, 'Failed to create Facebook post');
-      throw new AppError(`Failed to create Facebook post: ${error}`, 400, true, 'POST_FAILED');
+        response = await providerFetch('facebook', 'Create Facebook post', `${FACEBOOK_GRAPH_URL}/${pageId}/feed`, {
+          method: 'POST',
+          body: params,
+        });
+      }
+    } catch (error) {
+      logger.error({ error, platformId }, 'Failed to create Facebook post');
+      throw error;
     }
 
     const result = await response.json() as { id?: string; post_id?: string };
@@ -348,6 +336,78 @@ class FacebookService {
     return { postId, postUrl };
   }
 
+  /**
+   * Delete a post from a Facebook Page
+   */
+  async deletePost(platformId: string, postId: string): Promise<void> {
+    const platform = await prisma.platform.findUnique({
+      where: { id: platformId },
+    });
+
+    if (!platform) {
+      throw new AppError('Platform not found', 404, true, 'PLATFORM_NOT_FOUND');
+    }
+
+    const params = new URLSearchParams({ access_token: decrypt(platform.accessToken) });
+
+    try {
+      await providerFetch('facebook', 'Delete Facebook post', `${FACEBOOK_GRAPH_URL}/${postId}?${params.toString()}`, {
+        method: 'DELETE',
+      });
+    } catch (error) {
+      logger.error({ error, platformId, postId }, 'Failed to delete Facebook post');
+      throw error;
+    }
+
+    logger.info({ platformId, postId }, 'Facebook post deleted');
+  }
+
+  /**
+   * List posts on the connected Page since a given time.
+   * Used to reconcile publish attempts whose outcome is unknown.
+   */
+  async listRecentPosts(
+    platformId: string,
+    since: Date
+  ): Promise<Array<{ postId: string; message: string; postUrl: string }>> {
+    const platform = await prisma.platform.findUnique({
+      where: { id: platformId },
+    });
+
+    if (!platform) {
+      throw new AppError('Platform not found', 404, true, 'PLATFORM_NOT_FOUND');
+    }
+
+    const params = new URLSearchParams({
+      fields: 'id,message,permalink_url',
+      since: Math.floor(since.getTime() / 1000).toString(),
+      limit: '25',
+      access_token: decrypt(platform.accessToken),
+    });
+
+    let response: Response;
+    try {
+      response = await providerFetch(
+        'facebook',
+        'List Facebook posts',
+        `${FACEBOOK_GRAPH_URL}/${platform.platformUserId}/posts?${params.toString()}`
+      );
+    } catch (error) {
+      logger.error({ error, platformId }, 'Failed to list Facebook posts');
+      throw error;
+    }
+
+    const result = await response.json() as {
+      data?: Array<{ id: string; message?: string; permalink_url?: string }>;
+    };
+
+    return (result.data ?? []).map((post) => ({
+      postId: post.id,
+      message: post.message ?? '',
+      postUrl: post.permalink_url ?? `https://www.facebook.com/${post.id}`,
+    }));
+  }
+
   /**
    * Post to Instagram (requires business/creator account connected to FB page)
    */
@@ -388,18 +448,20 @@ class FacebookService {
       containerParams.set('image_url', firstMediaUrl);
     }
 
-    const containerResponse = await fetch(
-      `${FACEBOOK_GRAPH_URL}/${platform.platformUserId}/media`,
-      {
-        method: 'POST',
-        body: containerParams,
-      }
-    );
-
-    if (!containerResponse.ok) {
-      const error = await containerResponse.text();
+    let containerResponse: Response;
+    try {
+      containerResponse = await providerFetch(
+        'instagram',
+        'Create Instagram media container',
+        `${FACEBOOK_GRAPH_URL}/${platform.platformUserId}/media`,
+        {
+          method: 'POST',
+          body: containerParams,
+        }
+      );
+    } catch (error) {
       logger.error({ error, platformId }, 'Failed to create Instagram media container');
-      throw new AppError(`Failed to create Instagram media container: ${error}`, 400, true, 'CONTAINER_FAILED');
+      throw error;
     }
 
     const containerResult = await containerResponse.json() as { id: string };
@@ -416,18 +478,20 @@ class FacebookService {
       creation_id: containerId,
     });
 
-    const publishResponse = await fetch(
-      `${FACEBOOK_GRAPH_URL}/${platform.platformUserId}/media_publish`,
-      {
-        method: 'POST',
-        body: publishParams,
-      }
-    );
-
-    if (!publishResponse.ok) {
-      const error = await publishResponse.text();
+    let publishResponse: Response;
+    try {
+      publishResponse = await providerFetch(
+        'instagram',
+        'Publish Instagram post',
+        `${FACEBOOK_GRAPH_URL}/${platform.platformUserId}/media_publish`,
+        {
+          method: 'POST',
+          body: publishParams,
+        }
+      );
+    } catch (error) {
       logger.error({ error, platformId }, 'Failed to publish Instagram post');
-      throw new AppError(`Failed to publish Instagram post: ${error}`, 400, true, 'PUBLISH_FAILED');
+      throw error;
     }
 
     const publishResult = await publishResponse.json() as { id: string };
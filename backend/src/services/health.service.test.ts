@@ -0,0 +1,52 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { CheckResult } from './health.service.js';
+
+vi.mock('../lib/prisma.js', async () => {
+  const { MemoryPrisma } = await import('../test/memoryPrisma.js');
+  return { prisma: new MemoryPrisma() };
+});
+
+vi.mock('../config/queue.js', async () => {
+  const { MemoryQueue } = await import('../test/memoryQueue.js');
+  return { publishQueue: new MemoryQueue() };
+});
+
+vi.mock('../lib/redis.js', () => ({ redis: {} }));
+
+const ok: CheckResult = { status: 'ok', latencyMs: 1 };
+const fail: CheckResult = { status: 'fail', latencyMs: 1, error: 'down' };
+
+let healthService: typeof import('./health.service.js').healthService;
+
+beforeAll(async () => {
+  ({ healthService } = await import('./health.service.js'));
+});
+
+describe('healthService.report', () => {
+  it.each<[string, CheckResult, CheckResult, string]>([
+    ['every check passes', ok, ok, 'ready'],
+    ['only an advisory check fails', ok, fail, 'degraded'],
+    ['a required check fails', fail, ok, 'not_ready'],
+    ['both fail', fail, fail, 'not_ready'],
+  ])('is %s', (_, database, worker, expected) => {
+    const report = healthService.report({ database }, { worker });
+
+    expect(report.status).toBe(expected);
+    expect(report.checks).toEqual({ database, worker });
+  });
+});
+
+describe('healthService.getReadiness', () => {
+  it('keeps the API ready, but degraded, when the worker heartbeat is missing', async () => {
+    vi.spyOn(healthService, 'checkDatabase').mockResolvedValue(ok);
+    vi.spyOn(healthService, 'checkRedis').mockResolvedValue(ok);
+    vi.spyOn(healthService, 'checkMediaDirectories').mockResolvedValue(ok);
+    vi.spyOn(healthService, 'checkQueue').mockResolvedValue(ok);
+    vi.spyOn(healthService, 'getWorkerHeartbeat').mockResolvedValue(null);
+
+    const report = await healthService.getReadiness();
+
+    expect(report.status).toBe('degraded');
+    expect(report.checks.worker).toMatchObject({ status: 'fail', error: 'No worker heartbeat' });
+  });
+});
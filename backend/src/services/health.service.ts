@@ -0,0 +1,180 @@
+import os from 'os';
+import { constants as fsConstants, promises as fs } from 'fs';
+import { prisma } from '../lib/prisma.js';
+import { redis } from '../lib/redis.js';
+import { publishQueue } from '../config/queue.js';
+import { mediaService } from './media.service.js';
+
+const CHECK_TIMEOUT_MS = 3000;
+const HEARTBEAT_KEY = 'worker:heartbeat';
+export const HEARTBEAT_INTERVAL_MS = 15_000;
+const HEARTBEAT_STALE_MS = 4 * HEARTBEAT_INTERVAL_MS; // A few missed beats before the worker counts as gone
+
+export interface CheckResult {
+  status: 'ok' | 'fail';
+  latencyMs: number;
+  error?: string | undefined;
+  details?: Record<string, unknown> | undefined;
+}
+
+export interface WorkerHeartbeat {
+  at: number; // Epoch ms
+  pid: number;
+  hostname: string;
+}
+
+export interface QueueStats {
+  waiting: number;
+  active: number;
+  delayed: number;
+  failed: number;
+  oldestWaitingAt: string | null;
+  oldestWaitingAgeMs: number | null;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'degraded' | 'not_ready';
+  timestamp: string;
+  checks: Record<string, CheckResult>;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Dependency checks for the API's /health/ready and the worker's health server
+ */
+class HealthService {
+  /**
+   * Run one check, timing it and turning any failure into a result
+   */
+  private async run(check: () => Promise<Record<string, unknown> | void>): Promise<CheckResult> {
+    const startedAt = Date.now();
+    try {
+      const details = await withTimeout(check(), CHECK_TIMEOUT_MS);
+      return { status: 'ok', latencyMs: Date.now() - startedAt, ...(details && { details }) };
+    } catch (error) {
+      return {
+        status: 'fail',
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  checkDatabase(): Promise<CheckResult> {
+    return this.run(async () => {
+      await prisma.$queryRaw`SELECT 1`;
+    });
+  }
+
+  checkRedis(): Promise<CheckResult> {
+    return this.run(async () => {
+      await redis.ping();
+    });
+  }
+
+  /**
+   * Uploads (and the upload temp folder) must be writable; the media folder is mounted read-only
+   */
+  checkMediaDirectories(): Promise<CheckResult> {
+    return this.run(async () => {
+      await fs.access(mediaService.getUploadsRoot(), fsConstants.W_OK);
+      await fs.access(mediaService.getUploadsTempRoot(), fsConstants.W_OK);
+      await fs.access(mediaService.getMediaRoot(), fsConstants.R_OK);
+    });
+  }
+
+  /**
+   * Whether the worker has reported in recently
+   */
+  checkWorkerHeartbeat(): Promise<CheckResult> {
+    return this.run(async () => {
+      const heartbeat = await this.getWorkerHeartbeat();
+      if (!heartbeat) {
+        throw new Error('No worker heartbeat');
+      }
+
+      const ageMs = Date.now() - heartbeat.at;
+      if (ageMs > HEARTBEAT_STALE_MS) {
+        throw new Error(`Last worker heartbeat was ${Math.round(ageMs / 1000)}s ago`);
+      }
+      return { ageMs, hostname: heartbeat.hostname };
+    });
+  }
+
+  /**
+   * Queue depth is reported, not judged; a backlog doesn't make the API unready
+   */
+  checkQueue(): Promise<CheckResult> {
+    return this.run(async () => ({ ...(await this.getQueueStats()) }));
+  }
+
+  async getQueueStats(): Promise<QueueStats> {
+    const counts = await publishQueue.getJobCounts('waiting', 'active', 'delayed', 'failed');
+    const [oldest] = await publishQueue.getJobs(['waiting'], 0, 0, true);
+
+    return {
+      waiting: counts.waiting ?? 0,
+      active: counts.active ?? 0,
+      delayed: counts.delayed ?? 0,
+      failed: counts.failed ?? 0,
+      oldestWaitingAt: oldest ? new Date(oldest.timestamp).toISOString() : null,
+      oldestWaitingAgeMs: oldest ? Date.now() - oldest.timestamp : null,
+    };
+  }
+
+  /**
+   * Readiness of the API: everything it needs to serve requests. A missing
+   * worker only delays publishing, so it marks the API degraded, not unready.
+   */
+  async getReadiness(): Promise<ReadinessReport> {
+    const [database, redisCheck, media, worker, queue] = await Promise.all([
+      this.checkDatabase(),
+      this.checkRedis(),
+      this.checkMediaDirectories(),
+      this.checkWorkerHeartbeat(),
+      this.checkQueue(),
+    ]);
+
+    return this.report({ database, redis: redisCheck, media, queue }, { worker });
+  }
+
+  /**
+   * Failed `checks` make the process unready; failed `advisory` checks only degrade it
+   */
+  report(checks: Record<string, CheckResult>, advisory: Record<string, CheckResult> = {}): ReadinessReport {
+    const passed = (results: Record<string, CheckResult>) =>
+      Object.values(results).every(check => check.status === 'ok');
+
+    let status: ReadinessReport['status'] = 'ready';
+    if (!passed(checks)) {
+      status = 'not_ready';
+    } else if (!passed(advisory)) {
+      status = 'degraded';
+    }
+
+    return {
+      status,
+      timestamp: new Date().toISOString(),
+      checks: { ...checks, ...advisory },
+    };
+  }
+
+  async writeWorkerHeartbeat(): Promise<void> {
+    const heartbeat: WorkerHeartbeat = { at: Date.now(), pid: process.pid, hostname: os.hostname() };
+    await redis.set(HEARTBEAT_KEY, JSON.stringify(heartbeat), 'PX', HEARTBEAT_STALE_MS * 2);
+  }
+
+  async getWorkerHeartbeat(): Promise<WorkerHeartbeat | null> {
+    const data = await redis.get(HEARTBEAT_KEY);
+    return data ? (JSON.parse(data) as WorkerHeartbeat) : null;
+  }
+}
+
+export const healthService = new HealthService();
@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { env } from '../config/env.js';
+import { logger } from '../lib/logger.js';
+import { ValidationError } from '../middleware/errorHandler.js';
+import { MIME_TYPES, mediaService } from './media.service.js';
+
+/**
+ * Image formats we accept, keyed by the format sharp detects from the file content
+ */
+const FORMAT_MIME_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+};
+
+const THUMBNAIL_WIDTH = 320;
+const MAX_INPUT_PIXELS = 100_000_000; // Refuse decompression bombs
+
+// Encoding settings tried in order until a rendition fits the byte limit
+const ENCODE_STEPS: Array<{ quality: number; scale: number }> = [
+  { quality: 90, scale: 1 },
+  { quality: 80, scale: 1 },
+  { quality: 70, scale: 1 },
+  { quality: 70, scale: 0.75 },
+  { quality: 70, scale: 0.5 },
+  { quality: 60, scale: 0.35 },
+];
+
+export interface ImageInfo {
+  mimeType: string;
+  width: number;
+  height: number;
+  hasMetadata: boolean; // EXIF, XMP or IPTC present
+}
+
+/**
+ * What a provider accepts. Images outside these limits get a rendition.
+ */
+export interface ImageProfile {
+  name: string; // Part of the rendition cache key
+  maxBytes: number;
+  maxPixels: number;
+  formats: string[]; // MIME types the provider takes as-is; anything else becomes JPEG
+}
+
+export interface ImageRendition {
+  path: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Image pipeline: content sniffing, metadata stripping, thumbnails and
+ * provider renditions. Generated files are cached on disk.
+ */
+class ImageService {
+  private getCacheRoot(): string {
+    return path.resolve(process.cwd(), env.MEDIA_CACHE_PATH ?? path.join(env.MEDIA_UPLOADS_PATH, '.cache'));
+  }
+
+  /**
+   * Read an image's real format and dimensions from its content
+   */
+  async inspect(filePath: string): Promise<ImageInfo> {
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(filePath, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+    } catch {
+      throw new ValidationError('File is not a readable image');
+    }
+
+    const mimeType = metadata.format ? FORMAT_MIME_TYPES[metadata.format] : undefined;
+    if (!mimeType || !metadata.width || !metadata.height) {
+      throw new ValidationError('Unsupported image format');
+    }
+
+    // EXIF orientations 5-8 swap width and height
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    return {
+      mimeType,
+      width: rotated ? metadata.height : metadata.width,
+      height: rotated ? metadata.width : metadata.height,
+      hasMetadata: !!(metadata.exif || metadata.xmp || metadata.iptc),
+    };
+  }
+
+  /**
+   * Check that the content is the image type its extension claims
+   */
+  async assertMatchesExtension(filePath: string, extension: string): Promise<ImageInfo> {
+    const info = await this.inspect(filePath);
+    if (MIME_TYPES[extension.toLowerCase()] !== info.mimeType) {
+      throw new ValidationError(`File content (${info.mimeType}) does not match its ${extension} extension`);
+    }
+    return info;
+  }
+
+  /**
+   * Validate a freshly uploaded image and rewrite it in place without
+   * EXIF/GPS metadata. Orientation is applied to the pixels first.
+   */
+  async sanitizeUpload(filePath: string, extension: string): Promise<ImageInfo> {
+    const info = await this.assertMatchesExtension(filePath, extension);
+    if (!info.hasMetadata) {
+      return info;
+    }
+
+    const animated = info.mimeType === 'image/gif';
+    const pipeline = sharp(filePath, { animated, limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+    // sharp drops metadata unless asked to keep it
+    const data = await this.encode(pipeline, info.mimeType, 95).toBuffer();
+    await this.writeAtomic(filePath, data);
+
+    logger.info({ filePath }, 'Stripped image metadata');
+    return { ...info, hasMetadata: false };
+  }
+
+  /**
+   * Path of a small WebP preview for the media browser, generated on first use
+   */
+  async getThumbnail(filePath: string): Promise<string> {
+    const stats = await fs.stat(filePath);
+    // Keyed by file identity rather than content, so browsing doesn't hash every file
+    const key = crypto
+      .createHash('sha256')
+      .update(`${filePath}:${stats.size}:${stats.mtimeMs}`)
+      .digest('hex');
+    const thumbnailPath = path.join(this.getCacheRoot(), 'thumbnails', `${key}.webp`);
+
+    if (await this.exists(thumbnailPath)) {
+      return thumbnailPath;
+    }
+
+    const data = await sharp(filePath, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize({ width: THUMBNAIL_WIDTH, height: THUMBNAIL_WIDTH, fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 70 })
+      .toBuffer();
+    await this.writeAtomic(thumbnailPath, data);
+
+    return thumbnailPath;
+  }
+
+  /**
+   * Image as a provider should receive it: within its byte and pixel limits,
+   * in a format it accepts and without metadata. Cached by content hash.
+   */
+  async getRendition(filePath: string, profile: ImageProfile): Promise<ImageRendition> {
+    const info = await this.inspect(filePath);
+    const { size } = await fs.stat(filePath);
+
+    const fits =
+      profile.formats.includes(info.mimeType) &&
+      size <= profile.maxBytes &&
+      info.width * info.height <= profile.maxPixels &&
+      !info.hasMetadata;
+    if (fits) {
+      return { path: filePath, mimeType: info.mimeType, size };
+    }
+
+    const targetMime = profile.formats.includes(info.mimeType) ? info.mimeType : 'image/jpeg';
+    const hash = await mediaService.hashFile(filePath);
+    const renditionPath = path.join(
+      this.getCacheRoot(),
+      'renditions',
+      `${hash}-${profile.name}${MIME_EXTENSIONS[targetMime]}`
+    );
+
+    if (await this.exists(renditionPath)) {
+      const cached = await fs.stat(renditionPath);
+      return { path: renditionPath, mimeType: targetMime, size: cached.size };
+    }
+
+    const animated = targetMime === 'image/gif';
+    const baseScale = Math.min(1, Math.sqrt(profile.maxPixels / (info.width * info.height)));
+
+    for (const step of ENCODE_STEPS) {
+      const width = Math.max(1, Math.floor(info.width * baseScale * step.scale));
+      let pipeline = sharp(filePath, { animated, limitInputPixels: MAX_INPUT_PIXELS })
+        .rotate()
+        .resize({ width, withoutEnlargement: true });
+
+      // JPEG has no alpha channel
+      if (targetMime === 'image/jpeg') {
+        pipeline = pipeline.flatten({ background: '#ffffff' });
+      }
+
+      const data = await this.encode(pipeline, targetMime, step.quality).toBuffer();
+      if (data.length <= profile.maxBytes) {
+        await this.writeAtomic(renditionPath, data);
+        logger.info(
+          { profile: profile.name, from: info.mimeType, to: targetMime, bytes: data.length },
+          'Created image rendition'
+        );
+        return { path: renditionPath, mimeType: targetMime, size: data.length };
+      }
+    }
+
+    throw new ValidationError(`Image can't be reduced to ${profile.name}'s ${profile.maxBytes} byte limit`);
+  }
+
+  private encode(pipeline: sharp.Sharp, mimeType: string, quality: number): sharp.Sharp {
+    switch (mimeType) {
+      case 'image/png':
+        return pipeline.png({ compressionLevel: 9 });
+      case 'image/webp':
+        return pipeline.webp({ quality });
+      case 'image/gif':
+        return pipeline.gif();
+      default:
+        return pipeline.jpeg({ quality, mozjpeg: true });
+    }
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Write through a temp file so readers never see a partial image
+   */
+  private async writeAtomic(targetPath: string, data: Buffer): Promise<void> {
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    const tempPath = `${targetPath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, targetPath);
+  }
+}
+
+export const imageService = new ImageService();
@@ -0,0 +1,54 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/prisma.js', async () => {
+  const { MemoryPrisma } = await import('../test/memoryPrisma.js');
+  return { prisma: new MemoryPrisma() };
+});
+
+vi.mock('../config/queue.js', async () => {
+  const { MemoryQueue } = await import('../test/memoryQueue.js');
+  return { publishQueue: new MemoryQueue() };
+});
+
+vi.mock('../lib/redis.js', () => ({ redis: {} }));
+
+let importService: typeof import('./import.service.js').importService;
+
+beforeAll(async () => {
+  ({ importService } = await import('./import.service.js'));
+});
+
+const validate = (mediaUrls: string) =>
+  importService.validateRows([
+    {
+      platform: 'x',
+      scheduled_date: '2099-01-15 10:00',
+      content: 'Launch day https://example.com/launch',
+      media_urls: mediaUrls,
+    },
+  ]);
+
+describe('importService.validateRows media', () => {
+  it.each([
+    ['no media', ''],
+    ['an image', 'https://cdn.example.com/launch.jpg'],
+    ['a local image', 'local:launch/banner.png'],
+    ['a CDN link without an extension', 'https://cdn.example.com/img/123?w=800'],
+  ])('accepts %s', (_, mediaUrls) => {
+    const { validRows, errors } = validate(mediaUrls);
+    expect(errors).toEqual([]);
+    expect(validRows).toHaveLength(1);
+  });
+
+  it.each([
+    ['a video', 'https://cdn.example.com/launch.mp4', 'Video attachments are not supported'],
+    ['two images', 'https://cdn.example.com/a.jpg,https://cdn.example.com/b.png', 'at most 1 image'],
+    ['a document', 'https://cdn.example.com/launch.pdf', 'Only image attachments are supported'],
+  ])('rejects %s', (_, mediaUrls, message) => {
+    const { validRows, errors } = validate(mediaUrls);
+    expect(validRows).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ row: 2, column: 'media_urls' });
+    expect(errors[0]?.error).toContain(message);
+  });
+});
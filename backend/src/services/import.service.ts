@@ -1,12 +1,19 @@
 import { parse } from 'csv-parse/sync';
 import ExcelJS from 'exceljs';
+import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
-import { mediaService } from '@/services/media.service';
+import { mediaService, MIME_TYPES } from '@/services/media.service';
+import { validateContentContract } from '@/schemas/contentContract.schema';
+import { providerRegistry } from '@/services/providerRegistry.service';
+import { settingsService, SettingsView } from '@/services/settings.service';
+import { queueService, SlotAllocator } from '@/services/queue.service';
+import { getZonedParts, isDateOnly, parseDateTimeInZone, parseTimeOfDay, zonedTimeToUtc } from '@/lib/timezone';
 import {
   importRowSchema,
   validateRowForPlatform,
+  buildRowContent,
   ImportRow,
   ImportResult,
   ImportError,
@@ -14,6 +21,8 @@ import {
   CSV_HEADERS,
   SAMPLE_TEMPLATE_DATA,
   SupportedPlatform,
+  IMPORT_PLATFORM_TYPES,
+  isQueueDate,
 } from '@/schemas/import.schema';
 
 /**
@@ -93,7 +102,8 @@ class ImportServiceClass {
    */
   validateRows(
     rows: Record<string, string>[],
-    isPremium = false
+    isPremium = false,
+    timeZone = 'UTC'
   ): {
     validRows: ValidatedRow[];
     errors: ImportError[];
@@ -123,14 +133,45 @@ class ImportServiceClass {
           continue;
         }
 
+        const platformType = IMPORT_PLATFORM_TYPES[parsed.data.platform];
+        if (!providerRegistry.isUsable(platformType)) {
+          errors.push({
+            row: rowNumber,
+            column: 'platform',
+            error: providerRegistry.unavailableReason(platformType),
+          });
+          continue;
+        }
+
         // Validate against platform limits
-        const validation = validateRowForPlatform(parsed.data, rowNumber, isPremium);
+        const validation = validateRowForPlatform(parsed.data, rowNumber, isPremium, timeZone);
         
         if (!validation.valid) {
           errors.push(...validation.errors);
           continue;
         }
 
+        // Imported posts are scheduled straight away, so they must meet the content contract
+        const violations = validateContentContract({
+          content: buildRowContent(parsed.data),
+          // Links without a file extension (CDN URLs) are left to the dispatch-time check, which sees the file
+          media: parsed.data.media_urls.flatMap(url => {
+            const mimeType = this.guessMimeType(url);
+            return mimeType ? [{ mimeType }] : [];
+          }),
+        });
+
+        if (violations.length > 0) {
+          for (const violation of violations) {
+            errors.push({
+              row: rowNumber,
+              column: violation.field === 'media' ? 'media_urls' : 'content',
+              error: violation.message,
+            });
+          }
+          continue;
+        }
+
         warnings.push(...validation.warnings);
 
         validRows.push({
@@ -159,14 +200,42 @@ class ImportServiceClass {
   ): Promise<ImportResult> {
     const posts: ImportResult['posts'] = [];
     const errors: ImportError[] = [];
+    const warnings: string[] = [];
+    const settings = await settingsService.get(userId);
+    // One allocator per platform, so queued rows take consecutive slots (also in dry runs)
+    const allocators = new Map<string, SlotAllocator>();
 
     for (const row of validRows) {
       try {
-        // Adjust scheduled date if in the past
-        let scheduledDate = new Date(row.data.scheduled_date);
-        const now = new Date();
-        if (scheduledDate < now) {
-          scheduledDate = new Date(now.getTime() + 60000); // 1 minute from now
+        const queuePlatformId = isQueueDate(row.data.scheduled_date)
+          ? await this.resolveQueuePlatform(userId, row.data.platform)
+          : null;
+        let scheduledDate: Date;
+
+        if (queuePlatformId) {
+          let allocator = allocators.get(queuePlatformId);
+          if (!allocator) {
+            allocator = await queueService.createAllocator(userId, queuePlatformId);
+            allocators.set(queuePlatformId, allocator);
+          }
+          const slot = allocator.next();
+          if (!slot) {
+            throw new Error(`no free posting slot on ${row.data.platform}; add posting slots or check its quota`);
+          }
+          scheduledDate = slot;
+        } else {
+          // Adjust scheduled date if in the past
+          scheduledDate = this.resolveScheduledDate(row.data, settings);
+          const now = new Date();
+          if (scheduledDate < now) {
+            scheduledDate = new Date(now.getTime() + 60000); // 1 minute from now
+          }
+
+          const outsideQuietHours = settingsService.nextOutsideQuietHours(scheduledDate, settings);
+          if (outsideQuietHours.getTime() !== scheduledDate.getTime()) {
+            warnings.push(`Row ${row.rowNumber}: moved out of quiet hours to ${outsideQuietHours.toISOString()}`);
+            scheduledDate = outsideQuietHours;
+          }
         }
 
         if (dryRun) {
@@ -178,19 +247,7 @@ class ImportServiceClass {
             status: 'scheduled',
           });
         } else {
-          // Build content with additional metadata
-          let fullContent = row.data.content || '';
-          
-          // Add link if provided
-          if (row.data.link) {
-            fullContent = fullContent ? `${fullContent}\n\n${row.data.link}` : row.data.link;
-          }
-          
-          // Add tags as hashtags
-          if (row.data.tags && row.data.tags.length > 0) {
-            const hashTags = row.data.tags.map(t => `#${t}`).join(' ');
-            fullContent = fullContent ? `${fullContent}\n\n${hashTags}` : hashTags;
-          }
+          const fullContent = buildRowContent(row.data);
 
           // Create the post in the database
           // Note: This creates a draft post. A separate process will link it to platforms.
@@ -201,6 +258,12 @@ class ImportServiceClass {
               content: fullContent,
               status: 'SCHEDULED',
               scheduledAt: scheduledDate,
+              timezone: row.data.timezone ?? null,
+              // Queued rows are linked to the account whose slot they take
+              ...(queuePlatformId && {
+                queued: true,
+                platforms: { create: [{ platformId: queuePlatformId, status: 'SCHEDULED' as const }] },
+              }),
             },
           });
 
@@ -244,12 +307,67 @@ class ImportServiceClass {
         imported: posts.length,
         skipped: validRows.length - posts.length,
         errors,
-        warnings: validRows.flatMap((r) => r.warnings),
+        warnings: [...validRows.flatMap((r) => r.warnings), ...warnings],
       },
       posts,
     };
   }
 
+  /**
+   * The user's connected account a queued row goes to
+   */
+  private async resolveQueuePlatform(userId: string, platform: SupportedPlatform): Promise<string> {
+    const account = await prisma.platform.findFirst({
+      where: { userId, type: IMPORT_PLATFORM_TYPES[platform], isActive: true },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+    if (!account) {
+      throw new Error(`no connected ${platform} account to queue on`);
+    }
+    return account.id;
+  }
+
+  /**
+   * Naive dates are in the row's timezone, else the user's. Date-only values
+   * ("2025-01-15") are scheduled at the user's default post time.
+   */
+  private resolveScheduledDate(row: ImportRow, settings: SettingsView): Date {
+    const timeZone = row.timezone ?? settings.timezone;
+    const scheduledDate = parseDateTimeInZone(row.scheduled_date, timeZone);
+    if (!scheduledDate) {
+      throw new Error(`Invalid scheduled date: ${row.scheduled_date}`);
+    }
+    if (!isDateOnly(row.scheduled_date)) {
+      return scheduledDate;
+    }
+
+    const minutes = parseTimeOfDay(settings.defaultPostTime) ?? 9 * 60;
+    const { year, month, day } = getZonedParts(scheduledDate, timeZone);
+    return zonedTimeToUtc(
+      { year, month, day, hour: Math.floor(minutes / 60), minute: minutes % 60 },
+      timeZone
+    );
+  }
+
+  /**
+   * Guess a media reference's MIME type from its file extension. Returns null
+   * when there is no extension to go by.
+   */
+  private guessMimeType(url: string): string | null {
+    let pathname = url;
+    try {
+      pathname = new URL(url).pathname;
+    } catch {
+      // local: paths and bare file names are used as-is
+    }
+    const extension = path.extname(pathname).toLowerCase();
+    if (!extension) {
+      return null;
+    }
+    return MIME_TYPES[extension] || 'application/octet-stream';
+  }
+
   /**
    * Build platform-specific configuration
    */
@@ -328,8 +446,9 @@ class ImportServiceClass {
       };
     }
 
-    // Validate rows
-    const { validRows, errors, warnings } = this.validateRows(rows, isPremium);
+    // Validate rows; naive dates are in the user's timezone
+    const { timezone } = await settingsService.get(userId);
+    const { validRows, errors, warnings } = this.validateRows(rows, isPremium, timezone);
 
     if (validRows.length === 0) {
       return {
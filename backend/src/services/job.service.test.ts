@@ -0,0 +1,126 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PostStatus, PrismaClient } from '@prisma/client';
+import type { MemoryPrisma } from '../test/memoryPrisma.js';
+import type { MemoryQueue } from '../test/memoryQueue.js';
+
+vi.mock('../lib/prisma.js', async () => {
+  const { MemoryPrisma } = await import('../test/memoryPrisma.js');
+  return { prisma: new MemoryPrisma() };
+});
+
+vi.mock('../config/queue.js', async () => {
+  const { MemoryQueue } = await import('../test/memoryQueue.js');
+  return { publishQueue: new MemoryQueue() };
+});
+
+vi.mock('../lib/redis.js', () => ({ redis: {} }));
+
+const USER_ID = 'user-1';
+
+let db: PrismaClient;
+let queue: MemoryQueue;
+let jobService: typeof import('./job.service.js').jobService;
+
+beforeAll(async () => {
+  ({ prisma: db } = await import('../lib/prisma.js'));
+  queue = (await import('../config/queue.js')).publishQueue as unknown as MemoryQueue;
+  ({ jobService } = await import('./job.service.js'));
+});
+
+beforeEach(() => {
+  (db as unknown as MemoryPrisma).reset();
+  queue.drain();
+});
+
+async function seedDeadLetter(status: PostStatus) {
+  const platform = await db.platform.create({
+    data: { userId: USER_ID, type: 'TWITTER', name: '@mockuser', platformUserId: '1', accessToken: 'token' },
+  });
+  const post = await db.post.create({
+    data: {
+      userId: USER_ID,
+      content: 'Launch day https://example.com/launch',
+      status,
+      platforms: { create: [{ platformId: platform.id, status: 'FAILED', retryDecision: 'terminal' }] },
+    },
+    include: { platforms: true },
+  });
+  const target = post.platforms[0];
+  await db.publishAttempt.create({
+    data: {
+      postPlatformId: target?.id ?? '',
+      idempotencyKey: target?.idempotencyKey ?? '',
+      attemptNumber: 3,
+      state: 'FAILED',
+    },
+  });
+
+  return addDeadLetter(post.id);
+}
+
+async function addDeadLetter(postId: string) {
+  return db.scheduledJob.create({
+    data: {
+      jobId: `publish-post-${postId}-${Math.random()}`,
+      jobType: 'publish_post',
+      entityType: 'Post',
+      entityId: postId,
+      scheduledAt: new Date(),
+      payload: { postId, userId: USER_ID },
+      status: 'dead_letter',
+      deadLetteredAt: new Date(),
+    },
+  });
+}
+
+async function outboxFor(postId: string) {
+  return db.scheduledJob.findMany({ where: { entityId: postId, status: { notIn: ['dead_letter', 'requeued'] } } });
+}
+
+describe('jobService.requeue', () => {
+  it.each<PostStatus>(['FAILED', 'PARTIALLY_PUBLISHED'])('puts a %s post back through the pipeline', async status => {
+    const job = await seedDeadLetter(status);
+
+    await jobService.requeue(USER_ID, job.id);
+
+    const post = await db.post.findUnique({ where: { id: job.entityId }, include: { platforms: true } });
+    expect(post?.status).toBe('PUBLISHING');
+    expect(post?.platforms[0]).toMatchObject({ nextRetryAt: null, retryBudgetFrom: 3 });
+    expect((await db.scheduledJob.findUnique({ where: { id: job.id } }))?.status).toBe('requeued');
+    expect(await outboxFor(job.entityId)).toHaveLength(1);
+    expect(queue.size).toBe(1);
+  });
+
+  it.each<PostStatus>(['PUBLISHED', 'PUBLISHING', 'DRAFT', 'SCHEDULED'])(
+    'refuses a post that is %s by now',
+    async status => {
+      const job = await seedDeadLetter(status);
+
+      await expect(jobService.requeue(USER_ID, job.id)).rejects.toMatchObject({ statusCode: 409 });
+
+      expect((await db.post.findUnique({ where: { id: job.entityId } }))?.status).toBe(status);
+      expect((await db.scheduledJob.findUnique({ where: { id: job.id } }))?.status).toBe('dead_letter');
+      expect(await outboxFor(job.entityId)).toHaveLength(0);
+      expect(queue.size).toBe(0);
+    }
+  );
+
+  it('requeues only one of two dead-lettered jobs for the same post', async () => {
+    const first = await seedDeadLetter('FAILED');
+    const second = await addDeadLetter(first.entityId);
+
+    await jobService.requeue(USER_ID, first.id);
+    await expect(jobService.requeue(USER_ID, second.id)).rejects.toMatchObject({ statusCode: 409 });
+
+    expect(await outboxFor(first.entityId)).toHaveLength(1);
+    expect(queue.size).toBe(1);
+  });
+
+  it('refuses a job that is no longer dead-lettered', async () => {
+    const job = await seedDeadLetter('FAILED');
+    await jobService.requeue(USER_ID, job.id);
+
+    await expect(jobService.requeue(USER_ID, job.id)).rejects.toMatchObject({ statusCode: 400 });
+    expect(await outboxFor(job.entityId)).toHaveLength(1);
+  });
+});
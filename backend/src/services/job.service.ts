@@ -0,0 +1,164 @@
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import {
+  PUBLISH_JOB_TYPE,
+  createPublishOutboxEntry,
+  relayPublishOutbox,
+} from '../jobs/publish.job.js';
+
+// Statuses a publish run that gave up leaves the post in
+const REQUEUEABLE_STATUSES = ['FAILED', 'PARTIALLY_PUBLISHED'] as const;
+
+const postSummarySelect = {
+  id: true,
+  content: true,
+  status: true,
+  scheduledAt: true,
+} as const;
+
+class JobService {
+  /**
+   * Dead-lettered publish jobs are stored on the outbox row; the owner is in the payload
+   */
+  private ownedBy(userId: string) {
+    return {
+      jobType: PUBLISH_JOB_TYPE,
+      payload: { path: ['userId'], equals: userId },
+    };
+  }
+
+  /**
+   * List dead-lettered publish jobs for a user, newest first
+   */
+  async listDeadLetters(userId: string) {
+    const jobs = await prisma.scheduledJob.findMany({
+      where: { ...this.ownedBy(userId), status: 'dead_letter' },
+      orderBy: { deadLetteredAt: 'desc' },
+    });
+
+    const posts = await prisma.post.findMany({
+      where: { id: { in: jobs.map(j => j.entityId) }, userId },
+      select: postSummarySelect,
+    });
+    const postsById = new Map(posts.map(p => [p.id, p]));
+
+    return jobs.map(job => ({
+      ...job,
+      post: postsById.get(job.entityId) ?? null,
+    }));
+  }
+
+  /**
+   * Get a single job with its post and the publish attempts made for it
+   */
+  async getById(userId: string, id: string) {
+    const job = await prisma.scheduledJob.findFirst({
+      where: { id, ...this.ownedBy(userId) },
+    });
+
+    if (!job) {
+      throw new NotFoundError('Job not found');
+    }
+
+    const post = await prisma.post.findFirst({
+      where: { id: job.entityId, userId },
+      select: {
+        ...postSummarySelect,
+        platforms: {
+          select: {
+            id: true,
+            status: true,
+            errorMessage: true,
+            lastErrorCode: true,
+            retryDecision: true,
+            platform: {
+              select: { id: true, type: true, name: true, platformUsername: true },
+            },
+            attempts: {
+              orderBy: { attemptNumber: 'asc' },
+            },
+          },
+        },
+      },
+    });
+
+    return { ...job, post };
+  }
+
+  /**
+   * Put a dead-lettered job's post back through the publish pipeline
+   */
+  async requeue(userId: string, id: string) {
+    const job = await this.getById(userId, id);
+
+    if (job.status !== 'dead_letter') {
+      throw new ValidationError('Only dead-lettered jobs can be requeued');
+    }
+
+    if (!job.post) {
+      throw new ValidationError('The post for this job no longer exists');
+    }
+
+    const postId = job.post.id;
+
+    await prisma.$transaction(async (tx) => {
+      // Only a post the failed run left behind goes back in; one that was published,
+      // edited or is being sent since then stays as it is
+      const { count } = await tx.post.updateMany({
+        where: { id: postId, status: { in: [...REQUEUEABLE_STATUSES] } },
+        data: { status: 'PUBLISHING', claimedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new ConflictError('The post has changed since this job failed; it can no longer be requeued');
+      }
+
+      // Let every unpublished target run again right away, with a fresh retry budget
+      for (const target of job.post?.platforms ?? []) {
+        if (target.status === 'PUBLISHED') continue;
+
+        await tx.postPlatform.update({
+          where: { id: target.id },
+          data: {
+            nextRetryAt: null,
+            retryBudgetFrom: target.attempts.at(-1)?.attemptNumber ?? 0,
+          },
+        });
+      }
+
+      const requeued = await tx.scheduledJob.updateMany({
+        where: { id: job.id, status: 'dead_letter' },
+        data: { status: 'requeued' },
+      });
+      if (requeued.count === 0) {
+        throw new ConflictError('This job has already been requeued');
+      }
+
+      await createPublishOutboxEntry(tx, { postId, userId });
+    });
+
+    await relayPublishOutbox();
+
+    logger.info({ jobId: job.jobId, postId }, 'Requeued dead-lettered publish job');
+  }
+
+  /**
+   * Drop a dead-lettered job; the post stays FAILED
+   */
+  async discard(userId: string, id: string) {
+    const job = await this.getById(userId, id);
+
+    if (job.status !== 'dead_letter') {
+      throw new ValidationError('Only dead-lettered jobs can be discarded');
+    }
+
+    await prisma.scheduledJob.update({
+      where: { id: job.id },
+      data: { status: 'discarded', completedAt: new Date() },
+    });
+
+    logger.info({ jobId: job.jobId, postId: job.entityId }, 'Discarded dead-lettered publish job');
+  }
+}
+
+export const jobService = new JobService();
@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import { env } from '../config/env.js';
+import { redis } from '../lib/redis.js';
+import { logger } from '../lib/logger.js';
+import { safeFetch } from '../lib/safeFetch.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+const CACHE_KEY_PREFIX = 'link-preview:';
+const CANONICAL_CHECK_MAX_BYTES = 1024; // Only the status matters
+
+const META_TAG = /<meta\s[^>]*>/gi;
+const LINK_TAG = /<link\s[^>]*>/gi;
+const TITLE_TAG = /<title[^>]*>([^<]*)<\/title>/i;
+const ATTRIBUTE = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+const ENTITY = /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi;
+const CHARSET = /charset=["']?([\w-]+)/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export type LinkPreviewWarningCode =
+  | 'PAGE_ERROR'
+  | 'NOT_HTML'
+  | 'NO_TITLE'
+  | 'NO_IMAGE'
+  | 'CANONICAL_INVALID'
+  | 'CANONICAL_BROKEN';
+
+export interface LinkPreviewWarning {
+  code: LinkPreviewWarningCode;
+  message: string;
+}
+
+/**
+ * What providers will show for a link, from its Open Graph and Twitter Card tags
+ */
+export interface LinkPreview {
+  url: string;
+  finalUrl: string; // After redirects
+  canonicalUrl: string | null;
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  siteName: string | null;
+  twitterCard: string | null; // e.g. summary_large_image
+  warnings: LinkPreviewWarning[];
+  fetchedAt: string;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(ENTITY, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(tag: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const match of tag.matchAll(ATTRIBUTE)) {
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attributes.set(match[1]!.toLowerCase(), decodeEntities(value).trim());
+  }
+  return attributes;
+}
+
+/**
+ * Meta tags by property or name (og:title, twitter:card, description),
+ * first one wins, plus the canonical link and the title
+ */
+function parseHead(html: string): { meta: Map<string, string>; canonical: string | null; title: string | null } {
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+  const meta = new Map<string, string>();
+
+  for (const [tag] of head.matchAll(META_TAG)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.get('property') ?? attributes.get('name'))?.toLowerCase();
+    const content = attributes.get('content');
+    if (key && content && !meta.has(key)) {
+      meta.set(key, content);
+    }
+  }
+
+  let canonical: string | null = null;
+  for (const [tag] of head.matchAll(LINK_TAG)) {
+    const attributes = parseAttributes(tag);
+    if (attributes.get('rel')?.toLowerCase().split(/\s+/).includes('canonical')) {
+      canonical = attributes.get('href') ?? null;
+      break;
+    }
+  }
+
+  const title = head.match(TITLE_TAG)?.[1];
+  return { meta, canonical, title: title ? decodeEntities(title).trim() || null : null };
+}
+
+function decodeBody(body: Buffer, contentType: string): string {
+  const utf8 = body.toString('utf8');
+  const charset = contentType.match(CHARSET)?.[1] ?? utf8.slice(0, 2048).match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+  if (!charset || /^utf-?8$/i.test(charset)) {
+    return utf8;
+  }
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    return utf8;
+  }
+}
+
+// An absolute http(s) URL, or null when the value isn't one
+function resolveUrl(value: string | undefined | null, base: string): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+const sameUrl = (a: string, b: string) => {
+  const normalize = (value: string) => {
+    const url = new URL(value);
+    url.hash = '';
+    return url.toString().replace(/\/$/, '');
+  };
+  return normalize(a) === normalize(b);
+};
+
+/**
+ * Fetches pages server-side to preview the card each provider will attach
+ * to a link. Pages are fetched through safeFetch, so links can't be used
+ * to reach the server's own network. Results are cached in Redis.
+ */
+class LinkPreviewService {
+  private getKey(url: string): string {
+    return `${CACHE_KEY_PREFIX}${crypto.createHash('sha256').update(url).digest('hex')}`;
+  }
+
+  async getPreview(url: string): Promise<LinkPreview> {
+    const key = this.getKey(url);
+    const cached = await redis.get(key);
+    if (cached) {
+      return JSON.parse(cached) as LinkPreview;
+    }
+
+    const preview = await this.fetchPreview(url);
+    await redis.set(key, JSON.stringify(preview), 'EX', env.LINK_PREVIEW_CACHE_SECONDS);
+    return preview;
+  }
+
+  private async fetchPreview(url: string): Promise<LinkPreview> {
+    const response = await safeFetch(url, {
+      timeoutMs: env.LINK_PREVIEW_TIMEOUT_MS,
+      maxBytes: env.LINK_PREVIEW_MAX_BYTES,
+      accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+    });
+
+    const preview: LinkPreview = {
+      url,
+      finalUrl: response.url,
+      canonicalUrl: null,
+      title: null,
+      description: null,
+      image: null,
+      siteName: null,
+      twitterCard: null,
+      warnings: [],
+      fetchedAt: new Date().toISOString(),
+    };
+    const warn = (code: LinkPreviewWarningCode, message: string) => preview.warnings.push({ code, message });
+
+    if (response.status >= 400) {
+      warn('PAGE_ERROR', `The page returned HTTP ${response.status}; providers will show a bare link`);
+      return preview;
+    }
+    if (!/html/i.test(response.contentType)) {
+      warn('NOT_HTML', `The link is ${response.contentType || 'not a web page'}; providers will show a bare link`);
+      return preview;
+    }
+
+    const { meta, canonical, title } = parseHead(decodeBody(response.body, response.contentType));
+    const base = response.url;
+
+    preview.title = meta.get('og:title') ?? meta.get('twitter:title') ?? title;
+    preview.description = meta.get('og:description') ?? meta.get('twitter:description') ?? meta.get('description') ?? null;
+    preview.siteName = meta.get('og:site_name') ?? null;
+    preview.twitterCard = meta.get('twitter:card') ?? null;
+
+    const rawImage = meta.get('og:image:secure_url') ?? meta.get('og:image') ?? meta.get('twitter:image');
+    preview.image = resolveUrl(rawImage, base);
+
+    if (!preview.title) {
+      warn('NO_TITLE', 'The page has no og:title or title; the card will show the bare URL');
+    }
+    if (!preview.image) {
+      warn('NO_IMAGE', rawImage
+        ? `og:image is not a valid http(s) URL: ${rawImage}`
+        : 'The page has no og:image; the X card and Facebook attachment will have no picture');
+    }
+
+    const rawCanonical = canonical ?? meta.get('og:url');
+    if (rawCanonical) {
+      preview.canonicalUrl = resolveUrl(rawCanonical, base);
+      if (!preview.canonicalUrl) {
+        warn('CANONICAL_INVALID', `The canonical URL is not a valid http(s) URL: ${rawCanonical}`);
+      } else if (!sameUrl(preview.canonicalUrl, base)) {
+        await this.checkCanonical(preview.canonicalUrl, warn);
+      }
+    }
+
+    logger.info({ url, finalUrl: base, warnings: preview.warnings.map(w => w.code) }, 'Link preview fetched');
+    return preview;
+  }
+
+  /**
+   * Providers follow the canonical URL, so a broken one breaks the card
+   */
+  private async checkCanonical(
+    canonicalUrl: string,
+    warn: (code: LinkPreviewWarningCode, message: string) => void
+  ): Promise<void> {
+    try {
+      const response = await safeFetch(canonicalUrl, {
+        timeoutMs: env.LINK_PREVIEW_TIMEOUT_MS,
+        maxBytes: CANONICAL_CHECK_MAX_BYTES,
+      });
+      if (response.status >= 400) {
+        warn('CANONICAL_BROKEN', `The canonical URL ${canonicalUrl} returns HTTP ${response.status}`);
+      }
+    } catch (error) {
+      const reason = error instanceof AppError ? error.message : 'it could not be fetched';
+      warn('CANONICAL_BROKEN', `The canonical URL ${canonicalUrl} is unreachable: ${reason}`);
+    }
+  }
+}
+
+export const linkPreviewService = new LinkPreviewService();
@@ -1,9 +1,9 @@
-import crypto from 'crypto';
 import { env } from '../config/env.js';
 import { prisma } from '../lib/prisma.js';
 import { encrypt, decrypt } from '../lib/encryption.js';
 import { logger } from '../lib/logger.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { oauthStateService } from './oauthState.service.js';
 
 import type { Prisma } from '@prisma/client';
 
@@ -58,9 +58,6 @@ interface LinkedInOrgDetails {
   };
 }
 
-// Store state temporarily for OAuth flow
-const stateStore = new Map<string, { userId: string; expiresAt: number; includeOrganizations: boolean }>();
-
 class LinkedInService {
   /**
    * Check if LinkedIn is configured
@@ -72,23 +69,19 @@ class LinkedInService {
   /**
    * Generate OAuth authorization URL
    */
-  getAuthorizationUrl(userId: string, options?: { includeOrganizations?: boolean }): string {
+  async getAuthorizationUrl(
+    userId: string,
+    sessionId: string,
+    options?: { includeOrganizations?: boolean }
+  ): Promise<string> {
     if (!this.isConfigured()) {
       throw new AppError('LinkedIn OAuth is not configured', 503, true, 'LINKEDIN_NOT_CONFIGURED');
     }
 
-    const state = crypto.randomBytes(16).toString('hex');
     const includeOrganizations = options?.includeOrganizations ?? true;
     
     // Store state for verification
-    stateStore.set(state, {
-      userId,
-      includeOrganizations,
-      expiresAt: Date.now() + 10 * 60 * 1000, // 10 minutes
-    });
-
-    // Clean up expired states
-    this.cleanupExpiredStates();
+    const state = await oauthStateService.create({ userId, sessionId, provider: 'LINKEDIN', includeOrganizations });
 
     const params = new URLSearchParams({
       response_type: 'code',
@@ -101,31 +94,13 @@ class LinkedInService {
     return `${LINKEDIN_AUTH_URL}?${params.toString()}`;
   }
 
-  /**
-   * Clean up expired state entries
-   */
-  private cleanupExpiredStates(): void {
-    const now = Date.now();
-    for (const [key, value] of stateStore.entries()) {
-      if (value.expiresAt < now) {
-        stateStore.delete(key);
-      }
-    }
-  }
-
   /**
    * Exchange authorization code for tokens
    */
-  async handleCallback(code: string, state: string): Promise<void> {
-    const stateData = stateStore.get(state);
-    if (!stateData || stateData.expiresAt < Date.now()) {
-      stateStore.delete(state);
-      throw new AppError('Invalid or expired state', 400, true, 'INVALID_STATE');
-    }
-
+  async handleCallback(code: string, state: string, sessionId: string): Promise<void> {
+    const stateData = await oauthStateService.consume(state, { sessionId, providers: ['LINKEDIN'] });
     const userId = stateData.userId;
-    const includeOrganizations = stateData.includeOrganizations;
-    stateStore.delete(state);
+    const includeOrganizations = stateData.includeOrganizations ?? true;
 
     // Exchange code for tokens
     const tokenResponse = await fetch(LINKEDIN_TOKEN_URL, {
@@ -0,0 +1,27 @@
+import type { CompletionRequest, LLMProvider } from './types.js';
+
+const QUOTED_BLOCK = /"""\n([\s\S]*?)\n"""/g;
+
+/**
+ * Answers with the last """-quoted block of the prompt - the post being
+ * worked on - so the same input always gives the same output and links
+ * survive. Tests can pass their own responder instead.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly backend = 'fake' as const;
+
+  constructor(private readonly respond: (request: CompletionRequest) => string = echoQuoted) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  complete(request: CompletionRequest): Promise<string> {
+    return Promise.resolve(this.respond(request).trim());
+  }
+}
+
+function echoQuoted(request: CompletionRequest): string {
+  const blocks = [...request.prompt.matchAll(QUOTED_BLOCK)];
+  return blocks.at(-1)?.[1] ?? request.prompt;
+}
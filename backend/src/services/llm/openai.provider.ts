@@ -0,0 +1,94 @@
+import OpenAI from 'openai';
+import { logger } from '../../lib/logger.js';
+import { AppError } from '../../middleware/errorHandler.js';
+import type { CompletionRequest, LLMBackend, LLMProvider } from './types.js';
+
+export interface OpenAIProviderOptions {
+  backend: Extract<LLMBackend, 'openai' | 'openai-compatible'>;
+  baseUrl: string | undefined;
+  apiKey: string | undefined;
+  authHeader: string; // "Authorization" sends the key as a bearer token, any other header the raw key
+}
+
+/**
+ * The OpenAI API, or any server that speaks its chat completions protocol
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly backend: OpenAIProviderOptions['backend'];
+  private readonly baseUrl: string | null;
+  private client: OpenAI | null = null;
+
+  constructor(private readonly options: OpenAIProviderOptions) {
+    this.backend = options.backend;
+    this.baseUrl = options.baseUrl ?? null;
+  }
+
+  isConfigured(): boolean {
+    // Local servers usually run without auth; OpenAI itself always needs a key
+    return this.options.backend === 'openai' ? !!this.options.apiKey : !!this.baseUrl;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.isConfigured()) {
+      const message = this.options.backend === 'openai'
+        ? 'OpenAI API key not configured'
+        : 'LLM_BASE_URL not configured';
+      throw new AppError(message, 503, true, 'AI_NOT_CONFIGURED');
+    }
+
+    if (!this.client) {
+      const { apiKey, authHeader } = this.options;
+      // null unsets the SDK's own bearer header
+      const headers: Record<string, string | null> = {};
+      if (!apiKey || authHeader.toLowerCase() !== 'authorization') {
+        headers['Authorization'] = null;
+        if (apiKey) {
+          headers[authHeader] = apiKey;
+        }
+      }
+
+      this.client = new OpenAI({
+        apiKey: apiKey ?? 'none', // The SDK requires one even when it isn't sent
+        ...(this.baseUrl && { baseURL: this.baseUrl }),
+        defaultHeaders: headers,
+      });
+    }
+
+    return this.client;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const client = this.getClient();
+
+    try {
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+      });
+
+      return completion.choices[0]?.message?.content?.trim() ?? '';
+    } catch (error) {
+      logger.error({ error, backend: this.backend, baseUrl: this.baseUrl }, 'LLM API error');
+
+      if (error instanceof OpenAI.APIConnectionError) {
+        throw new AppError('Could not reach the AI backend', 502, true, 'AI_UNREACHABLE');
+      }
+      if (error instanceof OpenAI.APIError) {
+        if (error.status === 401 || error.status === 403) {
+          throw new AppError('Invalid AI API key', 401, true, 'AI_AUTH_ERROR');
+        }
+        if (error.status === 429) {
+          throw new AppError('AI rate limit exceeded. Please try again later.', 429, true, 'AI_RATE_LIMIT');
+        }
+        throw new AppError(`AI service error: ${error.message}`, 500, true, 'AI_ERROR');
+      }
+
+      throw new AppError('AI request failed', 500, true, 'AI_ERROR');
+    }
+  }
+}
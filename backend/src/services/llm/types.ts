@@ -0,0 +1,31 @@
+/**
+ * Where the AI assistant's completions come from
+ * - openai: the OpenAI API
+ * - openai-compatible: any server with an OpenAI-style chat completions
+ *   endpoint (Ollama, LM Studio, vLLM, LiteLLM, ...)
+ * - fake: answered in-process and deterministically, for tests and demos
+ */
+export type LLMBackend = 'openai' | 'openai-compatible' | 'fake';
+
+export interface CompletionRequest {
+  model: string;
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+/**
+ * A chat model backend. Providers report failures as AppErrors with AI_*
+ * codes, so callers don't depend on which one is active.
+ */
+export interface LLMProvider {
+  readonly backend: LLMBackend;
+
+  isConfigured(): boolean;
+
+  /**
+   * The model's answer, trimmed. Empty when the model returned nothing.
+   */
+  complete(request: CompletionRequest): Promise<string>;
+}
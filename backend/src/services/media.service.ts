@@ -1,4 +1,5 @@
-import { promises as fs } from 'fs';
+import crypto from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { env } from '@/config/env';
@@ -39,6 +40,7 @@ export interface MediaFileInfo {
   createdAt: Date;
   modifiedAt: Date;
   url: string;            // URL to access the file
+  thumbnailUrl?: string | undefined; // Small WebP preview, images only
 }
 
 /**
@@ -164,6 +166,10 @@ class MediaServiceClass {
     return `${basePath}/${relativePath}`;
   }
 
+  private buildThumbnailUrl(relativePath: string, source: 'media' | 'uploads'): string {
+    return `/api/media/thumbnail/${source}/${relativePath}`;
+  }
+
   /**
    * Get info for a single file
    */
@@ -190,6 +196,7 @@ class MediaServiceClass {
         createdAt: stats.birthtime,
         modifiedAt: stats.mtime,
         url: this.buildFileUrl(relativePath, source),
+        thumbnailUrl: fileType === 'image' ? this.buildThumbnailUrl(relativePath, source) : undefined,
       };
     } catch {
       return null;
@@ -255,6 +262,7 @@ class MediaServiceClass {
             createdAt: stats.birthtime,
             modifiedAt: stats.mtime,
             url: this.buildFileUrl(entryPath, source),
+            thumbnailUrl: fileType === 'image' ? this.buildThumbnailUrl(entryPath, source) : undefined,
           });
         }
       }
@@ -313,6 +321,7 @@ class MediaServiceClass {
               createdAt: stats.birthtime,
               modifiedAt: stats.mtime,
               url: this.buildFileUrl(entryPath, source),
+              thumbnailUrl: fileType === 'image' ? this.buildThumbnailUrl(entryPath, source) : undefined,
             });
           }
         }
@@ -383,6 +392,7 @@ class MediaServiceClass {
       createdAt: stats.birthtime,
       modifiedAt: stats.mtime,
       url: this.buildFileUrl(relativePath, 'uploads'),
+      thumbnailUrl: fileType === 'image' ? this.buildThumbnailUrl(relativePath, 'uploads') : undefined,
     };
   }
 
@@ -444,6 +454,7 @@ class MediaServiceClass {
         createdAt: finalStats.birthtime,
         modifiedAt: finalStats.mtime,
         url: this.buildFileUrl(relativePath, 'uploads'),
+        thumbnailUrl: fileType === 'image' ? this.buildThumbnailUrl(relativePath, 'uploads') : undefined,
       };
     } catch (error) {
       await this.safeUnlink(file.path);
@@ -451,6 +462,19 @@ class MediaServiceClass {
     }
   }
 
+  /**
+   * SHA-256 of a file's content, hex encoded
+   */
+  hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('error', reject)
+        .on('end', () => resolve(hash.digest('hex')));
+    });
+  }
+
   private async moveFile(sourcePath: string, targetPath: string): Promise<void> {
     try {
       await fs.rename(sourcePath, targetPath);
@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { PlatformType } from '@prisma/client';
+import { env } from '../config/env.js';
+
+/**
+ * What a signed media link grants: one MediaFile, of one owner, until it expires
+ */
+export interface MediaUrlClaims {
+  mediaFileId: string;
+  userId: string;
+  provider: PlatformType; // Whose rendition of the image is served
+  expiresAt: number; // Epoch seconds
+}
+
+// Keeps media signatures distinct from anything else signed with the same secret
+const SIGNATURE_SCOPE = 'media-file';
+
+/**
+ * Signed, expiring links for provider fetches. Providers like Facebook pull
+ * images by URL; the media library itself stays behind authentication.
+ */
+class MediaUrlService {
+  private readonly secret: Buffer;
+
+  constructor() {
+    this.secret = env.MEDIA_URL_SECRET
+      ? Buffer.from(env.MEDIA_URL_SECRET)
+      : crypto.createHmac('sha256', env.SESSION_SECRET).update('media-url-secret').digest();
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.secret).update(`${SIGNATURE_SCOPE}:${payload}`).digest('base64url');
+  }
+
+  /**
+   * Build a public URL for a single media file
+   */
+  createUrl(
+    mediaFile: { id: string; userId: string },
+    provider: PlatformType,
+    ttlSeconds = env.MEDIA_URL_TTL_SECONDS
+  ): string {
+    const claims: MediaUrlClaims = {
+      mediaFileId: mediaFile.id,
+      userId: mediaFile.userId,
+      provider,
+      expiresAt: Math.floor(Date.now() / 1000) + ttlSeconds,
+    };
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const token = `${payload}.${this.sign(payload)}`;
+
+    const baseUrl = (env.MEDIA_PUBLIC_BASE_URL ?? env.CORS_ORIGIN).replace(/\/$/, '');
+    return `${baseUrl}/public/media/${token}`;
+  }
+
+  /**
+   * Check a token's signature and expiry. Returns null when it can't be trusted.
+   */
+  verify(token: string): MediaUrlClaims | null {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    let claims: MediaUrlClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as MediaUrlClaims;
+    } catch {
+      return null;
+    }
+
+    if (typeof claims.mediaFileId !== 'string' || typeof claims.userId !== 'string' || !claims.provider) return null;
+    if (typeof claims.expiresAt !== 'number' || claims.expiresAt * 1000 < Date.now()) return null;
+
+    return claims;
+  }
+}
+
+export const mediaUrlService = new MediaUrlService();
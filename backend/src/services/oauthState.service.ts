@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { PlatformType } from '@prisma/client';
+import { redis } from '../lib/redis.js';
+import { logger } from '../lib/logger.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+const STATE_KEY_PREFIX = 'oauth:state:';
+const STATE_TTL_SECONDS = 10 * 60; // 10 minutes to complete the provider's consent screen
+const STATE_PATTERN = /^[a-f0-9]{64}$/;
+
+export interface OAuthStateEntry {
+  userId: string;
+  sessionId: string; // Session that started the flow; the callback must arrive on it
+  provider: PlatformType;
+  codeVerifier?: string | undefined; // PKCE (Twitter, YouTube)
+  includeOrganizations?: boolean | undefined; // LinkedIn
+  createdAt: number;
+}
+
+export type NewOAuthState = Omit<OAuthStateEntry, 'createdAt'>;
+
+/**
+ * OAuth state shared by all API replicas. States are random, short-lived,
+ * single-use and bound to the session and provider that created them.
+ */
+class OAuthStateService {
+  private getKey(state: string): string {
+    return `${STATE_KEY_PREFIX}${state}`;
+  }
+
+  /**
+   * Store a new state and return the value to send to the provider
+   */
+  async create(entry: NewOAuthState): Promise<string> {
+    const state = crypto.randomBytes(32).toString('hex');
+    const payload: OAuthStateEntry = { ...entry, createdAt: Date.now() };
+
+    await redis.set(this.getKey(state), JSON.stringify(payload), 'EX', STATE_TTL_SECONDS);
+    return state;
+  }
+
+  /**
+   * Take a state out of the store. It can't be used again, whether or not it matches.
+   * Throws when the state is unknown, expired, or belongs to another session or provider.
+   */
+  async consume(
+    state: string,
+    binding: { sessionId: string; providers: PlatformType[] }
+  ): Promise<OAuthStateEntry> {
+    if (!STATE_PATTERN.test(state)) {
+      throw new AppError('Invalid or expired state', 400, true, 'INVALID_STATE');
+    }
+
+    // GETDEL is atomic, so two callbacks racing on one state can't both succeed
+    const data = await redis.getdel(this.getKey(state));
+    if (!data) {
+      throw new AppError('Invalid or expired state', 400, true, 'INVALID_STATE');
+    }
+
+    const entry = JSON.parse(data) as OAuthStateEntry;
+
+    if (entry.sessionId !== binding.sessionId) {
+      logger.warn({ userId: entry.userId, provider: entry.provider }, 'OAuth callback arrived on a different session');
+      throw new AppError('Authorization was started from a different session', 400, true, 'STATE_SESSION_MISMATCH');
+    }
+
+    if (!binding.providers.includes(entry.provider)) {
+      logger.warn({ userId: entry.userId, provider: entry.provider, expected: binding.providers }, 'OAuth state used with the wrong provider');
+      throw new AppError('Invalid or expired state', 400, true, 'STATE_PROVIDER_MISMATCH');
+    }
+
+    return entry;
+  }
+}
+
+export const oauthStateService = new OAuthStateService();
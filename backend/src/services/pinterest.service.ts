@@ -1,9 +1,9 @@
-import crypto from 'crypto';
 import { env } from '../config/env.js';
 import { prisma } from '../lib/prisma.js';
 import { encrypt, decrypt } from '../lib/encryption.js';
 import { logger } from '../lib/logger.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { oauthStateService } from './oauthState.service.js';
 
 // Pinterest OAuth 2.0 endpoints
 const PINTEREST_AUTH_URL = 'https://www.pinterest.com/oauth/';
@@ -42,9 +42,6 @@ interface PinterestBoard {
   privacy?: string;
 }
 
-// Store state temporarily for OAuth flow
-const stateStore = new Map<string, { userId: string; expiresAt: number }>();
-
 class PinterestService {
   /**
    * Check if Pinterest is configured
@@ -56,19 +53,12 @@ class PinterestService {
   /**
    * Generate OAuth authorization URL
    */
-  getAuthorizationUrl(userId: string): string {
+  async getAuthorizationUrl(userId: string, sessionId: string): Promise<string> {
     if (!this.isConfigured()) {
       throw new AppError('Pinterest OAuth is not configured', 503, true, 'PINTEREST_NOT_CONFIGURED');
     }
 
-    const state = crypto.randomBytes(16).toString('hex');
-    
-    stateStore.set(state, {
-      userId,
-      expiresAt: Date.now() + 10 * 60 * 1000,
-    });
-
-    this.cleanupExpiredStates();
+    const state = await oauthStateService.create({ userId, sessionId, provider: 'PINTEREST' });
 
     const params = new URLSearchParams({
       client_id: env.PINTEREST_APP_ID!,
@@ -81,27 +71,11 @@ class PinterestService {
     return `${PINTEREST_AUTH_URL}?${params.toString()}`;
   }
 
-  private cleanupExpiredStates(): void {
-    const now = Date.now();
-    for (const [key, value] of stateStore.entries()) {
-      if (value.expiresAt < now) {
-        stateStore.delete(key);
-      }
-    }
-  }
-
   /**
    * Exchange authorization code for tokens
    */
-  async handleCallback(code: string, state: string): Promise<void> {
-    const stateData = stateStore.get(state);
-    if (!stateData || stateData.expiresAt < Date.now()) {
-      stateStore.delete(state);
-      throw new AppError('Invalid or expired state', 400, true, 'INVALID_STATE');
-    }
-
-    const userId = stateData.userId;
-    stateStore.delete(state);
+  async handleCallback(code: string, state: string, sessionId: string): Promise<void> {
+    const { userId } = await oauthStateService.consume(state, { sessionId, providers: ['PINTEREST'] });
 
     // Exchange code for tokens using Basic auth
     const credentials = Buffer.from(`${env.PINTEREST_APP_ID}:${env.PINTEREST_APP_SECRET}`).toString('base64');
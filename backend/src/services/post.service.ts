@@ -1,24 +1,38 @@
 import { prisma } from '../lib/prisma.js';
 import { PostStatus, PlatformType, Prisma } from '@prisma/client';
 import { logger } from '../lib/logger.js';
+import { parseDateTimeInZone } from '../lib/timezone.js';
+import { ContractViolationError, ValidationError } from '../middleware/errorHandler.js';
+import { validateContentContract } from '../schemas/contentContract.schema.js';
+import { providerRegistry } from './providerRegistry.service.js';
+import { queueService } from './queue.service.js';
+import { settingsService } from './settings.service.js';
+
+// Text for individual targets, by platform ID; null goes back to the post's content
+export type ContentOverrides = Record<string, string | null>;
 
 export interface CreatePostInput {
   content: string;
-  scheduledAt?: Date | undefined;
+  scheduledAt?: string | undefined; // ISO 8601; naive values are in the post's timezone
+  timezone?: string | undefined;
   platformIds?: string[] | undefined;
+  contentOverrides?: ContentOverrides | undefined;
   mediaFileIds?: string[] | undefined;
 }
 
 export interface UpdatePostInput {
   content?: string | undefined;
-  scheduledAt?: Date | null | undefined;
+  scheduledAt?: string | null | undefined;
+  timezone?: string | null | undefined;
   platformIds?: string[] | undefined;
+  contentOverrides?: ContentOverrides | undefined; // Merged into the existing ones
   mediaFileIds?: string[] | undefined;
   status?: PostStatus | undefined;
 }
 
 export interface PostFilters {
   status?: PostStatus | undefined;
+  seriesId?: string | undefined;
   platformType?: PlatformType | undefined;
   fromDate?: Date | undefined;
   toDate?: Date | undefined;
@@ -52,16 +66,124 @@ const postInclude = {
     },
     orderBy: { order: 'asc' as const },
   },
+  recurringSchedule: {
+    select: {
+      id: true,
+      rrule: true,
+      timezone: true,
+    },
+  },
 } satisfies Prisma.PostInclude;
 
 export type PostWithRelations = Prisma.PostGetPayload<{ include: typeof postInclude }>;
 
 class PostService {
   /**
-   * Create a new post
+   * Reject content that breaks the publishing contract. Drafts are exempt;
+   * anything headed for a provider is checked, including per-target overrides.
+   */
+  async assertContentContract(
+    userId: string,
+    content: string,
+    mediaFileIds: string[],
+    overrides: (string | null)[] = []
+  ): Promise<void> {
+    const media = mediaFileIds.length > 0
+      ? await prisma.mediaFile.findMany({
+          where: { id: { in: mediaFileIds }, userId },
+          select: { mimeType: true },
+        })
+      : [];
+
+    for (const text of [content, ...overrides]) {
+      if (text === null) continue;
+      const violations = validateContentContract({ content: text, media });
+      if (violations.length > 0) {
+        throw new ContractViolationError(violations);
+      }
+    }
+  }
+
+  /**
+   * Refuse targets on providers that are gated or disabled
+   */
+  async assertProvidersUsable(userId: string, platformIds: string[]): Promise<void> {
+    if (platformIds.length === 0) return;
+
+    const platforms = await prisma.platform.findMany({
+      where: { id: { in: platformIds }, userId },
+      select: { type: true },
+    });
+
+    for (const { type } of platforms) {
+      providerRegistry.assertUsable(type);
+    }
+  }
+
+  /**
+   * Refuse schedules inside the user's quiet hours
+   */
+  private async assertOutsideQuietHours(userId: string, scheduledAt: Date): Promise<void> {
+    const settings = await settingsService.get(userId);
+    if (settings.quietHours && settingsService.isInQuietHours(scheduledAt, settings)) {
+      const { start, end } = settings.quietHours;
+      throw new ValidationError(
+        `Scheduled time falls within your quiet hours (${start}-${end} ${settings.timezone})`
+      );
+    }
+  }
+
+  /**
+   * A series template is edited through its series and never published
+   */
+  private async assertNotSeriesTemplate(postId: string): Promise<void> {
+    const schedule = await prisma.recurringSchedule.findUnique({ where: { templatePostId: postId } });
+    if (schedule) {
+      throw new ValidationError('This post is the template of a recurring series; edit the series instead');
+    }
+  }
+
+  private async getPlatformIds(postId: string): Promise<string[]> {
+    const targets = await prisma.postPlatform.findMany({ where: { postId }, select: { platformId: true } });
+    return targets.map(t => t.platformId);
+  }
+
+  /**
+   * The instant a scheduled time refers to. Naive values are wall-clock time
+   * in the post's timezone, or the user's when the post has none.
+   */
+  private async resolveScheduledAt(userId: string, value: string, timezone: string | null | undefined): Promise<Date> {
+    const zone = timezone ?? (await settingsService.get(userId)).timezone;
+    const scheduledAt = parseDateTimeInZone(value, zone);
+    if (!scheduledAt) {
+      throw new ValidationError(`Invalid scheduled time: ${value}`);
+    }
+    return scheduledAt;
+  }
+
+  /**
+   * The user's default platforms that can still be posted to
+   */
+  private async getDefaultPlatformIds(userId: string): Promise<string[]> {
+    const { defaultPlatformIds } = await settingsService.get(userId);
+    if (defaultPlatformIds.length === 0) return [];
+
+    const platforms = await prisma.platform.findMany({
+      where: { id: { in: defaultPlatformIds }, userId, isActive: true },
+      select: { id: true, type: true },
+    });
+    return platforms.filter(p => providerRegistry.isUsable(p.type)).map(p => p.id);
+  }
+
+  /**
+   * Create a new post. Without platformIds, the user's default platforms are used.
    */
   async create(userId: string, input: CreatePostInput): Promise<PostWithRelations> {
-    const { content, scheduledAt, platformIds = [], mediaFileIds = [] } = input;
+    const { content, timezone, contentOverrides = {}, mediaFileIds = [] } = input;
+    const scheduledAt = input.scheduledAt
+      ? await this.resolveScheduledAt(userId, input.scheduledAt, timezone)
+      : undefined;
+    const platformIds = input.platformIds ?? await this.getDefaultPlatformIds(userId);
 
     // Determine initial status
     let status: PostStatus = 'DRAFT';
@@ -69,12 +191,28 @@ class PostService {
       status = 'SCHEDULED';
     }
 
+    await this.assertProvidersUsable(userId, platformIds);
+
+    if (status !== 'DRAFT') {
+      await this.assertContentContract(
+        userId,
+        content,
+        mediaFileIds,
+        platformIds.map(id => contentOverrides[id] ?? null)
+      );
+    }
+
+    if (scheduledAt) {
+      await this.assertOutsideQuietHours(userId, scheduledAt);
+    }
+
     // Build the data object conditionally to avoid undefined values
     const createData: Prisma.PostCreateInput = {
       user: { connect: { id: userId } },
       content,
       status,
       scheduledAt: scheduledAt ?? null,
+      timezone: timezone ?? null,
     };
 
     // Add platform relations if any
@@ -82,6 +220,7 @@ class PostService {
       createData.platforms = {
         create: platformIds.map(platformId => ({
           platform: { connect: { id: platformId } },
+          contentOverride: contentOverrides[platformId] ?? null,
           status,
         })),
       };
@@ -130,20 +269,30 @@ class PostService {
     page = 1,
     limit = 20
   ): Promise<{ posts: PostWithRelations[]; total: number; pages: number }> {
-    const where: Prisma.PostWhereInput = { userId };
+    // Series templates are managed through their series, not listed as drafts
+    const where: Prisma.PostWhereInput = { userId, recurringTemplate: { is: null } };
 
     if (filters.status) {
       where.status = filters.status;
     }
 
+    if (filters.seriesId) {
+      where.recurringScheduleId = filters.seriesId;
+    }
+
+    // Posts published without a schedule fall in the range by their publish time
     if (filters.fromDate || filters.toDate) {
-      where.scheduledAt = {};
+      const range: Prisma.DateTimeFilter = {};
       if (filters.fromDate) {
-        where.scheduledAt.gte = filters.fromDate;
+        range.gte = filters.fromDate;
       }
       if (filters.toDate) {
-        where.scheduledAt.lte = filters.toDate;
+        range.lte = filters.toDate;
       }
+      where.OR = [
+        { scheduledAt: range },
+        { scheduledAt: null, publishedAt: range },
+      ];
     }
 
     if (filters.platformType) {
@@ -199,7 +348,16 @@ class PostService {
       throw new Error('Cannot edit a post that is being published or already published');
     }
 
-    const { content, scheduledAt, platformIds, mediaFileIds, status } = input;
+    await this.assertNotSeriesTemplate(postId);
+
+    const { content, timezone, platformIds, contentOverrides, mediaFileIds, status } = input;
+    // A new time, new targets or a return to drafts takes a post out of the queue
+    const leavesQueue = existingPost.queued &&
+      (input.scheduledAt !== undefined || platformIds !== undefined || status === 'DRAFT');
+    const queuedPlatformIds = leavesQueue ? await this.getPlatformIds(postId) : [];
+    const scheduledAt = input.scheduledAt == null
+      ? input.scheduledAt
+      : await this.resolveScheduledAt(userId, input.scheduledAt, timezone !== undefined ? timezone : existingPost.timezone);
 
     // Build update data
     const updateData: Prisma.PostUpdateInput = {};
@@ -208,6 +366,14 @@ class PostService {
       updateData.content = content;
     }
 
+    if (timezone !== undefined) {
+      updateData.timezone = timezone;
+    }
+
+    if (scheduledAt) {
+      await this.assertOutsideQuietHours(userId, scheduledAt);
+    }
+
     if (scheduledAt !== undefined) {
       updateData.scheduledAt = scheduledAt;
       // Auto-update status based on scheduledAt
@@ -222,6 +388,42 @@ class PostService {
       updateData.status = status;
     }
 
+    if (leavesQueue) {
+      updateData.queued = false;
+    }
+
+    if (platformIds !== undefined) {
+      await this.assertProvidersUsable(userId, platformIds);
+    }
+
+    // Targets that stay keep their override unless a new one is given
+    const existingTargets = await prisma.postPlatform.findMany({
+      where: { postId },
+      select: { platformId: true, contentOverride: true },
+    });
+    const overrides = new Map(existingTargets.map(t => [t.platformId, t.contentOverride]));
+    for (const [platformId, override] of Object.entries(contentOverrides ?? {})) {
+      overrides.set(platformId, override);
+    }
+    const targetIds = platformIds ?? existingTargets.map(t => t.platformId);
+
+    const nextStatus = (updateData.status as PostStatus | undefined) ?? existingPost.status;
+    if (nextStatus !== 'DRAFT') {
+      const currentMedia = mediaFileIds ?? (
+        await prisma.postMedia.findMany({
+          where: { postId },
+          select: { mediaFileId: true },
+        })
+      ).map(m => m.mediaFileId);
+
+      await this.assertContentContract(
+        userId,
+        content ?? existingPost.content,
+        currentMedia,
+        targetIds.map(id => overrides.get(id) ?? null)
+      );
+    }
+
     // Update post
     const post = await prisma.$transaction(async (tx) => {
       // Update platforms if provided
@@ -235,10 +437,15 @@ class PostService {
             data: platformIds.map(platformId => ({
               postId,
               platformId,
+              contentOverride: overrides.get(platformId) ?? null,
               status: (updateData.status as PostStatus) || existingPost.status,
             })),
           });
         }
+      } else if (contentOverrides !== undefined) {
+        for (const [platformId, contentOverride] of Object.entries(contentOverrides)) {
+          await tx.postPlatform.updateMany({ where: { postId, platformId }, data: { contentOverride } });
+        }
       }
 
       // Update media if provided
@@ -267,6 +474,7 @@ class PostService {
     });
 
     logger.info({ postId, userId }, 'Post updated');
+    await queueService.repack(userId, queuedPlatformIds);
     return post;
   }
 
@@ -287,19 +495,26 @@ class PostService {
       throw new Error('Cannot delete a post that is being published');
     }
 
+    const queuedPlatformIds = post.queued ? await this.getPlatformIds(postId) : [];
     await prisma.post.delete({ where: { id: postId } });
     
     logger.info({ postId, userId }, 'Post deleted');
+    await queueService.repack(userId, queuedPlatformIds);
     return true;
   }
 
   /**
    * Schedule a post for publishing
    */
-  async schedule(userId: string, postId: string, scheduledAt: Date): Promise<PostWithRelations | null> {
+  async schedule(
+    userId: string,
+    postId: string,
+    scheduledAtInput: string,
+    timezone?: string | null
+  ): Promise<PostWithRelations | null> {
     const post = await prisma.post.findFirst({
       where: { id: postId, userId },
-      include: { platforms: true },
+      include: { platforms: true, mediaFiles: true },
     });
 
     if (!post) {
@@ -310,19 +525,37 @@ class PostService {
       throw new Error('Can only schedule draft or reschedule existing posts');
     }
 
+    await this.assertNotSeriesTemplate(postId);
+
+    await this.assertContentContract(
+      userId,
+      post.content,
+      post.mediaFiles.map(m => m.mediaFileId),
+      post.platforms.map(p => p.contentOverride)
+    );
+
     if (post.platforms.length === 0) {
       throw new Error('Please select at least one platform before scheduling');
     }
 
+    const scheduledAt = await this.resolveScheduledAt(
+      userId,
+      scheduledAtInput,
+      timezone !== undefined ? timezone : post.timezone
+    );
     if (scheduledAt <= new Date()) {
       throw new Error('Scheduled time must be in the future');
     }
 
+    await this.assertOutsideQuietHours(userId, scheduledAt);
+
     const updatedPost = await prisma.post.update({
       where: { id: postId },
       data: {
         scheduledAt,
+        ...(timezone !== undefined && { timezone }),
         status: 'SCHEDULED',
+        queued: false,
         platforms: {
           updateMany: {
             where: { postId },
@@ -334,9 +567,110 @@ class PostService {
     });
 
     logger.info({ postId, userId, scheduledAt }, 'Post scheduled');
+    if (post.queued) {
+      await queueService.repack(userId, post.platforms.map(p => p.platformId));
+    }
     return updatedPost;
   }
 
+  /**
+   * Put a post in the next free posting slot of each of its targets. Targets
+   * rarely share slots, so a post with several is split into one post per
+   * platform; the original keeps the first target. Returns every queued post.
+   */
+  async addToQueue(userId: string, postId: string): Promise<PostWithRelations[] | null> {
+    const post = await prisma.post.findFirst({
+      where: { id: postId, userId },
+      include: {
+        platforms: { include: { platform: { select: { name: true } } }, orderBy: { createdAt: 'asc' } },
+        mediaFiles: true,
+      },
+    });
+
+    if (!post) {
+      return null;
+    }
+
+    if (!['DRAFT', 'SCHEDULED'].includes(post.status)) {
+      throw new Error('Can only queue draft or scheduled posts');
+    }
+
+    await this.assertNotSeriesTemplate(postId);
+    if (post.recurringScheduleId) {
+      throw new ValidationError('Posts in a recurring series follow the series schedule');
+    }
+
+    if (post.platforms.length === 0) {
+      throw new Error('Please select at least one platform before scheduling');
+    }
+
+    await this.assertProvidersUsable(userId, post.platforms.map(p => p.platformId));
+    await this.assertContentContract(
+      userId,
+      post.content,
+      post.mediaFiles.map(m => m.mediaFileId),
+      post.platforms.map(p => p.contentOverride)
+    );
+
+    // The post's current slot, if it has one, is free to take again
+    const assignments = [];
+    for (const target of post.platforms) {
+      const allocator = await queueService.createAllocator(userId, target.platformId, [postId]);
+      const scheduledAt = allocator.next();
+      if (!scheduledAt) {
+        throw new ValidationError(
+          `No free posting slot for ${target.platform.name}. Add posting slots or check its quota.`
+        );
+      }
+      assignments.push({ target, scheduledAt });
+    }
+
+    const [first, ...rest] = assignments;
+    const posts = await prisma.$transaction(async (tx) => {
+      const queued: PostWithRelations[] = [];
+
+      await tx.postPlatform.deleteMany({ where: { postId, id: { notIn: [first!.target.id] } } });
+      queued.push(await tx.post.update({
+        where: { id: postId },
+        data: {
+          scheduledAt: first!.scheduledAt,
+          status: 'SCHEDULED',
+          queued: true,
+          platforms: { update: { where: { id: first!.target.id }, data: { status: 'SCHEDULED' } } },
+        },
+        include: postInclude,
+      }));
+
+      for (const { target, scheduledAt } of rest) {
+        queued.push(await tx.post.create({
+          data: {
+            userId,
+            content: post.content,
+            status: 'SCHEDULED',
+            scheduledAt,
+            timezone: post.timezone,
+            queued: true,
+            platforms: {
+              create: [{ platformId: target.platformId, contentOverride: target.contentOverride, status: 'SCHEDULED' }],
+            },
+            mediaFiles: {
+              create: post.mediaFiles.map(m => ({ mediaFileId: m.mediaFileId, order: m.order })),
+            },
+          },
+          include: postInclude,
+        }));
+      }
+
+      return queued;
+    });
+
+    logger.info(
+      { postId, userId, slots: assignments.map(a => ({ platformId: a.target.platformId, scheduledAt: a.scheduledAt })) },
+      'Post added to queue'
+    );
+    return posts;
+  }
+
   /**
    * Cancel a scheduled post (return to draft)
    */
@@ -358,6 +692,7 @@ class PostService {
       data: {
         scheduledAt: null,
         status: 'DRAFT',
+        queued: false,
         platforms: {
           updateMany: {
             where: { postId },
@@ -369,6 +704,9 @@ class PostService {
     });
 
     logger.info({ postId, userId }, 'Post unscheduled');
+    if (post.queued) {
+      await queueService.repack(userId, updatedPost.platforms.map(p => p.platformId));
+    }
     return updatedPost;
   }
 
@@ -0,0 +1,286 @@
+import { PlatformType } from '@prisma/client';
+import { env } from '../config/env.js';
+import { logger } from '../lib/logger.js';
+import { AppError, ProviderUnavailableError } from '../middleware/errorHandler.js';
+import { twitterService } from './twitter.service.js';
+import { linkedInService } from './linkedin.service.js';
+import { facebookService } from './facebook.service.js';
+import { pinterestService } from './pinterest.service.js';
+import { youtubeService } from './youtube.service.js';
+import { twitterAdapter } from './providers/twitter.adapter.js';
+import { facebookAdapter } from './providers/facebook.adapter.js';
+import type { ProviderAdapter } from './providers/types.js';
+
+/**
+ * - enabled: usable
+ * - certified: usable and verified end to end against the provider
+ * - gated: shown in the UI but cannot be connected or published to
+ * - disabled: hidden and refused everywhere
+ */
+export type ProviderState = 'enabled' | 'certified' | 'gated' | 'disabled';
+
+const PROVIDER_STATES: ProviderState[] = ['enabled', 'certified', 'gated', 'disabled'];
+
+export interface ProviderCapabilities {
+  maxChars: number;
+  maxImages: number;
+  video: boolean;
+  requiresMedia: boolean;
+  tokenRefresh: boolean;
+  reconcile: boolean; // Can look up a post we may already have published
+}
+
+export interface ProviderQuota {
+  daily: number;
+  monthly: number;
+}
+
+/**
+ * How the AI assistant should write for this provider
+ */
+export interface ProviderWritingGuide {
+  tone: string;
+  guidelines: string;
+}
+
+export interface ProviderDefinition {
+  type: PlatformType;
+  slug: string; // Used in OAuth routes, e.g. /api/platforms/<slug>/auth-url
+  name: string;
+  state: ProviderState;
+  reason?: string | undefined; // Why the provider is gated or disabled
+  capabilities: ProviderCapabilities;
+  quota: ProviderQuota; // Free tier defaults
+  writing: ProviderWritingGuide;
+  isConfigured: () => boolean;
+  adapter?: ProviderAdapter | undefined; // Only providers with an adapter can be published to
+}
+
+const PROVIDERS: ProviderDefinition[] = [
+  {
+    type: 'TWITTER',
+    slug: 'twitter',
+    name: 'X (Twitter)',
+    state: 'enabled',
+    capabilities: { maxChars: 280, maxImages: 4, video: true, requiresMedia: false, tokenRefresh: true, reconcile: true },
+    quota: { daily: 50, monthly: 1500 },
+    writing: {
+      tone: 'concise and engaging',
+      guidelines: `Twitter/X: 
+    - Maximum 280 characters
+    - Concise and punchy
+    - Use 1-3 relevant hashtags
+    - Engaging and conversational tone
+    - Encourage engagement (questions, calls to action)`,
+    },
+    isConfigured: () => twitterService.isConfigured(),
+    adapter: twitterAdapter,
+  },
+  {
+    type: 'FACEBOOK',
+    slug: 'facebook',
+    name: 'Facebook',
+    state: 'enabled',
+    capabilities: { maxChars: 63206, maxImages: 10, video: true, requiresMedia: false, tokenRefresh: false, reconcile: true },
+    quota: { daily: 50, monthly: 1500 },
+    writing: {
+      tone: 'friendly and conversational',
+      guidelines: `Facebook:
+    - Conversational and friendly tone
+    - Can include emojis
+    - Encourage comments and shares
+    - Tell a story or share an experience
+    - Keep it authentic and personal`,
+    },
+    isConfigured: () => facebookService.isConfigured(),
+    adapter: facebookAdapter,
+  },
+  {
+    type: 'LINKEDIN',
+    slug: 'linkedin',
+    name: 'LinkedIn',
+    state: 'disabled',
+    reason: 'LinkedIn publishing is turned off',
+    capabilities: { maxChars: 3000, maxImages: 20, video: true, requiresMedia: false, tokenRefresh: true, reconcile: false },
+    quota: { daily: 100, monthly: 3000 },
+    writing: {
+      tone: 'professional and insightful',
+      guidelines: `LinkedIn:
+    - Professional and thought-leadership tone
+    - Can be longer (up to 3000 chars) but keep it focused
+    - Share insights and value
+    - Use line breaks for readability
+    - 3-5 relevant hashtags at the end`,
+    },
+    isConfigured: () => linkedInService.isConfigured(),
+  },
+  {
+    type: 'INSTAGRAM',
+    slug: 'instagram',
+    name: 'Instagram',
+    state: 'disabled',
+    reason: 'Instagram publishing is turned off',
+    capabilities: { maxChars: 2200, maxImages: 10, video: true, requiresMedia: true, tokenRefresh: false, reconcile: false },
+    quota: { daily: 25, monthly: 750 },
+    writing: {
+      tone: 'visual and emoji-rich',
+      guidelines: `Instagram:
+    - Visual-first mindset (describe how it relates to the image)
+    - Use emojis liberally
+    - Include a call to action
+    - 5-10 relevant hashtags
+    - Engaging caption style`,
+    },
+    isConfigured: () => facebookService.isConfigured(), // Uses Facebook API
+  },
+  {
+    type: 'YOUTUBE',
+    slug: 'youtube',
+    name: 'YouTube',
+    state: 'gated',
+    reason: 'YouTube community posts are not available through the YouTube API yet',
+    capabilities: { maxChars: 5000, maxImages: 0, video: true, requiresMedia: true, tokenRefresh: true, reconcile: false },
+    quota: { daily: 10, monthly: 300 },
+    writing: {
+      tone: 'engaging and community-focused',
+      guidelines: `YouTube (Community Post):
+    - Engaging and direct
+    - Ask questions to drive comments
+    - Can include polls or choices
+    - Build community connection`,
+    },
+    isConfigured: () => youtubeService.isConfigured(),
+  },
+  {
+    type: 'PINTEREST',
+    slug: 'pinterest',
+    name: 'Pinterest',
+    state: 'disabled',
+    reason: 'Pinterest publishing is turned off',
+    capabilities: { maxChars: 500, maxImages: 1, video: true, requiresMedia: true, tokenRefresh: true, reconcile: false },
+    quota: { daily: 50, monthly: 1500 },
+    writing: {
+      tone: 'descriptive and inspiring',
+      guidelines: `Pinterest:
+    - Descriptive and keyword-rich
+    - Focus on what the pin offers
+    - Include relevant keywords naturally
+    - Keep it inspiring and actionable
+    - 2-5 hashtags`,
+    },
+    isConfigured: () => pinterestService.isConfigured(),
+  },
+];
+
+/**
+ * Parse PROVIDER_STATE_OVERRIDES ("LINKEDIN=enabled,YOUTUBE=disabled")
+ */
+function parseStateOverrides(raw: string | undefined): Map<string, ProviderState> {
+  const overrides = new Map<string, ProviderState>();
+
+  for (const entry of (raw ?? '').split(',')) {
+    const [type, state] = entry.split('=').map(part => part.trim());
+    if (!type || !state) continue;
+
+    if (!PROVIDER_STATES.includes(state as ProviderState)) {
+      logger.warn({ type, state }, 'Ignoring unknown provider state override');
+      continue;
+    }
+    overrides.set(type.toUpperCase(), state as ProviderState);
+  }
+
+  return overrides;
+}
+
+class ProviderRegistry {
+  private readonly providers: Map<PlatformType, ProviderDefinition>;
+
+  constructor() {
+    const overrides = parseStateOverrides(env.PROVIDER_STATE_OVERRIDES);
+    this.providers = new Map(
+      PROVIDERS.map(provider => [
+        provider.type,
+        { ...provider, state: overrides.get(provider.type) ?? provider.state },
+      ])
+    );
+  }
+
+  /**
+   * All providers, in display order
+   */
+  list(): ProviderDefinition[] {
+    return [...this.providers.values()];
+  }
+
+  get(type: PlatformType): ProviderDefinition {
+    const provider = this.providers.get(type);
+    if (!provider) {
+      // PlatformType and the registry are kept in sync; this is a programming error
+      throw new Error(`Unknown provider: ${type}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Whether posts can be connected, created for and published to this provider.
+   * Enabling a provider that has no adapter doesn't make it usable.
+   */
+  isUsable(type: PlatformType): boolean {
+    const { state, adapter } = this.get(type);
+    return (state === 'enabled' || state === 'certified') && !!adapter;
+  }
+
+  /**
+   * Publishing adapter for a provider
+   */
+  getAdapter(type: PlatformType): ProviderAdapter {
+    const { adapter } = this.get(type);
+    if (!adapter) {
+      throw new AppError(this.unavailableReason(type), 501, true, 'PROVIDER_NOT_IMPLEMENTED');
+    }
+    return adapter;
+  }
+
+  /**
+   * Explain why a provider can't be used
+   */
+  unavailableReason(type: PlatformType): string {
+    const provider = this.get(type);
+    if (provider.state === 'enabled' || provider.state === 'certified') {
+      return `Publishing to ${provider.name} is not implemented`;
+    }
+    return provider.reason ?? `${provider.name} is ${provider.state}`;
+  }
+
+  /**
+   * Throw when the provider is gated or disabled
+   */
+  assertUsable(type: PlatformType): void {
+    if (this.isUsable(type)) return;
+
+    throw new ProviderUnavailableError(
+      this.unavailableReason(type),
+      this.get(type).state === 'gated' ? 'PROVIDER_GATED' : 'PROVIDER_DISABLED'
+    );
+  }
+
+  /**
+   * Registry as exposed to the frontend; disabled providers are left out
+   */
+  toPublic() {
+    return this.list()
+      .filter(provider => provider.state !== 'disabled')
+      .map(({ type, slug, name, state, capabilities, isConfigured }) => ({
+        type,
+        slug,
+        name,
+        state,
+        usable: this.isUsable(type),
+        reason: this.isUsable(type) ? null : this.unavailableReason(type),
+        capabilities,
+        configured: isConfigured(),
+      }));
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
@@ -0,0 +1,60 @@
+import { facebookService } from '../facebook.service.js';
+import { countCharacters, FACEBOOK_MAX_LENGTH } from '../../lib/textMetrics.js';
+import { resolveMediaUrl, normalizeForMatch } from './shared.js';
+import type { AdapterMedia, AdapterPost, PreparedMedia, ProviderAdapter, PublishedPost } from './types.js';
+
+class FacebookAdapter implements ProviderAdapter {
+  readonly type = 'FACEBOOK' as const;
+
+  // Facebook doesn't take WebP for Page photos
+  readonly imageProfile = {
+    name: 'facebook',
+    maxBytes: 4 * 1024 * 1024,
+    maxPixels: 4096 * 4096,
+    formats: ['image/jpeg', 'image/png', 'image/gif'],
+  };
+
+  validate(post: AdapterPost): string[] {
+    const length = countCharacters(post.content, 'FACEBOOK');
+    if (length > FACEBOOK_MAX_LENGTH) {
+      return [`Facebook posts are limited to ${FACEBOOK_MAX_LENGTH} characters (got ${length})`];
+    }
+    return [];
+  }
+
+  /**
+   * Facebook fetches images itself, so media is passed as signed public URLs.
+   * The link serves the Facebook rendition of the image.
+   */
+  prepareMedia(_platformId: string, media: AdapterMedia[]): Promise<PreparedMedia> {
+    return Promise.resolve({
+      mediaIds: [],
+      urls: media.map(m => resolveMediaUrl(m, this.type)),
+    });
+  }
+
+  async publish(platformId: string, content: string, media: PreparedMedia): Promise<PublishedPost> {
+    const { postId, postUrl } = await facebookService.createPost(platformId, content, media.urls);
+    return { platformPostId: postId, postUrl };
+  }
+
+  async reconcile(platformId: string, content: string, since: Date): Promise<PublishedPost | undefined> {
+    const expected = normalizeForMatch(content);
+    const posts = await facebookService.listRecentPosts(platformId, since);
+    const found = posts.find(p => normalizeForMatch(p.message) === expected);
+    return found ? { platformPostId: found.postId, postUrl: found.postUrl } : undefined;
+  }
+
+  async delete(platformId: string, platformPostId: string): Promise<void> {
+    await facebookService.deletePost(platformId, platformPostId);
+  }
+
+  /**
+   * Page tokens can't be refreshed without the user
+   */
+  refreshToken(_platformId: string): Promise<boolean> {
+    return Promise.resolve(false);
+  }
+}
+
+export const facebookAdapter = new FacebookAdapter();
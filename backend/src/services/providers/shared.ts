@@ -0,0 +1,40 @@
+import path from 'path';
+import { PlatformType } from '@prisma/client';
+import { env } from '../../config/env.js';
+import { mediaUrlService } from '../mediaUrl.service.js';
+
+/**
+ * Resolve media file storage path to actual file path
+ */
+export function resolveMediaPath(storagePath: string): string {
+  // storagePath format: "media:path/to/file.jpg" or "uploads:path/to/file.jpg"
+  const parts = storagePath.split(':');
+  const source = parts[0];
+  const relativePath = parts.slice(1).join(':'); // Handle paths with colons
+  const basePath = source === 'uploads' 
+    ? path.resolve(process.cwd(), env.MEDIA_UPLOADS_PATH)
+    : path.resolve(process.cwd(), env.MEDIA_PATH);
+  return path.join(basePath, relativePath);
+}
+
+/**
+ * Public URL for a media file, for providers that fetch images themselves.
+ * The link is signed, expires quickly and only grants this one file.
+ */
+export function resolveMediaUrl(media: { id: string; userId: string }, provider: PlatformType): string {
+  return mediaUrlService.createUrl(media, provider);
+}
+
+/**
+ * Normalize post text for comparison: providers rewrite links (e.g. t.co)
+ * and HTML-escape some characters.
+ */
+export function normalizeForMatch(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import { env } from '../../config/env.js';
+import { logger } from '../../lib/logger.js';
+import { xWeightedLength, X_MAX_WEIGHTED_LENGTH } from '../../lib/textMetrics.js';
+import { twitterService } from '../twitter.service.js';
+import { imageService } from '../image.service.js';
+import { resolveMediaPath, normalizeForMatch } from './shared.js';
+import type { AdapterMedia, AdapterPost, PreparedMedia, ProviderAdapter, PublishedPost } from './types.js';
+
+const TWEET_MAX_MEDIA = 4;
+
+class TwitterAdapter implements ProviderAdapter {
+  readonly type = 'TWITTER' as const;
+
+  readonly imageProfile = {
+    name: 'twitter',
+    maxBytes: 5 * 1024 * 1024,
+    maxPixels: 8192 * 8192,
+    formats: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+  };
+
+  validate(post: AdapterPost): string[] {
+    const length = xWeightedLength(post.content);
+
+    if (length > X_MAX_WEIGHTED_LENGTH) {
+      return [`Tweets are limited to ${X_MAX_WEIGHTED_LENGTH} characters (got ${length})`];
+    }
+    return [];
+  }
+
+  /**
+   * Upload media files and return Twitter media IDs
+   * NOTE: Requires X API Pro tier ($5000/month) - disabled by default
+   * Set TWITTER_MEDIA_UPLOAD_ENABLED=true in env to enable
+   */
+  async prepareMedia(platformId: string, media: AdapterMedia[]): Promise<PreparedMedia> {
+    if (media.length === 0) {
+      return { mediaIds: [], urls: [] };
+    }
+
+    // Check if Twitter media upload is enabled (requires paid API tier)
+    if (!env.TWITTER_MEDIA_UPLOAD_ENABLED) {
+      logger.info(
+        { platformId, mediaCount: media.length },
+        'Twitter media upload is disabled (requires X API Pro tier). Posting text only. Set TWITTER_MEDIA_UPLOAD_ENABLED=true to enable.'
+      );
+      return { mediaIds: [], urls: [] };
+    }
+
+    const mediaIds: string[] = [];
+
+    for (const mediaFile of media.slice(0, TWEET_MAX_MEDIA)) {
+      try {
+        const rendition = await imageService.getRendition(resolveMediaPath(mediaFile.storagePath), this.imageProfile);
+        const mediaBuffer = await fs.readFile(rendition.path);
+
+        const mediaId = await twitterService.uploadMedia(platformId, mediaBuffer, rendition.mimeType);
+
+        mediaIds.push(mediaId);
+        logger.info({ platformId, mediaId, mimeType: rendition.mimeType }, 'Media uploaded to Twitter');
+      } catch (error) {
+        logger.error({ error, storagePath: mediaFile.storagePath }, 'Failed to upload media to Twitter');
+        // Continue with other media files, don't fail the entire post
+      }
+    }
+
+    return { mediaIds, urls: [] };
+  }
+
+  async publish(platformId: string, content: string, media: PreparedMedia): Promise<PublishedPost> {
+    const { tweetId, tweetUrl } = await twitterService.postTweet(
+      platformId,
+      content,
+      media.mediaIds.length > 0 ? media.mediaIds : undefined
+    );
+    return { platformPostId: tweetId, postUrl: tweetUrl };
+  }
+
+  async reconcile(platformId: string, content: string, since: Date): Promise<PublishedPost | undefined> {
+    const expected = normalizeForMatch(content);
+    const tweets = await twitterService.listRecentTweets(platformId, since);
+    const tweet = tweets.find(t => normalizeForMatch(t.text) === expected);
+    return tweet ? { platformPostId: tweet.tweetId, postUrl: tweet.tweetUrl } : undefined;
+  }
+
+  async delete(platformId: string, platformPostId: string): Promise<void> {
+    await twitterService.deleteTweet(platformId, platformPostId);
+  }
+
+  async refreshToken(platformId: string): Promise<boolean> {
+    await twitterService.refreshAccessToken(platformId);
+    return true;
+  }
+}
+
+export const twitterAdapter = new TwitterAdapter();
@@ -0,0 +1,65 @@
+import { PlatformType } from '@prisma/client';
+import type { ImageProfile } from '../image.service.js';
+
+export interface AdapterMedia {
+  id: string;
+  userId: string;
+  storagePath: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface AdapterPost {
+  content: string;
+  media: AdapterMedia[];
+}
+
+/**
+ * Media in the form a provider's publish call expects: uploaded media IDs
+ * or publicly reachable URLs
+ */
+export interface PreparedMedia {
+  mediaIds: string[];
+  urls: string[];
+}
+
+export interface PublishedPost {
+  platformPostId: string;
+  postUrl: string;
+}
+
+/**
+ * Everything the publish pipeline needs from a provider. Adapters are
+ * registered in the provider registry; nothing else switches on PlatformType.
+ */
+export interface ProviderAdapter {
+  readonly type: PlatformType;
+
+  /**
+   * Image limits; media is converted to a rendition within them before it is sent
+   */
+  readonly imageProfile: ImageProfile;
+
+  /**
+   * Provider-specific checks on top of the content contract. Returns the problems found.
+   */
+  validate(post: AdapterPost): string[];
+
+  prepareMedia(platformId: string, media: AdapterMedia[]): Promise<PreparedMedia>;
+
+  publish(platformId: string, content: string, media: PreparedMedia): Promise<PublishedPost>;
+
+  /**
+   * Look for a post we may already have published since the given time.
+   * Throws when the provider can't be queried, so callers treat the outcome as unknown.
+   */
+  reconcile(platformId: string, content: string, since: Date): Promise<PublishedPost | undefined>;
+
+  delete(platformId: string, platformPostId: string): Promise<void>;
+
+  /**
+   * Refresh the access token after an auth failure.
+   * Returns false when the user has to reconnect instead.
+   */
+  refreshToken(platformId: string): Promise<boolean>;
+}
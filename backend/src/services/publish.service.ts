@@ -1,270 +1,190 @@
-import { promises as fs } from 'fs';
-import path from 'path';
 import { prisma } from '../lib/prisma.js';
-import { twitterService } from './twitter.service.js';
-import { linkedInService } from './linkedin.service.js';
-import { facebookService } from './facebook.service.js';
-import { pinterestService } from './pinterest.service.js';
-import { youtubeService } from './youtube.service.js';
 import { logger } from '../lib/logger.js';
 import { env } from '../config/env.js';
+import {
+  AppError,
+  ConflictError,
+  ContractViolationError,
+  NotFoundError,
+  ProviderError,
+  ValidationError,
+} from '../middleware/errorHandler.js';
+import { Platform, PostStatus, Prisma, PublishAttempt } from '@prisma/client';
+import { retryService, RetryDecision } from './retry.service.js';
+import { createPublishOutboxEntry } from '../jobs/publish.job.js';
+import { validateTargetContracts } from '../schemas/contentContract.schema.js';
+import { providerRegistry } from './providerRegistry.service.js';
+import { publishAttempts, publishAttemptDuration, tokenRefreshes } from '../lib/metrics.js';
+import type { PublishedPost } from './providers/types.js';
 
 export interface PublishResult {
   platformId: string;
   success: boolean;
-  postUrl?: string;
+  postUrl?: string | undefined;
   error?: string;
+  skipped?: boolean; // Target had already been published
+  retryAt?: Date | undefined; // Set when the retry policy scheduled another attempt
+  inProgress?: boolean; // Another run holds the target and will record its outcome
 }
 
-class PublishService {
-  /**
-   * Resolve media file storage path to actual file path
-   */
-  private resolveMediaPath(storagePath: string): string {
-    // storagePath format: "media:path/to/file.jpg" or "uploads:path/to/file.jpg"
-    const parts = storagePath.split(':');
-    const source = parts[0];
-    const relativePath = parts.slice(1).join(':'); // Handle paths with colons
-    const basePath = source === 'uploads' 
-      ? path.resolve(process.cwd(), env.MEDIA_UPLOADS_PATH)
-      : path.resolve(process.cwd(), env.MEDIA_PATH);
-    return path.join(basePath, relativePath);
-  }
-
-  /**
-   * Resolve media file storage path to a public URL
-   * This is needed for platforms that require URLs instead of file uploads
-   */
-  private resolveMediaUrl(storagePath: string): string {
-    // For now, construct a URL based on our API endpoint
-    // In production, this could be a CDN URL
-    const parts = storagePath.split(':');
-    const source = parts[0];
-    const relativePath = parts.slice(1).join(':');
-    
-    // Construct the URL using the FRONTEND_URL as the base
-    // The backend serves static files at /uploads and /media endpoints
-    const baseUrl = env.CORS_ORIGIN.replace(/\/$/, '');
-    
-    if (source === 'uploads') {
-      return `${baseUrl}/api/media/uploads/${relativePath}`;
-    }
-    return `${baseUrl}/api/media/files/${relativePath}`;
-  }
+export interface PublishOptions {
+  // The caller already holds the post's PUBLISHING claim (the publish worker)
+  claimed?: boolean;
+}
 
-  /**
-   * Upload media files for a platform and return Twitter media IDs
-   * NOTE: Requires X API Pro tier ($5000/month) - disabled by default
-   * Set TWITTER_MEDIA_UPLOAD_ENABLED=true in env to enable
-   */
-  private async uploadMediaForTwitter(
-    platformId: string,
-    mediaFiles: Array<{ mediaFile: { storagePath: string; mimeType: string } }>
-  ): Promise<string[]> {
-    // Check if Twitter media upload is enabled (requires paid API tier)
-    if (!env.TWITTER_MEDIA_UPLOAD_ENABLED) {
-      logger.info(
-        { platformId, mediaCount: mediaFiles.length },
-        'Twitter media upload is disabled (requires X API Pro tier). Posting text only. Set TWITTER_MEDIA_UPLOAD_ENABLED=true to enable.'
-      );
-      return [];
-    }
+const PUBLISHABLE_STATUSES: PostStatus[] = ['DRAFT', 'SCHEDULED', 'PARTIALLY_PUBLISHED', 'FAILED'];
 
-    const mediaIds: string[] = [];
-
-    for (const { mediaFile } of mediaFiles) {
-      try {
-        const filePath = this.resolveMediaPath(mediaFile.storagePath);
-        const mediaBuffer = await fs.readFile(filePath);
-        
-        const mediaId = await twitterService.uploadMedia(
-          platformId,
-          mediaBuffer,
-          mediaFile.mimeType
-        );
-        
-        mediaIds.push(mediaId);
-        logger.info({ platformId, mediaId, mimeType: mediaFile.mimeType }, 'Media uploaded to Twitter');
-      } catch (error) {
-        logger.error({ error, storagePath: mediaFile.storagePath }, 'Failed to upload media to Twitter');
-        // Continue with other media files, don't fail the entire post
-      }
-    }
+const publishInclude = {
+  platforms: {
+    include: {
+      platform: true,
+      // Only the latest attempt is needed to decide what to do next
+      attempts: {
+        orderBy: { attemptNumber: 'desc' as const },
+        take: 1,
+      },
+    },
+  },
+  mediaFiles: {
+    include: {
+      mediaFile: true,
+    },
+    orderBy: { order: 'asc' as const },
+  },
+} satisfies Prisma.PostInclude;
 
-    return mediaIds;
-  }
+type PublishablePost = Prisma.PostGetPayload<{ include: typeof publishInclude }>;
+type PublishTarget = PublishablePost['platforms'][number];
 
+class PublishService {
   /**
-   * Publish a post to all selected platforms immediately
+   * Publish a post to all selected platforms immediately.
+   * Targets that already succeeded are skipped, and targets whose last
+   * attempt has an unknown outcome are reconciled with the provider first.
+   *
+   * Without `claimed`, the post is claimed here and posts that are already
+   * PUBLISHING are refused. The worker passes `claimed` for posts it took
+   * into PUBLISHING itself; if the claim was lost in the meantime, nothing runs.
    */
-  async publishNow(userId: string, postId: string): Promise<PublishResult[]> {
+  async publishNow(userId: string, postId: string, options: PublishOptions = {}): Promise<PublishResult[]> {
     // Get the post with all relations
     const post = await prisma.post.findFirst({
       where: { id: postId, userId },
-      include: {
-        platforms: {
-          include: {
-            platform: true,
-          },
-        },
-        mediaFiles: {
-          include: {
-            mediaFile: true,
-          },
-          orderBy: { order: 'asc' },
-        },
-      },
+      include: publishInclude,
     });
 
     if (!post) {
-      throw new Error('Post not found');
+      throw new NotFoundError('Post not found');
     }
 
-    if (!['DRAFT', 'SCHEDULED', 'PUBLISHING'].includes(post.status)) {
-      throw new Error('Can only publish draft, scheduled, or publishing posts');
+    if (options.claimed && post.status !== 'PUBLISHING') {
+      logger.info({ postId, status: post.status }, 'Publish claim no longer held; nothing to do');
+      return [];
+    }
+
+    if (!options.claimed && !PUBLISHABLE_STATUSES.includes(post.status)) {
+      if (post.status === 'PUBLISHING') {
+        throw new ConflictError('This post is already being sent; wait for the current run to finish');
+      }
+      throw new ValidationError('Can only publish draft, scheduled, or failed posts');
     }
 
     if (post.platforms.length === 0) {
-      throw new Error('Please select at least one platform before publishing');
+      throw new ValidationError('Please select at least one platform before publishing');
+    }
+
+    // Last line of defence before anything reaches a provider
+    const violations = validateTargetContracts(
+      post.content,
+      post.platforms.map(p => p.contentOverride),
+      post.mediaFiles.map(m => m.mediaFile)
+    );
+    if (violations.length > 0) {
+      throw new ContractViolationError(violations);
     }
 
-    // Update post status to PUBLISHING if not already
-    if (post.status !== 'PUBLISHING') {
-      await prisma.post.update({
-        where: { id: postId },
-        data: { status: 'PUBLISHING' },
+    if (!options.claimed) {
+      // Only one run may move the post into PUBLISHING
+      const claimed = await prisma.post.updateMany({
+        where: { id: postId, status: { in: PUBLISHABLE_STATUSES } },
+        data: { status: 'PUBLISHING', claimedAt: new Date() },
       });
+
+      if (claimed.count === 0) {
+        throw new ConflictError('This post is already being sent; wait for the current run to finish');
+      }
     }
 
     const results: PublishResult[] = [];
 
-    // Publish to each platform
     for (const postPlatform of post.platforms) {
       const { platform } = postPlatform;
-      const content = postPlatform.contentOverride || post.content;
-
-      try {
-        let postUrl: string | undefined;
-
-        switch (platform.type) {
-          case 'TWITTER':
-            // Upload media files first if any
-            let twitterMediaIds: string[] | undefined;
-            if (post.mediaFiles.length > 0) {
-              twitterMediaIds = await this.uploadMediaForTwitter(platform.id, post.mediaFiles);
-              // Twitter allows max 4 images per tweet
-              if (twitterMediaIds.length > 4) {
-                twitterMediaIds = twitterMediaIds.slice(0, 4);
-              }
-            }
-            
-            const tweetResult = await twitterService.postTweet(
-              platform.id, 
-              content, 
-              twitterMediaIds && twitterMediaIds.length > 0 ? twitterMediaIds : undefined
-            );
-            postUrl = tweetResult.tweetUrl;
-            break;
-          
-          case 'LINKEDIN':
-            const linkedInResult = await linkedInService.createPost(
-              platform.id,
-              content,
-              post.mediaFiles.map(m => this.resolveMediaUrl(m.mediaFile.storagePath))
-            );
-            postUrl = linkedInResult.postUrl;
-            break;
-          
-          case 'FACEBOOK':
-            const facebookResult = await facebookService.createPost(
-              platform.id,
-              content,
-              post.mediaFiles.map(m => this.resolveMediaUrl(m.mediaFile.storagePath))
-            );
-            postUrl = facebookResult.postUrl;
-            break;
-          
-          case 'INSTAGRAM':
-            // Instagram requires media
-            if (post.mediaFiles.length === 0) {
-              throw new Error('Instagram posts require at least one image or video');
-            }
-            const instagramResult = await facebookService.createInstagramPost(
-              platform.id,
-              content,
-              post.mediaFiles.map(m => this.resolveMediaUrl(m.mediaFile.storagePath))
-            );
-            postUrl = instagramResult.postUrl;
-            break;
-          
-          case 'PINTEREST':
-            // Pinterest requires media
-            if (post.mediaFiles.length === 0) {
-              throw new Error('Pinterest pins require at least one image');
-            }
-            const pinterestResult = await pinterestService.createPin(
-              platform.id,
-              content,
-              post.mediaFiles.map(m => this.resolveMediaUrl(m.mediaFile.storagePath))
-            );
-            postUrl = pinterestResult.postUrl;
-            break;
-          
-          case 'YOUTUBE':
-            // YouTube requires a video URL
-            if (post.mediaFiles.length === 0) {
-              throw new Error('YouTube posts require a video file');
-            }
-            const mediaFile = post.mediaFiles[0]!.mediaFile;
-            const videoUrl = this.resolveMediaUrl(mediaFile.storagePath);
-            const youtubeResult = await youtubeService.uploadVideo(
-              platform.id,
-              content,
-              videoUrl
-            );
-            postUrl = youtubeResult.postUrl;
-            break;
-        }
-
-        // Update platform status to published
-        await prisma.postPlatform.update({
-          where: { id: postPlatform.id },
-          data: {
-            status: 'PUBLISHED',
-            platformPostUrl: postUrl,
-            publishedAt: new Date(),
-            errorMessage: null,
-          },
-        });
 
+      // Never publish the same target twice
+      if (postPlatform.status === 'PUBLISHED') {
         results.push({
           platformId: platform.id,
           success: true,
-          postUrl,
-        });
-
-        logger.info({ postId, platformId: platform.id, platformType: platform.type }, 'Published to platform');
-
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        
-        // Update platform status to failed
-        await prisma.postPlatform.update({
-          where: { id: postPlatform.id },
-          data: {
-            status: 'FAILED',
-            errorMessage,
-          },
+          postUrl: postPlatform.platformPostUrl ?? undefined,
+          skipped: true,
         });
+        continue;
+      }
 
+      // Respect the backoff chosen by the retry policy
+      if (postPlatform.nextRetryAt && postPlatform.nextRetryAt > new Date()) {
         results.push({
           platformId: platform.id,
           success: false,
-          error: errorMessage,
+          error: postPlatform.errorMessage ?? 'Waiting to retry',
+          retryAt: postPlatform.nextRetryAt,
         });
+        continue;
+      }
+
+      const lastAttempt = postPlatform.attempts[0];
 
-        logger.error({ postId, platformId: platform.id, error: errorMessage }, 'Failed to publish to platform');
+      // A run whose lease hasn't expired may still be waiting on the provider
+      if (lastAttempt?.state === 'IN_FLIGHT' && !this.isLeaseExpired(lastAttempt)) {
+        results.push(this.inProgressResult(platform.id));
+        continue;
       }
+
+      if (lastAttempt && (lastAttempt.state === 'IN_FLIGHT' || lastAttempt.state === 'UNCERTAIN')) {
+        const reconciled = await this.reconcileAttempt(post, postPlatform, lastAttempt);
+        if (reconciled) {
+          results.push(reconciled);
+          continue;
+        }
+      }
+
+      results.push(
+        await this.publishTarget(post, postPlatform, (lastAttempt?.attemptNumber ?? 0) + 1)
+      );
+    }
+
+    // The run holding those targets settles the post once it has their outcome
+    if (results.some(r => r.inProgress)) {
+      logger.info({ postId }, 'Targets still in flight in another run; leaving the post to it');
+      return results;
+    }
+
+    // Some targets will be retried: keep the post in flight and schedule the next run
+    const retryTimes = results.flatMap(r => (r.retryAt ? [r.retryAt.getTime()] : []));
+    if (retryTimes.length > 0) {
+      const retryAt = new Date(Math.min(...retryTimes));
+
+      await prisma.$transaction(async (tx) => {
+        await tx.post.update({
+          where: { id: postId },
+          // The claim starts when the retry is due, so recovery leaves it alone until then
+          data: { status: 'PUBLISHING', claimedAt: retryAt },
+        });
+        await createPublishOutboxEntry(tx, { postId, userId }, retryAt);
+      });
+
+      logger.info({ postId, retryAt }, 'Scheduled publish retry');
+      return results;
     }
 
     // Determine final post status
@@ -283,6 +203,348 @@ class PublishService {
 
     return results;
   }
+
+  /**
+   * Run a single publish attempt against one target
+   */
+  private async publishTarget(
+    post: PublishablePost,
+    postPlatform: PublishTarget,
+    attemptNumber: number,
+    allowAuthRefresh = true
+  ): Promise<PublishResult> {
+    const { platform } = postPlatform;
+
+    const attempt = await this.claimTarget(postPlatform, attemptNumber);
+    if (!attempt) {
+      logger.info({ postId: post.id, platformId: platform.id, attemptNumber }, 'Target claimed by another run');
+      return this.inProgressResult(platform.id);
+    }
+
+    const endTimer = publishAttemptDuration.startTimer({ provider: platform.type });
+
+    try {
+      const published = await this.dispatchToPlatform(post, postPlatform);
+      endTimer({ outcome: 'succeeded' });
+      publishAttempts.inc({ provider: platform.type, outcome: 'succeeded' });
+
+      await prisma.$transaction([
+        prisma.publishAttempt.update({
+          where: { id: attempt.id },
+          data: {
+            state: 'SUCCEEDED',
+            platformPostId: published.platformPostId ?? null,
+            platformPostUrl: published.postUrl ?? null,
+            providerResponse: { ...published },
+            finishedAt: new Date(),
+          },
+        }),
+        prisma.postPlatform.update({
+          where: { id: postPlatform.id },
+          data: {
+            status: 'PUBLISHED',
+            platformPostId: published.platformPostId ?? null,
+            platformPostUrl: published.postUrl ?? null,
+            publishedAt: new Date(),
+            errorMessage: null,
+            lastErrorCode: null,
+            retryDecision: null,
+            nextRetryAt: null,
+          },
+        }),
+      ]);
+
+      logger.info(
+        { postId: post.id, platformId: platform.id, platformType: platform.type, attemptNumber },
+        'Published to platform'
+      );
+
+      return {
+        platformId: platform.id,
+        success: true,
+        postUrl: published.postUrl,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const uncertain = this.isAmbiguousFailure(error);
+      // Attempts made before the job was last requeued don't count against the budget
+      let decision: RetryDecision = retryService.decide(error, attemptNumber - postPlatform.retryBudgetFrom);
+
+      // Only one token refresh per run; a second auth failure is final
+      if (decision.retryClass === 'auth_refreshable' && !allowAuthRefresh) {
+        decision = { retryClass: 'terminal', code: decision.code };
+      }
+
+      const outcome = uncertain ? 'uncertain' : decision.retryClass;
+      endTimer({ outcome });
+      publishAttempts.inc({ provider: platform.type, outcome });
+
+      await prisma.$transaction([
+        prisma.publishAttempt.update({
+          where: { id: attempt.id },
+          data: {
+            state: uncertain ? 'UNCERTAIN' : 'FAILED',
+            errorMessage,
+            errorCode: decision.code,
+            retryDecision: decision.retryClass,
+            finishedAt: new Date(),
+          },
+        }),
+        prisma.postPlatform.update({
+          where: { id: postPlatform.id },
+          data: {
+            // Uncertain targets stay in flight until reconciled; retryable ones wait for their slot
+            status: uncertain ? 'PUBLISHING' : decision.retryAt ? 'SCHEDULED' : 'FAILED',
+            errorMessage,
+            lastErrorCode: decision.code,
+            retryDecision: decision.retryClass,
+            nextRetryAt: decision.retryAt ?? null,
+          },
+        }),
+      ]);
+
+      logger.error(
+        { postId: post.id, platformId: platform.id, error: errorMessage, uncertain, attemptNumber, decision },
+        'Failed to publish to platform'
+      );
+
+      if (decision.retryClass === 'auth_refreshable') {
+        if (await this.refreshPlatformToken(platform)) {
+          return this.publishTarget(post, postPlatform, attemptNumber + 1, false);
+        }
+
+        // Without a fresh token the user has to reconnect; nothing will retry this
+        await prisma.postPlatform.update({
+          where: { id: postPlatform.id },
+          data: { retryDecision: 'terminal' },
+        });
+      }
+
+      return {
+        platformId: platform.id,
+        success: false,
+        error: errorMessage,
+        retryAt: decision.retryAt,
+      };
+    }
+  }
+
+  /**
+   * Resolve an attempt whose outcome is unknown by looking for the post on the provider.
+   * Returns a result when the target is settled (found, or still unknown), or null
+   * when the post was not found and a new attempt is safe.
+   */
+  private async reconcileAttempt(
+    post: PublishablePost,
+    postPlatform: PublishTarget,
+    attempt: PublishAttempt
+  ): Promise<PublishResult | null> {
+    const { platform } = postPlatform;
+    const content = postPlatform.contentOverride || post.content;
+
+    // Take over an abandoned attempt; only one run may reconcile it
+    if (attempt.state === 'IN_FLIGHT') {
+      const takenOver = await prisma.publishAttempt.updateMany({
+        where: { id: attempt.id, state: 'IN_FLIGHT' },
+        data: { state: 'UNCERTAIN', errorMessage: 'Attempt lease expired before the outcome was recorded' },
+      });
+
+      if (takenOver.count === 0) {
+        return this.inProgressResult(platform.id);
+      }
+    }
+
+    // Allow for clock skew between us and the provider
+    const since = new Date((attempt.startedAt ?? attempt.createdAt).getTime() - 60_000);
+
+    let match: PublishedPost | undefined;
+
+    try {
+      match = await providerRegistry.getAdapter(platform.type).reconcile(platform.id, content, since);
+    } catch (error) {
+      const errorMessage = 'Publish outcome is uncertain and could not be reconciled; not retrying automatically';
+
+      // The attempt stays UNCERTAIN so the next run reconciles again before sending;
+      // the target is settled so the post can be finalised
+      await prisma.$transaction([
+        prisma.publishAttempt.update({
+          where: { id: attempt.id },
+          data: { state: 'UNCERTAIN', errorMessage },
+        }),
+        prisma.postPlatform.update({
+          where: { id: postPlatform.id },
+          data: {
+            status: 'FAILED',
+            errorMessage,
+            lastErrorCode: 'RECONCILE_FAILED',
+            retryDecision: 'terminal',
+            nextRetryAt: null,
+          },
+        }),
+      ]);
+
+      logger.warn({ postId: post.id, platformId: platform.id, error }, 'Could not reconcile publish attempt');
+
+      return { platformId: platform.id, success: false, error: errorMessage };
+    }
+
+    if (match) {
+      await prisma.$transaction([
+        prisma.publishAttempt.update({
+          where: { id: attempt.id },
+          data: {
+            state: 'SUCCEEDED',
+            platformPostId: match.platformPostId,
+            platformPostUrl: match.postUrl,
+            finishedAt: attempt.finishedAt ?? new Date(),
+          },
+        }),
+        prisma.postPlatform.update({
+          where: { id: postPlatform.id },
+          data: {
+            status: 'PUBLISHED',
+            platformPostId: match.platformPostId,
+            platformPostUrl: match.postUrl,
+            publishedAt: new Date(),
+            errorMessage: null,
+          },
+        }),
+      ]);
+
+      logger.info({ postId: post.id, platformId: platform.id }, 'Reconciled publish attempt as succeeded');
+
+      return { platformId: platform.id, success: true, postUrl: match.postUrl };
+    }
+
+    await prisma.publishAttempt.update({
+      where: { id: attempt.id },
+      data: {
+        state: 'FAILED',
+        errorMessage: 'Post not found on platform during reconciliation',
+        finishedAt: attempt.finishedAt ?? new Date(),
+      },
+    });
+
+    logger.info({ postId: post.id, platformId: platform.id }, 'Reconciled publish attempt as not published');
+
+    return null;
+  }
+
+  /**
+   * Atomically take a target for a new attempt. The conditional update locks
+   * the target row, so concurrent runs check its idempotency key one at a time:
+   * a key with an attempt in flight or already succeeded is never sent again.
+   * Two runs racing for the same attempt number are stopped by its unique index.
+   * Returns null when another run got there first.
+   */
+  private async claimTarget(postPlatform: PublishTarget, attemptNumber: number): Promise<PublishAttempt | null> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const locked = await tx.postPlatform.updateMany({
+          where: { id: postPlatform.id, status: { not: 'PUBLISHED' } },
+          data: { status: 'PUBLISHING' },
+        });
+
+        if (locked.count === 0) {
+          return null;
+        }
+
+        const taken = await tx.publishAttempt.count({
+          where: {
+            idempotencyKey: postPlatform.idempotencyKey,
+            state: { in: ['IN_FLIGHT', 'SUCCEEDED'] },
+          },
+        });
+
+        if (taken > 0) {
+          return null;
+        }
+
+        return tx.publishAttempt.create({
+          data: {
+            postPlatformId: postPlatform.id,
+            idempotencyKey: postPlatform.idempotencyKey,
+            attemptNumber,
+            state: 'IN_FLIGHT',
+            startedAt: new Date(),
+          },
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private isLeaseExpired(attempt: PublishAttempt): boolean {
+    const startedAt = attempt.startedAt ?? attempt.createdAt;
+    return startedAt.getTime() < Date.now() - env.PUBLISH_CLAIM_LEASE_MS;
+  }
+
+  private inProgressResult(platformId: string): PublishResult {
+    return {
+      platformId,
+      success: false,
+      error: 'Another publish run is sending this target',
+      inProgress: true,
+    };
+  }
+
+  /**
+   * Refresh the access token of a platform after an auth failure.
+   * Returns false when the platform can't be refreshed (the user has to reconnect).
+   */
+  private async refreshPlatformToken(platform: Platform): Promise<boolean> {
+    try {
+      const refreshed = await providerRegistry.getAdapter(platform.type).refreshToken(platform.id);
+      tokenRefreshes.inc({ provider: platform.type, outcome: refreshed ? 'succeeded' : 'unsupported' });
+      return refreshed;
+    } catch (error) {
+      tokenRefreshes.inc({ provider: platform.type, outcome: 'failed' });
+      logger.warn({ platformId: platform.id, error }, 'Token refresh after auth failure did not succeed');
+      return false;
+    }
+  }
+
+  /**
+   * Failures where the request may have reached the provider (network errors, timeouts, 5xx).
+   * Other errors, including TypeErrors from our own code, are not ambiguous.
+   */
+  private isAmbiguousFailure(error: unknown): boolean {
+    if (error instanceof ProviderError) {
+      return ['PROVIDER_UNAVAILABLE', 'PROVIDER_TIMEOUT', 'PROVIDER_NETWORK_ERROR'].includes(error.code ?? '');
+    }
+    if (error instanceof AppError) {
+      return false;
+    }
+    return error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError');
+  }
+
+  /**
+   * Send the content of a post to a single platform through its adapter
+   */
+  private async dispatchToPlatform(
+    post: PublishablePost,
+    postPlatform: PublishTarget
+  ): Promise<PublishedPost> {
+    const { platform } = postPlatform;
+    const content = postPlatform.contentOverride || post.content;
+    const media = post.mediaFiles.map(m => m.mediaFile);
+
+    // A provider may have been gated or disabled after the post was scheduled
+    providerRegistry.assertUsable(platform.type);
+    const adapter = providerRegistry.getAdapter(platform.type);
+
+    const problems = adapter.validate({ content, media });
+    if (problems.length > 0) {
+      throw new ValidationError(problems.join('; '));
+    }
+
+    const prepared = await adapter.prepareMedia(platform.id, media);
+    return adapter.publish(platform.id, content, prepared);
+  }
 }
 
 export const publishService = new PublishService();
@@ -0,0 +1,240 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PlatformType, PrismaClient } from '@prisma/client';
+import type { MemoryPrisma } from '../test/memoryPrisma.js';
+import { SlotAllocator } from './queue.service.js';
+
+vi.mock('../lib/prisma.js', async () => {
+  const { MemoryPrisma } = await import('../test/memoryPrisma.js');
+  return { prisma: new MemoryPrisma() };
+});
+
+vi.mock('../config/queue.js', async () => {
+  const { MemoryQueue } = await import('../test/memoryQueue.js');
+  return { publishQueue: new MemoryQueue() };
+});
+
+vi.mock('../lib/redis.js', () => ({ redis: {} }));
+
+const USER_ID = 'user-1';
+const NOW = new Date('2026-01-05T00:00:00Z'); // A Monday
+const CONTENT = 'New release notes: https://example.com/releases';
+
+let db: PrismaClient;
+let queueService: typeof import('./queue.service.js').queueService;
+let postService: typeof import('./post.service.js').postService;
+let providerRegistry: typeof import('./providerRegistry.service.js').providerRegistry;
+
+beforeAll(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  ({ prisma: db } = await import('../lib/prisma.js'));
+  ({ queueService } = await import('./queue.service.js'));
+  ({ postService } = await import('./post.service.js'));
+  ({ providerRegistry } = await import('./providerRegistry.service.js'));
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+beforeEach(() => {
+  vi.setSystemTime(NOW);
+  vi.restoreAllMocks();
+  (db as unknown as MemoryPrisma).reset();
+});
+
+const iso = (date: Date | null | undefined) => date?.toISOString();
+
+/**
+ * Shrink a provider's quota so tests can reach it with a few posts
+ */
+function setQuota(daily: number, monthly = 1000) {
+  const get = providerRegistry.get.bind(providerRegistry);
+  vi.spyOn(providerRegistry, 'get').mockImplementation(type => ({ ...get(type), quota: { daily, monthly } }));
+}
+
+/**
+ * An account with slots at 09:00 and 15:00 UTC every day
+ */
+async function seedPlatform(type: PlatformType, name: string) {
+  const platform = await db.platform.create({
+    data: { userId: USER_ID, type, name, platformUserId: name, accessToken: 'token' },
+  });
+  for (let weekday = 0; weekday < 7; weekday++) {
+    await db.postingSlot.create({ data: { platformId: platform.id, weekday, time: '09:00' } });
+    await db.postingSlot.create({ data: { platformId: platform.id, weekday, time: '15:00' } });
+  }
+  return platform;
+}
+
+async function seedScheduled(platformId: string, scheduledAt: string) {
+  return db.post.create({
+    data: {
+      userId: USER_ID,
+      content: CONTENT,
+      status: 'SCHEDULED',
+      scheduledAt: new Date(scheduledAt),
+      platforms: { create: [{ platformId, status: 'SCHEDULED' }] },
+    },
+  });
+}
+
+async function queuePosts(platformId: string, count: number) {
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const draft = await db.post.create({
+      data: { userId: USER_ID, content: CONTENT, platforms: { create: [{ platformId }] } },
+    });
+    await postService.addToQueue(USER_ID, draft.id);
+    ids.push(draft.id);
+  }
+  return ids;
+}
+
+async function scheduleOf(ids: string[]) {
+  const posts = await Promise.all(ids.map(id => db.post.findUnique({ where: { id } })));
+  return posts.map(post => iso(post?.scheduledAt));
+}
+
+describe('SlotAllocator', () => {
+  const slots = [
+    '2026-01-05T09:00:00Z',
+    '2026-01-05T15:00:00Z',
+    '2026-01-06T09:00:00Z',
+    '2026-01-06T15:00:00Z',
+    '2026-02-02T09:00:00Z',
+  ].map(at => new Date(at));
+
+  const allocate = (
+    taken: string[],
+    limits: { daily: number; monthly: number },
+    counts: { daily?: Array<[string, number]>; monthly?: Array<[string, number]> } = {}
+  ) => {
+    const allocator = new SlotAllocator(
+      slots,
+      new Set(taken.map(at => new Date(at).getTime())),
+      new Map(counts.daily),
+      new Map(counts.monthly),
+      limits,
+      'UTC'
+    );
+    const handedOut: Array<string | undefined> = [];
+    for (let at = allocator.next(); at; at = allocator.next()) {
+      handedOut.push(iso(at));
+    }
+    return handedOut;
+  };
+
+  it('hands out free slots in order, skipping taken ones', () => {
+    expect(allocate(['2026-01-05T15:00:00Z'], { daily: 10, monthly: 100 })).toEqual([
+      '2026-01-05T09:00:00.000Z',
+      '2026-01-06T09:00:00.000Z',
+      '2026-01-06T15:00:00.000Z',
+      '2026-02-02T09:00:00.000Z',
+    ]);
+  });
+
+  it('counts the slots it reserves against the daily quota', () => {
+    expect(allocate([], { daily: 1, monthly: 100 })).toEqual([
+      '2026-01-05T09:00:00.000Z',
+      '2026-01-06T09:00:00.000Z',
+      '2026-02-02T09:00:00.000Z',
+    ]);
+  });
+
+  it('skips days and months already at their quota', () => {
+    expect(allocate([], { daily: 2, monthly: 3 }, { daily: [['2026-1-5', 2]], monthly: [['2026-1', 1]] })).toEqual([
+      '2026-01-06T09:00:00.000Z',
+      '2026-01-06T15:00:00.000Z',
+      '2026-02-02T09:00:00.000Z',
+    ]);
+  });
+});
+
+describe('queueService.createAllocator', () => {
+  it('shares the quota between all accounts of a platform type', async () => {
+    setQuota(2);
+    const first = await seedPlatform('TWITTER', '@first');
+    const second = await seedPlatform('TWITTER', '@second');
+    const page = await seedPlatform('FACEBOOK', 'Page');
+    await seedScheduled(second.id, '2026-01-05T10:00:00Z');
+    await seedScheduled(second.id, '2026-01-05T11:00:00Z');
+    await seedScheduled(page.id, '2026-01-06T10:00:00Z');
+
+    const allocator = await queueService.createAllocator(USER_ID, first.id);
+
+    // Monday's two X posts are on the other account, Tuesday's Facebook post is another provider's quota
+    expect(iso(allocator.next())).toBe('2026-01-06T09:00:00.000Z');
+    expect(iso(allocator.next())).toBe('2026-01-06T15:00:00.000Z');
+    expect(iso(allocator.next())).toBe('2026-01-07T09:00:00.000Z');
+  });
+
+  it('only treats a slot as taken on the account that holds it', async () => {
+    const first = await seedPlatform('TWITTER', '@first');
+    const second = await seedPlatform('TWITTER', '@second');
+    await seedScheduled(second.id, '2026-01-05T09:00:00Z');
+    await seedScheduled(first.id, '2026-01-05T15:00:00Z');
+
+    const allocator = await queueService.createAllocator(USER_ID, first.id);
+
+    expect(iso(allocator.next())).toBe('2026-01-05T09:00:00.000Z');
+    expect(iso(allocator.next())).toBe('2026-01-06T09:00:00.000Z');
+  });
+
+  it('leaves out the posts being moved', async () => {
+    const platform = await seedPlatform('TWITTER', '@first');
+    const post = await seedScheduled(platform.id, '2026-01-05T09:00:00Z');
+
+    const allocator = await queueService.createAllocator(USER_ID, platform.id, [post.id]);
+
+    expect(iso(allocator.next())).toBe('2026-01-05T09:00:00.000Z');
+  });
+});
+
+describe('queue re-packing', () => {
+  it('puts queued posts in consecutive free slots', async () => {
+    const platform = await seedPlatform('TWITTER', '@first');
+
+    const ids = await queuePosts(platform.id, 3);
+
+    expect(await scheduleOf(ids)).toEqual([
+      '2026-01-05T09:00:00.000Z',
+      '2026-01-05T15:00:00.000Z',
+      '2026-01-06T09:00:00.000Z',
+    ]);
+  });
+
+  it('moves later posts up when a queued post is deleted', async () => {
+    const platform = await seedPlatform('TWITTER', '@first');
+    const [deleted, ...rest] = await queuePosts(platform.id, 3);
+
+    await postService.delete(USER_ID, deleted!);
+
+    expect(await scheduleOf(rest)).toEqual(['2026-01-05T09:00:00.000Z', '2026-01-05T15:00:00.000Z']);
+  });
+
+  it('moves later posts up when a queued post is unscheduled', async () => {
+    const platform = await seedPlatform('TWITTER', '@first');
+    const [first, unscheduled, last] = await queuePosts(platform.id, 3);
+
+    await postService.unschedule(USER_ID, unscheduled!);
+
+    expect(await scheduleOf([first!, unscheduled!, last!])).toEqual([
+      '2026-01-05T09:00:00.000Z',
+      undefined,
+      '2026-01-05T15:00:00.000Z',
+    ]);
+  });
+
+  it('keeps within the quota the other account has used when moving posts', async () => {
+    setQuota(1);
+    const first = await seedPlatform('TWITTER', '@first');
+    const second = await seedPlatform('TWITTER', '@second');
+    const [deleted, kept] = await queuePosts(first.id, 2);
+    await seedScheduled(second.id, '2026-01-05T12:00:00Z');
+
+    await postService.delete(USER_ID, deleted!);
+
+    // Monday's single post is taken by the other account, so the slot freed on Monday stays empty
+    expect(await scheduleOf([kept!])).toEqual(['2026-01-06T09:00:00.000Z']);
+  });
+});
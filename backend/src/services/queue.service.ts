@@ -0,0 +1,247 @@
+import { PostingSlot, PostStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { getZonedParts, parseTimeOfDay, startOfZonedMonth, zonedTimeToUtc } from '../lib/timezone.js';
+import { providerRegistry } from './providerRegistry.service.js';
+import { settingsService, SettingsView } from './settings.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEARCH_DAYS = 62; // Long enough to get past a full month's quota
+const SLOT_LEAD_MS = 60 * 1000; // Slots about to pass are not handed out
+const OCCUPYING_STATUSES: PostStatus[] = ['SCHEDULED', 'PUBLISHING', 'PUBLISHED', 'PARTIALLY_PUBLISHED'];
+
+export interface SlotInput {
+  weekday: number; // 0 = Sunday
+  time: string; // HH:mm
+}
+
+const dayKey = (date: Date, timeZone: string) => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${month}-${day}`;
+};
+
+const monthKey = (date: Date, timeZone: string) => {
+  const { year, month } = getZonedParts(date, timeZone);
+  return `${year}-${month}`;
+};
+
+/**
+ * Hands out one platform's free slots in order. A slot is free when no other
+ * post on the platform is set for it, it is outside quiet hours and the
+ * provider's daily and monthly quota, shared by all the user's accounts of
+ * that type, still has room. Reserved slots count towards the quota of the
+ * ones after them.
+ */
+export class SlotAllocator {
+  private cursor = 0;
+
+  constructor(
+    private readonly candidates: Date[],
+    private readonly taken: Set<number>,
+    private readonly dailyCounts: Map<string, number>,
+    private readonly monthlyCounts: Map<string, number>,
+    private readonly limits: { daily: number; monthly: number },
+    private readonly timeZone: string
+  ) {}
+
+  next(): Date | null {
+    // Slots only ever fill up, so ones passed over stay unavailable
+    for (; this.cursor < this.candidates.length; this.cursor++) {
+      const at = this.candidates[this.cursor]!;
+      if (this.taken.has(at.getTime())) continue;
+
+      const day = dayKey(at, this.timeZone);
+      const month = monthKey(at, this.timeZone);
+      if ((this.dailyCounts.get(day) ?? 0) >= this.limits.daily) continue;
+      if ((this.monthlyCounts.get(month) ?? 0) >= this.limits.monthly) continue;
+
+      this.taken.add(at.getTime());
+      this.dailyCounts.set(day, (this.dailyCounts.get(day) ?? 0) + 1);
+      this.monthlyCounts.set(month, (this.monthlyCounts.get(month) ?? 0) + 1);
+      this.cursor++;
+      return at;
+    }
+    return null;
+  }
+}
+
+class QueueService {
+  /**
+   * Upcoming slot times, in order, skipping quiet hours
+   */
+  private getCandidates(slots: PostingSlot[], settings: SettingsView, now: Date): Date[] {
+    const { timezone } = settings;
+    const today = getZonedParts(now, timezone);
+    const earliest = now.getTime() + SLOT_LEAD_MS;
+    const ordered = [...slots].sort((a, b) => a.time.localeCompare(b.time));
+    const candidates: Date[] = [];
+
+    for (let offset = 0; offset < SEARCH_DAYS; offset++) {
+      const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+      const weekday = date.getUTCDay();
+
+      for (const slot of ordered) {
+        const minutes = parseTimeOfDay(slot.time);
+        if (slot.weekday !== weekday || minutes === null) continue;
+
+        const at = zonedTimeToUtc(
+          {
+            year: date.getUTCFullYear(),
+            month: date.getUTCMonth() + 1,
+            day: date.getUTCDate(),
+            hour: Math.floor(minutes / 60),
+            minute: minutes % 60,
+          },
+          timezone
+        );
+        if (at.getTime() > earliest && !settingsService.isInQuietHours(at, settings)) {
+          candidates.push(at);
+        }
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Allocator for a platform's free slots. Posts in excludePostIds don't
+   * hold their slot, so they can be moved.
+   */
+  async createAllocator(
+    userId: string,
+    platformId: string,
+    excludePostIds: string[] = []
+  ): Promise<SlotAllocator> {
+    const now = new Date();
+    const [settings, platform, slots] = await Promise.all([
+      settingsService.get(userId),
+      prisma.platform.findFirstOrThrow({ where: { id: platformId, userId }, select: { type: true } }),
+      prisma.postingSlot.findMany({ where: { platformId } }),
+    ]);
+    const { timezone } = settings;
+
+    // Every target of this platform type from the start of this month counts towards
+    // the quota, which is per app, not per account; only this account's posts hold a slot
+    const monthStart = startOfZonedMonth(now, timezone);
+    const end = new Date(now.getTime() + (SEARCH_DAYS + 1) * DAY_MS);
+    const targets = await prisma.postPlatform.findMany({
+      where: {
+        platform: { userId, type: platform.type },
+        post: {
+          userId,
+          id: { notIn: excludePostIds },
+          status: { in: OCCUPYING_STATUSES },
+          OR: [
+            { scheduledAt: { gte: monthStart, lt: end } },
+            { publishedAt: { gte: monthStart, lt: end } },
+          ],
+        },
+      },
+      select: { platformId: true, post: { select: { scheduledAt: true, publishedAt: true } } },
+    });
+
+    const taken = new Set<number>();
+    const dailyCounts = new Map<string, number>();
+    const monthlyCounts = new Map<string, number>();
+    for (const { platformId: targetPlatformId, post } of targets) {
+      if (post.scheduledAt && targetPlatformId === platformId) taken.add(post.scheduledAt.getTime());
+      const at = post.publishedAt ?? post.scheduledAt;
+      if (!at) continue;
+      const day = dayKey(at, timezone);
+      const month = monthKey(at, timezone);
+      dailyCounts.set(day, (dailyCounts.get(day) ?? 0) + 1);
+      monthlyCounts.set(month, (monthlyCounts.get(month) ?? 0) + 1);
+    }
+
+    return new SlotAllocator(
+      this.getCandidates(slots, settings, now),
+      taken,
+      dailyCounts,
+      monthlyCounts,
+      providerRegistry.get(platform.type).quota,
+      timezone
+    );
+  }
+
+  /**
+   * A platform's posting slots, or null when the platform isn't the user's
+   */
+  async getSlots(userId: string, platformId: string): Promise<PostingSlot[] | null> {
+    const platform = await prisma.platform.findFirst({ where: { id: platformId, userId } });
+    if (!platform) {
+      return null;
+    }
+
+    return prisma.postingSlot.findMany({
+      where: { platformId },
+      orderBy: [{ weekday: 'asc' }, { time: 'asc' }],
+    });
+  }
+
+  /**
+   * Replace a platform's slots and move its queued posts onto them
+   */
+  async setSlots(userId: string, platformId: string, slots: SlotInput[]): Promise<PostingSlot[] | null> {
+    const platform = await prisma.platform.findFirst({ where: { id: platformId, userId } });
+    if (!platform) {
+      return null;
+    }
+
+    const unique = [...new Map(slots.map(slot => [`${slot.weekday} ${slot.time}`, slot])).values()];
+    await prisma.$transaction([
+      prisma.postingSlot.deleteMany({ where: { platformId } }),
+      prisma.postingSlot.createMany({ data: unique.map(slot => ({ platformId, ...slot })) }),
+    ]);
+
+    logger.info({ userId, platformId, slots: unique.length }, 'Posting slots updated');
+    await this.repack(userId, [platformId]);
+    return this.getSlots(userId, platformId);
+  }
+
+  /**
+   * Move queued posts into the earliest free slots, keeping their order.
+   * Called when a queued post leaves the queue or the slots change. Posts
+   * without a slot left keep their time. Returns the number of posts moved.
+   */
+  async repack(userId: string, platformIds: string[]): Promise<number> {
+    let moved = 0;
+
+    for (const platformId of platformIds) {
+      const queued = await prisma.post.findMany({
+        where: {
+          userId,
+          queued: true,
+          status: 'SCHEDULED',
+          scheduledAt: { gt: new Date(Date.now() + SLOT_LEAD_MS) },
+          platforms: { some: { platformId } },
+        },
+        orderBy: { scheduledAt: 'asc' },
+        select: { id: true, scheduledAt: true },
+      });
+      if (queued.length === 0) continue;
+
+      const allocator = await this.createAllocator(userId, platformId, queued.map(post => post.id));
+      for (const post of queued) {
+        const at = allocator.next();
+        if (!at) {
+          logger.warn({ userId, platformId, postId: post.id }, 'No posting slot left for queued post');
+          break;
+        }
+        if (at.getTime() === post.scheduledAt?.getTime()) continue;
+
+        // Posts claimed for publishing in the meantime stay where they are
+        const { count } = await prisma.post.updateMany({
+          where: { id: post.id, status: 'SCHEDULED' },
+          data: { scheduledAt: at },
+        });
+        moved += count;
+      }
+    }
+
+    if (moved > 0) {
+      logger.info({ userId, platformIds, moved }, 'Posting queue re-packed');
+    }
+    return moved;
+  }
+}
+
+export const queueService = new QueueService();
@@ -0,0 +1,266 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PrismaClient, RecurringSchedule } from '@prisma/client';
+import type { MemoryPrisma } from '../test/memoryPrisma.js';
+
+vi.mock('../lib/prisma.js', async () => {
+  const { MemoryPrisma } = await import('../test/memoryPrisma.js');
+  return { prisma: new MemoryPrisma() };
+});
+
+vi.mock('../config/queue.js', async () => {
+  const { MemoryQueue } = await import('../test/memoryQueue.js');
+  return { publishQueue: new MemoryQueue() };
+});
+
+vi.mock('../lib/redis.js', () => ({ redis: {} }));
+
+const USER_ID = 'user-1';
+const NOW = new Date('2026-01-01T00:00:00Z'); // RECURRING_HORIZON_DAYS is 14, so the horizon is 2026-01-15
+const CONTENT = 'Weekly numbers are in: https://example.com/numbers';
+const FACEBOOK_OVERRIDE = 'Weekly numbers are in, details below https://example.com/numbers';
+
+let db: PrismaClient;
+let recurringService: typeof import('./recurring.service.js').recurringService;
+
+beforeAll(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  ({ prisma: db } = await import('../lib/prisma.js'));
+  ({ recurringService } = await import('./recurring.service.js'));
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+beforeEach(() => {
+  vi.setSystemTime(NOW);
+  (db as unknown as MemoryPrisma).reset();
+});
+
+async function seedSchedule(rrule: string, startsAt = '2026-01-01T09:00:00Z', timezone = 'UTC') {
+  const twitter = await db.platform.create({
+    data: { userId: USER_ID, type: 'TWITTER', name: '@mockuser', platformUserId: '1', accessToken: 'token' },
+  });
+  const facebook = await db.platform.create({
+    data: { userId: USER_ID, type: 'FACEBOOK', name: 'Mock Page', platformUserId: '2', accessToken: 'token' },
+  });
+  const media = await db.mediaFile.create({
+    data: { userId: USER_ID, filename: 'chart.png', storagePath: 'chart.png', mimeType: 'image/png', size: 100 },
+  });
+
+  const template = await db.post.create({
+    data: {
+      userId: USER_ID,
+      content: CONTENT,
+      status: 'DRAFT',
+      platforms: {
+        create: [
+          { platformId: twitter.id, status: 'DRAFT' },
+          { platformId: facebook.id, status: 'DRAFT', contentOverride: FACEBOOK_OVERRIDE },
+        ],
+      },
+      mediaFiles: { create: [{ mediaFileId: media.id, order: 0 }] },
+    },
+  });
+
+  const schedule = await db.recurringSchedule.create({
+    data: { userId: USER_ID, templatePostId: template.id, rrule, timezone, startsAt: new Date(startsAt) },
+  });
+
+  return { schedule, template, twitter, facebook, media };
+}
+
+async function occurrencesOf(schedule: RecurringSchedule) {
+  return db.post.findMany({
+    where: { recurringScheduleId: schedule.id },
+    include: { platforms: true, mediaFiles: true },
+    orderBy: { occurrenceAt: 'asc' },
+  });
+}
+
+async function reload(schedule: RecurringSchedule): Promise<RecurringSchedule> {
+  const current = await db.recurringSchedule.findUnique({ where: { id: schedule.id } });
+  if (!current) throw new Error('Schedule is gone');
+  return current;
+}
+
+describe('recurringService.materialize', () => {
+  it('copies the template into a scheduled post per occurrence up to the horizon', async () => {
+    const { schedule, facebook, media } = await seedSchedule('FREQ=WEEKLY;BYDAY=MO,TH');
+
+    expect(await recurringService.materialize(schedule)).toBe(4);
+
+    const posts = await occurrencesOf(schedule);
+    expect(posts.map(p => p.occurrenceAt?.toISOString())).toEqual([
+      '2026-01-01T09:00:00.000Z',
+      '2026-01-05T09:00:00.000Z',
+      '2026-01-08T09:00:00.000Z',
+      '2026-01-12T09:00:00.000Z',
+    ]);
+
+    for (const post of posts) {
+      expect(post).toMatchObject({ userId: USER_ID, content: CONTENT, status: 'SCHEDULED', timezone: 'UTC' });
+      expect(post.scheduledAt).toEqual(post.occurrenceAt);
+      expect(post.platforms.map(p => p.status)).toEqual(['SCHEDULED', 'SCHEDULED']);
+      expect(post.platforms.find(p => p.platformId === facebook.id)?.contentOverride).toBe(FACEBOOK_OVERRIDE);
+      expect(post.mediaFiles).toMatchObject([{ mediaFileId: media.id, order: 0 }]);
+    }
+
+    expect((await reload(schedule)).materializedUntil?.toISOString()).toBe('2026-01-15T00:00:00.000Z');
+  });
+
+  it('never creates an occurrence twice', async () => {
+    const { schedule } = await seedSchedule('FREQ=DAILY');
+    expect(await recurringService.materialize(schedule)).toBe(14);
+
+    // A concurrent run that still saw materializedUntil as null hits the unique index instead
+    expect(await recurringService.materialize(schedule)).toBe(0);
+    expect(await occurrencesOf(schedule)).toHaveLength(14);
+  });
+
+  it('only extends the series as the horizon moves, without bringing back deleted occurrences', async () => {
+    const { schedule } = await seedSchedule('FREQ=DAILY');
+    await recurringService.materialize(schedule);
+
+    const deleted = (await occurrencesOf(schedule))[2];
+    expect(deleted?.occurrenceAt?.toISOString()).toBe('2026-01-03T09:00:00.000Z');
+    await db.post.delete({ where: { id: deleted?.id ?? '' } });
+
+    vi.setSystemTime(new Date('2026-01-02T00:00:00Z'));
+    expect(await recurringService.materialize(await reload(schedule))).toBe(1);
+
+    const slots = (await occurrencesOf(schedule)).map(p => p.occurrenceAt?.toISOString());
+    expect(slots).toHaveLength(14);
+    expect(slots).not.toContain('2026-01-03T09:00:00.000Z');
+    expect(slots.at(-1)).toBe('2026-01-15T09:00:00.000Z');
+  });
+
+  it('skips occurrences already in the past', async () => {
+    const { schedule } = await seedSchedule('FREQ=DAILY', '2025-12-01T09:00:00Z');
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+
+    await recurringService.materialize(schedule);
+    expect((await occurrencesOf(schedule))[0]?.occurrenceAt?.toISOString()).toBe('2026-01-02T09:00:00.000Z');
+  });
+
+  it('moves posts out of quiet hours but keeps the slot they stand for', async () => {
+    const { schedule } = await seedSchedule('FREQ=DAILY;COUNT=2');
+    await db.userSettings.create({
+      data: {
+        userId: USER_ID,
+        timezone: 'UTC',
+        defaultPlatformIds: [],
+        defaultPostTime: '09:00',
+        quietHoursStart: '08:00',
+        quietHoursEnd: '10:30',
+        conflictGapMinutes: 30,
+        aiDefaultModel: null,
+        notifyOnPublishFailure: true,
+        notifyOnPublishSuccess: false,
+        notifyOnTokenExpiry: true,
+        shortenLinks: false,
+      },
+    });
+
+    await recurringService.materialize(schedule);
+
+    const posts = await occurrencesOf(schedule);
+    expect(posts.map(p => [p.occurrenceAt?.toISOString(), p.scheduledAt?.toISOString()])).toEqual([
+      ['2026-01-01T09:00:00.000Z', '2026-01-01T10:30:00.000Z'],
+      ['2026-01-02T09:00:00.000Z', '2026-01-02T10:30:00.000Z'],
+    ]);
+  });
+
+  it('keeps the wall-clock time of occurrences across a DST change', async () => {
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'));
+    const { schedule } = await seedSchedule('FREQ=WEEKLY;BYDAY=SU', '2026-03-01T09:00:00-05:00', 'America/New_York');
+
+    await recurringService.materialize(schedule);
+
+    expect((await occurrencesOf(schedule)).map(p => p.occurrenceAt?.toISOString())).toEqual([
+      '2026-03-01T14:00:00.000Z',
+      '2026-03-08T13:00:00.000Z',
+    ]);
+  });
+
+  it('deactivates a series once its last occurrence exists', async () => {
+    const { schedule } = await seedSchedule('FREQ=DAILY;COUNT=3');
+
+    expect(await recurringService.materialize(schedule)).toBe(3);
+    expect((await reload(schedule)).isActive).toBe(false);
+  });
+
+  it('deactivates a series whose stored rule no longer parses', async () => {
+    const { schedule } = await seedSchedule('FREQ=DAILY');
+    const broken = await db.recurringSchedule.update({ where: { id: schedule.id }, data: { rrule: 'FREQ=HOURLY' } });
+
+    expect(await recurringService.materialize(broken)).toBe(0);
+    expect(await occurrencesOf(schedule)).toHaveLength(0);
+    expect((await reload(schedule)).isActive).toBe(false);
+  });
+});
+
+describe('recurringService.updateFuture', () => {
+  async function seedSeries() {
+    const seeded = await seedSchedule('FREQ=WEEKLY;BYDAY=MO,TH');
+    await recurringService.materialize(seeded.schedule);
+    const occurrences = await occurrencesOf(seeded.schedule);
+    return { ...seeded, occurrences };
+  }
+
+  async function targetsOf(postId: string) {
+    return db.postPlatform.findMany({ where: { postId }, orderBy: { createdAt: 'asc' } });
+  }
+
+  it('keeps the per-platform text of platforms that stay', async () => {
+    const { schedule, template, twitter, facebook, occurrences } = await seedSeries();
+    const second = await db.platform.create({
+      data: { userId: USER_ID, type: 'TWITTER', name: '@second', platformUserId: '3', accessToken: 'token' },
+    });
+    const [first, from] = occurrences;
+    const keysBefore = new Map((await db.postPlatform.findMany({})).map(p => [p.id, p.idempotencyKey]));
+
+    const updated = await recurringService.updateFuture(USER_ID, schedule.id, {
+      fromPostId: from?.id ?? '',
+      content: 'New numbers: https://example.com/numbers',
+      platformIds: [facebook.id, second.id],
+    });
+    expect(updated).toBe(3);
+
+    for (const post of [template, ...occurrences.slice(1)]) {
+      const targets = await targetsOf(post.id);
+      expect(targets.map(t => t.platformId).sort()).toEqual([facebook.id, second.id].sort());
+
+      const kept = targets.find(t => t.platformId === facebook.id);
+      expect(kept?.contentOverride).toBe(FACEBOOK_OVERRIDE);
+      expect(kept?.idempotencyKey).toBe(keysBefore.get(kept?.id ?? ''));
+
+      const added = targets.find(t => t.platformId === second.id);
+      expect(added).toMatchObject({ contentOverride: null, status: post.id === template.id ? 'DRAFT' : 'SCHEDULED' });
+    }
+
+    // Earlier occurrences are left as they were
+    expect((await targetsOf(first?.id ?? '')).map(t => t.platformId).sort()).toEqual([twitter.id, facebook.id].sort());
+    expect((await db.post.findUnique({ where: { id: first?.id ?? '' } }))?.content).toBe(CONTENT);
+  });
+
+  it('refuses an edit that leaves a kept override outside the content contract', async () => {
+    const { schedule, twitter, facebook, occurrences } = await seedSeries();
+    const [, from, later] = occurrences;
+    await db.postPlatform.updateMany({
+      where: { postId: later?.id ?? '', platformId: facebook.id },
+      data: { contentOverride: 'Details on the blog' },
+    });
+
+    await expect(
+      recurringService.updateFuture(USER_ID, schedule.id, { fromPostId: from?.id ?? '', content: CONTENT })
+    ).rejects.toMatchObject({ statusCode: 422, code: 'CONTENT_CONTRACT_VIOLATION' });
+    expect((await targetsOf(later?.id ?? '')).map(t => t.platformId).sort()).toEqual([twitter.id, facebook.id].sort());
+
+    // Dropping the platform drops its override along with the violation
+    expect(
+      await recurringService.updateFuture(USER_ID, schedule.id, { fromPostId: from?.id ?? '', platformIds: [twitter.id] })
+    ).toBe(3);
+    expect((await targetsOf(later?.id ?? '')).map(t => t.platformId)).toEqual([twitter.id]);
+  });
+});
@@ -0,0 +1,424 @@
+import { Prisma, RecurringSchedule } from '@prisma/client';
+import { env } from '../config/env.js';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { expandRRule, hasOccurrencesAfter, parseRRule, RRule, RRuleError } from '../lib/rrule.js';
+import { parseDateTimeInZone } from '../lib/timezone.js';
+import { ValidationError } from '../middleware/errorHandler.js';
+import { auditService } from './audit.service.js';
+import { postService } from './post.service.js';
+import { settingsService } from './settings.service.js';
+import type { CreateRecurringInput, UpdateFutureInput, UpdateRecurringInput } from '../schemas/recurring.schema.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EDITABLE_STATUSES = ['DRAFT', 'SCHEDULED'] as const;
+
+const scheduleInclude = {
+  templatePost: {
+    select: {
+      id: true,
+      content: true,
+      platforms: {
+        select: {
+          platform: { select: { id: true, type: true, name: true } },
+        },
+      },
+    },
+  },
+  _count: { select: { occurrences: true } },
+} satisfies Prisma.RecurringScheduleInclude;
+
+type ScheduleWithTemplate = Prisma.RecurringScheduleGetPayload<{ include: typeof scheduleInclude }>;
+
+export interface RecurringScheduleView extends ScheduleWithTemplate {
+  nextOccurrenceAt: Date | null;
+}
+
+class RecurringService {
+  private parseRule(rrule: string, timezone: string): RRule {
+    try {
+      return parseRRule(rrule, timezone);
+    } catch (error) {
+      if (error instanceof RRuleError) {
+        throw new ValidationError(`Invalid recurrence rule: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private parseStartsAt(value: string, timezone: string): Date {
+    const startsAt = parseDateTimeInZone(value, timezone);
+    if (!startsAt) {
+      throw new ValidationError(`Invalid start time: ${value}`);
+    }
+    return startsAt;
+  }
+
+  private async toView(schedule: ScheduleWithTemplate): Promise<RecurringScheduleView> {
+    const next = await prisma.post.findFirst({
+      where: { recurringScheduleId: schedule.id, status: 'SCHEDULED' },
+      orderBy: { scheduledAt: 'asc' },
+      select: { scheduledAt: true },
+    });
+    return { ...schedule, nextOccurrenceAt: next?.scheduledAt ?? null };
+  }
+
+  /**
+   * Remove occurrences from a point on that haven't started publishing
+   */
+  private async deleteUnpublishedOccurrences(scheduleId: string, from: Date): Promise<number> {
+    const { count } = await prisma.post.deleteMany({
+      where: {
+        recurringScheduleId: scheduleId,
+        occurrenceAt: { gte: from },
+        status: { in: [...EDITABLE_STATUSES] },
+      },
+    });
+    return count;
+  }
+
+  async list(userId: string): Promise<RecurringScheduleView[]> {
+    const schedules = await prisma.recurringSchedule.findMany({
+      where: { userId },
+      include: scheduleInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+    return Promise.all(schedules.map(schedule => this.toView(schedule)));
+  }
+
+  async get(userId: string, scheduleId: string): Promise<RecurringScheduleView | null> {
+    const schedule = await prisma.recurringSchedule.findFirst({
+      where: { id: scheduleId, userId },
+      include: scheduleInclude,
+    });
+    return schedule ? this.toView(schedule) : null;
+  }
+
+  /**
+   * Start a series from a post. The post becomes the series' template: it
+   * goes back to draft and each occurrence is a copy of it.
+   */
+  async create(userId: string, input: CreateRecurringInput): Promise<RecurringScheduleView | null> {
+    const post = await prisma.post.findFirst({
+      where: { id: input.postId, userId },
+      include: { platforms: true, mediaFiles: true, recurringTemplate: true },
+    });
+
+    if (!post) {
+      return null;
+    }
+
+    if (post.recurringTemplate) {
+      throw new ValidationError('This post already has a recurring series');
+    }
+    if (post.recurringScheduleId) {
+      throw new ValidationError('Occurrences of a series cannot start a series of their own');
+    }
+    if (!(EDITABLE_STATUSES as readonly string[]).includes(post.status)) {
+      throw new ValidationError('Only draft or scheduled posts can repeat');
+    }
+    if (post.platforms.length === 0) {
+      throw new ValidationError('Please select at least one platform before making the post repeat');
+    }
+
+    await postService.assertProvidersUsable(userId, post.platforms.map(p => p.platformId));
+    await postService.assertContentContract(
+      userId,
+      post.content,
+      post.mediaFiles.map(m => m.mediaFileId),
+      post.platforms.map(p => p.contentOverride)
+    );
+
+    const timezone = input.timezone ?? post.timezone ?? (await settingsService.get(userId)).timezone;
+    const startsAt = this.parseStartsAt(input.startsAt, timezone);
+    const rule = this.parseRule(input.rrule, timezone);
+
+    if (!hasOccurrencesAfter(rule, startsAt, timezone, new Date())) {
+      throw new ValidationError('The recurrence rule has no occurrences in the future');
+    }
+
+    const schedule = await prisma.$transaction(async (tx) => {
+      await tx.post.update({
+        where: { id: post.id },
+        data: {
+          status: 'DRAFT',
+          scheduledAt: null,
+          timezone,
+          platforms: {
+            updateMany: {
+              where: { postId: post.id },
+              data: { status: 'DRAFT' },
+            },
+          },
+        },
+      });
+
+      return tx.recurringSchedule.create({
+        data: {
+          userId,
+          templatePostId: post.id,
+          rrule: input.rrule.trim().replace(/^RRULE:/i, ''),
+          timezone,
+          startsAt,
+        },
+      });
+    });
+
+    await auditService.log({
+      userId,
+      action: 'POST_SCHEDULED',
+      entityType: 'RecurringSchedule',
+      entityId: schedule.id,
+      metadata: { templatePostId: post.id, rrule: schedule.rrule, timezone },
+    });
+
+    logger.info({ scheduleId: schedule.id, userId, rrule: schedule.rrule }, 'Recurring series created');
+
+    await this.materialize(schedule);
+    return this.get(userId, schedule.id);
+  }
+
+  /**
+   * Change a series' rule, start or timezone, or pause it. Future occurrences
+   * that haven't been published are replaced, edited ones included.
+   */
+  async update(
+    userId: string,
+    scheduleId: string,
+    input: UpdateRecurringInput
+  ): Promise<RecurringScheduleView | null> {
+    const schedule = await prisma.recurringSchedule.findFirst({ where: { id: scheduleId, userId } });
+    if (!schedule) {
+      return null;
+    }
+
+    const timezone = input.timezone ?? schedule.timezone;
+    const startsAt = input.startsAt !== undefined ? this.parseStartsAt(input.startsAt, timezone) : schedule.startsAt;
+    const rrule = input.rrule !== undefined ? input.rrule.trim().replace(/^RRULE:/i, '') : schedule.rrule;
+    const isActive = input.isActive ?? schedule.isActive;
+
+    const rule = this.parseRule(rrule, timezone);
+    const ruleChanged =
+      rrule !== schedule.rrule || timezone !== schedule.timezone || startsAt.getTime() !== schedule.startsAt.getTime();
+
+    if (isActive && (ruleChanged || !schedule.isActive) && !hasOccurrencesAfter(rule, startsAt, timezone, new Date())) {
+      throw new ValidationError('The recurrence rule has no occurrences in the future');
+    }
+
+    const now = new Date();
+    let removed = 0;
+    if (ruleChanged || !isActive) {
+      removed = await this.deleteUnpublishedOccurrences(schedule.id, now);
+    }
+
+    const updated = await prisma.recurringSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        rrule,
+        timezone,
+        startsAt,
+        isActive,
+        // Start over from now; past slots are never backfilled
+        ...((ruleChanged || !isActive || !schedule.isActive) && { materializedUntil: null }),
+      },
+    });
+
+    await auditService.log({
+      userId,
+      action: 'POST_UPDATED',
+      entityType: 'RecurringSchedule',
+      entityId: schedule.id,
+      metadata: { fields: Object.keys(input), removedOccurrences: removed },
+    });
+
+    logger.info({ scheduleId, userId, removed }, 'Recurring series updated');
+
+    if (updated.isActive) {
+      await this.materialize(updated);
+    }
+    return this.get(userId, scheduleId);
+  }
+
+  /**
+   * Apply an edit to one occurrence and every later one that hasn't been
+   * published, and to the template so new occurrences get it too
+   */
+  async updateFuture(userId: string, scheduleId: string, input: UpdateFutureInput): Promise<number | null> {
+    const schedule = await prisma.recurringSchedule.findFirst({
+      where: { id: scheduleId, userId },
+      include: { templatePost: { include: { platforms: true, mediaFiles: true } } },
+    });
+    if (!schedule) {
+      return null;
+    }
+
+    const fromPost = await prisma.post.findFirst({
+      where: { id: input.fromPostId, userId, recurringScheduleId: schedule.id },
+    });
+    if (!fromPost?.occurrenceAt) {
+      throw new ValidationError('The post is not an occurrence of this series');
+    }
+
+    const occurrences = await prisma.post.findMany({
+      where: {
+        recurringScheduleId: schedule.id,
+        occurrenceAt: { gte: fromPost.occurrenceAt },
+        status: { in: [...EDITABLE_STATUSES] },
+      },
+      select: { id: true, status: true, platforms: { select: { platformId: true, contentOverride: true } } },
+    });
+
+    const { templatePost } = schedule;
+    const targets = [{ id: templatePost.id, status: 'DRAFT' as const, platforms: templatePost.platforms }, ...occurrences];
+    const { content, platformIds, mediaFileIds } = input;
+    const isKept = (platformId: string) => !platformIds || platformIds.includes(platformId);
+
+    if (platformIds) {
+      await postService.assertProvidersUsable(userId, platformIds);
+    }
+    // Every post keeps its own per-platform text, so each one has to fit the new content and media
+    await postService.assertContentContract(
+      userId,
+      content ?? templatePost.content,
+      mediaFileIds ?? templatePost.mediaFiles.map(m => m.mediaFileId),
+      targets.flatMap(target => target.platforms.filter(p => isKept(p.platformId)).map(p => p.contentOverride))
+    );
+
+    await prisma.$transaction(async (tx) => {
+      const postIds = targets.map(target => target.id);
+
+      if (content !== undefined) {
+        await tx.post.updateMany({ where: { id: { in: postIds } }, data: { content } });
+      }
+
+      if (platformIds !== undefined) {
+        // Platforms that stay keep their row, and with it their override
+        await tx.postPlatform.deleteMany({ where: { postId: { in: postIds }, platformId: { notIn: platformIds } } });
+        await tx.postPlatform.createMany({
+          data: targets.flatMap(target =>
+            platformIds
+              .filter(platformId => !target.platforms.some(p => p.platformId === platformId))
+              .map(platformId => ({ postId: target.id, platformId, status: target.status }))
+          ),
+        });
+      }
+
+      if (mediaFileIds !== undefined) {
+        await tx.postMedia.deleteMany({ where: { postId: { in: postIds } } });
+        if (mediaFileIds.length > 0) {
+          await tx.postMedia.createMany({
+            data: postIds.flatMap(postId =>
+              mediaFileIds.map((mediaFileId, index) => ({ postId, mediaFileId, order: index }))
+            ),
+          });
+        }
+      }
+    });
+
+    logger.info({ scheduleId, userId, fromPostId: fromPost.id, updated: occurrences.length }, 'Future occurrences updated');
+    return occurrences.length;
+  }
+
+  /**
+   * End a series. Unpublished occurrences from now on are deleted; published
+   * ones and the template (as a draft) are kept.
+   */
+  async delete(userId: string, scheduleId: string): Promise<boolean> {
+    const schedule = await prisma.recurringSchedule.findFirst({ where: { id: scheduleId, userId } });
+    if (!schedule) {
+      return false;
+    }
+
+    const removed = await this.deleteUnpublishedOccurrences(schedule.id, new Date());
+    await prisma.recurringSchedule.delete({ where: { id: schedule.id } });
+
+    await auditService.log({
+      userId,
+      action: 'POST_DELETED',
+      entityType: 'RecurringSchedule',
+      entityId: schedule.id,
+      metadata: { removedOccurrences: removed },
+    });
+
+    logger.info({ scheduleId, userId, removed }, 'Recurring series deleted');
+    return true;
+  }
+
+  /**
+   * Create the series' posts up to the horizon. Occurrences already created
+   * (or deleted by the user) are not recreated, and past ones are skipped.
+   * Returns the number of posts created.
+   */
+  async materialize(schedule: RecurringSchedule): Promise<number> {
+    const now = new Date();
+    const horizon = new Date(now.getTime() + env.RECURRING_HORIZON_DAYS * DAY_MS);
+    const from = schedule.materializedUntil && schedule.materializedUntil > now ? schedule.materializedUntil : now;
+
+    let rule: RRule;
+    try {
+      rule = parseRRule(schedule.rrule, schedule.timezone);
+    } catch (error) {
+      logger.error({ error, scheduleId: schedule.id }, 'Recurring series has an invalid rule; deactivating');
+      await prisma.recurringSchedule.update({ where: { id: schedule.id }, data: { isActive: false } });
+      return 0;
+    }
+
+    const template = await prisma.post.findUnique({
+      where: { id: schedule.templatePostId },
+      include: { platforms: true, mediaFiles: true },
+    });
+    if (!template) {
+      return 0;
+    }
+
+    const settings = await settingsService.get(schedule.userId);
+    const occurrences = expandRRule(rule, schedule.startsAt, schedule.timezone, from, horizon);
+    let created = 0;
+
+    for (const occurrence of occurrences) {
+      try {
+        await prisma.post.create({
+          data: {
+            userId: schedule.userId,
+            content: template.content,
+            status: 'SCHEDULED',
+            scheduledAt: settingsService.nextOutsideQuietHours(occurrence.at, settings),
+            timezone: schedule.timezone,
+            recurringScheduleId: schedule.id,
+            occurrenceAt: occurrence.at,
+            platforms: {
+              create: template.platforms.map(p => ({
+                platformId: p.platformId,
+                contentOverride: p.contentOverride,
+                status: 'SCHEDULED' as const,
+              })),
+            },
+            mediaFiles: {
+              create: template.mediaFiles.map(m => ({ mediaFileId: m.mediaFileId, order: m.order })),
+            },
+          },
+        });
+        created++;
+      } catch (error) {
+        // Already materialized by an earlier or concurrent run
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    const finished = !hasOccurrencesAfter(rule, schedule.startsAt, schedule.timezone, horizon);
+    await prisma.recurringSchedule.update({
+      where: { id: schedule.id },
+      data: { materializedUntil: horizon, ...(finished && { isActive: false }) },
+    });
+
+    if (created > 0 || finished) {
+      logger.info({ scheduleId: schedule.id, created, finished }, 'Materialized recurring posts');
+    }
+    return created;
+  }
+}
+
+export const recurringService = new RecurringService();
@@ -0,0 +1,83 @@
+import { env } from '../config/env.js';
+import { AppError, ProviderError } from '../middleware/errorHandler.js';
+
+export type RetryClass = 'retryable' | 'auth_refreshable' | 'terminal';
+
+export interface RetryDecision {
+  retryClass: RetryClass;
+  code: string;
+  retryAt?: Date | undefined; // Only set for retryable failures
+}
+
+const RETRYABLE_CODES = new Set([
+  'PROVIDER_RATE_LIMITED',
+  'PROVIDER_UNAVAILABLE',
+  'PROVIDER_TIMEOUT',
+  'PROVIDER_NETWORK_ERROR',
+]);
+
+const AUTH_REFRESHABLE_CODES = new Set(['PROVIDER_AUTH_EXPIRED']);
+
+class RetryService {
+  /**
+   * Sort a publish failure into retryable, auth-refreshable or terminal
+   */
+  classify(error: unknown): { retryClass: RetryClass; code: string; retryAfterMs?: number | undefined } {
+    if (error instanceof ProviderError) {
+      const code = error.code ?? 'PROVIDER_ERROR';
+      if (RETRYABLE_CODES.has(code)) {
+        return { retryClass: 'retryable', code, retryAfterMs: error.retryAfterMs };
+      }
+      if (AUTH_REFRESHABLE_CODES.has(code)) {
+        return { retryClass: 'auth_refreshable', code };
+      }
+      return { retryClass: 'terminal', code };
+    }
+
+    if (error instanceof AppError) {
+      return { retryClass: 'terminal', code: error.code ?? 'APP_ERROR' };
+    }
+
+    // Network errors arrive as ProviderError from providerFetch; only an aborted
+    // or timed-out request is worth another go. Anything else is a bug.
+    if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+      return { retryClass: 'retryable', code: 'PROVIDER_TIMEOUT' };
+    }
+
+    return { retryClass: 'terminal', code: 'PUBLISH_ERROR' };
+  }
+
+  /**
+   * Decide what to do after a failed attempt. Retryable failures become
+   * terminal once the attempt budget is used up.
+   */
+  decide(error: unknown, attemptNumber: number): RetryDecision {
+    const { retryClass, code, retryAfterMs } = this.classify(error);
+
+    if (retryClass !== 'retryable') {
+      return { retryClass, code };
+    }
+
+    if (attemptNumber >= env.PUBLISH_MAX_ATTEMPTS) {
+      return { retryClass: 'terminal', code };
+    }
+
+    const delayMs = this.getBackoffDelay(attemptNumber, retryAfterMs);
+    return { retryClass, code, retryAt: new Date(Date.now() + delayMs) };
+  }
+
+  /**
+   * Bounded exponential backoff with jitter. A provider-supplied
+   * Retry-After always wins over the computed delay.
+   */
+  getBackoffDelay(attemptNumber: number, retryAfterMs?: number): number {
+    const exponential = env.PUBLISH_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attemptNumber - 1);
+    const capped = Math.min(exponential, env.PUBLISH_RETRY_MAX_DELAY_MS);
+    // "Equal jitter": keep half the delay, randomize the other half
+    const delay = capped / 2 + Math.random() * (capped / 2);
+
+    return Math.round(retryAfterMs !== undefined ? Math.max(delay, retryAfterMs) : delay);
+  }
+}
+
+export const retryService = new RetryService();
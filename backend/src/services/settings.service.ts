@@ -0,0 +1,174 @@
+import { UserSettings } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { logger } from '../lib/logger.js';
+import { getZonedParts, parseTimeOfDay } from '../lib/timezone.js';
+import { ValidationError } from '../middleware/errorHandler.js';
+import { auditService } from './audit.service.js';
+import { aiService } from './ai.service.js';
+import type { UpdateSettingsInput } from '../schemas/settings.schema.js';
+
+/**
+ * Settings as the API returns them
+ */
+export interface SettingsView {
+  timezone: string;
+  defaultPlatformIds: string[];
+  defaultPostTime: string;
+  quietHours: { start: string; end: string } | null;
+  conflictGapMinutes: number;
+  aiDefaultModel: string | null;
+  notifications: {
+    publishFailure: boolean;
+    publishSuccess: boolean;
+    tokenExpiry: boolean;
+  };
+  shortenLinks: boolean;
+}
+
+// Used until the user saves settings for the first time
+const DEFAULT_SETTINGS: SettingsView = {
+  timezone: 'UTC',
+  defaultPlatformIds: [],
+  defaultPostTime: '09:00',
+  quietHours: null,
+  conflictGapMinutes: 30,
+  aiDefaultModel: null,
+  notifications: {
+    publishFailure: true,
+    publishSuccess: false,
+    tokenExpiry: true,
+  },
+  shortenLinks: false,
+};
+
+function toView(settings: UserSettings): SettingsView {
+  return {
+    timezone: settings.timezone,
+    defaultPlatformIds: settings.defaultPlatformIds,
+    defaultPostTime: settings.defaultPostTime,
+    quietHours:
+      settings.quietHoursStart && settings.quietHoursEnd
+        ? { start: settings.quietHoursStart, end: settings.quietHoursEnd }
+        : null,
+    conflictGapMinutes: settings.conflictGapMinutes,
+    aiDefaultModel: settings.aiDefaultModel,
+    notifications: {
+      publishFailure: settings.notifyOnPublishFailure,
+      publishSuccess: settings.notifyOnPublishSuccess,
+      tokenExpiry: settings.notifyOnTokenExpiry,
+    },
+    shortenLinks: settings.shortenLinks,
+  };
+}
+
+class SettingsService {
+  /**
+   * Get a user's settings, falling back to defaults
+   */
+  async get(userId: string): Promise<SettingsView> {
+    const settings = await prisma.userSettings.findUnique({ where: { userId } });
+    return settings ? toView(settings) : { ...DEFAULT_SETTINGS };
+  }
+
+  /**
+   * Update a user's settings. Fields left out of the input keep their value.
+   */
+  async update(userId: string, input: UpdateSettingsInput): Promise<SettingsView> {
+    if (input.defaultPlatformIds && input.defaultPlatformIds.length > 0) {
+      const owned = await prisma.platform.count({
+        where: { id: { in: input.defaultPlatformIds }, userId },
+      });
+      if (owned !== new Set(input.defaultPlatformIds).size) {
+        throw new ValidationError('Default platforms must be platforms you have connected');
+      }
+    }
+
+    if (input.aiDefaultModel && !aiService.getAvailableModels().includes(input.aiDefaultModel)) {
+      throw new ValidationError(`Model ${input.aiDefaultModel} is not available`);
+    }
+
+    const data = {
+      ...(input.timezone !== undefined && { timezone: input.timezone }),
+      ...(input.defaultPlatformIds !== undefined && { defaultPlatformIds: [...new Set(input.defaultPlatformIds)] }),
+      ...(input.defaultPostTime !== undefined && { defaultPostTime: input.defaultPostTime }),
+      ...(input.quietHours !== undefined && {
+        quietHoursStart: input.quietHours?.start ?? null,
+        quietHoursEnd: input.quietHours?.end ?? null,
+      }),
+      ...(input.conflictGapMinutes !== undefined && { conflictGapMinutes: input.conflictGapMinutes }),
+      ...(input.aiDefaultModel !== undefined && { aiDefaultModel: input.aiDefaultModel }),
+      ...(input.notifications?.publishFailure !== undefined && { notifyOnPublishFailure: input.notifications.publishFailure }),
+      ...(input.notifications?.publishSuccess !== undefined && { notifyOnPublishSuccess: input.notifications.publishSuccess }),
+      ...(input.notifications?.tokenExpiry !== undefined && { notifyOnTokenExpiry: input.notifications.tokenExpiry }),
+      ...(input.shortenLinks !== undefined && { shortenLinks: input.shortenLinks }),
+    };
+
+    const settings = await prisma.userSettings.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+
+    await auditService.log({
+      userId,
+      action: 'SETTINGS_UPDATED',
+      entityType: 'UserSettings',
+      entityId: settings.id,
+      metadata: { fields: Object.keys(input) },
+    });
+
+    logger.info({ userId, fields: Object.keys(input) }, 'Settings updated');
+    return toView(settings);
+  }
+
+  /**
+   * Model to use for AI requests: the one asked for, else the user's default
+   * while it is still offered, else the server default
+   */
+  async resolveAiModel(userId: string, requested?: string): Promise<string> {
+    if (requested) return requested;
+
+    const { aiDefaultModel } = await this.get(userId);
+    if (aiDefaultModel && aiService.getAvailableModels().includes(aiDefaultModel)) {
+      return aiDefaultModel;
+    }
+    return aiService.getDefaultModel();
+  }
+
+  /**
+   * Whether an instant falls within the user's quiet hours. Windows may wrap
+   * past midnight (22:00-07:00).
+   */
+  isInQuietHours(date: Date, settings: SettingsView): boolean {
+    if (!settings.quietHours) return false;
+
+    const start = parseTimeOfDay(settings.quietHours.start);
+    const end = parseTimeOfDay(settings.quietHours.end);
+    if (start === null || end === null) return false;
+
+    const { hour, minute } = getZonedParts(date, settings.timezone);
+    const minutes = hour * 60 + minute;
+
+    return start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  /**
+   * The first instant at or after date that is outside quiet hours
+   */
+  nextOutsideQuietHours(date: Date, settings: SettingsView): Date {
+    if (!this.isInQuietHours(date, settings) || !settings.quietHours) return date;
+
+    const end = parseTimeOfDay(settings.quietHours.end) ?? 0;
+    const { hour, minute } = getZonedParts(date, settings.timezone);
+    const minutes = hour * 60 + minute;
+    const untilEnd = (end - minutes + 24 * 60) % (24 * 60);
+
+    const next = new Date(date.getTime() + untilEnd * 60_000);
+    next.setUTCSeconds(0, 0);
+    return next;
+  }
+}
+
+export const settingsService = new SettingsService();
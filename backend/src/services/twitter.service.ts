@@ -4,14 +4,17 @@ import { prisma } from '../lib/prisma.js';
 import { encrypt, decrypt } from '../lib/encryption.js';
 import { logger } from '../lib/logger.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { providerFetch, timedProviderFetch } from '../lib/providerHttp.js';
+import { oauthStateService } from './oauthState.service.js';
 
 // Twitter OAuth 2.0 endpoints
 const TWITTER_AUTH_URL = 'https://twitter.com/i/oauth2/authorize';
-const TWITTER_TOKEN_URL = 'https://api.twitter.com/2/oauth2/token';
-const TWITTER_USER_URL = 'https://api.twitter.com/2/users/me';
-const TWITTER_TWEET_URL = 'https://api.twitter.com/2/tweets';
+const TWITTER_TOKEN_URL = `${env.TWITTER_API_BASE_URL}/2/oauth2/token`;
+const TWITTER_USER_URL = `${env.TWITTER_API_BASE_URL}/2/users/me`;
+const TWITTER_TWEET_URL = `${env.TWITTER_API_BASE_URL}/2/tweets`;
+const TWITTER_USERS_URL = `${env.TWITTER_API_BASE_URL}/2/users`;
 // Twitter v2 media upload endpoint (supports OAuth 2.0!)
-const TWITTER_MEDIA_UPLOAD_URL = 'https://api.x.com/2/media/upload';
+const TWITTER_MEDIA_UPLOAD_URL = `${env.TWITTER_UPLOAD_BASE_URL}/2/media/upload`;
 
 // Scopes needed for posting
 const TWITTER_SCOPES = [
@@ -38,12 +41,8 @@ interface TwitterUser {
 interface PKCEChallenge {
   codeVerifier: string;
   codeChallenge: string;
-  state: string;
 }
 
-// Store PKCE challenges temporarily (in production, use Redis)
-const pkceStore = new Map<string, { codeVerifier: string; userId: string; expiresAt: number }>();
-
 class TwitterService {
   /**
    * Check if Twitter is configured for OAuth 2.0 (user auth)
@@ -65,42 +64,33 @@ class TwitterService {
       .update(codeVerifier)
       .digest('base64url');
     
-    // Generate state for CSRF protection
-    const state = crypto.randomBytes(16).toString('hex');
-    
-    return { codeVerifier, codeChallenge, state };
+    return { codeVerifier, codeChallenge };
   }
 
   /**
    * Generate Twitter authorization URL
    */
-  generateAuthUrl(userId: string): string {
+  async generateAuthUrl(userId: string, sessionId: string): Promise<string> {
     if (!this.isConfigured()) {
       throw new AppError('Twitter is not configured', 503, true, 'TWITTER_NOT_CONFIGURED');
     }
 
     const pkce = this.generatePKCE();
     
-    // Store PKCE verifier with state (expires in 10 minutes)
-    pkceStore.set(pkce.state, {
-      codeVerifier: pkce.codeVerifier,
+    // Keep the PKCE verifier with the state for the callback
+    const state = await oauthStateService.create({
       userId,
-      expiresAt: Date.now() + 10 * 60 * 1000,
+      sessionId,
+      provider: 'TWITTER',
+      codeVerifier: pkce.codeVerifier,
     });
 
-    // Clean up expired entries
-    for (const [key, value] of pkceStore.entries()) {
-      if (value.expiresAt < Date.now()) {
-        pkceStore.delete(key);
-      }
-    }
-
     const params = new URLSearchParams({
       response_type: 'code',
       client_id: env.TWITTER_CLIENT_ID!,
       redirect_uri: env.TWITTER_CALLBACK_URL!,
       scope: TWITTER_SCOPES.join(' '),
-      state: pkce.state,
+      state,
       code_challenge: pkce.codeChallenge,
       code_challenge_method: 'S256',
     });
@@ -111,25 +101,21 @@ class TwitterService {
   /**
    * Exchange authorization code for tokens
    */
-  async exchangeCodeForTokens(code: string, state: string): Promise<{ userId: string; tokens: TwitterTokens }> {
+  async exchangeCodeForTokens(
+    code: string,
+    state: string,
+    sessionId: string
+  ): Promise<{ userId: string; tokens: TwitterTokens }> {
     if (!this.isConfigured()) {
       throw new AppError('Twitter is not configured', 503, true, 'TWITTER_NOT_CONFIGURED');
     }
 
-    // Get PKCE verifier from store
-    const pkceData = pkceStore.get(state);
-    if (!pkceData) {
+    // Single use: the state is gone after this, whether or not the exchange succeeds
+    const { userId, codeVerifier } = await oauthStateService.consume(state, { sessionId, providers: ['TWITTER'] });
+    if (!codeVerifier) {
       throw new AppError('Invalid or expired state parameter', 400, true, 'INVALID_STATE');
     }
 
-    if (pkceData.expiresAt < Date.now()) {
-      pkceStore.delete(state);
-      throw new AppError('Authorization session expired', 400, true, 'SESSION_EXPIRED');
-    }
-
-    // Remove from store (one-time use)
-    pkceStore.delete(state);
-
     // Exchange code for tokens
     const credentials = Buffer.from(`${env.TWITTER_CLIENT_ID}:${env.TWITTER_CLIENT_SECRET}`).toString('base64');
     
@@ -143,7 +129,7 @@ class TwitterService {
         code,
         grant_type: 'authorization_code',
         redirect_uri: env.TWITTER_CALLBACK_URL!,
-        code_verifier: pkceData.codeVerifier,
+        code_verifier: codeVerifier,
       }),
     });
 
@@ -155,7 +141,7 @@ class TwitterService {
 
     const tokens = await tokenResponse.json() as TwitterTokens;
     
-    return { userId: pkceData.userId, tokens };
+    return { userId, tokens };
   }
 
   /**
@@ -247,7 +233,7 @@ class TwitterService {
     const refreshToken = decrypt(platform.refreshToken);
     const credentials = Buffer.from(`${env.TWITTER_CLIENT_ID}:${env.TWITTER_CLIENT_SECRET}`).toString('base64');
 
-    const response = await fetch(TWITTER_TOKEN_URL, {
+    const response = await timedProviderFetch('twitter', 'Refresh token', TWITTER_TOKEN_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -327,19 +313,19 @@ class TwitterService {
       tweetData.media = { media_ids: mediaIds };
     }
 
-    const response = await fetch(TWITTER_TWEET_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(tweetData),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      logger.error({ error, platformId, status: response.status }, 'Failed to post tweet');
-      throw new AppError(`Failed to post tweet: ${error}`, 400, true, 'TWEET_FAILED');
+    let response: Response;
+    try {
+      response = await providerFetch('twitter', 'Post tweet', TWITTER_TWEET_URL, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(tweetData),
+      });
+    } catch (error) {
+      logger.error({ error, platformId }, 'Failed to post tweet');
+      throw error;
     }
 
     const result = await response.json() as { data: { id: string } };
@@ -355,6 +341,71 @@ class TwitterService {
     return { tweetId, tweetUrl };
   }
 
+  /**
+   * Delete a tweet
+   */
+  async deleteTweet(platformId: string, tweetId: string): Promise<void> {
+    const accessToken = await this.getValidAccessToken(platformId);
+
+    try {
+      await providerFetch('twitter', 'Delete tweet', `${TWITTER_TWEET_URL}/${tweetId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+    } catch (error) {
+      logger.error({ error, platformId, tweetId }, 'Failed to delete tweet');
+      throw error;
+    }
+
+    logger.info({ platformId, tweetId }, 'Tweet deleted');
+  }
+
+  /**
+   * List tweets posted by the connected account since a given time.
+   * Used to reconcile publish attempts whose outcome is unknown.
+   */
+  async listRecentTweets(platformId: string, since: Date): Promise<Array<{ tweetId: string; text: string; tweetUrl: string }>> {
+    const accessToken = await this.getValidAccessToken(platformId);
+
+    const platform = await prisma.platform.findUnique({ where: { id: platformId } });
+    if (!platform) {
+      throw new AppError('Platform not found', 404, true, 'PLATFORM_NOT_FOUND');
+    }
+
+    const params = new URLSearchParams({
+      start_time: since.toISOString(),
+      max_results: '20',
+    });
+
+    let response: Response;
+    try {
+      response = await providerFetch(
+        'twitter',
+        'List recent tweets',
+        `${TWITTER_USERS_URL}/${platform.platformUserId}/tweets?${params.toString()}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+          },
+        }
+      );
+    } catch (error) {
+      logger.error({ error, platformId }, 'Failed to list recent tweets');
+      throw error;
+    }
+
+    const result = await response.json() as { data?: Array<{ id: string; text: string }> };
+    const username = platform.platformUsername?.replace('@', '') || 'user';
+
+    return (result.data ?? []).map((tweet) => ({
+      tweetId: tweet.id,
+      text: tweet.text,
+      tweetUrl: `https://twitter.com/${username}/status/${tweet.id}`,
+    }));
+  }
+
   /**
    * Upload media to Twitter using the v2 API
    * The v2 media upload endpoint supports OAuth 2.0!
@@ -393,23 +444,23 @@ class TwitterService {
       mediaCategory 
     }, 'Starting Twitter v2 media upload');
 
-    const response = await fetch(TWITTER_MEDIA_UPLOAD_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        media: mediaBase64,
-        media_category: mediaCategory,
-        media_type: mediaType,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      logger.error({ error, status: response.status }, 'Twitter v2 media upload failed');
-      throw new AppError(`Failed to upload media to Twitter: ${error}`, 400, true, 'MEDIA_UPLOAD_FAILED');
+    let response: Response;
+    try {
+      response = await providerFetch('twitter', 'Upload media', TWITTER_MEDIA_UPLOAD_URL, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          media: mediaBase64,
+          media_category: mediaCategory,
+          media_type: mediaType,
+        }),
+      });
+    } catch (error) {
+      logger.error({ error }, 'Twitter v2 media upload failed');
+      throw error;
     }
 
     const result = await response.json() as { data: { id: string; media_key?: string } };
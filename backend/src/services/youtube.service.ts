@@ -4,6 +4,7 @@ import { prisma } from '../lib/prisma.js';
 import { encrypt, decrypt } from '../lib/encryption.js';
 import { logger } from '../lib/logger.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { oauthStateService } from './oauthState.service.js';
 
 // Google/YouTube OAuth 2.0 endpoints
 const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
@@ -45,9 +46,6 @@ interface YouTubeChannel {
   } | undefined;
 }
 
-// Store state and code verifier temporarily for OAuth flow
-const stateStore = new Map<string, { userId: string; codeVerifier: string; expiresAt: number }>();
-
 class YouTubeService {
   /**
    * Check if YouTube is configured
@@ -75,21 +73,13 @@ class YouTubeService {
   /**
    * Generate OAuth authorization URL
    */
-  getAuthorizationUrl(userId: string): string {
+  async getAuthorizationUrl(userId: string, sessionId: string): Promise<string> {
     if (!this.isConfigured()) {
       throw new AppError('YouTube OAuth is not configured', 503, true, 'YOUTUBE_NOT_CONFIGURED');
     }
 
-    const state = crypto.randomBytes(16).toString('hex');
     const { codeVerifier, codeChallenge } = this.generatePKCE();
-    
-    stateStore.set(state, {
-      userId,
-      codeVerifier,
-      expiresAt: Date.now() + 10 * 60 * 1000,
-    });
-
-    this.cleanupExpiredStates();
+    const state = await oauthStateService.create({ userId, sessionId, provider: 'YOUTUBE', codeVerifier });
 
     const params = new URLSearchParams({
       client_id: env.GOOGLE_CLIENT_ID!,
@@ -106,28 +96,15 @@ class YouTubeService {
     return `${GOOGLE_AUTH_URL}?${params.toString()}`;
   }
 
-  private cleanupExpiredStates(): void {
-    const now = Date.now();
-    for (const [key, value] of stateStore.entries()) {
-      if (value.expiresAt < now) {
-        stateStore.delete(key);
-      }
-    }
-  }
-
   /**
    * Exchange authorization code for tokens
    */
-  async handleCallback(code: string, state: string): Promise<void> {
-    const stateData = stateStore.get(state);
-    if (!stateData || stateData.expiresAt < Date.now()) {
-      stateStore.delete(state);
+  async handleCallback(code: string, state: string, sessionId: string): Promise<void> {
+    const { userId, codeVerifier } = await oauthStateService.consume(state, { sessionId, providers: ['YOUTUBE'] });
+    if (!codeVerifier) {
       throw new AppError('Invalid or expired state', 400, true, 'INVALID_STATE');
     }
 
-    const { userId, codeVerifier } = stateData;
-    stateStore.delete(state);
-
     // Exchange code for tokens
     const tokenResponse = await fetch(GOOGLE_TOKEN_URL, {
       method: 'POST',
@@ -0,0 +1,542 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+
+/**
+ * In-memory stand-in for the Prisma client, covering the queries the publish
+ * pipeline, recurring series and the posting queue make. Tests swap it in for
+ * lib/prisma with vi.mock, so they run without a database.
+ *
+ * It understands scalar filters (equals, in, notIn, not, lt/lte/gt/gte),
+ * JSON path filters, relation filters,
+ * AND/OR/NOT, include/select with nested where/orderBy/take, nested create,
+ * connect and updateMany, increments, cascading deletes and unique indexes
+ * (P2002). Transactions run against the same store and are not rolled back.
+ */
+
+type Row = Record<string, unknown>;
+
+interface Relation {
+  model: ModelName;
+  many: boolean;
+  from: string; // Field on this model
+  to: string; // Field on the related model
+}
+
+interface ModelMeta {
+  defaults: () => Row;
+  relations: Record<string, Relation>;
+  unique: string[][]; // Compound unique indexes; rows with a null in them never clash
+  cascade: Array<{ model: ModelName; field: string }>; // Children deleted with the row
+}
+
+const MODEL_NAMES = [
+  'user',
+  'userSettings',
+  'platform',
+  'postingSlot',
+  'post',
+  'postPlatform',
+  'publishAttempt',
+  'mediaFile',
+  'postMedia',
+  'recurringSchedule',
+  'scheduledJob',
+  'auditLog',
+] as const;
+
+export type ModelName = (typeof MODEL_NAMES)[number];
+
+const many = (model: ModelName, to: string, from = 'id'): Relation => ({ model, many: true, from, to });
+const one = (model: ModelName, from: string, to = 'id'): Relation => ({ model, many: false, from, to });
+
+const MODELS: Record<ModelName, ModelMeta> = {
+  user: { defaults: () => ({}), relations: {}, unique: [['email']], cascade: [] },
+  userSettings: { defaults: () => ({}), relations: {}, unique: [['userId']], cascade: [] },
+  platform: {
+    defaults: () => ({ isActive: true, metadata: null, tokenExpiresAt: null, refreshToken: null, lastSyncAt: null }),
+    relations: { posts: many('postPlatform', 'platformId') },
+    unique: [],
+    cascade: [
+      { model: 'postPlatform', field: 'platformId' },
+      { model: 'postingSlot', field: 'platformId' },
+    ],
+  },
+  postingSlot: {
+    defaults: () => ({}),
+    relations: { platform: one('platform', 'platformId') },
+    unique: [['platformId', 'weekday', 'time']],
+    cascade: [],
+  },
+  post: {
+    defaults: () => ({
+      status: 'DRAFT',
+      scheduledAt: null,
+      timezone: null,
+      publishedAt: null,
+      claimedAt: null,
+      recurringScheduleId: null,
+      occurrenceAt: null,
+      queued: false,
+    }),
+    relations: {
+      platforms: many('postPlatform', 'postId'),
+      mediaFiles: many('postMedia', 'postId'),
+      recurringSchedule: one('recurringSchedule', 'recurringScheduleId'),
+      recurringTemplate: one('recurringSchedule', 'id', 'templatePostId'),
+      user: one('user', 'userId'),
+    },
+    unique: [['recurringScheduleId', 'occurrenceAt']],
+    cascade: [
+      { model: 'postPlatform', field: 'postId' },
+      { model: 'postMedia', field: 'postId' },
+      { model: 'recurringSchedule', field: 'templatePostId' },
+    ],
+  },
+  postPlatform: {
+    defaults: () => ({
+      contentOverride: null,
+      status: 'DRAFT',
+      platformPostId: null,
+      platformPostUrl: null,
+      publishedAt: null,
+      errorMessage: null,
+      idempotencyKey: crypto.randomUUID(),
+      lastErrorCode: null,
+      retryDecision: null,
+      nextRetryAt: null,
+      retryBudgetFrom: 0,
+    }),
+    relations: {
+      post: one('post', 'postId'),
+      platform: one('platform', 'platformId'),
+      attempts: many('publishAttempt', 'postPlatformId'),
+    },
+    unique: [['postId', 'platformId'], ['idempotencyKey']],
+    cascade: [{ model: 'publishAttempt', field: 'postPlatformId' }],
+  },
+  publishAttempt: {
+    defaults: () => ({
+      state: 'PENDING',
+      platformPostId: null,
+      platformPostUrl: null,
+      providerResponse: null,
+      errorMessage: null,
+      errorCode: null,
+      retryDecision: null,
+      startedAt: null,
+      finishedAt: null,
+    }),
+    relations: { postPlatform: one('postPlatform', 'postPlatformId') },
+    unique: [['postPlatformId', 'attemptNumber']],
+    cascade: [],
+  },
+  mediaFile: {
+    defaults: () => ({ contentHash: null, missingSince: null, width: null, height: null, duration: null }),
+    relations: { posts: many('postMedia', 'mediaFileId') },
+    unique: [['userId', 'contentHash']],
+    cascade: [{ model: 'postMedia', field: 'mediaFileId' }],
+  },
+  postMedia: {
+    defaults: () => ({ order: 0, altText: null }),
+    relations: { post: one('post', 'postId'), mediaFile: one('mediaFile', 'mediaFileId') },
+    unique: [['postId', 'mediaFileId']],
+    cascade: [],
+  },
+  recurringSchedule: {
+    defaults: () => ({ isActive: true, materializedUntil: null }),
+    relations: {
+      templatePost: one('post', 'templatePostId'),
+      occurrences: many('post', 'recurringScheduleId'),
+    },
+    unique: [['templatePostId']],
+    cascade: [],
+  },
+  scheduledJob: {
+    defaults: () => ({
+      payload: null,
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      errorHistory: null,
+      dispatchedAt: null,
+      deadLetteredAt: null,
+      completedAt: null,
+    }),
+    relations: {},
+    unique: [['jobId']],
+    cascade: [],
+  },
+  auditLog: { defaults: () => ({ metadata: null }), relations: {}, unique: [], cascade: [] },
+};
+
+const OPERATORS = new Set(['equals', 'in', 'notIn', 'not', 'lt', 'lte', 'gt', 'gte', 'contains', 'startsWith', 'path']);
+
+function isPlainObject(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+}
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return comparable(a) === comparable(b);
+}
+
+function compare(a: unknown, b: unknown): number {
+  const x = comparable(a) as number | string;
+  const y = comparable(b) as number | string;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function matchesScalar(value: unknown, filter: unknown): boolean {
+  if (!isPlainObject(filter) || !Object.keys(filter).every(key => OPERATORS.has(key))) {
+    return same(value ?? null, filter);
+  }
+
+  // JSON fields: { path: ['userId'], equals: 'user-1' } filters on the nested value
+  if (Array.isArray(filter.path)) {
+    const { path, ...rest } = filter;
+    const nested = (path as string[]).reduce<unknown>((node, key) => (isPlainObject(node) ? node[key] : undefined), value);
+    return matchesScalar(nested, rest);
+  }
+
+  return Object.entries(filter).every(([op, operand]) => {
+    switch (op) {
+      case 'equals':
+        return same(value ?? null, operand);
+      case 'in':
+        return (operand as unknown[]).some(item => same(value, item));
+      case 'notIn':
+        return !(operand as unknown[]).some(item => same(value, item));
+      case 'not':
+        return !matchesScalar(value, operand);
+      case 'lt':
+        return value != null && compare(value, operand) < 0;
+      case 'lte':
+        return value != null && compare(value, operand) <= 0;
+      case 'gt':
+        return value != null && compare(value, operand) > 0;
+      case 'gte':
+        return value != null && compare(value, operand) >= 0;
+      case 'contains':
+        return typeof value === 'string' && value.includes(operand as string);
+      case 'startsWith':
+        return typeof value === 'string' && value.startsWith(operand as string);
+      default:
+        return false;
+    }
+  });
+}
+
+class ModelDelegate {
+  constructor(
+    private readonly db: MemoryPrisma,
+    private readonly name: ModelName
+  ) {}
+
+  private get meta(): ModelMeta {
+    return MODELS[this.name];
+  }
+
+  private get rows(): Row[] {
+    return this.db.table(this.name);
+  }
+
+  matches(row: Row, where: unknown): boolean {
+    if (!isPlainObject(where)) return true;
+
+    return Object.entries(where).every(([key, filter]) => {
+      if (filter === undefined) return true;
+      if (key === 'AND') return (filter as unknown[]).every(part => this.matches(row, part));
+      if (key === 'OR') return (filter as unknown[]).some(part => this.matches(row, part));
+      if (key === 'NOT') return !this.matches(row, filter);
+
+      const relation = this.meta.relations[key];
+      if (relation) {
+        const related = this.db.delegate(relation.model);
+        const children = this.db.table(relation.model).filter(child => same(child[relation.to], row[relation.from]));
+        const conditions = isPlainObject(filter) ? filter : {};
+        if ('none' in conditions) return !children.some(child => related.matches(child, conditions.none));
+        if ('some' in conditions) return children.some(child => related.matches(child, conditions.some));
+        if ('every' in conditions) return children.every(child => related.matches(child, conditions.every));
+        return children.some(child => related.matches(child, filter));
+      }
+
+      // Compound unique input, e.g. { postId_platformId: { postId, platformId } }
+      if (!(key in row) && isPlainObject(filter) && key.includes('_')) {
+        return this.matches(row, filter);
+      }
+
+      return matchesScalar(row[key], filter);
+    });
+  }
+
+  private sort(rows: Row[], orderBy: unknown): Row[] {
+    const orders = (Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : []) as Row[];
+
+    return [...rows].sort((a, b) => {
+      for (const order of orders) {
+        for (const [field, direction] of Object.entries(order)) {
+          const sort = isPlainObject(direction) ? direction.sort : direction;
+          const nulls = isPlainObject(direction) ? direction.nulls : undefined;
+          const x = a[field] ?? null;
+          const y = b[field] ?? null;
+          if (x === null || y === null) {
+            if (x === y) continue;
+            const nullFirst = nulls ? nulls === 'first' : sort === 'desc';
+            return (x === null) === nullFirst ? -1 : 1;
+          }
+          const result = compare(x, y);
+          if (result !== 0) return sort === 'desc' ? -result : result;
+        }
+      }
+      return 0;
+    });
+  }
+
+  private query(args: Row = {}): Row[] {
+    const found = this.sort(this.rows.filter(row => this.matches(row, args.where)), args.orderBy);
+    const skipped = typeof args.skip === 'number' ? found.slice(args.skip) : found;
+    return typeof args.take === 'number' ? skipped.slice(0, args.take) : skipped;
+  }
+
+  /**
+   * Copy a row and resolve the relations asked for by include or select
+   */
+  project(row: Row, args: Row = {}): Row {
+    const select = isPlainObject(args.select) ? args.select : undefined;
+    const include = isPlainObject(args.include) ? args.include : undefined;
+    const result: Row = {};
+
+    if (select) {
+      for (const [field, wanted] of Object.entries(select)) {
+        if (wanted && !this.meta.relations[field]) result[field] = structuredClone(row[field]);
+      }
+    } else {
+      for (const [field, value] of Object.entries(row)) result[field] = structuredClone(value);
+    }
+
+    for (const [field, wanted] of Object.entries(select ?? include ?? {})) {
+      const relation = this.meta.relations[field];
+      if (!relation || !wanted) continue;
+
+      const nested = isPlainObject(wanted) ? wanted : {};
+      const related = this.db.delegate(relation.model);
+      const where = { ...(isPlainObject(nested.where) ? nested.where : {}), [relation.to]: row[relation.from] ?? null };
+
+      if (relation.many) {
+        result[field] = related.query({ ...nested, where }).map(child => related.project(child, nested));
+      } else {
+        const [child] = row[relation.from] == null ? [] : related.query({ where });
+        result[field] = child ? related.project(child, nested) : null;
+      }
+    }
+
+    return result;
+  }
+
+  private assertUnique(candidate: Row, ignore?: Row): void {
+    for (const fields of this.meta.unique) {
+      if (fields.some(field => candidate[field] == null)) continue;
+      const clash = this.rows.some(row => row !== ignore && fields.every(field => same(row[field], candidate[field])));
+      if (clash) {
+        throw new Prisma.PrismaClientKnownRequestError(
+          `Unique constraint failed on the fields: (${fields.join(', ')})`,
+          { code: 'P2002', clientVersion: 'memory', meta: { target: fields } }
+        );
+      }
+    }
+  }
+
+  /**
+   * Apply the scalar part of a write and collect nested relation writes
+   */
+  private applyData(row: Row, data: Row): Array<() => void> {
+    const nestedWrites: Array<() => void> = [];
+
+    for (const [field, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+
+      const relation = this.meta.relations[field];
+      if (relation && isPlainObject(value)) {
+        if (isPlainObject(value.connect)) {
+          row[relation.from] = value.connect[relation.to];
+        }
+        if (relation.many && value.create) {
+          const items = (Array.isArray(value.create) ? value.create : [value.create]) as Row[];
+          nestedWrites.push(() => {
+            for (const item of items) this.db.delegate(relation.model).insert({ ...item, [relation.to]: row[relation.from] });
+          });
+        }
+        if (relation.many && isPlainObject(value.updateMany)) {
+          const { where, data: childData } = value.updateMany;
+          nestedWrites.push(() => {
+            this.db.delegate(relation.model).updateRows(
+              { AND: [where ?? {}, { [relation.to]: row[relation.from] }] },
+              childData as Row
+            );
+          });
+        }
+        continue;
+      }
+
+      if (isPlainObject(value) && typeof value.increment === 'number') {
+        row[field] = ((row[field] as number | undefined) ?? 0) + value.increment;
+      } else if (isPlainObject(value) && 'set' in value) {
+        row[field] = structuredClone(value.set);
+      } else {
+        row[field] = structuredClone(value);
+      }
+    }
+
+    return nestedWrites;
+  }
+
+  insert(data: Row): Row {
+    const now = new Date();
+    const row: Row = { id: crypto.randomUUID(), ...this.meta.defaults(), createdAt: now, updatedAt: now };
+    const nestedWrites = this.applyData(row, data);
+    this.assertUnique(row);
+    this.rows.push(row);
+    nestedWrites.forEach(write => write());
+    return row;
+  }
+
+  updateRows(where: unknown, data: Row): Row[] {
+    const targets = this.rows.filter(row => this.matches(row, where));
+    for (const row of targets) {
+      const next = { ...row };
+      const nestedWrites = this.applyData(next, data);
+      next.updatedAt = new Date();
+      this.assertUnique(next, row);
+      Object.assign(row, next);
+      nestedWrites.forEach(write => write());
+    }
+    return targets;
+  }
+
+  private remove(rows: Row[]): void {
+    for (const row of rows) {
+      for (const child of this.meta.cascade) {
+        const delegate = this.db.delegate(child.model);
+        delegate.remove(this.db.table(child.model).filter(r => same(r[child.field], row.id)));
+      }
+      const table = this.rows;
+      const index = table.indexOf(row);
+      if (index >= 0) table.splice(index, 1);
+    }
+  }
+
+  private notFound(): never {
+    throw new Prisma.PrismaClientKnownRequestError(`No ${this.name} found`, {
+      code: 'P2025',
+      clientVersion: 'memory',
+    });
+  }
+
+  findMany = (args: Row = {}) => Promise.resolve(this.query(args).map(row => this.project(row, args)));
+
+  findFirst = (args: Row = {}) => {
+    const [row] = this.query({ ...args, take: 1 });
+    return Promise.resolve(row ? this.project(row, args) : null);
+  };
+
+  findUnique = (args: Row) => this.findFirst(args);
+
+  findFirstOrThrow = async (args: Row = {}) => (await this.findFirst(args)) ?? this.notFound();
+
+  count = (args: Row = {}) => Promise.resolve(this.query({ where: args.where }).length);
+
+  create = (args: Row) => {
+    const row = this.insert(args.data as Row);
+    return Promise.resolve(this.project(row, args));
+  };
+
+  createMany = (args: Row) => {
+    const items = (Array.isArray(args.data) ? args.data : [args.data]) as Row[];
+    items.forEach(item => this.insert(item));
+    return Promise.resolve({ count: items.length });
+  };
+
+  update = (args: Row) => {
+    const [row] = this.query({ where: args.where, take: 1 });
+    if (!row) this.notFound();
+    this.updateRows({ id: row.id }, args.data as Row);
+    return Promise.resolve(this.project(row, args));
+  };
+
+  updateMany = (args: Row) => Promise.resolve({ count: this.updateRows(args.where, args.data as Row).length });
+
+  upsert = (args: Row) => {
+    const [row] = this.query({ where: args.where, take: 1 });
+    if (row) {
+      this.updateRows({ id: row.id }, args.update as Row);
+      return Promise.resolve(this.project(row, args));
+    }
+    return this.create({ ...args, data: args.create });
+  };
+
+  delete = (args: Row) => {
+    const [row] = this.query({ where: args.where, take: 1 });
+    if (!row) this.notFound();
+    const projected = this.project(row, args);
+    this.remove([row]);
+    return Promise.resolve(projected);
+  };
+
+  deleteMany = (args: Row = {}) => {
+    const rows = this.query({ where: args.where });
+    this.remove(rows);
+    return Promise.resolve({ count: rows.length });
+  };
+}
+
+export class MemoryPrisma {
+  private tables = new Map<ModelName, Row[]>();
+  private delegates = new Map<ModelName, ModelDelegate>();
+
+  constructor() {
+    for (const name of MODEL_NAMES) {
+      this.delegates.set(name, new ModelDelegate(this, name));
+      Object.defineProperty(this, name, { get: () => this.delegate(name), enumerable: true });
+    }
+  }
+
+  table(name: ModelName): Row[] {
+    let rows = this.tables.get(name);
+    if (!rows) {
+      rows = [];
+      this.tables.set(name, rows);
+    }
+    return rows;
+  }
+
+  delegate(name: ModelName): ModelDelegate {
+    return this.delegates.get(name) as ModelDelegate;
+  }
+
+  /**
+   * Empty every table
+   */
+  reset(): void {
+    this.tables.clear();
+  }
+
+  $transaction(arg: unknown): Promise<unknown> {
+    if (typeof arg === 'function') {
+      return (arg as (tx: MemoryPrisma) => Promise<unknown>)(this);
+    }
+    return Promise.all(arg as Array<Promise<unknown>>);
+  }
+
+  $on(): void {}
+
+  $connect(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  $disconnect(): Promise<void> {
+    return Promise.resolve();
+  }
+}
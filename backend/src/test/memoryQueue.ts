@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+import type { Job, JobsOptions } from 'bullmq';
+
+/**
+ * In-memory stand-in for the BullMQ publish queue. Jobs are held until a
+ * test takes them and hands them to the worker's processJob.
+ */
+export class MemoryQueue {
+  private readonly jobs = new Map<string, Job>();
+
+  add(name: string, data: unknown, opts: JobsOptions = {}): Promise<Job> {
+    const id = opts.jobId ?? crypto.randomUUID();
+
+    // Like BullMQ, a job id that is already queued is ignored
+    if (!this.jobs.has(id)) {
+      this.jobs.set(id, { id, name, data, opts, attemptsMade: 0 } as unknown as Job);
+    }
+    return Promise.resolve(this.jobs.get(id) as Job);
+  }
+
+  remove(jobId: string): Promise<number> {
+    return Promise.resolve(this.jobs.delete(jobId) ? 1 : 0);
+  }
+
+  /**
+   * Take every queued job, in the order they were added
+   */
+  drain(): Job[] {
+    const jobs = [...this.jobs.values()];
+    this.jobs.clear();
+    return jobs;
+  }
+
+  get size(): number {
+    return this.jobs.size;
+  }
+}
@@ -1,9 +1,23 @@
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, UnrecoverableError } from 'bullmq';
 import { publishQueue } from './config/queue.js';
-import { scanAndEnqueueDuePosts } from './jobs/publish.job.js';
+import {
+  scanAndEnqueueDuePosts,
+  markPublishJobStarted,
+  markPublishJobCompleted,
+  markPublishJobFailed,
+  deadLetterPublishJob,
+} from './jobs/publish.job.js';
+import { recoverStalePublishing } from './jobs/recovery.job.js';
+import { collectOrphanedMedia } from './jobs/mediaGc.job.js';
+import { materializeRecurringPosts } from './jobs/recurring.job.js';
 import { publishService } from './services/publish.service.js';
+import { healthService, HEARTBEAT_INTERVAL_MS } from './services/health.service.js';
+import { startWorkerHealthServer } from './workerHealth.js';
+import { env } from './config/env.js';
+import { workerJobDuration } from './lib/metrics.js';
 import { redis } from './lib/redis.js';
 import { logger } from './lib/logger.js';
+import { AppError } from './middleware/errorHandler.js';
 
 async function ensureScannerJob() {
   try {
@@ -25,35 +39,142 @@ async function ensureScannerJob() {
   }
 }
 
-export async function startWorker() {
-  // Ensure the QueueScheduler is initialized (it was imported in config)
-  // Create worker processor
-  const worker = new Worker(
-    'publish',
-    async (job: Job) => {
-      logger.info({ jobName: job.name }, 'Processing job');
+async function ensureRecoveryJob() {
+  try {
+    // Add a repeatable "recover" job that takes back posts stuck in PUBLISHING
+    await publishQueue.add(
+      'recover',
+      {},
+      {
+        jobId: 'recover-stale-posts',
+        repeat: { every: 5 * 60_000 }, // every 5 minutes
+        removeOnComplete: true,
+        removeOnFail: 100,
+      }
+    );
+    logger.info('Scheduled recovery job (every 5 minutes)');
+  } catch (error) {
+    logger.info({ error }, 'Could not create repeatable recovery job (may already exist)');
+  }
+}
+
+async function ensureMediaGcJob() {
+  try {
+    // Add a repeatable "media-gc" job that removes orphaned uploads and media rows
+    await publishQueue.add(
+      'media-gc',
+      {},
+      {
+        jobId: 'collect-orphaned-media',
+        repeat: { every: 60 * 60_000 }, // every hour
+        removeOnComplete: true,
+        removeOnFail: 100,
+      }
+    );
+    logger.info('Scheduled media GC job (every hour)');
+  } catch (error) {
+    logger.info({ error }, 'Could not create repeatable media GC job (may already exist)');
+  }
+}
+
+/**
+ * Tell the API this worker is alive; its readiness report shows the heartbeat
+ */
+function startHeartbeat(worker: Worker) {
+  const beat = () => {
+    if (!worker.isRunning()) return;
+    healthService.writeWorkerHeartbeat().catch((error) => {
+      logger.warn({ error }, 'Failed to write worker heartbeat');
+    });
+  };
+
+  beat();
+  setInterval(beat, HEARTBEAT_INTERVAL_MS).unref();
+}
+
+/**
+ * Run one job from the publish queue
+ */
+export async function processJob(job: Job) {
+  logger.info({ jobName: job.name }, 'Processing job');
+
+  if (job.name === 'scan') {
+    // Tops up recurring series, then claims due posts and relays any
+    // outbox rows left behind by earlier runs
+    const endTimer = workerJobDuration.startTimer({ job: 'scan' });
+    try {
+      const materialized = await materializeRecurringPosts();
+      const count = await scanAndEnqueueDuePosts();
+      logger.info({ count, materialized }, 'Scan complete - claimed posts');
+      return { claimed: count, materialized };
+    } finally {
+      endTimer();
+    }
+  }
+
+  if (job.name === 'recover') {
+    const endTimer = workerJobDuration.startTimer({ job: 'recover' });
+    const count = await recoverStalePublishing().finally(endTimer);
+    logger.info({ count }, 'Recovery complete - recovered posts');
+    return { recovered: count };
+  }
+
+  if (job.name === 'media-gc') {
+    const endTimer = workerJobDuration.startTimer({ job: 'media-gc' });
+    const result = await collectOrphanedMedia().finally(endTimer);
+    logger.info(result, 'Media GC complete');
+    return result;
+  }
+
+  if (job.name === 'publish') {
+    const { postId, userId } = job.data as { postId: string; userId: string };
+    const jobId = job.id ?? '';
+    logger.info({ postId, userId }, 'Starting publish job');
+    if (!(await markPublishJobStarted(jobId))) {
+      logger.info({ postId, jobId }, 'Publish job superseded or already settled; skipping');
+      return { superseded: true };
+    }
+    try {
+      const results = await publishService.publishNow(userId, postId, { claimed: true });
 
-      if (job.name === 'scan') {
-        const count = await scanAndEnqueueDuePosts();
-        logger.info({ count }, 'Scan complete - enqueued jobs');
-        return { enqueued: count };
+      // The post was settled with targets the providers rejected for good:
+      // the job completes in BullMQ but shows up on the Failed jobs page
+      const settled = !results.some(r => r.retryAt || r.inProgress);
+      const failures = results.filter(r => !r.success);
+      if (settled && failures.length > 0) {
+        const error = new Error(
+          `Publishing failed on ${failures.length} of ${results.length} targets: ` +
+            failures.map(f => f.error ?? 'Unknown error').join('; ')
+        );
+        await markPublishJobFailed(jobId, error);
+        await deadLetterPublishJob(jobId, error);
+        logger.warn({ postId, results }, 'Publish job finished with failed targets');
+        return { results };
       }
 
-      if (job.name === 'publish') {
-        const { postId, userId } = job.data as { postId: string; userId: string };
-        logger.info({ postId, userId }, 'Starting publish job');
-        try {
-          const results = await publishService.publishNow(userId, postId);
-          logger.info({ postId, results }, 'Publish job complete');
-          return { results };
-        } catch (error) {
-          logger.error({ error, postId }, 'Publish job failed');
-          throw error;
-        }
+      await markPublishJobCompleted(jobId);
+      logger.info({ postId, results }, 'Publish job complete');
+      return { results };
+    } catch (error) {
+      logger.error({ error, postId }, 'Publish job failed');
+      await markPublishJobFailed(jobId, error);
+      // Post-level problems (not found, wrong status) won't fix themselves
+      if (error instanceof AppError) {
+        throw new UnrecoverableError(error.message);
       }
+      throw error;
+    }
+  }
+
+  throw new Error(`Unknown job name: ${job.name}`);
+}
 
-      throw new Error(`Unknown job name: ${job.name}`);
-    },
+export async function startWorker() {
+  // Ensure the QueueScheduler is initialized (it was imported in config)
+  // Create worker processor
+  const worker = new Worker(
+    'publish',
+    processJob,
     {
       connection: redis,
       concurrency: 2,
@@ -66,6 +187,16 @@ export async function startWorker() {
 
   worker.on('failed', (job, err) => {
     logger.error({ jobId: job?.id, name: job?.name, err }, 'Job failed');
+
+    // Out of attempts (or not worth retrying): park it in the dead-letter state
+    if (job?.id && job.name === 'publish') {
+      const exhausted = err.name === 'UnrecoverableError' || job.attemptsMade >= (job.opts.attempts ?? 1);
+      if (exhausted) {
+        deadLetterPublishJob(job.id, err).catch((error) => {
+          logger.error({ error, jobId: job.id }, 'Failed to dead-letter publish job');
+        });
+      }
+    }
   });
 
   worker.on('error', (err) => {
@@ -73,6 +204,11 @@ export async function startWorker() {
   });
 
   await ensureScannerJob();
+  await ensureRecoveryJob();
+  await ensureMediaGcJob();
+
+  startHeartbeat(worker);
+  startWorkerHealthServer(worker, env.WORKER_HEALTH_PORT);
 
   logger.info('Worker started');
 }
@@ -0,0 +1,57 @@
+import { Server } from 'http';
+import express from 'express';
+import type { Worker } from 'bullmq';
+import { healthService } from './services/health.service.js';
+import { logger } from './lib/logger.js';
+import { metricsHandler } from './lib/metrics.js';
+
+/**
+ * Minimal HTTP server for the worker process, so Docker can tell a running
+ * worker from one that is stuck or cut off from its dependencies.
+ *
+ *   GET /health  the process is up
+ *   GET /ready   the worker is consuming jobs and can reach PostgreSQL and Redis
+ *   GET /metrics Prometheus metrics, protected like the API's
+ */
+export function startWorkerHealthServer(worker: Worker, port: number): Server {
+  const app = express();
+  app.disable('x-powered-by');
+
+  app.get('/health', (_req, res) => {
+    res.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+    });
+  });
+
+  app.get('/ready', async (_req, res) => {
+    try {
+      const [database, redis, queue] = await Promise.all([
+        healthService.checkDatabase(),
+        healthService.checkRedis(),
+        healthService.checkQueue(),
+      ]);
+      const running = worker.isRunning() && !worker.isPaused();
+
+      const report = healthService.report({
+        database,
+        redis,
+        queue,
+        worker: running
+          ? { status: 'ok', latencyMs: 0 }
+          : { status: 'fail', latencyMs: 0, error: 'Worker is not consuming jobs' },
+      });
+      res.status(report.status === 'ready' ? 200 : 503).json(report);
+    } catch (error) {
+      logger.error({ error }, 'Worker readiness check failed');
+      res.status(503).json({ status: 'not_ready', timestamp: new Date().toISOString(), checks: {} });
+    }
+  });
+
+  app.get('/metrics', metricsHandler);
+
+  return app.listen(port, () => {
+    logger.info({ port }, 'Worker health server listening');
+  });
+}
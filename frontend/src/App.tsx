@@ -15,12 +15,14 @@ import { MfaPage } from '@/pages/auth/MfaPage';
 // Dashboard Pages
 import { DashboardPage } from '@/pages/dashboard/DashboardPage';
 import { PostsPage } from '@/pages/posts/PostsPage';
+import { CalendarPage } from '@/pages/posts/CalendarPage';
 import { CreatePostPage } from '@/pages/posts/CreatePostPage';
 import { EditPostPage } from '@/pages/posts/EditPostPage';
 import { PlatformsPage } from '@/pages/platforms/PlatformsPage';
 import { QuotaPage } from '@/pages/quota/QuotaPage';
 import { SettingsPage } from '@/pages/settings/SettingsPage';
 import { ImportPage } from '@/pages/import/ImportPage';
+import { FailedJobsPage } from '@/pages/jobs/FailedJobsPage';
 import MediaPage from '@/pages/media/MediaPage';
 
 function App() {
@@ -39,9 +41,11 @@ function App() {
           <Route element={<DashboardLayout />}>
             <Route path="/dashboard" element={<DashboardPage />} />
             <Route path="/posts" element={<PostsPage />} />
+            <Route path="/calendar" element={<CalendarPage />} />
             <Route path="/posts/new" element={<CreatePostPage />} />
             <Route path="/posts/:id/edit" element={<EditPostPage />} />
             <Route path="/posts/import" element={<ImportPage />} />
+            <Route path="/jobs" element={<FailedJobsPage />} />
             <Route path="/platforms" element={<PlatformsPage />} />
             <Route path="/media" element={<MediaPage />} />
             <Route path="/quota" element={<QuotaPage />} />
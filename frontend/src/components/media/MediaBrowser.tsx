@@ -305,7 +305,7 @@ export function MediaBrowser({
                     <div className="w-full aspect-square rounded overflow-hidden bg-muted mb-2">
                       {file.type === 'image' ? (
                         <img
-                          src={file.url}
+                          src={file.thumbnailUrl ?? file.url}
                           alt={file.name}
                           className="w-full h-full object-cover"
                           loading="lazy"
@@ -364,7 +364,7 @@ export function MediaBrowser({
                       <div className="w-10 h-10 rounded overflow-hidden bg-muted flex-shrink-0">
                         {file.type === 'image' ? (
                           <img
-                            src={file.url}
+                            src={file.thumbnailUrl ?? file.url}
                             alt={file.name}
                             className="w-full h-full object-cover"
                             loading="lazy"
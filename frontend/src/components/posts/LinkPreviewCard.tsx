@@ -0,0 +1,116 @@
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { PLATFORM_CONFIG, PlatformType } from '@/hooks/usePlatforms';
+import { useLinkPreview, LinkPreview } from '@/hooks/useLinkPreview';
+
+interface LinkPreviewCardProps {
+  url: string;
+  platforms: PlatformType[];
+}
+
+const domainOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// X: large image with the domain over it, or a small thumbnail for "summary" cards
+function XCard({ preview }: { preview: LinkPreview }) {
+  const domain = domainOf(preview.canonicalUrl ?? preview.finalUrl);
+
+  if (!preview.image || preview.twitterCard === 'summary') {
+    return (
+      <div className="flex overflow-hidden rounded-2xl border">
+        {preview.image && (
+          <img src={preview.image} alt="" className="h-24 w-24 flex-shrink-0 object-cover" />
+        )}
+        <div className="min-w-0 p-3 text-sm">
+          <p className="truncate text-muted-foreground">{domain}</p>
+          <p className="truncate">{preview.title ?? preview.finalUrl}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="relative overflow-hidden rounded-2xl border">
+        <img src={preview.image} alt="" className="aspect-[1.91/1] w-full object-cover" />
+        <span className="absolute bottom-2 left-2 rounded bg-black/60 px-1.5 text-xs text-white">
+          {preview.title ?? domain}
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">From {domain}</p>
+    </div>
+  );
+}
+
+// Facebook: image on top, then domain, title and description on a grey band
+function FacebookCard({ preview }: { preview: LinkPreview }) {
+  return (
+    <div className="overflow-hidden rounded-md border">
+      {preview.image && (
+        <img src={preview.image} alt="" className="aspect-[1.91/1] w-full object-cover" />
+      )}
+      <div className="space-y-0.5 bg-muted p-3 text-sm">
+        <p className="text-xs uppercase text-muted-foreground">{domainOf(preview.canonicalUrl ?? preview.finalUrl)}</p>
+        <p className="font-semibold leading-snug">{preview.title ?? preview.finalUrl}</p>
+        {preview.description && (
+          <p className="line-clamp-1 text-muted-foreground">{preview.description}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Roughly how the selected platforms will render the post's link
+ */
+export function LinkPreviewCard({ url, platforms }: LinkPreviewCardProps) {
+  const { data: preview, isLoading, error } = useLinkPreview(url);
+  // Other providers render much like Facebook; show X and Facebook, or Facebook alone as the generic card
+  const shown = [...new Set(platforms)].filter(type => type === 'TWITTER' || type === 'FACEBOOK');
+  if (shown.length === 0) shown.push('FACEBOOK');
+
+  return (
+    <div className="space-y-2">
+      <Label>Link preview</Label>
+      {isLoading && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Fetching {domainOf(url)}...
+        </p>
+      )}
+      {error && (
+        <p className="flex items-center gap-1 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error.message}
+        </p>
+      )}
+      {preview && (
+        <>
+          <div className="grid gap-4 md:grid-cols-2">
+            {shown.map(type => (
+              <div key={type} className="space-y-1">
+                <p className="text-xs text-muted-foreground">{PLATFORM_CONFIG[type].name}</p>
+                {type === 'TWITTER' ? <XCard preview={preview} /> : <FacebookCard preview={preview} />}
+              </div>
+            ))}
+          </div>
+          {preview.warnings.length > 0 && (
+            <ul className="space-y-1 text-sm text-yellow-700 dark:text-yellow-500">
+              {preview.warnings.map(warning => (
+                <li key={warning.code} className="flex items-center gap-1">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  {warning.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
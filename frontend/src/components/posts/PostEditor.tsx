@@ -1,6 +1,5 @@
 import { useState, useMemo, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { format } from 'date-fns';
 import { 
   CalendarIcon, 
   ImageIcon, 
@@ -14,7 +13,10 @@ import {
   ChevronUp,
   RefreshCw,
   Check,
-  Undo2
+  Undo2,
+  Repeat,
+  ListOrdered,
+  Layers
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -44,13 +46,51 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { MediaBrowser } from '@/components/media/MediaBrowser';
-import { usePlatforms, PLATFORM_CONFIG, Platform, PlatformType } from '@/hooks/usePlatforms';
+import { LinkPreviewCard } from '@/components/posts/LinkPreviewCard';
+import {
+  usePlatforms,
+  useProviders,
+  isProviderUsable,
+  PLATFORM_CONFIG,
+  Platform,
+  PlatformType,
+} from '@/hooks/usePlatforms';
 import { useCreatePost, useUpdatePost, usePublishPost, Post, CreatePostInput } from '@/hooks/usePosts';
-import { useAIConfig, useRefineContent } from '@/hooks/useAI';
+import {
+  AI_BACKEND_LABELS,
+  RefineContentResult,
+  useAIConfig,
+  useGenerateVariants,
+  useRefineContent,
+} from '@/hooks/useAI';
+import { useSettings } from '@/hooks/useSettings';
+import { useCreateRecurring, useUpdateFuture } from '@/hooks/useRecurring';
+import { useAddToQueue } from '@/hooks/useQueue';
+import {
+  formatInTimeZone,
+  fromZonedInputValue,
+  getBrowserTimeZone,
+  getTimeZones,
+  toZonedInputValue,
+} from '@/lib/timezone';
+import { buildRRule, describeRRule, RepeatOptions, RepeatFrequency, WEEKDAYS } from '@/lib/recurrence';
 import { MediaFileInfo, useMediaRegister } from '@/hooks/useMedia';
 import { cn } from '@/lib/utils';
+import { ApiError } from '@/lib/api';
+import { validateContentContract, extractUrls, ContractViolation, MAX_IMAGES_PER_POST } from '@/lib/contentContract';
+import { countCharacters } from '@/lib/textMetrics';
 import { toast } from '@/hooks/use-toast';
 
+const ACCOUNT_TIME_ZONE = 'account';
+const LINK_PREVIEW_DELAY_MS = 800; // Wait for typing to stop before fetching a link
+
+const DEFAULT_REPEAT: RepeatOptions = {
+  frequency: 'WEEKLY',
+  interval: 1,
+  weekdays: [],
+  end: { type: 'never' },
+};
+
 interface PostEditorProps {
   post?: Post;
   mode?: 'create' | 'edit';
@@ -76,13 +116,21 @@ interface RepostState {
 export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
   const navigate = useNavigate();
   const location = useLocation();
-  const { data: platforms = [], isLoading: platformsLoading } = usePlatforms();
+  const { data: allPlatforms = [], isLoading: connectedLoading } = usePlatforms();
+  const { data: providers = [], isLoading: providersLoading } = useProviders();
+  const platformsLoading = connectedLoading || providersLoading;
   const { data: aiConfig } = useAIConfig();
+  const { data: settings, isLoading: settingsLoading } = useSettings();
+  const userTimeZone = settings?.timezone ?? 'UTC';
   const refineContent = useRefineContent();
+  const generateVariants = useGenerateVariants();
   const createPost = useCreatePost();
   const updatePost = useUpdatePost();
   const publishPost = usePublishPost();
   const registerMedia = useMediaRegister();
+  const createRecurring = useCreateRecurring();
+  const updateFuture = useUpdateFuture();
+  const addToQueue = useAddToQueue();
 
   // Get repost data from navigation state
   const repostData = (location.state as RepostState)?.repostFrom;
@@ -92,12 +140,21 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
   const [selectedPlatformIds, setSelectedPlatformIds] = useState<string[]>(
     post?.platforms.map(p => p.platformId) || repostData?.platformIds || []
   );
-  const [scheduledAt, setScheduledAt] = useState<string>(
-    post?.scheduledAt ? format(new Date(post.scheduledAt), "yyyy-MM-dd'T'HH:mm") : ''
-  );
+  // Wall-clock time in the post's timezone; null means the user's timezone
+  const [scheduledAt, setScheduledAt] = useState<string>('');
+  const [postTimeZone, setPostTimeZone] = useState<string | null>(post?.timezone ?? null);
+  const scheduleTimeZone = postTimeZone ?? userTimeZone;
+  // New posts can start a series; series occurrences can be edited one at a time or onwards
+  const canRepeat = mode === 'create' && !post;
+  const [repeatEnabled, setRepeatEnabled] = useState(false);
+  const [repeat, setRepeat] = useState<RepeatOptions>(DEFAULT_REPEAT);
+  const [editScope, setEditScope] = useState<'single' | 'future'>('single');
+  const series = post?.recurringSchedule ?? null;
+  const editingSeries = !!series && editScope === 'future';
   const [selectedMedia, setSelectedMedia] = useState<MediaFileInfo[]>([]);
   const [showMediaBrowser, setShowMediaBrowser] = useState(false);
   const [mediaSource, setMediaSource] = useState<'media' | 'uploads'>('uploads');
+  const [serverViolations, setServerViolations] = useState<ContractViolation[]>([]);
 
   // AI state
   const [aiExpanded, setAiExpanded] = useState(false);
@@ -105,6 +162,19 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
   const [selectedModel, setSelectedModel] = useState<string>('');
   const [refinedContent, setRefinedContent] = useState<string | null>(null);
   const [originalBeforeRefine, setOriginalBeforeRefine] = useState<string | null>(null);
+  const [refineReview, setRefineReview] = useState<Pick<RefineContentResult, 'diff' | 'urlCheck'> | null>(null);
+
+  // Per-platform versions by platform ID, saved as each target's content override
+  const [overrides, setOverrides] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      post?.platforms.flatMap(p => (p.contentOverride !== null ? [[p.platformId, p.contentOverride]] : [])) ?? []
+    )
+  );
+  const [variantTab, setVariantTab] = useState('');
+  const overriddenIds = useMemo(
+    () => selectedPlatformIds.filter(id => overrides[id] !== undefined),
+    [selectedPlatformIds, overrides]
+  );
 
   // Initialize media from repost data
   useEffect(() => {
@@ -125,6 +195,46 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
     }
   }, []);
 
+  // Show an existing schedule once the timezone it is read in is known
+  const [scheduleLoaded, setScheduleLoaded] = useState(!post?.scheduledAt);
+  useEffect(() => {
+    if (scheduleLoaded || !post?.scheduledAt || settingsLoading) return;
+    setScheduleLoaded(true);
+    setScheduledAt(toZonedInputValue(post.scheduledAt, post.timezone ?? userTimeZone));
+  }, [scheduleLoaded, post, settingsLoading, userTimeZone]);
+
+  const scheduledInstant = useMemo(
+    () => (scheduledAt ? fromZonedInputValue(scheduledAt, scheduleTimeZone) : null),
+    [scheduledAt, scheduleTimeZone]
+  );
+  const timeZones = useMemo(getTimeZones, []);
+
+  // New posts start with the user's default platforms, once they have loaded
+  const [defaultsApplied, setDefaultsApplied] = useState(mode !== 'create' || !!post || !!repostData);
+  useEffect(() => {
+    if (defaultsApplied || !settings || connectedLoading) return;
+    setDefaultsApplied(true);
+    const defaults = settings.defaultPlatformIds.filter(id =>
+      allPlatforms.some(p => p.id === id && p.isActive)
+    );
+    if (defaults.length > 0) {
+      setSelectedPlatformIds(prev => (prev.length > 0 ? prev : defaults));
+    }
+  }, [defaultsApplied, settings, connectedLoading, allPlatforms]);
+
+  // Hide accounts on disabled providers, unless the post still targets them and they need deselecting
+  const platforms = useMemo(() => {
+    return allPlatforms.filter(p =>
+      providers.some(provider => provider.type === p.type) || selectedPlatformIds.includes(p.id)
+    );
+  }, [allPlatforms, providers, selectedPlatformIds]);
+
+  const getUnavailableReason = (type: PlatformType): string | null => {
+    const provider = providers.find(p => p.type === type);
+    if (isProviderUsable(provider)) return null;
+    return provider?.reason ?? 'This platform is not available';
+  };
+
   // Get selected platform types for AI
   const selectedPlatformTypes = useMemo((): PlatformType[] => {
     return selectedPlatformIds
@@ -141,7 +251,7 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
       const platform = platforms.find(p => p.id === platformId);
       if (platform) {
         const config = PLATFORM_CONFIG[platform.type];
-        const current = textToCheck.length;
+        const current = countCharacters(overrides[platformId] ?? textToCheck, platform.type);
         counts[platformId] = {
           current,
           max: config.maxChars,
@@ -151,26 +261,58 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
     });
     
     return counts;
-  }, [content, refinedContent, selectedPlatformIds, platforms]);
+  }, [content, refinedContent, overrides, selectedPlatformIds, platforms]);
 
   // Check if any platform limit is exceeded
   const hasExceededLimit = Object.values(characterCounts).some(c => c.exceeded);
 
-  // Get minimum character limit among selected platforms
-  const minCharLimit = useMemo(() => {
-    if (selectedPlatformIds.length === 0) return null;
-    
-    let min = Infinity;
-    selectedPlatformIds.forEach(platformId => {
-      const platform = platforms.find(p => p.id === platformId);
-      if (platform) {
-        const config = PLATFORM_CONFIG[platform.type];
-        min = Math.min(min, config.maxChars);
+  // The selected platform with the lowest character limit; the main counter counts the way it does
+  const strictestPlatform = useMemo(() => {
+    let strictest: PlatformType | null = null;
+    for (const type of selectedPlatformTypes) {
+      if (!strictest || PLATFORM_CONFIG[type].maxChars < PLATFORM_CONFIG[strictest].maxChars) {
+        strictest = type;
       }
-    });
-    
-    return min === Infinity ? null : min;
-  }, [selectedPlatformIds, platforms]);
+    }
+    return strictest;
+  }, [selectedPlatformTypes]);
+  const minCharLimit = strictestPlatform ? PLATFORM_CONFIG[strictestPlatform].maxChars : null;
+  const countForStrictest = (text: string) => countCharacters(text, strictestPlatform ?? '');
+
+  // Content contract: live check, plus whatever the server rejected on the last submit.
+  // Without new selections the server keeps the post's existing media, so check that.
+  const contractViolations = useMemo(() => {
+    const media = selectedMedia.length > 0
+      ? selectedMedia
+      : post?.mediaFiles.map(m => m.mediaFile) ?? [];
+    // Platform versions are published too, so they are held to the same contract
+    const live = [refinedContent ?? content, ...overriddenIds.map(id => overrides[id] ?? '')]
+      .flatMap(text => validateContentContract({ content: text, media }))
+      .filter((v, index, all) => all.findIndex(other => other.code === v.code) === index);
+    return [...live, ...serverViolations.filter(v => !live.some(l => l.code === v.code))];
+  }, [content, refinedContent, overrides, overriddenIds, selectedMedia, post, serverViolations]);
+
+  // The first link of the post, once it has stopped changing
+  const firstUrl = extractUrls(refinedContent ?? content).valid[0] ?? null;
+  const [previewUrl, setPreviewUrl] = useState<string | null>(firstUrl);
+  useEffect(() => {
+    const timer = setTimeout(() => setPreviewUrl(firstUrl), LINK_PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [firstUrl]);
+
+  const contentViolations = contractViolations.filter(v => v.field === 'content');
+  const mediaViolations = contractViolations.filter(v => v.field === 'media');
+
+  // Server violations are stale once the post changes
+  useEffect(() => {
+    setServerViolations([]);
+  }, [content, refinedContent, overrides, selectedMedia]);
+
+  const handleSubmitError = (error: unknown) => {
+    if (error instanceof ApiError && error.violations) {
+      setServerViolations(error.violations);
+    }
+  };
 
   const handlePlatformToggle = (platformId: string, checked: boolean) => {
     if (checked) {
@@ -181,6 +323,7 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
     // Clear AI refined content when platforms change
     setRefinedContent(null);
     setOriginalBeforeRefine(null);
+    setRefineReview(null);
   };
 
   const handleRemoveMedia = (file: MediaFileInfo) => {
@@ -204,6 +347,7 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
 
       setOriginalBeforeRefine(content);
       setRefinedContent(result.refinedContent);
+      setRefineReview({ diff: result.diff, urlCheck: result.urlCheck });
       toast({ title: 'Content refined successfully!' });
     } catch (error) {
       toast({ 
@@ -219,6 +363,7 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
       setContent(refinedContent);
       setRefinedContent(null);
       setOriginalBeforeRefine(null);
+      setRefineReview(null);
       setAiContext('');
     }
   };
@@ -226,12 +371,67 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
   const handleRejectRefinement = () => {
     setRefinedContent(null);
     setOriginalBeforeRefine(null);
+    setRefineReview(null);
   };
 
   const handleRegenerate = () => {
     handleRefine();
   };
 
+  const handleGenerateVariants = async () => {
+    if (!content.trim()) {
+      toast({ title: 'Please enter some content first', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const result = await generateVariants.mutateAsync({
+        content: content.trim(),
+        platforms: selectedPlatformTypes,
+        additionalContext: aiContext.trim() || undefined,
+        model: selectedModel || aiConfig?.defaultModel,
+      });
+
+      // Accounts on the same platform share its version
+      const generated: Record<string, string> = {};
+      for (const platformId of selectedPlatformIds) {
+        const type = platforms.find(p => p.id === platformId)?.type;
+        const variant = result.variants.find(v => v.platform === type);
+        if (variant) {
+          generated[platformId] = variant.content;
+        }
+      }
+
+      setOverrides(prev => ({ ...prev, ...generated }));
+      setVariantTab(Object.keys(generated)[0] ?? '');
+      toast({ title: `${result.variants.length} platform version(s) written` });
+    } catch (error) {
+      toast({ 
+        title: 'Failed to write platform versions', 
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive' 
+      });
+    }
+  };
+
+  const handleRemoveOverride = (platformId: string) => {
+    setOverrides(prev => {
+      const next = { ...prev };
+      delete next[platformId];
+      return next;
+    });
+  };
+
+  // Sent for every target, so versions that were removed go back to the main text
+  const buildContentOverrides = (): Record<string, string | null> => {
+    return Object.fromEntries(
+      selectedPlatformIds.map(platformId => {
+        const text = overrides[platformId];
+        return [platformId, text?.trim() ? text : null];
+      })
+    );
+  };
+
   // Helper to register media files and get their database IDs
   const registerSelectedMedia = async (): Promise<string[]> => {
     if (selectedMedia.length === 0) {
@@ -261,21 +461,83 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
       const input: CreatePostInput = {
         content: finalContent.trim(),
         platformIds: selectedPlatformIds,
+        contentOverrides: buildContentOverrides(),
         mediaFileIds: mediaFileIds.length > 0 ? mediaFileIds : undefined,
       };
 
-      if (!asDraft && scheduledAt) {
-        input.scheduledAt = new Date(scheduledAt).toISOString();
+      if (editingSeries && post && series) {
+        await updateFuture.mutateAsync({
+          id: series.id,
+          data: {
+            fromPostId: post.id,
+            content: input.content,
+            platformIds: selectedPlatformIds,
+            ...(mediaFileIds.length > 0 && { mediaFileIds }),
+          },
+        });
+        navigate('/posts');
+        return;
+      }
+
+      const startsSeries = canRepeat && repeatEnabled && !asDraft && !!scheduledAt;
+      if (!asDraft && scheduledAt && !startsSeries) {
+        // Sent as wall-clock time; the API reads it in the post's timezone
+        input.scheduledAt = scheduledAt;
+      }
+      if (postTimeZone) {
+        input.timezone = postTimeZone;
+      }
+
+      if (startsSeries) {
+        // The saved draft becomes the series template; occurrences are created from it
+        const template = await createPost.mutateAsync(input);
+        await createRecurring.mutateAsync({
+          postId: template.id,
+          rrule: buildRRule(repeat),
+          startsAt: scheduledAt,
+          ...(postTimeZone && { timezone: postTimeZone }),
+        });
+      } else if (mode === 'edit' && post) {
+        await updatePost.mutateAsync({ id: post.id, data: { ...input, timezone: postTimeZone } });
+      } else {
+        await createPost.mutateAsync(input);
       }
+      navigate('/posts');
+    } catch (error) {
+      // Toast is handled by the mutation; keep contract violations inline
+      handleSubmitError(error);
+    }
+  };
+
+  // Save, then let the queue pick the next free slot of each platform
+  const handleAddToQueue = async () => {
+    const finalContent = refinedContent ?? content;
+    if (!finalContent.trim() || selectedPlatformIds.length === 0) {
+      return;
+    }
+
+    try {
+      const mediaFileIds = await registerSelectedMedia();
+      const input: CreatePostInput = {
+        content: finalContent.trim(),
+        platformIds: selectedPlatformIds,
+        contentOverrides: buildContentOverrides(),
+        mediaFileIds: mediaFileIds.length > 0 ? mediaFileIds : undefined,
+      };
 
+      let postId: string;
       if (mode === 'edit' && post) {
         await updatePost.mutateAsync({ id: post.id, data: input });
+        postId = post.id;
       } else {
-        await createPost.mutateAsync(input);
+        postId = (await createPost.mutateAsync(input)).id;
       }
+
+      await addToQueue.mutateAsync(postId);
       navigate('/posts');
     } catch (error) {
-      // Error is handled by the mutation
+      // Toast is handled by the mutation; keep contract violations inline
+      handleSubmitError(error);
     }
   };
 
@@ -299,6 +561,7 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
       const input: CreatePostInput = {
         content: finalContent.trim(),
         platformIds: selectedPlatformIds,
+        contentOverrides: buildContentOverrides(),
         mediaFileIds: mediaFileIds.length > 0 ? mediaFileIds : undefined,
       };
 
@@ -316,13 +579,15 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
       await publishPost.mutateAsync(postId);
       navigate('/posts');
     } catch (error) {
-      // Error is handled by the mutation
+      // Toast is handled by the mutation; keep contract violations inline
+      handleSubmitError(error);
     }
   };
 
-  const isSubmitting = createPost.isPending || updatePost.isPending;
+  const isSubmitting = createPost.isPending || updatePost.isPending || createRecurring.isPending ||
+    updateFuture.isPending || addToQueue.isPending;
   const isPublishing = publishPost.isPending;
-  const isRefining = refineContent.isPending;
+  const isRefining = refineContent.isPending || generateVariants.isPending;
   const displayContent = refinedContent ?? content;
 
   return (
@@ -359,13 +624,57 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
                 </div>
               </div>
               
+              {/* What the AI changed, and any links it got wrong that were put back */}
+              {refineReview && (
+                <div className="space-y-2">
+                  <Label className="text-muted-foreground">Changes made by AI</Label>
+                  <div className="p-3 border rounded-md text-sm whitespace-pre-wrap">
+                    {refineReview.diff.map((segment, index) => (
+                      <span
+                        key={index}
+                        className={cn(
+                          segment.type === 'insert' && 'bg-green-500/15 text-green-700 dark:text-green-400',
+                          segment.type === 'delete' && 'bg-red-500/15 text-red-700 line-through dark:text-red-400'
+                        )}
+                      >
+                        {segment.text}
+                      </span>
+                    ))}
+                  </div>
+                  {(refineReview.urlCheck.repaired.length > 0 ||
+                    refineReview.urlCheck.restored.length > 0 ||
+                    refineReview.urlCheck.removed.length > 0) && (
+                    <ul className="space-y-1 text-xs text-muted-foreground">
+                      {refineReview.urlCheck.repaired.map(({ from, to }) => (
+                        <li key={`repaired-${to}`} className="flex items-center gap-1">
+                          <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                          The AI changed {to} to {from}; the original link was put back
+                        </li>
+                      ))}
+                      {refineReview.urlCheck.restored.map(url => (
+                        <li key={`restored-${url}`} className="flex items-center gap-1">
+                          <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                          The AI dropped {url}; it was added back at the end
+                        </li>
+                      ))}
+                      {refineReview.urlCheck.removed.map(url => (
+                        <li key={`removed-${url}`} className="flex items-center gap-1">
+                          <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                          The AI added {url}, which isn&apos;t in your post; it was removed
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               {/* Action buttons for refinement */}
               <div className="flex items-center justify-between">
                 <div className="text-sm text-muted-foreground">
-                  {refinedContent.length} characters
+                  {countForStrictest(refinedContent)} characters
                   {minCharLimit && (
                     <span className={cn(
-                      refinedContent.length > minCharLimit ? 'text-destructive' : ''
+                      countForStrictest(refinedContent) > minCharLimit ? 'text-destructive' : ''
                     )}>
                       {' '}/ {minCharLimit}
                     </span>
@@ -416,10 +725,10 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
               {/* Character count indicator */}
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">
-                  {content.length} characters
+                  {countForStrictest(content)} characters
                   {minCharLimit && (
                     <span className={cn(
-                      content.length > minCharLimit ? 'text-destructive' : ''
+                      countForStrictest(content) > minCharLimit ? 'text-destructive' : ''
                     )}>
                       {' '}/ {minCharLimit} (strictest limit)
                     </span>
@@ -429,6 +738,17 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
             </div>
           )}
 
+          {contentViolations.length > 0 && (
+            <ul className="space-y-1 text-sm text-destructive">
+              {contentViolations.map((v) => (
+                <li key={v.code} className="flex items-center gap-1">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  {v.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
           {/* Per-platform character warnings */}
           {hasExceededLimit && (
             <Alert variant="destructive">
@@ -452,6 +772,63 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
             </Alert>
           )}
 
+          {/* Per-platform versions, published instead of the main text */}
+          {overriddenIds.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Layers className="h-4 w-4" />
+                Platform versions
+              </Label>
+              <Tabs
+                value={overriddenIds.includes(variantTab) ? variantTab : overriddenIds[0]}
+                onValueChange={setVariantTab}
+              >
+                <TabsList className="h-auto flex-wrap justify-start">
+                  {overriddenIds.map(platformId => {
+                    const platform = platforms.find(p => p.id === platformId);
+                    return (
+                      <TabsTrigger key={platformId} value={platformId}>
+                        {platform ? `${PLATFORM_CONFIG[platform.type].name} · ${platform.name}` : 'Platform'}
+                      </TabsTrigger>
+                    );
+                  })}
+                </TabsList>
+                {overriddenIds.map(platformId => {
+                  const platform = platforms.find(p => p.id === platformId);
+                  const text = overrides[platformId] ?? '';
+                  const length = countCharacters(text, platform?.type ?? '');
+                  const max = platform ? PLATFORM_CONFIG[platform.type].maxChars : null;
+                  return (
+                    <TabsContent key={platformId} value={platformId} className="space-y-2">
+                      <Textarea
+                        value={text}
+                        onChange={(e) => setOverrides(prev => ({ ...prev, [platformId]: e.target.value }))}
+                        className="min-h-[150px] resize-y"
+                      />
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          {length} characters
+                          {max && (
+                            <span className={cn(length > max ? 'text-destructive' : '')}>
+                              {' '}/ {max}
+                            </span>
+                          )}
+                        </span>
+                        <Button variant="ghost" size="sm" onClick={() => handleRemoveOverride(platformId)}>
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Use main text
+                        </Button>
+                      </div>
+                    </TabsContent>
+                  );
+                })}
+              </Tabs>
+              <p className="text-xs text-muted-foreground">
+                Platforms without their own version publish the main text.
+              </p>
+            </div>
+          )}
+
           {/* AI Assistant Section - Collapsible */}
           {aiConfig?.available && !refinedContent && (
             <Collapsible open={aiExpanded} onOpenChange={setAiExpanded}>
@@ -514,6 +891,19 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
                     )}
                     Refine with AI
                   </Button>
+
+                  <Button
+                    variant="outline"
+                    onClick={handleGenerateVariants}
+                    disabled={isRefining || !content.trim() || selectedPlatformTypes.length === 0}
+                  >
+                    {generateVariants.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Layers className="h-4 w-4 mr-2" />
+                    )}
+                    Write per platform
+                  </Button>
                 </div>
 
                 {selectedPlatformTypes.length > 0 ? (
@@ -526,10 +916,17 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
                     No platform selected - will use Twitter-style concise format (280 chars max)
                   </p>
                 )}
+                {aiConfig.backend.name !== 'openai' && (
+                  <p className="text-xs text-muted-foreground">
+                    Using {AI_BACKEND_LABELS[aiConfig.backend.name]}
+                  </p>
+                )}
               </CollapsibleContent>
             </Collapsible>
           )}
 
+          {previewUrl && <LinkPreviewCard url={previewUrl} platforms={selectedPlatformTypes} />}
+
           {/* Media attachment */}
           <div className="space-y-2">
             <Label>Media Attachments</Label>
@@ -566,6 +963,16 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
                 <span className="text-xs">Add Media</span>
               </button>
             </div>
+            {mediaViolations.length > 0 && (
+              <ul className="space-y-1 text-sm text-destructive">
+                {mediaViolations.map((v) => (
+                  <li key={v.code} className="flex items-center gap-1">
+                    <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                    {v.message}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -599,6 +1006,7 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
                   platform={platform}
                   selected={selectedPlatformIds.includes(platform.id)}
                   characterCount={characterCounts[platform.id]}
+                  unavailableReason={getUnavailableReason(platform.type)}
                   onToggle={(checked) => handlePlatformToggle(platform.id, checked)}
                 />
               ))}
@@ -618,20 +1026,75 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
         <CardContent>
           <div className="space-y-2">
             <Label htmlFor="scheduledAt">Schedule for later (optional)</Label>
-            <Input
-              id="scheduledAt"
-              type="datetime-local"
-              value={scheduledAt}
-              onChange={(e) => setScheduledAt(e.target.value)}
-              min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
-              className="max-w-xs"
-            />
-            {scheduledAt && (
+            <div className="flex flex-wrap gap-2">
+              <Input
+                id="scheduledAt"
+                type="datetime-local"
+                value={scheduledAt}
+                onChange={(e) => setScheduledAt(e.target.value)}
+                min={toZonedInputValue(new Date(), scheduleTimeZone)}
+                className="max-w-xs"
+              />
+              <Select
+                value={postTimeZone ?? ACCOUNT_TIME_ZONE}
+                onValueChange={(value) => setPostTimeZone(value === ACCOUNT_TIME_ZONE ? null : value)}
+              >
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ACCOUNT_TIME_ZONE}>Your timezone ({userTimeZone})</SelectItem>
+                  {timeZones.map(zone => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {scheduledInstant && (
               <p className="text-sm text-muted-foreground">
-                Will be published: {format(new Date(scheduledAt), 'PPpp')}
+                Will be published: {formatInTimeZone(scheduledInstant, scheduleTimeZone, { dateStyle: 'full', timeStyle: 'short' })}
+                {scheduleTimeZone !== getBrowserTimeZone() && (
+                  <> ({formatInTimeZone(scheduledInstant, getBrowserTimeZone())} on this device)</>
+                )}
               </p>
             )}
           </div>
+
+          {canRepeat && (
+            <RepeatSection
+              enabled={repeatEnabled}
+              onEnabledChange={setRepeatEnabled}
+              options={repeat}
+              onChange={setRepeat}
+              hasStart={!!scheduledAt}
+            />
+          )}
+
+          {series && (
+            <div className="mt-4 space-y-2">
+              <Label className="flex items-center gap-2">
+                <Repeat className="h-4 w-4" />
+                Part of a series: {describeRRule(series.rrule)} ({series.timezone})
+              </Label>
+              <Select value={editScope} onValueChange={(value) => setEditScope(value as 'single' | 'future')}>
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="single">This post only</SelectItem>
+                  <SelectItem value="future">This and all future posts</SelectItem>
+                </SelectContent>
+              </Select>
+              {editingSeries && (
+                <p className="text-sm text-muted-foreground">
+                  Content, platforms and media apply to this post and every later one in the series.
+                  Their times follow the series schedule.
+                </p>
+              )}
+            </div>
+          )}
         </CardContent>
         <CardFooter className="flex justify-between">
           <Button variant="outline" onClick={() => navigate('/posts')}>
@@ -646,7 +1109,25 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
               {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Save as Draft
             </Button>
-            {scheduledAt ? (
+            {!series && !(canRepeat && repeatEnabled) && (
+              <Button
+                variant="outline"
+                onClick={handleAddToQueue}
+                disabled={
+                  isSubmitting ||
+                  isPublishing ||
+                  !displayContent.trim() ||
+                  hasExceededLimit ||
+                  contractViolations.length > 0 ||
+                  selectedPlatformIds.length === 0
+                }
+                title="Schedule in the next free posting slot of each platform"
+              >
+                <ListOrdered className="mr-2 h-4 w-4" />
+                Add to Queue
+              </Button>
+            )}
+            {editingSeries ? (
               <Button
                 onClick={() => handleSubmit(false)}
                 disabled={
@@ -654,11 +1135,27 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
                   isPublishing ||
                   !displayContent.trim() ||
                   hasExceededLimit ||
+                  contractViolations.length > 0 ||
                   selectedPlatformIds.length === 0
                 }
               >
                 {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Schedule Post
+                Update Series
+              </Button>
+            ) : scheduledAt ? (
+              <Button
+                onClick={() => handleSubmit(false)}
+                disabled={
+                  isSubmitting ||
+                  isPublishing ||
+                  !displayContent.trim() ||
+                  hasExceededLimit ||
+                  contractViolations.length > 0 ||
+                  selectedPlatformIds.length === 0
+                }
+              >
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {canRepeat && repeatEnabled ? 'Schedule Series' : 'Schedule Post'}
               </Button>
             ) : (
               <Button
@@ -668,6 +1165,7 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
                   isPublishing ||
                   !displayContent.trim() ||
                   hasExceededLimit ||
+                  contractViolations.length > 0 ||
                   selectedPlatformIds.length === 0
                 }
               >
@@ -702,7 +1200,7 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
                 selectionMode
                 selectedFiles={selectedMedia}
                 onSelectionChange={setSelectedMedia}
-                maxSelection={10}
+                maxSelection={MAX_IMAGES_PER_POST}
               />
             </TabsContent>
             <TabsContent value="media" className="flex-1 overflow-auto mt-4">
@@ -711,7 +1209,7 @@ export function PostEditor({ post, mode = 'create' }: PostEditorProps) {
                 selectionMode
                 selectedFiles={selectedMedia}
                 onSelectionChange={setSelectedMedia}
-                maxSelection={10}
+                maxSelection={MAX_IMAGES_PER_POST}
               />
             </TabsContent>
           </Tabs>
@@ -734,23 +1232,28 @@ interface PlatformCardProps {
   platform: Platform;
   selected: boolean;
   characterCount?: { current: number; max: number; exceeded: boolean };
+  unavailableReason: string | null;
   onToggle: (checked: boolean) => void;
 }
 
-function PlatformCard({ platform, selected, characterCount, onToggle }: PlatformCardProps) {
+function PlatformCard({ platform, selected, characterCount, unavailableReason, onToggle }: PlatformCardProps) {
   const config = PLATFORM_CONFIG[platform.type];
+  // Unavailable providers can only be deselected
+  const locked = !!unavailableReason && !selected;
 
   return (
     <div
       className={cn(
-        'relative rounded-lg border p-4 cursor-pointer transition-all',
-        selected ? 'border-primary bg-primary/5' : 'hover:border-primary/50'
+        'relative rounded-lg border p-4 transition-all',
+        locked ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer',
+        selected ? 'border-primary bg-primary/5' : !locked && 'hover:border-primary/50'
       )}
-      onClick={() => onToggle(!selected)}
+      onClick={() => !locked && onToggle(!selected)}
     >
       <div className="flex items-start gap-3">
         <Checkbox
           checked={selected}
+          disabled={locked}
           onCheckedChange={onToggle}
           onClick={(e) => e.stopPropagation()}
         />
@@ -769,6 +1272,9 @@ function PlatformCard({ platform, selected, characterCount, onToggle }: Platform
               @{platform.platformUsername}
             </p>
           )}
+          {unavailableReason && (
+            <p className="text-xs text-muted-foreground mt-1">{unavailableReason}</p>
+          )}
           {selected && characterCount && (
             <div className="mt-2">
               <Badge
@@ -784,3 +1290,132 @@ function PlatformCard({ platform, selected, characterCount, onToggle }: Platform
     </div>
   );
 }
+
+// Recurrence options for a new post
+interface RepeatSectionProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  options: RepeatOptions;
+  onChange: (options: RepeatOptions) => void;
+  hasStart: boolean;
+}
+
+function RepeatSection({ enabled, onEnabledChange, options, onChange, hasStart }: RepeatSectionProps) {
+  const update = (changes: Partial<RepeatOptions>) => onChange({ ...options, ...changes });
+
+  const toggleWeekday = (code: string, checked: boolean) => {
+    update({
+      weekdays: checked
+        ? [...options.weekdays, code]
+        : options.weekdays.filter(day => day !== code),
+    });
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="repeat"
+          checked={enabled}
+          onCheckedChange={(checked) => onEnabledChange(checked === true)}
+        />
+        <Label htmlFor="repeat" className="flex items-center gap-2 cursor-pointer">
+          <Repeat className="h-4 w-4" />
+          Repeat
+        </Label>
+      </div>
+
+      {enabled && (
+        <div className="space-y-3 pl-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm">Every</span>
+            <Input
+              type="number"
+              min={1}
+              max={99}
+              value={options.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-20"
+            />
+            <Select
+              value={options.frequency}
+              onValueChange={(value) => update({ frequency: value as RepeatFrequency })}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="DAILY">{options.interval > 1 ? 'days' : 'day'}</SelectItem>
+                <SelectItem value="WEEKLY">{options.interval > 1 ? 'weeks' : 'week'}</SelectItem>
+                <SelectItem value="MONTHLY">{options.interval > 1 ? 'months' : 'month'}</SelectItem>
+                <SelectItem value="YEARLY">{options.interval > 1 ? 'years' : 'year'}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {options.frequency === 'WEEKLY' && (
+            <div className="flex flex-wrap gap-3">
+              {WEEKDAYS.map(day => (
+                <label key={day.code} className="flex items-center gap-1 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={options.weekdays.includes(day.code)}
+                    onCheckedChange={(checked) => toggleWeekday(day.code, checked === true)}
+                  />
+                  {day.label}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm">Ends</span>
+            <Select
+              value={options.end.type}
+              onValueChange={(value) => {
+                if (value === 'on') update({ end: { type: 'on', date: '' } });
+                else if (value === 'after') update({ end: { type: 'after', count: 10 } });
+                else update({ end: { type: 'never' } });
+              }}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="on">On date</SelectItem>
+                <SelectItem value="after">After</SelectItem>
+              </SelectContent>
+            </Select>
+            {options.end.type === 'on' && (
+              <Input
+                type="date"
+                value={options.end.date}
+                onChange={(e) => update({ end: { type: 'on', date: e.target.value } })}
+                className="max-w-[180px]"
+              />
+            )}
+            {options.end.type === 'after' && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={999}
+                  value={options.end.count}
+                  onChange={(e) => update({ end: { type: 'after', count: Math.max(1, Number(e.target.value) || 1) } })}
+                  className="w-20"
+                />
+                <span className="text-sm">posts</span>
+              </>
+            )}
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {hasStart
+              ? `${describeRRule(buildRRule(options))}, starting at the scheduled time. Upcoming posts are created ahead of time and follow the timezone above, including daylight saving changes.`
+              : 'Pick a schedule time above; the series starts then.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
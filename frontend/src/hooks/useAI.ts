@@ -1,8 +1,18 @@
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { api } from '@/lib/api';
+import { PlatformType } from './usePlatforms';
+
+export type AIBackend = 'openai' | 'openai-compatible' | 'fake';
+
+export const AI_BACKEND_LABELS: Record<AIBackend, string> = {
+  openai: 'OpenAI',
+  'openai-compatible': 'OpenAI-compatible server',
+  fake: 'Fake model (testing)',
+};
 
 export interface AIConfig {
   available: boolean;
+  backend: { name: AIBackend };
   defaultModel: string;
   availableModels: string[];
 }
@@ -14,11 +24,41 @@ export interface RefineContentInput {
   model?: string;
 }
 
+// What happened to the original post's links; the backend repairs them before returning
+export interface UrlCheck {
+  preserved: string[];
+  repaired: { from: string; to: string }[];
+  restored: string[];
+  removed: string[];
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
 export interface RefineContentResult {
   refinedContent: string;
   model: string;
   platforms: string[];
   characterLimit: number;
+  backend: AIBackend;
+  urlCheck: UrlCheck;
+  diff: DiffSegment[];
+}
+
+export interface PlatformVariant {
+  platform: PlatformType;
+  content: string;
+  characterLimit: number;
+  urlCheck: UrlCheck;
+  diff: DiffSegment[];
+}
+
+export interface GenerateVariantsResult {
+  variants: PlatformVariant[];
+  model: string;
+  backend: AIBackend;
 }
 
 /**
@@ -46,3 +86,15 @@ export function useRefineContent() {
     },
   });
 }
+
+/**
+ * Write a separate version of the content for each platform
+ */
+export function useGenerateVariants() {
+  return useMutation<GenerateVariantsResult, Error, RefineContentInput>({
+    mutationFn: async (input) => {
+      const response = await api.post<GenerateVariantsResult>('/api/ai/variants', input);
+      return response.data;
+    },
+  });
+}
@@ -0,0 +1,137 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+import { PostStatus } from './usePosts';
+import { PlatformType } from './usePlatforms';
+
+// Types
+export interface JobErrorEntry {
+  attempt: number;
+  message: string;
+  code?: string;
+  failedAt: string;
+}
+
+export interface JobPostSummary {
+  id: string;
+  content: string;
+  status: PostStatus;
+  scheduledAt: string | null;
+}
+
+export interface DeadLetterJob {
+  id: string;
+  jobId: string;
+  entityId: string;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+  errorHistory: JobErrorEntry[] | null;
+  createdAt: string;
+  deadLetteredAt: string | null;
+  post: JobPostSummary | null;
+}
+
+export interface PublishAttempt {
+  id: string;
+  attemptNumber: number;
+  state: 'PENDING' | 'IN_FLIGHT' | 'SUCCEEDED' | 'UNCERTAIN' | 'FAILED';
+  errorMessage: string | null;
+  errorCode: string | null;
+  retryDecision: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface JobDetail extends Omit<DeadLetterJob, 'post'> {
+  post: (JobPostSummary & {
+    platforms: Array<{
+      id: string;
+      status: PostStatus;
+      errorMessage: string | null;
+      lastErrorCode: string | null;
+      retryDecision: string | null;
+      platform: {
+        id: string;
+        type: PlatformType;
+        name: string;
+        platformUsername: string | null;
+      };
+      attempts: PublishAttempt[];
+    }>;
+  }) | null;
+}
+
+// List dead-lettered jobs
+export function useFailedJobs() {
+  return useQuery<DeadLetterJob[]>({
+    queryKey: ['jobs'],
+    queryFn: async () => {
+      const response = await api.get<{ jobs: DeadLetterJob[] }>('/api/jobs');
+      return response.data.jobs;
+    },
+  });
+}
+
+// Get a single job with its publish attempts
+export function useJob(id: string | null) {
+  return useQuery<JobDetail>({
+    queryKey: ['jobs', id],
+    queryFn: async () => {
+      const response = await api.get<JobDetail>(`/api/jobs/${id}`);
+      return response.data;
+    },
+    enabled: !!id,
+  });
+}
+
+// Requeue a dead-lettered job
+export function useRequeueJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await api.post(`/api/jobs/${id}/requeue`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+      toast({
+        title: 'Job requeued',
+        description: 'The post will be published again shortly.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to requeue job',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+// Discard a dead-lettered job
+export function useDiscardJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/jobs/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      toast({
+        title: 'Job discarded',
+        description: 'The post stays marked as failed.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to discard job',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+
+export type LinkPreviewWarningCode =
+  | 'PAGE_ERROR'
+  | 'NOT_HTML'
+  | 'NO_TITLE'
+  | 'NO_IMAGE'
+  | 'CANONICAL_INVALID'
+  | 'CANONICAL_BROKEN';
+
+export interface LinkPreview {
+  url: string;
+  finalUrl: string;
+  canonicalUrl: string | null;
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  siteName: string | null;
+  twitterCard: string | null;
+  warnings: { code: LinkPreviewWarningCode; message: string }[];
+  fetchedAt: string;
+}
+
+/**
+ * Open Graph card data for a link, fetched by the backend
+ */
+export function useLinkPreview(url: string | null) {
+  return useQuery<LinkPreview, Error>({
+    queryKey: ['link-preview', url],
+    queryFn: async () => {
+      const response = await api.get<LinkPreview>('/api/links/preview', { params: { url: url ?? undefined } });
+      return response.data;
+    },
+    enabled: !!url,
+    staleTime: 10 * 60 * 1000, // The backend caches for longer
+    retry: false,
+  });
+}
@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api } from '@/lib/api';
+import { api, ApiError } from '@/lib/api';
 import { toast } from '@/hooks/use-toast';
 
 export interface MediaFileInfo {
@@ -13,6 +13,7 @@ export interface MediaFileInfo {
   createdAt: string;
   modifiedAt: string;
   url: string;
+  thumbnailUrl?: string;
 }
 
 export interface FolderInfo {
@@ -88,12 +89,19 @@ export function useMediaUpload() {
         formData.append('folder', folder);
       }
       
-      const response = await api.post<MediaFileInfo>('/api/media/upload', formData);
+      const response = await api.post<MediaFileInfo & { mediaFileId: string; deduplicated?: boolean }>(
+        '/api/media/upload',
+        formData
+      );
       return response.data;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['media'] });
-      toast({ title: 'File uploaded successfully' });
+      if (data.deduplicated) {
+        toast({ title: 'File already uploaded', description: `Using the existing copy: ${data.path}` });
+      } else {
+        toast({ title: 'File uploaded successfully' });
+      }
     },
     onError: (error: Error) => {
       toast({ title: 'Upload failed', description: error.message, variant: 'destructive' });
@@ -133,6 +141,15 @@ export function useMediaDelete() {
       toast({ title: 'File deleted successfully' });
     },
     onError: (error: Error) => {
+      if (error instanceof ApiError && error.posts?.length) {
+        const excerpts = error.posts.slice(0, 3).map(post => `"${post.content.slice(0, 40)}"`);
+        toast({
+          title: 'File is still used by posts',
+          description: `Remove it from these posts first: ${excerpts.join(', ')}${error.posts.length > 3 ? ', …' : ''}`,
+          variant: 'destructive',
+        });
+        return;
+      }
       toast({ title: 'Failed to delete file', description: error.message, variant: 'destructive' });
     },
   });
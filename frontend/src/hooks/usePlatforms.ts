@@ -186,6 +186,41 @@ export function usePlatformConfig() {
   });
 }
 
+export type ProviderState = 'enabled' | 'certified' | 'gated' | 'disabled';
+
+export interface ProviderInfo {
+  type: PlatformType;
+  slug: string;
+  name: string;
+  state: ProviderState;
+  usable: boolean; // Enabled or certified, and publishing is implemented
+  reason: string | null;
+  configured: boolean;
+  capabilities: {
+    maxChars: number;
+    maxImages: number;
+    video: boolean;
+    requiresMedia: boolean;
+    tokenRefresh: boolean;
+    reconcile: boolean;
+  };
+}
+
+// Provider registry (disabled providers are not returned)
+export function useProviders() {
+  return useQuery<ProviderInfo[]>({
+    queryKey: ['platforms', 'providers'],
+    queryFn: async () => {
+      const response = await api.get<{ providers: ProviderInfo[] }>('/api/platforms/providers');
+      return response.data.providers;
+    },
+  });
+}
+
+export function isProviderUsable(provider: ProviderInfo | undefined): boolean {
+  return provider?.usable ?? false;
+}
+
 // Get Twitter auth URL
 export function useTwitterAuthUrl() {
   return useMutation({
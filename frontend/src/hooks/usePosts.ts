@@ -1,7 +1,9 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, QueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
+import { formatInTimeZone } from '@/lib/timezone';
 import { toast } from '@/hooks/use-toast';
 import { PlatformType } from './usePlatforms';
+import type { UserSettings } from './useSettings';
 
 // Types
 export type PostStatus = 
@@ -44,11 +46,14 @@ export interface Post {
   content: string;
   status: PostStatus;
   scheduledAt: string | null;
+  timezone: string | null; // null: the user's timezone
   publishedAt: string | null;
   createdAt: string;
   updatedAt: string;
   platforms: PostPlatform[];
   mediaFiles: PostMedia[];
+  recurringSchedule: { id: string; rrule: string; timezone: string } | null; // Set on series occurrences
+  queued: boolean; // Placed in a posting slot by the queue
 }
 
 // Helper to get media URL from storagePath
@@ -81,25 +86,37 @@ export interface PostFilters {
   platformType?: PlatformType;
   fromDate?: string;
   toDate?: string;
+  seriesId?: string;
   page?: number;
   limit?: number;
 }
 
+// scheduledAt may be wall-clock time ("2025-01-15T10:00"), read in the post's timezone
 export interface CreatePostInput {
   content: string;
   scheduledAt?: string;
+  timezone?: string;
   platformIds?: string[];
+  contentOverrides?: Record<string, string | null>; // By platform ID; null uses the main content
   mediaFileIds?: string[];
 }
 
 export interface UpdatePostInput {
   content?: string;
   scheduledAt?: string | null;
+  timezone?: string | null;
   platformIds?: string[];
+  contentOverrides?: Record<string, string | null>;
   mediaFileIds?: string[];
   status?: 'DRAFT' | 'SCHEDULED';
 }
 
+// Scheduled time in the post's timezone, else the user's
+function describeSchedule(post: Post, queryClient: QueryClient): string {
+  const timeZone = post.timezone ?? queryClient.getQueryData<UserSettings>(['settings'])?.timezone ?? 'UTC';
+  return formatInTimeZone(post.scheduledAt!, timeZone);
+}
+
 // List posts
 export function usePosts(filters: PostFilters = {}) {
   const params = new URLSearchParams();
@@ -107,6 +124,7 @@ export function usePosts(filters: PostFilters = {}) {
   if (filters.platformType) params.set('platformType', filters.platformType);
   if (filters.fromDate) params.set('fromDate', filters.fromDate);
   if (filters.toDate) params.set('toDate', filters.toDate);
+  if (filters.seriesId) params.set('seriesId', filters.seriesId);
   if (filters.page) params.set('page', String(filters.page));
   if (filters.limit) params.set('limit', String(filters.limit));
 
@@ -121,6 +139,22 @@ export function usePosts(filters: PostFilters = {}) {
   });
 }
 
+// Every post scheduled (or published) in a range, for the calendar
+export function useCalendarPosts(fromDate: string, toDate: string) {
+  return useQuery<Post[]>({
+    queryKey: ['posts', 'calendar', fromDate, toDate],
+    queryFn: async () => {
+      const posts: Post[] = [];
+      for (let page = 1; ; page++) {
+        const params = new URLSearchParams({ fromDate, toDate, page: String(page), limit: '100' });
+        const response = await api.get<PostsListResponse>(`/api/posts?${params}`);
+        posts.push(...response.data.posts);
+        if (page >= response.data.pages) return posts;
+      }
+    },
+  });
+}
+
 // Get single post
 export function usePost(id: string) {
   return useQuery<Post>({
@@ -158,7 +192,7 @@ export function useCreatePost() {
       toast({
         title: post.status === 'SCHEDULED' ? 'Post scheduled' : 'Post saved as draft',
         description: post.status === 'SCHEDULED' 
-          ? `Post will be published at ${new Date(post.scheduledAt!).toLocaleString()}`
+          ? `Post will be published at ${describeSchedule(post, queryClient)}`
           : 'Your post has been saved.',
       });
     },
@@ -238,7 +272,7 @@ export function useSchedulePost() {
       queryClient.invalidateQueries({ queryKey: ['posts', post.id] });
       toast({
         title: 'Post scheduled',
-        description: `Post will be published at ${new Date(post.scheduledAt!).toLocaleString()}`,
+        description: `Post will be published at ${describeSchedule(post, queryClient)}`,
       });
     },
     onError: (error: Error) => {
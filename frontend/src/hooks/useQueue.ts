@@ -0,0 +1,83 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+import { formatInTimeZone } from '@/lib/timezone';
+import type { Post } from './usePosts';
+import type { UserSettings } from './useSettings';
+
+// Weekly posting time of a platform, in the user's timezone
+export interface PostingSlot {
+  id: string;
+  platformId: string;
+  weekday: number; // 0 = Sunday
+  time: string; // HH:mm
+}
+
+export type SlotInput = Pick<PostingSlot, 'weekday' | 'time'>;
+
+export function usePostingSlots(platformId: string) {
+  return useQuery<PostingSlot[]>({
+    queryKey: ['slots', platformId],
+    queryFn: async () => {
+      const response = await api.get<{ slots: PostingSlot[] }>(`/api/platforms/${platformId}/slots`);
+      return response.data.slots;
+    },
+    enabled: !!platformId,
+  });
+}
+
+export function useUpdatePostingSlots() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ platformId, slots }: { platformId: string; slots: SlotInput[] }) => {
+      const response = await api.put<{ slots: PostingSlot[] }>(`/api/platforms/${platformId}/slots`, { slots });
+      return response.data.slots;
+    },
+    onSuccess: (slots, { platformId }) => {
+      queryClient.setQueryData(['slots', platformId], slots);
+      // Queued posts move onto the new slots
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+      toast({
+        title: 'Posting slots saved',
+        description: 'Queued posts have been moved onto the new slots.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to save posting slots',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+// Put a post in the next free slot of each of its platforms
+export function useAddToQueue() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await api.post<{ posts: Post[] }>(`/api/posts/${id}/queue`);
+      return response.data.posts;
+    },
+    onSuccess: (posts) => {
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+      const timeZone = queryClient.getQueryData<UserSettings>(['settings'])?.timezone ?? 'UTC';
+      toast({
+        title: 'Added to queue',
+        description: posts
+          .map(post => `${post.platforms[0]?.platform.name ?? 'Post'}: ${formatInTimeZone(post.scheduledAt!, post.timezone ?? timeZone)}`)
+          .join(', '),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to add to queue',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
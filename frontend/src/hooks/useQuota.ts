@@ -39,6 +39,7 @@ export interface QuotaResponse {
   platforms: PlatformQuota[];
   summary: QuotaSummary;
   limits: QuotaLimits;
+  timezone: string; // Day and month boundaries are midnight here
 }
 
 export interface QuotaCheckResponse {
@@ -0,0 +1,163 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+import { PlatformType } from './usePlatforms';
+
+export interface RecurringSchedule {
+  id: string;
+  templatePostId: string;
+  rrule: string;
+  timezone: string;
+  startsAt: string;
+  isActive: boolean;
+  materializedUntil: string | null;
+  nextOccurrenceAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  templatePost: {
+    id: string;
+    content: string;
+    platforms: { platform: { id: string; type: PlatformType; name: string } }[];
+  };
+  _count: { occurrences: number };
+}
+
+// startsAt may be wall-clock time, read in the series' timezone
+export interface CreateRecurringInput {
+  postId: string;
+  rrule: string;
+  startsAt: string;
+  timezone?: string;
+}
+
+export interface UpdateRecurringInput {
+  rrule?: string;
+  startsAt?: string;
+  timezone?: string;
+  isActive?: boolean;
+}
+
+export interface UpdateFutureInput {
+  fromPostId: string;
+  content?: string;
+  platformIds?: string[];
+  mediaFileIds?: string[];
+}
+
+// List series
+export function useRecurringSchedules() {
+  return useQuery<RecurringSchedule[]>({
+    queryKey: ['recurring'],
+    queryFn: async () => {
+      const response = await api.get<{ schedules: RecurringSchedule[] }>('/api/recurring');
+      return response.data.schedules;
+    },
+  });
+}
+
+// Make a post repeat
+export function useCreateRecurring() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateRecurringInput) => {
+      const response = await api.post<RecurringSchedule>('/api/recurring', data);
+      return response.data;
+    },
+    onSuccess: (schedule) => {
+      queryClient.invalidateQueries({ queryKey: ['recurring'] });
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+      toast({
+        title: 'Series created',
+        description: `${schedule._count.occurrences} upcoming post(s) scheduled.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to create series',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+// Change a series' rule or pause it
+export function useUpdateRecurring() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateRecurringInput }) => {
+      const response = await api.put<RecurringSchedule>(`/api/recurring/${id}`, data);
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurring'] });
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+      toast({
+        title: 'Series updated',
+        description: 'Upcoming posts have been rescheduled.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to update series',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+// Edit an occurrence and every later one
+export function useUpdateFuture() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateFutureInput }) => {
+      const response = await api.put<{ updated: number }>(`/api/recurring/${id}/future`, data);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['recurring'] });
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+      toast({
+        title: 'Series updated',
+        description: `${data.updated} upcoming post(s) changed.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to update series',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+// End a series
+export function useDeleteRecurring() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/recurring/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurring'] });
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+      toast({
+        title: 'Series ended',
+        description: 'Upcoming posts in the series have been removed.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to end series',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,72 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
+
+export interface QuietHours {
+  start: string; // HH:mm
+  end: string;
+}
+
+export interface UserSettings {
+  timezone: string;
+  defaultPlatformIds: string[];
+  defaultPostTime: string; // HH:mm
+  quietHours: QuietHours | null;
+  conflictGapMinutes: number; // Calendar flags posts on one platform closer than this
+  aiDefaultModel: string | null;
+  notifications: {
+    publishFailure: boolean;
+    publishSuccess: boolean;
+    tokenExpiry: boolean;
+  };
+  shortenLinks: boolean;
+}
+
+export type UpdateSettingsInput = Partial<Omit<UserSettings, 'notifications'>> & {
+  notifications?: Partial<UserSettings['notifications']>;
+};
+
+export function useSettings() {
+  return useQuery<UserSettings>({
+    queryKey: ['settings'],
+    queryFn: async () => {
+      const response = await api.get<UserSettings>('/api/settings');
+      return response.data;
+    },
+  });
+}
+
+/**
+ * The user's timezone, for showing and entering dates
+ */
+export function useTimeZone(): string {
+  const { data } = useSettings();
+  return data?.timezone ?? 'UTC';
+}
+
+export function useUpdateSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: UpdateSettingsInput) => {
+      const response = await api.put<UserSettings>('/api/settings', input);
+      return response.data;
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['settings'], settings);
+      // The AI default model comes from settings
+      queryClient.invalidateQueries({ queryKey: ['ai', 'config'] });
+      toast({
+        title: 'Settings saved',
+        description: 'Your preferences have been updated.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to save settings',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
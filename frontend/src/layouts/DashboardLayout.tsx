@@ -12,6 +12,8 @@ import {
   X,
   Upload,
   FolderOpen,
+  AlertTriangle,
+  CalendarDays,
 } from 'lucide-react';
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
@@ -19,7 +21,9 @@ import { Button } from '@/components/ui/button';
 const navItems = [
   { to: '/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
   { to: '/posts', icon: FileText, label: 'Posts' },
+  { to: '/calendar', icon: CalendarDays, label: 'Calendar' },
   { to: '/posts/import', icon: Upload, label: 'Import' },
+  { to: '/jobs', icon: AlertTriangle, label: 'Failed jobs' },
   { to: '/media', icon: FolderOpen, label: 'Media' },
   { to: '/platforms', icon: Share2, label: 'Platforms' },
   { to: '/quota', icon: PieChart, label: 'Quota' },
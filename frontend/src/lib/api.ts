@@ -1,7 +1,30 @@
 import { getCsrfToken } from './csrf';
+import type { ContractViolation } from './contentContract';
 
 const API_BASE = '';
 
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  violations?: ContractViolation[];
+  posts?: Array<{ id: string; content: string; status: string }>; // Posts blocking a media delete
+
+  constructor(
+    message: string,
+    status: number,
+    code?: string,
+    violations?: ContractViolation[],
+    posts?: Array<{ id: string; content: string; status: string }>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.violations = violations;
+    this.posts = posts;
+  }
+}
+
 interface RequestConfig {
   params?: Record<string, string | undefined>;
   headers?: Record<string, string>;
@@ -55,7 +78,13 @@ class ApiClient {
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: { message: 'Request failed' } }));
-      throw new Error(error.error?.message || 'Request failed');
+      throw new ApiError(
+        error.error?.message || 'Request failed',
+        response.status,
+        error.error?.code,
+        error.error?.violations,
+        error.error?.posts
+      );
     }
 
     const responseData = await response.json();
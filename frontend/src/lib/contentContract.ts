@@ -0,0 +1,81 @@
+/**
+ * Copy of backend/src/schemas/contentContract.schema.ts, so the editor can
+ * flag violations before saving. contentContract.schema.test.ts checks this
+ * file as well; the server still enforces the contract.
+ */
+
+export type ContractViolationCode =
+  | 'URL_REQUIRED'
+  | 'URL_INVALID'
+  | 'TOO_MANY_IMAGES'
+  | 'VIDEO_NOT_ALLOWED'
+  | 'UNSUPPORTED_MEDIA';
+
+export interface ContractViolation {
+  code: ContractViolationCode;
+  field: 'content' | 'media';
+  message: string;
+}
+
+export const MAX_IMAGES_PER_POST = 1;
+
+const URL_CANDIDATE_PATTERN = /https?:\/\/[^\s<>"]*/gi;
+
+export function extractUrls(content: string): { valid: string[]; invalid: string[] } {
+  const valid: string[] = [];
+  const invalid: string[] = [];
+
+  for (const match of content.match(URL_CANDIDATE_PATTERN) ?? []) {
+    const candidate = match.replace(/[.,;:!?)\]]+$/, '');
+    try {
+      const url = new URL(candidate);
+      if ((url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.')) {
+        valid.push(candidate);
+      } else {
+        invalid.push(candidate);
+      }
+    } catch {
+      invalid.push(candidate);
+    }
+  }
+
+  return { valid, invalid };
+}
+
+export function validateContentContract(input: {
+  content: string;
+  media: Array<{ mimeType: string }>;
+}): ContractViolation[] {
+  const violations: ContractViolation[] = [];
+  const { valid, invalid } = extractUrls(input.content);
+
+  if (invalid.length > 0) {
+    violations.push({ code: 'URL_INVALID', field: 'content', message: `Invalid URL: ${invalid[0]}` });
+  }
+
+  if (valid.length === 0) {
+    violations.push({ code: 'URL_REQUIRED', field: 'content', message: 'Posts must include at least one http(s) link' });
+  }
+
+  const images = input.media.filter(m => m.mimeType.startsWith('image/'));
+  const videos = input.media.filter(m => m.mimeType.startsWith('video/'));
+  const other = input.media.length - images.length - videos.length;
+
+  if (videos.length > 0) {
+    violations.push({ code: 'VIDEO_NOT_ALLOWED', field: 'media', message: 'Video attachments are not supported' });
+  }
+
+  if (images.length > MAX_IMAGES_PER_POST) {
+    violations.push({
+      code: 'TOO_MANY_IMAGES',
+      field: 'media',
+      message: `Posts can include at most ${MAX_IMAGES_PER_POST} image (got ${images.length})`,
+    });
+  }
+
+  if (other > 0) {
+    violations.push({ code: 'UNSUPPORTED_MEDIA', field: 'media', message: 'Only image attachments are supported' });
+  }
+
+  return violations;
+}
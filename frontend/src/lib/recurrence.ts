@@ -0,0 +1,90 @@
+/**
+ * The subset of RFC 5545 recurrence rules the editor builds. The backend
+ * accepts more (ordinal BYDAY, BYMONTHDAY, BYMONTH); describeRRule falls back
+ * to the raw rule for those.
+ */
+
+export type RepeatFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type RepeatEnd =
+  | { type: 'never' }
+  | { type: 'on'; date: string } // YYYY-MM-DD, inclusive
+  | { type: 'after'; count: number };
+
+export interface RepeatOptions {
+  frequency: RepeatFrequency;
+  interval: number;
+  weekdays: string[]; // MO..SU, weekly only
+  end: RepeatEnd;
+}
+
+export const WEEKDAYS = [
+  { code: 'MO', label: 'Mon' },
+  { code: 'TU', label: 'Tue' },
+  { code: 'WE', label: 'Wed' },
+  { code: 'TH', label: 'Thu' },
+  { code: 'FR', label: 'Fri' },
+  { code: 'SA', label: 'Sat' },
+  { code: 'SU', label: 'Sun' },
+] as const;
+
+const UNITS: Record<RepeatFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+export function buildRRule(options: RepeatOptions): string {
+  const parts = [`FREQ=${options.frequency}`];
+  if (options.interval > 1) parts.push(`INTERVAL=${options.interval}`);
+  if (options.frequency === 'WEEKLY' && options.weekdays.length > 0) {
+    const ordered = WEEKDAYS.map(day => day.code).filter(code => options.weekdays.includes(code));
+    parts.push(`BYDAY=${ordered.join(',')}`);
+  }
+  if (options.end.type === 'on' && options.end.date) {
+    // A floating date, read in the series' timezone
+    parts.push(`UNTIL=${options.end.date.replace(/-/g, '')}`);
+  } else if (options.end.type === 'after') {
+    parts.push(`COUNT=${options.end.count}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Thu, 5 times"
+ */
+export function describeRRule(rrule: string): string {
+  const parts = new Map(
+    rrule.replace(/^RRULE:/i, '').split(';').map(part => {
+      const [key = '', value = ''] = part.split('=');
+      return [key.toUpperCase(), value.toUpperCase()] as const;
+    })
+  );
+
+  const frequency = parts.get('FREQ') as RepeatFrequency | undefined;
+  const known = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL', 'COUNT']);
+  if (!frequency || !UNITS[frequency] || [...parts.keys()].some(key => !known.has(key))) {
+    return rrule;
+  }
+
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  const unit = UNITS[frequency];
+  let text = interval > 1 ? `Every ${interval} ${unit}s` : `Every ${unit}`;
+
+  const byDay = parts.get('BYDAY');
+  if (byDay) {
+    const labels = byDay.split(',').map(code => WEEKDAYS.find(day => day.code === code)?.label);
+    if (labels.some(label => !label)) return rrule;
+    text += ` on ${labels.join(', ')}`;
+  }
+
+  const until = parts.get('UNTIL');
+  const count = parts.get('COUNT');
+  if (until) {
+    text += ` until ${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+  } else if (count) {
+    text += `, ${count} time${count === '1' ? '' : 's'}`;
+  }
+  return text;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { fromZonedInputValue, toZonedInputValue } from './timezone';
+
+describe('fromZonedInputValue', () => {
+  it('resolves ordinary wall-clock times with the offset in force', () => {
+    expect(fromZonedInputValue('2026-01-15T09:00', 'America/New_York')?.toISOString()).toBe('2026-01-15T14:00:00.000Z');
+    expect(fromZonedInputValue('2026-07-15T09:00', 'America/New_York')?.toISOString()).toBe('2026-07-15T13:00:00.000Z');
+  });
+
+  it('moves a time skipped by spring-forward past the gap, like the backend', () => {
+    const date = fromZonedInputValue('2026-03-08T02:30', 'America/New_York');
+    expect(date?.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(toZonedInputValue(date ?? '', 'America/New_York')).toBe('2026-03-08T03:30');
+  });
+
+  it('resolves a time repeated by fall-back to its first occurrence', () => {
+    // 01:30 happens at EDT (05:30Z) and again at EST (06:30Z)
+    expect(fromZonedInputValue('2026-11-01T01:30', 'America/New_York')?.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+
+  it.each([
+    ['Asia/Kolkata', '2026-03-08T02:30', '2026-03-07T21:00:00.000Z'],
+    ['Asia/Kolkata', '2026-11-01T01:30', '2026-10-31T20:00:00.000Z'],
+    ['UTC', '2026-03-08T02:30', '2026-03-08T02:30:00.000Z'],
+  ])('applies the fixed offset of %s', (timeZone, value, expected) => {
+    expect(fromZonedInputValue(value, timeZone)?.toISOString()).toBe(expected);
+  });
+
+  it('returns null for a malformed value', () => {
+    expect(fromZonedInputValue('', 'America/New_York')).toBeNull();
+    expect(fromZonedInputValue('2026-03-08', 'America/New_York')).toBeNull();
+  });
+
+  it('throws on an unknown zone', () => {
+    expect(() => fromZonedInputValue('2026-03-08T02:30', 'Mars/Olympus_Mons')).toThrow(RangeError);
+  });
+});
+
+describe('toZonedInputValue', () => {
+  it('shows the wall-clock time either side of fall-back', () => {
+    expect(toZonedInputValue('2026-11-01T05:30:00Z', 'America/New_York')).toBe('2026-11-01T01:30');
+    expect(toZonedInputValue('2026-11-01T06:30:00Z', 'America/New_York')).toBe('2026-11-01T01:30');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Dates shown in the user's timezone rather than the browser's. Schedules are
+ * sent to the API as wall-clock time plus a zone and resolved there.
+ */
+
+const DATE_TIME: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' };
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Intl.supportedValuesOf is newer than the ES2020 lib we type against
+export function getTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf?.('timeZone') ?? ['UTC'];
+}
+
+/**
+ * Short zone name at a date, e.g. "CET" or "GMT+2"
+ */
+export function getTimeZoneLabel(timeZone: string, date: Date | string = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(new Date(date));
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+}
+
+/**
+ * Format a date in a timezone, followed by the zone label
+ */
+export function formatInTimeZone(
+  date: Date | string,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = DATE_TIME
+): string {
+  const formatted = new Intl.DateTimeFormat('en-US', { ...options, timeZone }).format(new Date(date));
+  return `${formatted} ${getTimeZoneLabel(timeZone, date)}`;
+}
+
+function getZonedParts(date: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+const pad = (value: number | undefined) => String(value ?? 0).padStart(2, '0');
+
+/**
+ * Value for a datetime-local input showing date's wall-clock time in timeZone
+ */
+export function toZonedInputValue(date: Date | string, timeZone: string): string {
+  const p = getZonedParts(new Date(date), timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+function getOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year ?? 0, (p.month ?? 1) - 1, p.day ?? 1, p.hour ?? 0, p.minute ?? 0, p.second ?? 0);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a datetime-local value refers to in timeZone, for previews.
+ * Mirrors the backend: times skipped by DST move forward, repeated times
+ * resolve to the first occurrence.
+ */
+export function fromZonedInputValue(value: string, timeZone: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+
+  const asUtc = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]));
+  const day = 24 * 60 * 60 * 1000;
+  const offsetBefore = getOffsetMs(new Date(asUtc - day), timeZone);
+  const offsetAfter = getOffsetMs(new Date(asUtc + day), timeZone);
+
+  for (const offset of [offsetBefore, offsetAfter]) {
+    const candidate = new Date(asUtc - offset);
+    if (getOffsetMs(candidate, timeZone) === offset) return candidate;
+  }
+  return new Date(asUtc - offsetBefore);
+}
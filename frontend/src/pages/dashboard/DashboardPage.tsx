@@ -1,11 +1,12 @@
 import { useQuery } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
-import { format } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { FileText, Share2, Clock, AlertTriangle, ExternalLink } from 'lucide-react';
 import { api } from '@/lib/api';
+import { formatInTimeZone } from '@/lib/timezone';
+import { useTimeZone } from '@/hooks/useSettings';
 
 interface RecentPost {
   id: string;
@@ -50,6 +51,7 @@ const statusColors: Record<string, string> = {
 
 export function DashboardPage() {
   const { data: stats, isLoading, error } = useDashboardStats();
+  const timeZone = useTimeZone();
 
   if (error) {
     return (
@@ -175,8 +177,8 @@ export function DashboardPage() {
                         ))}
                         <span className="text-xs text-muted-foreground">
                           {post.publishedAt 
-                            ? `Published ${format(new Date(post.publishedAt), 'MMM d, yyyy h:mm a')}`
-                            : `Created ${format(new Date(post.createdAt), 'MMM d, yyyy h:mm a')}`
+                            ? `Published ${formatInTimeZone(post.publishedAt, timeZone)}`
+                            : `Created ${formatInTimeZone(post.createdAt, timeZone)}`
                           }
                         </span>
                       </div>
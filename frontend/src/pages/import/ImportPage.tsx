@@ -13,6 +13,9 @@ import {
   X,
 } from 'lucide-react';
 import { getCsrfToken } from '@/lib/csrf';
+import { useProviders, isProviderUsable } from '@/hooks/usePlatforms';
+import { useTimeZone } from '@/hooks/useSettings';
+import { formatInTimeZone } from '@/lib/timezone';
 
 interface ImportError {
   row: number;
@@ -43,6 +46,13 @@ export function ImportPage() {
   const [isUploading, setIsUploading] = useState(false);
   const [isDryRun, setIsDryRun] = useState(true);
   const [result, setResult] = useState<ImportResult | null>(null);
+  const { data: providers = [] } = useProviders();
+  const timeZone = useTimeZone();
+
+  // The import format calls X "x"; every other provider uses its slug
+  const importPlatformNames = providers
+    .filter(isProviderUsable)
+    .map(p => (p.type === 'TWITTER' ? 'x' : p.slug));
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -305,8 +315,8 @@ export function ImportPage() {
             <div className="text-sm text-muted-foreground space-y-2">
               <p className="font-medium">Required columns:</p>
               <ul className="list-disc list-inside space-y-1">
-                <li><code>platform</code> - x, linkedin, facebook, instagram, youtube, pinterest</li>
-                <li><code>scheduled_date</code> - ISO 8601 format</li>
+                <li><code>platform</code> - {importPlatformNames.join(', ')}</li>
+                <li><code>scheduled_date</code> - ISO 8601 format; times without an offset are in {timeZone}. Use <code>queue</code> for the next free posting slot</li>
                 <li><code>content</code> - Post text</li>
               </ul>
               <p className="mt-2">
@@ -420,7 +430,7 @@ export function ImportPage() {
                         <tr key={post.id} className="border-t">
                           <td className="px-4 py-2 capitalize">{post.platform}</td>
                           <td className="px-4 py-2">
-                            {new Date(post.scheduled_date).toLocaleString()}
+                            {formatInTimeZone(post.scheduled_date, timeZone)}
                           </td>
                           <td className="px-4 py-2 capitalize">{post.status}</td>
                         </tr>
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Loader2, RotateCcw, Trash2, Search, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  useFailedJobs,
+  useJob,
+  useRequeueJob,
+  useDiscardJob,
+  DeadLetterJob,
+  PublishAttempt,
+} from '@/hooks/useJobs';
+import { PLATFORM_CONFIG } from '@/hooks/usePlatforms';
+import { cn } from '@/lib/utils';
+
+const ATTEMPT_VARIANT: Record<PublishAttempt['state'], 'default' | 'secondary' | 'destructive' | 'success' | 'warning' | 'outline'> = {
+  PENDING: 'secondary',
+  IN_FLIGHT: 'warning',
+  SUCCEEDED: 'success',
+  UNCERTAIN: 'warning',
+  FAILED: 'destructive',
+};
+
+export function FailedJobsPage() {
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const { data: jobs = [], isLoading } = useFailedJobs();
+  const requeueJob = useRequeueJob();
+  const discardJob = useDiscardJob();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Failed jobs</h1>
+        <p className="text-muted-foreground">
+          Publish jobs that ran out of attempts. Inspect, requeue or discard them.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dead-letter queue</CardTitle>
+          <CardDescription>
+            {jobs.length ? `${jobs.length} job${jobs.length !== 1 ? 's' : ''}` : 'Nothing has failed permanently'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              No failed jobs.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {jobs.map((job) => (
+                <FailedJobCard
+                  key={job.id}
+                  job={job}
+                  onInspect={() => setSelectedJobId(job.id)}
+                  onRequeue={() => requeueJob.mutate(job.id)}
+                  onDiscard={() => discardJob.mutate(job.id)}
+                  isBusy={requeueJob.isPending || discardJob.isPending}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <JobDetailDialog jobId={selectedJobId} onClose={() => setSelectedJobId(null)} />
+    </div>
+  );
+}
+
+interface FailedJobCardProps {
+  job: DeadLetterJob;
+  onInspect: () => void;
+  onRequeue: () => void;
+  onDiscard: () => void;
+  isBusy: boolean;
+}
+
+function FailedJobCard({ job, onInspect, onRequeue, onDiscard, isBusy }: FailedJobCardProps) {
+  return (
+    <div className="flex items-start gap-4 p-4 rounded-lg border bg-card">
+      <AlertTriangle className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+
+      <div className="flex-1 min-w-0 space-y-2">
+        {job.post ? (
+          <Link to={`/posts/${job.post.id}/edit`} className="text-sm line-clamp-2 hover:underline">
+            {job.post.content}
+          </Link>
+        ) : (
+          <p className="text-sm italic text-muted-foreground">Post was deleted</p>
+        )}
+
+        {job.lastError && (
+          <p className="text-xs text-destructive break-words">{job.lastError}</p>
+        )}
+
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span>{job.attempts} attempt{job.attempts !== 1 ? 's' : ''}</span>
+          {job.deadLetteredAt && (
+            <span>Failed {format(new Date(job.deadLetteredAt), 'MMM d, yyyy h:mm a')}</span>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Button size="icon" variant="ghost" onClick={onInspect} title="Inspect">
+          <Search className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="ghost" onClick={onRequeue} disabled={isBusy || !job.post} title="Requeue">
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="ghost" onClick={onDiscard} disabled={isBusy} title="Discard">
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function JobDetailDialog({ jobId, onClose }: { jobId: string | null; onClose: () => void }) {
+  const { data: job, isLoading } = useJob(jobId);
+
+  return (
+    <Dialog open={!!jobId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Job details</DialogTitle>
+          <DialogDescription className="break-all">{job?.jobId}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !job ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Job-level errors */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Error history</h3>
+              {job.errorHistory && job.errorHistory.length > 0 ? (
+                <ul className="space-y-2">
+                  {job.errorHistory.map((entry, index) => (
+                    <li key={index} className="text-xs rounded border p-2">
+                      <div className="flex justify-between text-muted-foreground">
+                        <span>Attempt {entry.attempt}{entry.code ? ` · ${entry.code}` : ''}</span>
+                        <span>{format(new Date(entry.failedAt), 'MMM d, h:mm:ss a')}</span>
+                      </div>
+                      <p className="mt-1 break-words">{entry.message}</p>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-muted-foreground">{job.lastError || 'No errors recorded'}</p>
+              )}
+            </div>
+
+            {/* Per-platform publish attempts */}
+            {job.post?.platforms.map((target) => {
+              const config = PLATFORM_CONFIG[target.platform.type];
+              return (
+                <div key={target.id} className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={cn(
+                        'inline-flex items-center px-2 py-0.5 rounded text-xs font-medium text-white',
+                        config?.color || 'bg-gray-500'
+                      )}
+                    >
+                      {config?.icon || '?'}
+                    </span>
+                    <span className="text-sm font-medium">{target.platform.name}</span>
+                    <Badge variant="outline">{target.status}</Badge>
+                    {target.retryDecision && (
+                      <span className="text-xs text-muted-foreground">{target.retryDecision}</span>
+                    )}
+                  </div>
+                  {target.attempts.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No attempts made</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {target.attempts.map((attempt) => (
+                        <li key={attempt.id} className="text-xs flex items-start gap-2">
+                          <Badge variant={ATTEMPT_VARIANT[attempt.state]}>#{attempt.attemptNumber} {attempt.state}</Badge>
+                          <span className="break-words flex-1">
+                            {attempt.errorCode && <span className="font-mono">{attempt.errorCode} </span>}
+                            {attempt.errorMessage}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,8 +4,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, CheckCircle, XCircle, ExternalLink, Trash2 } from 'lucide-react';
-import { usePlatforms, useDeletePlatform, usePlatformConfig, PLATFORM_CONFIG, PlatformType, Platform } from '@/hooks/usePlatforms';
+import { Loader2, CheckCircle, XCircle, ExternalLink, Trash2, Lock } from 'lucide-react';
+import {
+  usePlatforms,
+  useDeletePlatform,
+  useProviders,
+  isProviderUsable,
+  PLATFORM_CONFIG,
+  PlatformType,
+  Platform,
+} from '@/hooks/usePlatforms';
 import { api } from '@/lib/api';
 import { toast } from '@/hooks/use-toast';
 
@@ -34,7 +42,7 @@ const getConfigHint = (type: PlatformType): string => {
 export function PlatformsPage() {
   const [searchParams, setSearchParams] = useSearchParams();
   const { data: platforms = [], isLoading: platformsLoading, refetch } = usePlatforms();
-  const { data: config } = usePlatformConfig();
+  const { data: providers = [], isLoading: providersLoading } = useProviders();
   const deletePlatform = useDeletePlatform();
   const [connectingPlatform, setConnectingPlatform] = useState<PlatformType | null>(null);
 
@@ -118,11 +126,8 @@ export function PlatformsPage() {
     return null;
   };
 
-  const isPlatformConfigured = (type: PlatformType): boolean => {
-    if (!config) return false;
-    const configKey = type.toLowerCase() as keyof typeof config;
-    return config[configKey] ?? false;
-  };
+  // Disabled providers are not returned by the registry, so they drop out here
+  const visiblePlatforms = platformList.filter(info => providers.some(p => p.type === info.type));
 
   return (
     <div className="space-y-6">
@@ -131,16 +136,18 @@ export function PlatformsPage() {
         <p className="text-muted-foreground">Connect and manage your social media accounts</p>
       </div>
 
-      {platformsLoading ? (
+      {platformsLoading || providersLoading ? (
         <div className="flex items-center justify-center py-12">
           <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
         </div>
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {platformList.map((platformInfo) => {
+          {visiblePlatforms.map((platformInfo) => {
             const connectedPlatforms = getConnectedPlatforms(platformInfo.type, platformInfo.subType);
             const connected = connectedPlatforms.length > 0;
-            const isConfigured = isPlatformConfigured(platformInfo.type);
+            const provider = providers.find(p => p.type === platformInfo.type);
+            const isUsable = isProviderUsable(provider);
+            const isConfigured = provider?.configured ?? false;
             const platformConfig = PLATFORM_CONFIG[platformInfo.type];
             const connectedCount = connectedPlatforms.length;
             // Use subType for key since LinkedIn appears twice
@@ -155,8 +162,16 @@ export function PlatformsPage() {
                         <span className="text-xl">{platformConfig.icon}</span>
                       )}
                       {platformInfo.name}
+                      {provider?.state === 'certified' && (
+                        <Badge variant="outline" className="text-xs">Certified</Badge>
+                      )}
                     </CardTitle>
-                    {connected ? (
+                    {!isUsable ? (
+                      <Badge variant="secondary">
+                        <Lock className="h-3 w-3 mr-1" />
+                        Gated
+                      </Badge>
+                    ) : connected ? (
                       <Badge variant="default" className="bg-green-500">
                         <CheckCircle className="h-3 w-3 mr-1" />
                         {connectedCount > 1 ? `Connected (${connectedCount})` : 'Connected'}
@@ -197,6 +212,12 @@ export function PlatformsPage() {
                         );
                       })}
                     </div>
+                  ) : !isUsable ? (
+                    <Alert>
+                      <AlertDescription className="text-xs">
+                        {provider?.reason ?? 'This platform is not available yet.'}
+                      </AlertDescription>
+                    </Alert>
                   ) : isConfigured ? (
                     <Button
                       onClick={() => handleConnect(platformInfo.type, platformInfo.subType)}
@@ -0,0 +1,348 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, Loader2, Plus, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useCalendarPosts, usePosts, useSchedulePost, Post, PostStatus } from '@/hooks/usePosts';
+import { PLATFORM_CONFIG } from '@/hooks/usePlatforms';
+import { useSettings } from '@/hooks/useSettings';
+import { toast } from '@/hooks/use-toast';
+import { fromZonedInputValue, getTimeZoneLabel, toZonedInputValue } from '@/lib/timezone';
+import { cn } from '@/lib/utils';
+
+type CalendarView = 'month' | 'week';
+
+const STATUS_STYLES: Record<PostStatus, { label: string; className: string }> = {
+  DRAFT: { label: 'Draft', className: 'bg-slate-100 text-slate-800 border-slate-300' },
+  SCHEDULED: { label: 'Scheduled', className: 'bg-blue-100 text-blue-800 border-blue-300' },
+  PUBLISHING: { label: 'Publishing', className: 'bg-amber-100 text-amber-800 border-amber-300' },
+  PUBLISHED: { label: 'Published', className: 'bg-green-100 text-green-800 border-green-300' },
+  PARTIALLY_PUBLISHED: { label: 'Partial', className: 'bg-orange-100 text-orange-800 border-orange-300' },
+  FAILED: { label: 'Failed', className: 'bg-red-100 text-red-800 border-red-300' },
+};
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const DRAG_TYPE = 'text/plain';
+
+// Calendar days are "YYYY-MM-DD" keys in the user's timezone
+function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year ?? 1970, (month ?? 1) - 1, (date ?? 1) + days)).toISOString().slice(0, 10);
+}
+
+// Days since Monday
+function weekdayIndex(day: string): number {
+  return (new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+function getPostTime(post: Post): string | null {
+  return post.scheduledAt ?? post.publishedAt;
+}
+
+function canReschedule(post: Post): boolean {
+  return post.status === 'DRAFT' || post.status === 'SCHEDULED';
+}
+
+/**
+ * Posts on the same platform closer together than the gap, with the
+ * platforms they clash on
+ */
+function findConflicts(posts: Post[], gapMinutes: number): Map<string, string[]> {
+  const conflicts = new Map<string, string[]>();
+  if (gapMinutes <= 0) return conflicts;
+
+  const byPlatform = new Map<string, { post: Post; at: number; name: string }[]>();
+  for (const post of posts) {
+    const time = getPostTime(post);
+    if (!time) continue;
+    for (const target of post.platforms) {
+      const entries = byPlatform.get(target.platformId) ?? [];
+      entries.push({ post, at: new Date(time).getTime(), name: target.platform.name });
+      byPlatform.set(target.platformId, entries);
+    }
+  }
+
+  for (const entries of byPlatform.values()) {
+    entries.sort((a, b) => a.at - b.at);
+    for (let i = 1; i < entries.length; i++) {
+      const previous = entries[i - 1]!;
+      const current = entries[i]!;
+      if (current.at - previous.at < gapMinutes * 60_000) {
+        for (const { post, name } of [previous, current]) {
+          const names = conflicts.get(post.id) ?? [];
+          if (!names.includes(name)) names.push(name);
+          conflicts.set(post.id, names);
+        }
+      }
+    }
+  }
+  return conflicts;
+}
+
+export function CalendarPage() {
+  const { data: settings } = useSettings();
+  const timeZone = settings?.timezone ?? 'UTC';
+  const gapMinutes = settings?.conflictGapMinutes ?? 30;
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => toZonedInputValue(new Date(), timeZone).slice(0, 10));
+  const schedulePost = useSchedulePost();
+  const today = toZonedInputValue(new Date(), timeZone).slice(0, 10);
+
+  const days = useMemo(() => {
+    const start = view === 'month' ? `${anchor.slice(0, 7)}-01` : anchor;
+    const gridStart = addDays(start, -weekdayIndex(start));
+    return Array.from({ length: view === 'month' ? 42 : 7 }, (_, i) => addDays(gridStart, i));
+  }, [anchor, view]);
+
+  const firstDay = days[0]!;
+  const lastDay = days[days.length - 1]!;
+  const fromDate = fromZonedInputValue(`${firstDay}T00:00`, timeZone)?.toISOString() ?? '';
+  const toDate = new Date((fromZonedInputValue(`${addDays(lastDay, 1)}T00:00`, timeZone)?.getTime() ?? 0) - 1).toISOString();
+
+  const { data: posts = [], isLoading } = useCalendarPosts(fromDate, toDate);
+  const { data: drafts } = usePosts({ status: 'DRAFT', limit: 50 });
+  const unscheduledDrafts = useMemo(() => (drafts?.posts ?? []).filter(post => !post.scheduledAt), [drafts]);
+  const allPosts = useMemo(() => [...posts, ...unscheduledDrafts], [posts, unscheduledDrafts]);
+
+  const conflicts = useMemo(() => findConflicts(posts, gapMinutes), [posts, gapMinutes]);
+
+  // Posts by day, and by day and hour for the week view
+  const postsBySlot = useMemo(() => {
+    const slots = new Map<string, Post[]>();
+    for (const post of posts) {
+      const time = getPostTime(post);
+      if (!time) continue;
+      const wall = toZonedInputValue(time, timeZone);
+      for (const key of [wall.slice(0, 10), wall.slice(0, 13)]) {
+        slots.set(key, [...(slots.get(key) ?? []), post]);
+      }
+    }
+    return slots;
+  }, [posts, timeZone]);
+
+  const move = (direction: -1 | 1) => {
+    if (view === 'week') {
+      setAnchor(addDays(anchor, direction * 7));
+    } else {
+      const [year = 1970, month = 1] = anchor.split('-').map(Number);
+      setAnchor(new Date(Date.UTC(year, month - 1 + direction, 1)).toISOString().slice(0, 10));
+    }
+  };
+
+  /**
+   * Reschedule a dropped post. Month cells keep the post's time of day
+   * (drafts get the default post time); week cells set the hour.
+   */
+  const handleDrop = (event: React.DragEvent, day: string, hour?: number) => {
+    event.preventDefault();
+    const post = allPosts.find(p => p.id === event.dataTransfer.getData(DRAG_TYPE));
+    if (!post || !canReschedule(post)) return;
+
+    const time = getPostTime(post);
+    const wallTime = time ? toZonedInputValue(time, timeZone).slice(11, 16) : settings?.defaultPostTime ?? '09:00';
+    const wall = hour === undefined
+      ? `${day}T${wallTime}`
+      : `${day}T${String(hour).padStart(2, '0')}:${wallTime.slice(3, 5)}`;
+
+    const scheduledAt = fromZonedInputValue(wall, timeZone);
+    if (!scheduledAt || scheduledAt <= new Date()) {
+      toast({ title: 'Pick a time in the future', variant: 'destructive' });
+      return;
+    }
+    if (time && scheduledAt.getTime() === new Date(time).getTime()) return;
+
+    // Sent as an absolute time: the post may have a timezone of its own
+    schedulePost.mutate({ id: post.id, scheduledAt: scheduledAt.toISOString() });
+  };
+
+  const dropTarget = (day: string, hour?: number) => ({
+    onDragOver: (event: React.DragEvent) => event.preventDefault(),
+    onDrop: (event: React.DragEvent) => handleDrop(event, day, hour),
+  });
+
+  const title = view === 'month'
+    ? new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }).format(new Date(`${anchor}T00:00:00Z`))
+    : `${formatDay(firstDay)} – ${formatDay(lastDay)}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Calendar</h1>
+          <p className="text-muted-foreground">
+            Drag posts to reschedule them. Times are in {timeZone} ({getTimeZoneLabel(timeZone)}).
+          </p>
+        </div>
+        <Button asChild>
+          <Link to="/posts/new">
+            <Plus className="h-4 w-4 mr-2" />
+            Create Post
+          </Link>
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="icon" onClick={() => move(-1)} title="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setAnchor(today)}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => move(1)} title="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <h2 className="text-xl font-semibold">{title}</h2>
+        {(isLoading || schedulePost.isPending) && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)} className="ml-auto">
+          <TabsList>
+            <TabsTrigger value="month">Month</TabsTrigger>
+            <TabsTrigger value="week">Week</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {Object.entries(STATUS_STYLES).map(([status, style]) => (
+          <span key={status} className={cn('rounded border px-2 py-0.5', style.className)}>
+            {style.label}
+          </span>
+        ))}
+        {gapMinutes > 0 && (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <AlertTriangle className="h-3 w-3 text-destructive" />
+            Within {gapMinutes} min of another post on the same platform
+          </span>
+        )}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_240px]">
+        <Card>
+          <CardContent className="p-2 overflow-x-auto">
+            {view === 'month' ? (
+              <div className="grid grid-cols-7 gap-px bg-border min-w-[700px]">
+                {WEEKDAY_LABELS.map(label => (
+                  <div key={label} className="bg-background p-2 text-xs font-medium text-muted-foreground">
+                    {label}
+                  </div>
+                ))}
+                {days.map(day => (
+                  <div
+                    key={day}
+                    className={cn(
+                      'bg-background min-h-[110px] p-1 space-y-1',
+                      day.slice(0, 7) !== anchor.slice(0, 7) && 'bg-muted/40'
+                    )}
+                    {...dropTarget(day)}
+                  >
+                    <div className={cn('text-xs', day === today ? 'font-bold text-primary' : 'text-muted-foreground')}>
+                      {Number(day.slice(8, 10))}
+                    </div>
+                    {(postsBySlot.get(day) ?? []).map(post => (
+                      <CalendarPost key={post.id} post={post} timeZone={timeZone} conflicts={conflicts.get(post.id)} />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-[48px_repeat(7,1fr)] gap-px bg-border min-w-[800px]">
+                <div className="bg-background" />
+                {days.map((day, i) => (
+                  <div
+                    key={day}
+                    className={cn('bg-background p-2 text-xs font-medium', day === today ? 'text-primary' : 'text-muted-foreground')}
+                  >
+                    {WEEKDAY_LABELS[i]} {Number(day.slice(8, 10))}
+                  </div>
+                ))}
+                {HOURS.map(hour => (
+                  <WeekRow key={hour} hour={hour}>
+                    {days.map(day => (
+                      <div key={day} className="bg-background min-h-[40px] p-0.5 space-y-0.5" {...dropTarget(day, hour)}>
+                        {(postsBySlot.get(`${day}T${String(hour).padStart(2, '0')}`) ?? []).map(post => (
+                          <CalendarPost key={post.id} post={post} timeZone={timeZone} conflicts={conflicts.get(post.id)} />
+                        ))}
+                      </div>
+                    ))}
+                  </WeekRow>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Unscheduled drafts</CardTitle>
+            <CardDescription>Drag onto the calendar to schedule</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {unscheduledDrafts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No drafts</p>
+            ) : (
+              unscheduledDrafts.map(post => (
+                <CalendarPost key={post.id} post={post} timeZone={timeZone} />
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function formatDay(day: string): string {
+  return new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }).format(new Date(`${day}T00:00:00Z`));
+}
+
+function WeekRow({ hour, children }: { hour: number; children: React.ReactNode }) {
+  return (
+    <>
+      <div className="bg-background p-1 text-right text-xs text-muted-foreground">
+        {String(hour).padStart(2, '0')}:00
+      </div>
+      {children}
+    </>
+  );
+}
+
+interface CalendarPostProps {
+  post: Post;
+  timeZone: string;
+  conflicts?: string[] | undefined;
+}
+
+function CalendarPost({ post, timeZone, conflicts }: CalendarPostProps) {
+  const time = getPostTime(post);
+  const draggable = canReschedule(post);
+  const style = STATUS_STYLES[post.status];
+  const tooltip = [
+    style.label,
+    conflicts && `Too close to another post on ${conflicts.join(', ')}`,
+  ].filter(Boolean).join(' · ');
+
+  const body = (
+    <div
+      draggable={draggable}
+      onDragStart={(event) => event.dataTransfer.setData(DRAG_TYPE, post.id)}
+      className={cn(
+        'rounded border px-1 py-0.5 text-xs truncate',
+        style.className,
+        draggable && 'cursor-grab active:cursor-grabbing',
+        conflicts && 'ring-2 ring-destructive'
+      )}
+      title={tooltip}
+    >
+      {conflicts && <AlertTriangle className="inline h-3 w-3 mr-1 text-destructive" />}
+      {time && <span className="font-medium mr-1">{toZonedInputValue(time, timeZone).slice(11, 16)}</span>}
+      {post.platforms.map(p => PLATFORM_CONFIG[p.platform.type]?.icon ?? '').join('')}{' '}
+      {post.content}
+    </div>
+  );
+
+  return draggable ? <Link to={`/posts/${post.id}/edit`}>{body}</Link> : body;
+}
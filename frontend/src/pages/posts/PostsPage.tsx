@@ -1,6 +1,5 @@
 import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { format } from 'date-fns';
 import {
   Plus,
   Calendar,
@@ -13,6 +12,10 @@ import {
   CalendarOff,
   Image,
   Repeat2,
+  Repeat,
+  Pause,
+  Play,
+  ListOrdered,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -34,6 +37,10 @@ import {
 } from '@/components/ui/dialog';
 import { usePosts, useDeletePost, useUnschedulePost, Post, PostStatus, getMediaUrl } from '@/hooks/usePosts';
 import { PLATFORM_CONFIG, PlatformType } from '@/hooks/usePlatforms';
+import { useRecurringSchedules, useUpdateRecurring, useDeleteRecurring } from '@/hooks/useRecurring';
+import { useTimeZone } from '@/hooks/useSettings';
+import { formatInTimeZone } from '@/lib/timezone';
+import { describeRRule } from '@/lib/recurrence';
 import { cn } from '@/lib/utils';
 
 const STATUS_CONFIG: Record<PostStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'success' | 'warning' | 'outline'; icon: React.ComponentType<{ className?: string }> }> = {
@@ -48,16 +55,24 @@ const STATUS_CONFIG: Record<PostStatus, { label: string; variant: 'default' | 's
 export function PostsPage() {
   const navigate = useNavigate();
   const [statusFilter, setStatusFilter] = useState<PostStatus | 'all'>('all');
+  const [seriesFilter, setSeriesFilter] = useState<string>('all');
   const [deleteDialog, setDeleteDialog] = useState<{ open: boolean; post: Post | null }>({
     open: false,
     post: null,
   });
 
-  const { data, isLoading } = usePosts(
-    statusFilter === 'all' ? {} : { status: statusFilter }
-  );
+  const { data, isLoading } = usePosts({
+    ...(statusFilter !== 'all' && { status: statusFilter }),
+    ...(seriesFilter !== 'all' && { seriesId: seriesFilter }),
+  });
+  const { data: schedules = [] } = useRecurringSchedules();
   const deletePost = useDeletePost();
   const unschedulePost = useUnschedulePost();
+  const updateRecurring = useUpdateRecurring();
+  const deleteRecurring = useDeleteRecurring();
+  const [endSeriesDialog, setEndSeriesDialog] = useState(false);
+
+  const selectedSeries = schedules.find(schedule => schedule.id === seriesFilter);
 
   const posts = data?.posts || [];
 
@@ -68,6 +83,14 @@ export function PostsPage() {
     }
   };
 
+  const handleEndSeries = async () => {
+    if (selectedSeries) {
+      await deleteRecurring.mutateAsync(selectedSeries.id);
+      setEndSeriesDialog(false);
+      setSeriesFilter('all');
+    }
+  };
+
   const handleRepost = (post: Post) => {
     // Navigate to create post with pre-populated content
     navigate('/posts/new', {
@@ -113,6 +136,49 @@ export function PostsPage() {
             <SelectItem value="FAILED">Failed</SelectItem>
           </SelectContent>
         </Select>
+
+        {schedules.length > 0 && (
+          <Select value={seriesFilter} onValueChange={setSeriesFilter}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue placeholder="Filter by series" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All series</SelectItem>
+              {schedules.map((schedule) => (
+                <SelectItem key={schedule.id} value={schedule.id}>
+                  {schedule.templatePost.content.slice(0, 40) || describeRRule(schedule.rrule)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {selectedSeries && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">
+              {describeRRule(selectedSeries.rrule)} ({selectedSeries.timezone})
+              {!selectedSeries.isActive && ' · paused'}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => updateRecurring.mutate({
+                id: selectedSeries.id,
+                data: { isActive: !selectedSeries.isActive },
+              })}
+              disabled={updateRecurring.isPending}
+            >
+              {selectedSeries.isActive ? (
+                <><Pause className="h-4 w-4 mr-2" />Pause</>
+              ) : (
+                <><Play className="h-4 w-4 mr-2" />Resume</>
+              )}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setEndSeriesDialog(true)}>
+              End series
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Posts List */}
@@ -179,6 +245,32 @@ export function PostsPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* End Series Confirmation Dialog */}
+      <Dialog open={endSeriesDialog} onOpenChange={setEndSeriesDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>End Series</DialogTitle>
+            <DialogDescription>
+              Upcoming posts in this series that haven't been published will be deleted.
+              Published posts and the original post are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEndSeriesDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleEndSeries}
+              disabled={deleteRecurring.isPending}
+            >
+              {deleteRecurring.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              End series
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -194,6 +286,7 @@ function PostCard({ post, onDelete, onUnschedule, onRepost }: PostCardProps) {
   const statusConfig = STATUS_CONFIG[post.status];
   const StatusIcon = statusConfig.icon;
   const hasMedia = post.mediaFiles && post.mediaFiles.length > 0;
+  const timeZone = useTimeZone();
 
   return (
     <div className="flex items-start gap-4 p-4 rounded-lg border bg-card hover:bg-muted/50 transition-colors">
@@ -246,17 +339,17 @@ function PostCard({ post, onDelete, onUnschedule, onRepost }: PostCardProps) {
 
         {/* Timestamps */}
         <div className="flex items-center gap-4 text-xs text-muted-foreground">
-          <span>Created {format(new Date(post.createdAt), 'MMM d, yyyy')}</span>
+          <span>Created {formatInTimeZone(post.createdAt, timeZone, { dateStyle: 'medium' })}</span>
           {post.scheduledAt && (
             <span className="flex items-center gap-1">
               <Calendar className="h-3 w-3" />
-              Scheduled for {format(new Date(post.scheduledAt), 'MMM d, yyyy h:mm a')}
+              Scheduled for {formatInTimeZone(post.scheduledAt, post.timezone ?? timeZone)}
             </span>
           )}
           {post.publishedAt && (
             <span className="flex items-center gap-1">
               <CheckCircle className="h-3 w-3" />
-              Published {format(new Date(post.publishedAt), 'MMM d, yyyy h:mm a')}
+              Published {formatInTimeZone(post.publishedAt, timeZone)}
             </span>
           )}
         </div>
@@ -268,6 +361,18 @@ function PostCard({ post, onDelete, onUnschedule, onRepost }: PostCardProps) {
           <StatusIcon className={cn('h-3 w-3', post.status === 'PUBLISHING' && 'animate-spin')} />
           {statusConfig.label}
         </Badge>
+        {post.recurringSchedule && (
+          <Badge variant="outline" className="flex items-center gap-1" title={describeRRule(post.recurringSchedule.rrule)}>
+            <Repeat className="h-3 w-3" />
+            Repeats
+          </Badge>
+        )}
+        {post.queued && post.status === 'SCHEDULED' && (
+          <Badge variant="outline" className="flex items-center gap-1" title="Scheduled in a posting slot">
+            <ListOrdered className="h-3 w-3" />
+            Queued
+          </Badge>
+        )}
 
         {/* Action buttons */}
         <div className="flex items-center gap-1">
@@ -126,7 +126,10 @@ export function QuotaPage() {
             <TrendingUp className="h-5 w-5" />
             Usage Overview
           </CardTitle>
-          <CardDescription>Track your API consumption to stay within free tier limits</CardDescription>
+          <CardDescription>
+            Track your API consumption to stay within free tier limits
+            {data?.timezone && <> · Days and months start at midnight {data.timezone}</>}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           {isLoading ? (
@@ -1,12 +1,38 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { api } from '@/lib/api';
-import { Loader2, AlertCircle, CheckCircle2, Shield, Copy } from 'lucide-react';
+import { getTimeZones } from '@/lib/timezone';
+import { useSettings, useUpdateSettings, UserSettings } from '@/hooks/useSettings';
+import { usePlatforms, PLATFORM_CONFIG } from '@/hooks/usePlatforms';
+import { AI_BACKEND_LABELS, useAIConfig } from '@/hooks/useAI';
+import { usePostingSlots, useUpdatePostingSlots, SlotInput } from '@/hooks/useQueue';
+import { Loader2, AlertCircle, CheckCircle2, Shield, Copy, SlidersHorizontal, ListOrdered, X } from 'lucide-react';
+
+const SERVER_DEFAULT_MODEL = 'server-default';
+
+// Monday first; values are Date#getDay() numbers
+const SLOT_WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
 
 export function SettingsPage() {
   const { user, checkSession } = useAuth();
@@ -20,6 +46,8 @@ export function SettingsPage() {
 
       <div className="grid gap-6">
         <ProfileSection user={user} />
+        <PreferencesSection />
+        <PostingSlotsSection />
         <SecuritySection user={user} onUpdate={checkSession} />
       </div>
     </div>
@@ -50,6 +78,376 @@ function ProfileSection({ user }: { user: { email: string; name: string | null }
   );
 }
 
+function PreferencesSection() {
+  const { data: settings, isLoading } = useSettings();
+  const { data: platforms = [] } = usePlatforms();
+  const { data: aiConfig } = useAIConfig();
+  const updateSettings = useUpdateSettings();
+  const [form, setForm] = useState<UserSettings | null>(null);
+
+  useEffect(() => {
+    if (settings) setForm(settings);
+  }, [settings]);
+
+  const timeZones = useMemo(() => {
+    const zones = getTimeZones();
+    return form && !zones.includes(form.timezone) ? [form.timezone, ...zones] : zones;
+  }, [form]);
+
+  if (isLoading || !form) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const update = (changes: Partial<UserSettings>) => setForm({ ...form, ...changes });
+
+  const toggleDefaultPlatform = (platformId: string, checked: boolean) => {
+    update({
+      defaultPlatformIds: checked
+        ? [...form.defaultPlatformIds, platformId]
+        : form.defaultPlatformIds.filter(id => id !== platformId),
+    });
+  };
+
+  const save = () => {
+    updateSettings.mutate({
+      timezone: form.timezone,
+      defaultPlatformIds: form.defaultPlatformIds.filter(id => platforms.some(p => p.id === id)),
+      defaultPostTime: form.defaultPostTime,
+      quietHours: form.quietHours,
+      conflictGapMinutes: form.conflictGapMinutes,
+      aiDefaultModel: form.aiDefaultModel,
+      notifications: form.notifications,
+      shortenLinks: form.shortenLinks,
+    });
+  };
+
+  const quietHoursInvalid = form.quietHours !== null && form.quietHours.start === form.quietHours.end;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Preferences
+        </CardTitle>
+        <CardDescription>Defaults for scheduling, new posts and notifications</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Timezone</Label>
+            <Select value={form.timezone} onValueChange={(timezone) => update({ timezone })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZones.map(zone => (
+                  <SelectItem key={zone} value={zone}>
+                    {zone}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="defaultPostTime">Default post time</Label>
+            <Input
+              id="defaultPostTime"
+              type="time"
+              value={form.defaultPostTime}
+              onChange={(e) => update({ defaultPostTime: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Used for imported posts that only have a date
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Default platforms</Label>
+          {platforms.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No platforms connected yet</p>
+          ) : (
+            <div className="grid gap-2 sm:grid-cols-2">
+              {platforms.map(platform => (
+                <label key={platform.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.defaultPlatformIds.includes(platform.id)}
+                    onCheckedChange={(checked) => toggleDefaultPlatform(platform.id, checked === true)}
+                  />
+                  {platform.name}
+                  <span className="text-muted-foreground">{PLATFORM_CONFIG[platform.type]?.name}</span>
+                </label>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">Preselected when you create a post</p>
+        </div>
+
+        {aiConfig?.available && (
+          <div className="space-y-2">
+            <Label>Default AI model</Label>
+            <Select
+              value={form.aiDefaultModel ?? SERVER_DEFAULT_MODEL}
+              onValueChange={(value) => update({ aiDefaultModel: value === SERVER_DEFAULT_MODEL ? null : value })}
+            >
+              <SelectTrigger className="sm:w-[280px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SERVER_DEFAULT_MODEL}>Server default</SelectItem>
+                {aiConfig.availableModels.map(model => (
+                  <SelectItem key={model} value={model}>
+                    {model}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Served by {AI_BACKEND_LABELS[aiConfig.backend.name]}
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <Checkbox
+              checked={form.quietHours !== null}
+              onCheckedChange={(checked) =>
+                update({ quietHours: checked === true ? { start: '22:00', end: '07:00' } : null })
+              }
+            />
+            Quiet hours
+          </label>
+          {form.quietHours && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                className="w-[140px]"
+                value={form.quietHours.start}
+                onChange={(e) => form.quietHours && update({ quietHours: { ...form.quietHours, start: e.target.value } })}
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="time"
+                className="w-[140px]"
+                value={form.quietHours.end}
+                onChange={(e) => form.quietHours && update({ quietHours: { ...form.quietHours, end: e.target.value } })}
+              />
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Posts can't be scheduled in this window; imported posts are moved to its end
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="conflictGap">Calendar conflict gap (minutes)</Label>
+          <Input
+            id="conflictGap"
+            type="number"
+            min={0}
+            max={1440}
+            className="w-[140px]"
+            value={form.conflictGapMinutes}
+            onChange={(e) => update({ conflictGapMinutes: Math.min(1440, Math.max(0, Number(e.target.value) || 0)) })}
+          />
+          <p className="text-xs text-muted-foreground">
+            Posts to the same platform closer together than this are highlighted in the calendar
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Notifications</Label>
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={form.notifications.publishFailure}
+                onCheckedChange={(checked) =>
+                  update({ notifications: { ...form.notifications, publishFailure: checked === true } })
+                }
+              />
+              When a post fails to publish
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={form.notifications.publishSuccess}
+                onCheckedChange={(checked) =>
+                  update({ notifications: { ...form.notifications, publishSuccess: checked === true } })
+                }
+              />
+              When a post is published
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={form.notifications.tokenExpiry}
+                onCheckedChange={(checked) =>
+                  update({ notifications: { ...form.notifications, tokenExpiry: checked === true } })
+                }
+              />
+              When a platform connection expires
+            </label>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={form.shortenLinks}
+            onCheckedChange={(checked) => update({ shortenLinks: checked === true })}
+          />
+          Shorten links in posts
+        </label>
+
+        <Button onClick={save} disabled={updateSettings.isPending || quietHoursInvalid}>
+          {updateSettings.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save preferences
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PostingSlotsSection() {
+  const { data: settings } = useSettings();
+  const { data: platforms = [] } = usePlatforms();
+  const [platformId, setPlatformId] = useState('');
+  const { data: savedSlots, isLoading } = usePostingSlots(platformId);
+  const updateSlots = useUpdatePostingSlots();
+  const [slots, setSlots] = useState<SlotInput[]>([]);
+  const [newDays, setNewDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [newTime, setNewTime] = useState('09:00');
+
+  useEffect(() => {
+    if (!platformId && platforms[0]) setPlatformId(platforms[0].id);
+  }, [platformId, platforms]);
+
+  useEffect(() => {
+    if (savedSlots) setSlots(savedSlots.map(({ weekday, time }) => ({ weekday, time })));
+  }, [savedSlots]);
+
+  const addSlots = () => {
+    const added = newDays
+      .map(weekday => ({ weekday, time: newTime }))
+      .filter(slot => !slots.some(s => s.weekday === slot.weekday && s.time === slot.time));
+    setSlots([...slots, ...added]);
+  };
+
+  const removeSlot = (slot: SlotInput) => {
+    setSlots(slots.filter(s => s.weekday !== slot.weekday || s.time !== slot.time));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="h-5 w-5" />
+          Posting Queue
+        </CardTitle>
+        <CardDescription>
+          Weekly times that "Add to queue" fills, per platform, in {settings?.timezone ?? 'your timezone'}.
+          Slots past a platform's daily or monthly quota are skipped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {platforms.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No platforms connected yet</p>
+        ) : (
+          <>
+            <Select value={platformId} onValueChange={setPlatformId}>
+              <SelectTrigger className="sm:w-[280px]">
+                <SelectValue placeholder="Select a platform" />
+              </SelectTrigger>
+              <SelectContent>
+                {platforms.map(platform => (
+                  <SelectItem key={platform.id} value={platform.id}>
+                    {platform.name} ({PLATFORM_CONFIG[platform.type]?.name})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {isLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            ) : (
+              <div className="space-y-2">
+                {SLOT_WEEKDAYS.map(day => {
+                  const times = slots
+                    .filter(slot => slot.weekday === day.value)
+                    .sort((a, b) => a.time.localeCompare(b.time));
+                  return (
+                    <div key={day.value} className="flex items-center gap-2 text-sm">
+                      <span className="w-10 font-medium">{day.label}</span>
+                      {times.length === 0 ? (
+                        <span className="text-muted-foreground">No slots</span>
+                      ) : (
+                        times.map(slot => (
+                          <span
+                            key={slot.time}
+                            className="inline-flex items-center gap-1 rounded-md border px-2 py-0.5"
+                          >
+                            {slot.time}
+                            <button
+                              type="button"
+                              onClick={() => removeSlot(slot)}
+                              className="text-muted-foreground hover:text-foreground"
+                              title="Remove slot"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </span>
+                        ))
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-3">
+              {SLOT_WEEKDAYS.map(day => (
+                <label key={day.value} className="flex items-center gap-1 text-sm">
+                  <Checkbox
+                    checked={newDays.includes(day.value)}
+                    onCheckedChange={(checked) =>
+                      setNewDays(checked === true
+                        ? [...newDays, day.value]
+                        : newDays.filter(d => d !== day.value))
+                    }
+                  />
+                  {day.label}
+                </label>
+              ))}
+              <Input
+                type="time"
+                className="w-[140px]"
+                value={newTime}
+                onChange={(e) => setNewTime(e.target.value)}
+              />
+              <Button variant="outline" onClick={addSlots} disabled={newDays.length === 0 || !newTime}>
+                Add slot
+              </Button>
+            </div>
+
+            <Button
+              onClick={() => updateSlots.mutate({ platformId, slots })}
+              disabled={!platformId || updateSlots.isPending}
+            >
+              {updateSlots.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save slots
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function SecuritySection({ 
   user, 
   onUpdate 